@@ -11,6 +11,9 @@
 // - BRAND constants for header titles
 // - Admin tab conditional rendering based on role
 // - Full header styling and theme integration
+//
+// Settings tab shows an outbox badge while offline writes are waiting to sync
+// (amber = pending, red = needs review). useOutboxSync drives the replays.
 
 import { Ionicons } from "@expo/vector-icons";
 import { Tabs } from "expo-router";
@@ -23,6 +26,7 @@ import { usePushNotifications } from "../../hooks/usePushNotifications";
 import { useUserProfile } from "../../hooks/useUserProfile";
 // FIX: Replaced useUnreadAlerts with useLowStockCount for accurate badge count
 import { useLowStockCount } from "../../hooks/useLowStockCount";
+import { useOutbox, useOutboxSync } from "../../hooks/useOutbox";
 
 export default function TabLayout() {
   const theme = useAppTheme();
@@ -37,6 +41,10 @@ export default function TabLayout() {
   // FIX: Low stock count replaces unreadCount — dynamically computed from Firestore
   const lowStockCount = useLowStockCount(siteId);
 
+  // Offline outbox: replay queued writes and badge what is still waiting
+  useOutboxSync();
+  const { pendingCount, conflictCount } = useOutbox();
+  const outboxCount = pendingCount + conflictCount;
 
   return (
     <Tabs
@@ -145,7 +153,35 @@ export default function TabLayout() {
           title: "Settings",
           headerTitle: `${BRAND.appName} Settings`,
           tabBarIcon: ({ color, size }) => (
-            <Ionicons name="settings-outline" color={color} size={size} />
+            <View style={{ width: size, height: size }}>
+              <Ionicons name="settings-outline" color={color} size={size} />
+              {outboxCount > 0 && (
+                <View
+                  style={{
+                    position: "absolute",
+                    top: -4,
+                    right: -6,
+                    backgroundColor: conflictCount > 0 ? "#ef4444" : "#f59e0b",
+                    borderRadius: 10,
+                    minWidth: 18,
+                    height: 18,
+                    justifyContent: "center",
+                    alignItems: "center",
+                    paddingHorizontal: 4,
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: "#fff",
+                      fontSize: 11,
+                      fontWeight: "900",
+                    }}
+                  >
+                    {outboxCount > 99 ? "99+" : outboxCount}
+                  </Text>
+                </View>
+              )}
+            </View>
           ),
         }}
       />
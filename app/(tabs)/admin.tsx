@@ -1,5 +1,7 @@
 // app/(tabs)/admin.tsx
 
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
 import { sendPasswordResetEmail } from "firebase/auth";
 import {
   collection,
@@ -21,6 +23,7 @@ import {
   Pressable,
   ScrollView,
   Text,
+  TextInput,
   View,
 } from "react-native";
 
@@ -28,6 +31,13 @@ import { useAppTheme } from "../../constants/theme";
 import { auth, db } from "../../firebaseConfig";
 import { SITES } from "../../hooks/useSiteContext";
 import { useUserProfile } from "../../hooks/useUserProfile";
+import {
+  describeCounts,
+  isValidSiteId,
+  pickSiteBackup,
+  restoreSiteBackup,
+  SiteBackup,
+} from "../../utils/siteBackup";
 
 type SiteRow = {
   id: string;
@@ -150,6 +160,12 @@ export default function AdminScreen() {
 
   const [alsoUpdateTokens, setAlsoUpdateTokens] = useState(true);
 
+  // Site restore
+  const [backup, setBackup] = useState<SiteBackup | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState("");
+  const [restoring, setRestoring] = useState(false);
+  const [restoreProgress, setRestoreProgress] = useState<string | null>(null);
+
   useEffect(() => {
     let alive = true;
 
@@ -312,6 +328,57 @@ export default function AdminScreen() {
     }
   };
 
+  const handlePickBackup = async () => {
+    try {
+      const picked = await pickSiteBackup();
+      if (!picked) return;
+      setBackup(picked);
+      setRestoreTarget(picked.siteId);
+    } catch (e: any) {
+      if (__DEV__) console.log("Backup read error:", e);
+      Alert.alert("Can't read backup", e.message || "Could not read this file.");
+    }
+  };
+
+  const runRestore = async (source: SiteBackup, target: string) => {
+    setRestoring(true);
+    setRestoreProgress("Checking target site…");
+    try {
+      const counts = await restoreSiteBackup(source, target, (written, total) =>
+        setRestoreProgress(`Writing ${written} / ${total}…`)
+      );
+      Alert.alert("Restored", `${source.siteId} → ${target}\n\n${describeCounts(counts)}`);
+      setBackup(null);
+      if (!sites.some((x) => x.id === target)) {
+        setSites((prev) => [...prev, { id: target, ...(source.site ?? {}) }]);
+      }
+    } catch (e: any) {
+      if (__DEV__) console.log("Restore error:", e);
+      Alert.alert("Restore failed", e.message || "Could not restore the backup.");
+    } finally {
+      setRestoring(false);
+      setRestoreProgress(null);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    const target = restoreTarget.trim();
+    if (!isValidSiteId(target)) {
+      Alert.alert("Invalid site ID", "Site IDs use letters, numbers, _ or - (3–64 characters).");
+      return;
+    }
+    const cloning = target !== backup.siteId;
+    Alert.alert(
+      cloning ? "Clone Site" : "Restore Site",
+      `${cloning ? `Copy ${backup.siteId} into the new site "${target}"` : `Rebuild "${target}" from this backup`}? The target site must have no data. If an earlier restore of this backup stopped partway, this picks up where it left off.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: cloning ? "Clone" : "Restore", style: "destructive", onPress: () => runRestore(backup, target) },
+      ]
+    );
+  };
+
   if (!isAdmin) {
     return (
       <View style={{ flex: 1, backgroundColor: theme.background, padding: 16 }}>
@@ -343,6 +410,32 @@ export default function AdminScreen() {
           Manage users and site assignments
         </Text>
 
+        {/* MODEL CATALOG */}
+        <Pressable
+          onPress={() => router.push("/catalog" as any)}
+          style={({ pressed }) => ({
+            marginTop: 16,
+            backgroundColor: theme.card,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: theme.border,
+            padding: 14,
+            flexDirection: "row",
+            alignItems: "center",
+            gap: 12,
+            opacity: pressed ? 0.8 : 1,
+          })}
+        >
+          <Ionicons name="library-outline" size={22} color={theme.tint} />
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: theme.text, fontWeight: "900", fontSize: 16 }}>Model Catalog</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 4 }}>
+              Printer models and consumables shared by every site
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={theme.mutedText} />
+        </Pressable>
+
         {/* USER LIST */}
         <View
           style={{
@@ -510,6 +603,104 @@ export default function AdminScreen() {
           </Text>
         </Pressable>
 
+        {/* SITE RESTORE */}
+        <Text style={{ color: theme.text, fontSize: 18, fontWeight: "900", marginTop: 24 }}>
+          Restore Site Backup
+        </Text>
+        <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 4 }}>
+          Rebuild a site from a backup made in Settings, or clone it into a new site ID. The target site must be empty.
+        </Text>
+
+        <View
+          style={{
+            marginTop: 12,
+            backgroundColor: theme.card,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: theme.border,
+            padding: 14,
+          }}
+        >
+          <Pressable
+            onPress={handlePickBackup}
+            disabled={restoring}
+            style={({ pressed }) => ({
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: theme.border,
+              paddingVertical: 12,
+              paddingHorizontal: 12,
+              opacity: restoring ? 0.6 : pressed ? 0.8 : 1,
+            })}
+          >
+            <Text style={{ color: theme.text, fontWeight: "900" }}>
+              {backup ? `Backup of ${backup.siteId}` : "Choose backup file (.json / .zip)…"}
+            </Text>
+            {backup ? (
+              <Text style={{ color: theme.mutedText, marginTop: 4, fontSize: 12 }}>
+                {new Date(backup.exportedAt).toLocaleString()} • by {backup.exportedBy} • v{backup.version}
+              </Text>
+            ) : null}
+          </Pressable>
+
+          {backup && (
+            <>
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 12 }}>
+                {describeCounts(backup.counts) || "No records in this backup."}
+              </Text>
+
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 12 }}>Restore into siteId</Text>
+              <TextInput
+                value={restoreTarget}
+                onChangeText={setRestoreTarget}
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!restoring}
+                placeholder="e.g. ballys_tiverton"
+                placeholderTextColor={theme.mutedText}
+                style={{
+                  marginTop: 8,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: theme.border,
+                  paddingVertical: 10,
+                  paddingHorizontal: 12,
+                  color: theme.text,
+                }}
+              />
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 6 }}>
+                {restoreTarget.trim() && restoreTarget.trim() !== backup.siteId
+                  ? "New site ID: records get new IDs so the original site is untouched."
+                  : "Same site ID: records keep their original IDs."}
+              </Text>
+            </>
+          )}
+        </View>
+
+        {backup && (
+          <Pressable
+            onPress={handleRestore}
+            disabled={restoring || !restoreTarget.trim()}
+            style={({ pressed }) => ({
+              marginTop: 16,
+              backgroundColor: theme.danger,
+              borderRadius: 999,
+              paddingVertical: 12,
+              alignItems: "center",
+              opacity: restoring || !restoreTarget.trim() ? 0.6 : pressed ? 0.85 : 1,
+            })}
+          >
+            {restoring ? (
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+                <ActivityIndicator color="#fff" size="small" />
+                <Text style={{ color: "#fff", fontWeight: "900" }}>{restoreProgress ?? "Restoring…"}</Text>
+              </View>
+            ) : (
+              <Text style={{ color: "#fff", fontWeight: "900" }}>Restore backup</Text>
+            )}
+          </Pressable>
+        )}
+
         <View style={{ height: 40 }} />
       </View>
 
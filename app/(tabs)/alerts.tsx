@@ -17,10 +17,12 @@
 
 import { Ionicons } from "@expo/vector-icons";
 import * as FileSystem from "expo-file-system/legacy";
+import { router } from "expo-router";
 import * as Sharing from "expo-sharing";
 import {
   collection,
   doc,
+  getDocs,
   limit,
   onSnapshot,
   orderBy,
@@ -35,6 +37,7 @@ import {
   Alert,
   Animated,
   FlatList,
+  Modal,
   Platform,
   Pressable,
   ScrollView,
@@ -43,13 +46,27 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { PrinterLevelAlerts } from "../../components/PrinterLevelAlerts";
 import { useAppTheme } from "../../constants/theme";
-import { db } from "../../firebaseConfig";
+import { auth, db } from "../../firebaseConfig";
 import { useUserProfile } from "../../hooks/useUserProfile";
+import {
+  computeForecast,
+  FORECAST_WINDOW_DAYS,
+  Forecast,
+  formatDailyUsage,
+  formatDaysLeft,
+  usageFromAlertsLog,
+} from "../../utils/forecast";
+import { createDraftPurchaseOrder, suggestedOrderQty } from "../../utils/purchaseOrders";
+import { formatCost, formatCostPerPage, loadSitePrinterCosts, PrinterCostSummary } from "../../utils/printerCosts";
+import { formatTurnaround, loadSiteRepairs, RepairModelTotals, summarizeRepairsByModel } from "../../utils/radioRepairs";
+import { STOCK_SOURCES, StockItemType } from "../../utils/stockMovements";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
 type AnalyticsPeriod = "7days" | "30days" | "all";
+type AnalyticsMode = "overview" | "forecast";
 
 interface ActivityEntry {
   id: string;
@@ -62,7 +79,7 @@ interface ActivityEntry {
   nextState: string;
   status: string;
   action: string;
-  itemType: "inventory" | "toner" | "radioPart";
+  itemType: StockItemType;
   createdAt: Timestamp | null;
   dismissed: boolean;
   userDismissed: boolean;
@@ -71,7 +88,7 @@ interface ActivityEntry {
 interface AlertEntry {
   id: string;
   itemId: string;
-  itemType: "inventory" | "toner" | "radioPart";
+  itemType: StockItemType;
   itemName: string;
   location: string;
   siteId: string;
@@ -84,6 +101,15 @@ interface AlertEntry {
   userDismissedAlertQuantity: number | null;
 }
 
+interface ForecastRow {
+  itemId: string;
+  itemType: StockItemType;
+  itemName: string;
+  currentQuantity: number;
+  minQuantity: number;
+  forecast: Forecast;
+}
+
 // ─── Active-state accent color ──────────────────────────────────────
 const ACTIVE_BG = "#2563eb";
 const ACTIVE_TEXT = "#ffffff";
@@ -91,7 +117,7 @@ const ACTIVE_TEXT = "#ffffff";
 // ─── Constants ───────────────────────────────────────────────────────
 
 type DateFilter = "today" | "7days" | "30days" | "all";
-type ActionFilter = "all" | "added" | "edited" | "deleted" | "deducted" | "linked" | "unlinked" | "disposed";
+type ActionFilter = "all" | "added" | "edited" | "deleted" | "deducted" | "received" | "shipped" | "transferred" | "linked" | "unlinked" | "disposed" | "counted";
 
 const DATE_FILTERS: { label: string; value: DateFilter }[] = [
   { label: "Today", value: "today" },
@@ -106,9 +132,13 @@ const ACTION_FILTERS: { label: string; value: ActionFilter }[] = [
   { label: "Edited", value: "edited" },
   { label: "Deleted", value: "deleted" },
   { label: "Deducted", value: "deducted" },
+  { label: "Received", value: "received" },
+  { label: "Shipped", value: "shipped" },
+  { label: "Transferred", value: "transferred" },
   { label: "Linked", value: "linked" },
   { label: "Unlinked", value: "unlinked" },
   { label: "Disposed", value: "disposed" },
+  { label: "Counted", value: "counted" },
 ];
 
 // ─── Helpers ─────────────────────────────────────────────────────────
@@ -119,9 +149,13 @@ function getActionIcon(action: string): { name: keyof typeof Ionicons.glyphMap;
     case "edited":    return { name: "create",         color: "#3b82f6" };
     case "deleted":   return { name: "trash",          color: "#ef4444" };
     case "deducted":  return { name: "remove-circle",  color: "#f97316" };
+    case "received":  return { name: "cube",           color: "#22c55e" };
+    case "shipped":   return { name: "paper-plane",    color: "#f97316" };
+    case "transferred": return { name: "swap-horizontal", color: "#3b82f6" };
     case "linked":    return { name: "link",           color: "#8b5cf6" };
     case "unlinked":  return { name: "unlink",         color: "#f59e0b" };
     case "disposed":  return { name: "close-circle",   color: "#ef4444" };
+    case "counted":   return { name: "clipboard",      color: "#0ea5e9" };
     default:          return { name: "ellipse",        color: "#6b7280" };
   }
 }
@@ -222,11 +256,20 @@ function shouldShowAlert(item: AlertEntry): boolean {
 function getItemCollection(itemType: AlertEntry["itemType"]): string {
   if (itemType === "toner") return "toners";
   if (itemType === "radioPart") return "radioParts";
+  if (itemType === "cardSupply") return "cardSupplies";
   return "items";
 }
 
+function getDetailRoute(itemType: AlertEntry["itemType"], itemId: string): string {
+  if (itemType === "toner") return `/toners/${itemId}`;
+  if (itemType === "radioPart") return `/radiopart/${itemId}`;
+  if (itemType === "cardSupply") return `/cardsupply/${itemId}`;
+  return `/item/${itemId}`;
+}
+
 function formatItemType(t: string): string {
   if (t === "radioPart") return "Radio Part";
+  if (t === "cardSupply") return "Card Supply";
   return t.charAt(0).toUpperCase() + t.slice(1);
 }
 
@@ -413,7 +456,7 @@ function HBar({ value, max, color }: { value: number; max: number; color: string
 
 export default function AlertsScreen() {
   const theme = useAppTheme();
-  const { siteId, loading: profileLoading } = useUserProfile();
+  const { siteId, profile, loading: profileLoading } = useUserProfile();
 
   const [activeView, setActiveView] = useState<"alerts" | "activity" | "analytics">("alerts");
 
@@ -423,6 +466,12 @@ export default function AlertsScreen() {
   const [locallyDismissedIds, setLocallyDismissedIds] = useState<Set<string>>(new Set());
   const alertGenRef = useRef(0);
 
+  // ─── Purchase order drafting state ───────────────────────────────
+  const [vendorPickerOpen, setVendorPickerOpen] = useState(false);
+  const [vendors, setVendors] = useState<{ id: string; name: string }[]>([]);
+  const [loadingVendors, setLoadingVendors] = useState(false);
+  const [creatingPo, setCreatingPo] = useState(false);
+
   // ─── Activity log state ──────────────────────────────────────────
   const [activities, setActivities] = useState<ActivityEntry[]>([]);
   const [loadingActivities, setLoadingActivities] = useState(true);
@@ -433,6 +482,11 @@ export default function AlertsScreen() {
   const [analyticsPeriod, setAnalyticsPeriod] = useState<AnalyticsPeriod>("30days");
   const [analyticsActivities, setAnalyticsActivities] = useState<ActivityEntry[]>([]);
   const [loadingAnalytics, setLoadingAnalytics] = useState(false);
+  const [analyticsMode, setAnalyticsMode] = useState<AnalyticsMode>("overview");
+  const [forecastRows, setForecastRows] = useState<ForecastRow[]>([]);
+  const [loadingForecast, setLoadingForecast] = useState(false);
+  const [repairTotals, setRepairTotals] = useState<RepairModelTotals[]>([]);
+  const [printerCosts, setPrinterCosts] = useState<PrinterCostSummary[]>([]);
 
   // ─── Fetch low-stock items ────────────────────────────────────────
   useEffect(() => {
@@ -447,8 +501,8 @@ export default function AlertsScreen() {
     setLoadingAlerts(true);
     setLocallyDismissedIds(new Set());
 
-    // Each source accumulates here; all three listeners share this closure
-    const data: Record<string, AlertEntry[]> = { items: [], toners: [], radioParts: [] };
+    // Each source accumulates here; all four listeners share this closure
+    const data: Record<string, AlertEntry[]> = { items: [], toners: [], radioParts: [], cardSupplies: [] };
     const loaded = new Set<string>();
 
     function buildEntries(
@@ -486,7 +540,7 @@ export default function AlertsScreen() {
       if (alertGenRef.current !== thisGeneration) return;
       data[source] = entries;
       loaded.add(source);
-      const all = [...data.items, ...data.toners, ...data.radioParts];
+      const all = [...data.items, ...data.toners, ...data.radioParts, ...data.cardSupplies];
       all.sort((a, b) => getSeverityLevel(b.alertState) - getSeverityLevel(a.alertState));
       const allIds = new Set(all.map((a) => a.itemId));
       setLocallyDismissedIds((prev) => {
@@ -495,13 +549,13 @@ export default function AlertsScreen() {
         return next.size === prev.size ? prev : next;
       });
       setAlerts(all);
-      if (loaded.size >= 3) setLoadingAlerts(false);
+      if (loaded.size >= 4) setLoadingAlerts(false);
     }
 
     function onErr(source: string, err: any) {
       if (__DEV__) console.error(`[alerts] ${source}:`, err);
       loaded.add(source);
-      if (alertGenRef.current === thisGeneration && loaded.size >= 3) setLoadingAlerts(false);
+      if (alertGenRef.current === thisGeneration && loaded.size >= 4) setLoadingAlerts(false);
     }
 
     const unsubItems = onSnapshot(
@@ -525,7 +579,14 @@ export default function AlertsScreen() {
       (err) => onErr("radioParts", err)
     );
 
-    return () => { unsubItems(); unsubToners(); unsubParts(); };
+    const unsubSupplies = onSnapshot(
+      query(collection(db, "cardSupplies"), where("siteId", "==", siteId)),
+      (snap) => commit("cardSupplies", buildEntries(snap, "cardSupply",
+        (d) => d.name ?? "(unknown)", (d) => d.quantity, (d) => d.minQuantity, (d) => d.location ?? "")),
+      (err) => onErr("cardSupplies", err)
+    );
+
+    return () => { unsubItems(); unsubToners(); unsubParts(); unsubSupplies(); };
   }, [siteId]);
 
   // ─── Fetch activity log ───────────────────────────────────────────
@@ -642,6 +703,97 @@ export default function AlertsScreen() {
     return () => unsub();
   }, [siteId, analyticsPeriod]);
 
+  // ─── Fetch radio repair totals (only while the Overview is open) ────
+  useEffect(() => {
+    if (activeView !== "analytics" || analyticsMode !== "overview" || !siteId) return;
+
+    let cancelled = false;
+    loadSiteRepairs(siteId, getDateCutoff(analyticsPeriod))
+      .then((repairs) => { if (!cancelled) setRepairTotals(summarizeRepairsByModel(repairs)); })
+      .catch((err) => { if (__DEV__) console.error("[AlertsScreen] Error fetching repairs:", err); });
+    loadSitePrinterCosts(siteId, getDateCutoff(analyticsPeriod))
+      .then((rows) => { if (!cancelled) setPrinterCosts(rows); })
+      .catch((err) => { if (__DEV__) console.error("[AlertsScreen] Error fetching printer costs:", err); });
+    return () => { cancelled = true; };
+  }, [activeView, analyticsMode, siteId, analyticsPeriod]);
+
+  // ─── Fetch forecast data (only while the Forecast view is open) ────
+  // Site-wide, so this reads alertsLog rather than every item's movements
+  // subcollection. Every ledger movement also writes an alertsLog entry.
+  useEffect(() => {
+    if (activeView !== "analytics" || analyticsMode !== "forecast" || !siteId) return;
+
+    let cancelled = false;
+    setLoadingForecast(true);
+
+    const cutoff = Timestamp.fromMillis(Date.now() - FORECAST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const itemTypes = ["inventory", "toner", "radioPart", "cardSupply"] as const;
+
+    Promise.all([
+      getDocs(query(
+        collection(db, "alertsLog"),
+        where("siteId", "==", siteId),
+        where("createdAt", ">=", cutoff),
+        orderBy("createdAt", "desc"),
+        limit(2000)
+      )),
+      ...itemTypes.map((t) =>
+        getDocs(query(collection(db, STOCK_SOURCES[t].collection), where("siteId", "==", siteId)))
+      ),
+    ])
+      .then(([logSnap, ...stockSnaps]) => {
+        if (cancelled) return;
+
+        const logByItem: Record<string, any[]> = {};
+        for (const d of logSnap.docs) {
+          const data = d.data();
+          if (!data.itemId) continue;
+          (logByItem[data.itemId] ??= []).push(data);
+        }
+
+        const rows: ForecastRow[] = [];
+        stockSnaps.forEach((snap, i) => {
+          const itemType = itemTypes[i];
+          const source = STOCK_SOURCES[itemType];
+          for (const docSnap of snap.docs) {
+            const entries = logByItem[docSnap.id];
+            if (!entries) continue;
+            const d = docSnap.data();
+            const currentQuantity = Number(d[source.qtyField] ?? 0);
+            // Entries are newest-first, so the last one is the oldest we have
+            const trackedSince = entries[entries.length - 1].createdAt?.toDate?.() ?? null;
+            const forecast = computeForecast(usageFromAlertsLog(entries), currentQuantity, {
+              leadTimeDays: d.leadTimeDays,
+              trackedSince,
+            });
+            if (forecast.avgDailyUsage <= 0) continue;
+            rows.push({
+              itemId: docSnap.id,
+              itemType,
+              itemName: entries[0].itemName ?? source.getName(d),
+              currentQuantity,
+              minQuantity: Number(d.minQuantity ?? 0),
+              forecast,
+            });
+          }
+        });
+
+        // Soonest to run out first
+        rows.sort((a, b) => (a.forecast.daysUntilOut ?? Infinity) - (b.forecast.daysUntilOut ?? Infinity));
+        setForecastRows(rows);
+      })
+      .catch((err) => {
+        if (__DEV__) console.error("[AlertsScreen] Error loading forecast:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingForecast(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeView, analyticsMode, siteId]);
+
   // ─── Dismiss handler ──────────────────────────────────────────────
   const handleDismiss = useCallback(async (item: AlertEntry) => {
     if (!item.itemId) {
@@ -798,6 +950,52 @@ export default function AlertsScreen() {
     }
   }, [visibleAlerts, siteId]);
 
+  // ─── Draft Purchase Order ────────────────────────────────────────
+  const openVendorPicker = useCallback(async () => {
+    if (!siteId) return;
+    setVendorPickerOpen(true);
+    setLoadingVendors(true);
+    try {
+      const snap = await getDocs(query(collection(db, "vendors"), where("siteId", "==", siteId)));
+      // Vendors are keyed on `company`, not `name` (see TECH_DOC 5.14)
+      const list = snap.docs.map((d) => ({ id: d.id, name: (d.data().company as string) || "(unnamed)" }));
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      setVendors(list);
+    } catch (err) {
+      if (__DEV__) console.error("Error loading vendors:", err);
+    } finally {
+      setLoadingVendors(false);
+    }
+  }, [siteId]);
+
+  const draftPurchaseOrder = useCallback(async (vendor: { id: string; name: string }) => {
+    if (!siteId) return;
+    setCreatingPo(true);
+    try {
+      const user = auth.currentUser;
+      const poId = await createDraftPurchaseOrder({
+        siteId,
+        vendorId: vendor.id,
+        vendorName: vendor.name,
+        createdBy: profile?.name || user?.displayName || user?.email || "Unknown",
+        lines: visibleAlerts.map((a) => ({
+          itemType: a.itemType,
+          itemId: a.itemId,
+          itemName: a.itemName,
+          qtyOrdered: suggestedOrderQty(a.currentQuantity, a.minQuantity),
+          qtyReceived: 0,
+        })),
+      });
+      setVendorPickerOpen(false);
+      router.push(`/purchase-orders/${poId}`);
+    } catch (err: any) {
+      if (__DEV__) console.error("Error drafting purchase order:", err);
+      Alert.alert("Error", err?.message || "Failed to draft purchase order.");
+    } finally {
+      setCreatingPo(false);
+    }
+  }, [siteId, profile, visibleAlerts]);
+
   // ─── CSV Export ───────────────────────────────────────────────────
   const exportCSV = useCallback(async () => {
     try {
@@ -931,6 +1129,7 @@ export default function AlertsScreen() {
       {/* ─── Alerts View ──────────────────────────────────────────── */}
       {activeView === "alerts" && (
         <>
+          <PrinterLevelAlerts siteId={siteId} />
           {isAlertsLoading ? (
             <View style={styles.center}>
               <ActivityIndicator size="large" color={theme.text} />
@@ -947,7 +1146,7 @@ export default function AlertsScreen() {
             </View>
           ) : (
             <>
-              <View style={{ paddingHorizontal: 16, paddingBottom: 8 }}>
+              <View style={{ paddingHorizontal: 16, paddingBottom: 8, flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
                 <Pressable
                   onPress={generateReorderList}
                   style={[styles.exportBtn, { borderColor: theme.border }]}
@@ -957,6 +1156,24 @@ export default function AlertsScreen() {
                     Generate Reorder List ({visibleAlerts.length})
                   </Text>
                 </Pressable>
+                <Pressable
+                  onPress={openVendorPicker}
+                  style={[styles.exportBtn, { borderColor: theme.border }]}
+                >
+                  <Ionicons name="receipt-outline" size={16} color={theme.text} />
+                  <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", marginLeft: 6 }}>
+                    Draft Purchase Order
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => router.push("/purchase-orders")}
+                  style={[styles.exportBtn, { borderColor: theme.border }]}
+                >
+                  <Ionicons name="list-outline" size={16} color={theme.text} />
+                  <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", marginLeft: 6 }}>
+                    Purchase Orders
+                  </Text>
+                </Pressable>
               </View>
               <FlatList
                 data={visibleAlerts}
@@ -972,6 +1189,28 @@ export default function AlertsScreen() {
 
       {/* ─── Analytics View ──────────────────────────────────────── */}
       {activeView === "analytics" && (
+        <View style={{ flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingBottom: 10 }}>
+          {(["overview", "forecast"] as const).map((m) => {
+            const active = analyticsMode === m;
+            return (
+              <Pressable
+                key={m}
+                onPress={() => setAnalyticsMode(m)}
+                style={[
+                  styles.chipSmall,
+                  { backgroundColor: active ? ACTIVE_BG : "transparent", borderColor: active ? ACTIVE_BG : theme.border },
+                ]}
+              >
+                <Text style={[styles.chipTextSmall, { color: active ? ACTIVE_TEXT : theme.mutedText }]}>
+                  {m === "overview" ? "Overview" : "Forecast"}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {activeView === "analytics" && analyticsMode === "overview" && (
         <>
           {/* Period selector — always visible above content */}
           <View style={{ flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingBottom: 10, alignItems: "center" }}>
@@ -1094,6 +1333,77 @@ export default function AlertsScreen() {
                 </View>
               )}
 
+              {/* Radio Repairs by Model */}
+              <Text style={[styles.analyticsSection, { color: theme.text }]}>Radio Repairs by Model</Text>
+              {repairTotals.length === 0 ? (
+                <Text style={{ color: theme.mutedText, fontSize: 13, marginBottom: 24 }}>
+                  No repair tickets reported in this period.
+                </Text>
+              ) : (
+                <View style={[styles.analyticsCard, { backgroundColor: theme.card, borderColor: theme.border, marginBottom: 24 }]}>
+                  {repairTotals.map((row, i) => (
+                    <View
+                      key={row.model}
+                      style={[
+                        styles.analyticsRow,
+                        i < repairTotals.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                      ]}
+                    >
+                      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                        <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", flex: 1 }} numberOfLines={1}>
+                          {row.model}
+                        </Text>
+                        <Text style={{ color: "#8b5cf6", fontSize: 14, fontWeight: "900", marginLeft: 8 }}>
+                          {row.tickets}
+                        </Text>
+                      </View>
+                      <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 3 }}>
+                        {row.open} open • {row.repaired} repaired • {row.unrepairable} unrepairable • {row.partsUsed} parts •
+                        avg turnaround {formatTurnaround(row.avgTurnaroundMs)}
+                      </Text>
+                      <HBar value={row.tickets} max={repairTotals[0].tickets} color="#8b5cf6" />
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {/* Most Expensive Printers */}
+              <Text style={[styles.analyticsSection, { color: theme.text }]}>Most Expensive Printers</Text>
+              {printerCosts.length === 0 ? (
+                <Text style={{ color: theme.mutedText, fontSize: 13, marginBottom: 24 }}>
+                  No toner deducted against a printer in this period.
+                </Text>
+              ) : (
+                <View style={[styles.analyticsCard, { backgroundColor: theme.card, borderColor: theme.border, marginBottom: 24 }]}>
+                  {printerCosts.slice(0, 10).map((row, i, rows) => (
+                    <Pressable
+                      key={row.printerId}
+                      onPress={() => router.push({ pathname: "/Printers/[id]" as any, params: { id: row.printerId } })}
+                      style={[
+                        styles.analyticsRow,
+                        i < rows.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                      ]}
+                    >
+                      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                        <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", flex: 1 }} numberOfLines={1}>
+                          {row.printerName}
+                        </Text>
+                        <Text style={{ color: "#0ea5e9", fontSize: 14, fontWeight: "900", marginLeft: 8 }}>
+                          {formatCost(row.tonerCost)}
+                        </Text>
+                      </View>
+                      <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 3 }}>
+                        {row.tonersUsed} toner{row.tonersUsed === 1 ? "" : "s"} •{" "}
+                        {row.pagesPrinted != null ? `${row.pagesPrinted.toLocaleString()} pages` : "no page counts"} •{" "}
+                        {formatCostPerPage(row.costPerPage)}
+                        {row.unpricedToners ? ` • ${row.unpricedToners} unpriced` : ""}
+                      </Text>
+                      <HBar value={row.tonerCost} max={printerCosts[0].tonerCost} color="#0ea5e9" />
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
               <Text style={{ color: theme.mutedText, fontSize: 10, textAlign: "center", fontStyle: "italic" }}>
                 Up to 500 entries for the selected period.
               </Text>
@@ -1102,6 +1412,69 @@ export default function AlertsScreen() {
         </>
       )}
 
+      {/* ─── Forecast View ───────────────────────────────────────── */}
+      {activeView === "analytics" && analyticsMode === "forecast" && (
+        <>
+          {loadingForecast ? (
+            <View style={styles.center}>
+              <ActivityIndicator size="large" color={theme.text} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 100 }}>
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 12 }}>
+                Based on usage logged in the last {FORECAST_WINDOW_DAYS} days. Suggested min covers each
+                item&apos;s lead time plus a safety margin; set the lead time on the item&apos;s detail screen.
+              </Text>
+
+              {forecastRows.length === 0 ? (
+                <Text style={{ color: theme.mutedText, fontSize: 13 }}>
+                  No usage logged in the last {FORECAST_WINDOW_DAYS} days.
+                </Text>
+              ) : (
+                <View style={[styles.analyticsCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                  {forecastRows.map((row, i) => {
+                    const { forecast } = row;
+                    const days = forecast.daysUntilOut;
+                    const daysColor =
+                      days !== null && days <= forecast.leadTimeDays ? "#ef4444"
+                      : days !== null && days <= forecast.leadTimeDays * 2 ? "#f97316"
+                      : "#22c55e";
+                    const minOff = forecast.suggestedMin !== row.minQuantity;
+                    return (
+                      <Pressable
+                        key={row.itemId}
+                        onPress={() => router.push(getDetailRoute(row.itemType, row.itemId))}
+                        style={[
+                          styles.analyticsRow,
+                          i < forecastRows.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                        ]}
+                      >
+                        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                          <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", flex: 1 }} numberOfLines={1}>
+                            {row.itemName}
+                          </Text>
+                          <Text style={{ color: daysColor, fontSize: 13, fontWeight: "900", marginLeft: 8 }}>
+                            {formatDaysLeft(days)}
+                          </Text>
+                        </View>
+                        <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 3 }}>
+                          {formatItemType(row.itemType)} • {formatDailyUsage(forecast.avgDailyUsage)} • {row.currentQuantity} on hand
+                        </Text>
+                        <Text style={{ color: minOff ? "#f97316" : theme.mutedText, fontSize: 11, marginTop: 2 }}>
+                          Min {row.minQuantity}
+                          {minOff ? ` → suggested ${forecast.suggestedMin}` : " (matches forecast)"}
+                          {forecast.suggestedReorderQty > 0 ? ` • reorder ${forecast.suggestedReorderQty}` : ""}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </>
+      )}
+
       {/* ─── Activity Log View ────────────────────────────────────── */}
       {activeView === "activity" && (
         <>
@@ -1150,6 +1523,51 @@ export default function AlertsScreen() {
           )}
         </>
       )}
+
+      {/* ─── Vendor picker for Draft Purchase Order ─────────────────── */}
+      <Modal
+        visible={vendorPickerOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setVendorPickerOpen(false)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.modalCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={{ color: theme.text, fontSize: 17, fontWeight: "800" }}>Choose a vendor</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 4, marginBottom: 10 }}>
+              {visibleAlerts.length} alert item(s) will be added with suggested quantities.
+            </Text>
+
+            {loadingVendors || creatingPo ? (
+              <ActivityIndicator style={{ marginVertical: 20 }} color={theme.text} />
+            ) : vendors.length === 0 ? (
+              <Text style={{ color: theme.mutedText, fontSize: 13, marginVertical: 16 }}>
+                No vendors yet. Add one in the Directory tab first.
+              </Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 320 }}>
+                {vendors.map((v) => (
+                  <Pressable
+                    key={v.id}
+                    onPress={() => draftPurchaseOrder(v)}
+                    style={[styles.vendorRow, { borderColor: theme.border }]}
+                  >
+                    <Ionicons name="business-outline" size={16} color={theme.mutedText} />
+                    <Text style={{ color: theme.text, fontSize: 14, fontWeight: "700", marginLeft: 8, flex: 1 }}>
+                      {v.name}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color={theme.mutedText} />
+                  </Pressable>
+                ))}
+              </ScrollView>
+            )}
+
+            <Pressable onPress={() => setVendorPickerOpen(false)} style={{ alignSelf: "flex-end", marginTop: 12 }}>
+              <Text style={{ color: theme.mutedText, fontWeight: "700" }}>Cancel</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -1233,6 +1651,23 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 18,
+  },
+  vendorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
   exportBtn: {
     flexDirection: "row",
     alignItems: "center",
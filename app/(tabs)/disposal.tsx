@@ -1,9 +1,8 @@
 // app/(tabs)/disposal.tsx
-import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
-import * as Sharing from "expo-sharing";
-import { addDoc, collection, doc, onSnapshot, orderBy, query, serverTimestamp, where, writeBatch } from "firebase/firestore";
-import React, { useCallback, useEffect, useState } from "react";
+import { useLocalSearchParams } from "expo-router";
+import { collection, doc, onSnapshot, orderBy, query, where, writeBatch } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -18,27 +17,23 @@ import {
 } from "react-native";
 
 import { useAppTheme } from "../../constants/theme";
-import { db } from "../../firebaseConfig";
+import { auth, db } from "../../firebaseConfig";
+import { ImportReportModal } from "../../components/ImportReportModal";
+import { useCsvImport } from "../../hooks/useCsvImport";
 import { useUserProfile } from "../../hooks/useUserProfile";
-import { normalizeCell, parseCSV } from "../../utils/csvHelpers";
+import { Asset } from "../../types/inventory";
+import { assetAge, assetDisposalData, subscribeSiteAssets } from "../../utils/assets";
+import { QUEUED_MESSAGE, submitDisposal } from "../../utils/outbox";
+import { disposalLineValue, shareDisposalCertificatePdf } from "../../utils/pdfReports";
+import { chooseExportFormat, ExportTable, shareTable, toDate } from "../../utils/spreadsheet";
 
 type DisposalReason = "broken" | "obsolete" | "lost" | "damaged" | "other";
 
-type PreviewRow = {
-  stableId: string;
-  name: string;
-  model: string;
-  vendor: string;
-  quantity: number;
-  approxValue: string;
-  totalValue: string;
-  approxAge: string;
-  notes: string;
-  warning?: string;
-};
+const DISPOSAL_REASONS: DisposalReason[] = ["broken", "obsolete", "lost", "damaged", "other"];
 
 type DisposalRecord = {
   id: string;
+  assetId?: string;
   itemId: string;
   itemName: string;
   siteId: string;
@@ -48,20 +43,38 @@ type DisposalRecord = {
   disposedByUid: string;
   disposedAt: any;
   quantity: number;
+  model?: string;
+  vendor?: string;
+  approxValue?: string;
+  totalValue?: string;
+  approxAge?: string;
 };
 
+const pad = (n: number) => String(n).padStart(2, "0");
+const dayString = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Certificate period presets: [from, to] as YYYY-MM-DD
+const CERT_PRESETS: { label: string; range: () => [string, string] }[] = [
+  { label: "This month", range: () => { const now = new Date(); return [dayString(new Date(now.getFullYear(), now.getMonth(), 1)), dayString(now)]; } },
+  { label: "Last month", range: () => { const now = new Date(); return [dayString(new Date(now.getFullYear(), now.getMonth() - 1, 1)), dayString(new Date(now.getFullYear(), now.getMonth(), 0))]; } },
+  { label: "Year to date", range: () => { const now = new Date(); return [dayString(new Date(now.getFullYear(), 0, 1)), dayString(now)]; } },
+];
+
 export default function DisposalScreen() {
   const theme = useAppTheme();
   // We pull 'uid' directly here since your hook provides it
-  const { profile, siteId, uid, loading: profileLoading } = useUserProfile();
+  const { siteId, uid, profile, loading: profileLoading } = useUserProfile();
 
   const [disposals, setDisposals] = useState<DisposalRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
-  const [importing, setImporting] = useState(false);
-  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
-  const [showPreviewModal, setShowPreviewModal] = useState(false);
-  const [committing, setCommitting] = useState(false);
+  const { importing, startImport, reportProps } = useCsvImport();
+
+  // Disposal certificate (PDF) for a date range
+  const [showCertModal, setShowCertModal] = useState(false);
+  const [certFrom, setCertFrom] = useState("");
+  const [certTo, setCertTo] = useState("");
+  const [certPreparing, setCertPreparing] = useState(false);
 
   // --- ADD RECORD: Manual disposal record modal state ---
   const [showAddModal, setShowAddModal] = useState(false);
@@ -78,6 +91,16 @@ export default function DisposalScreen() {
     disposedBy: "",
   });
 
+  // --- DISPOSE ASSET: closes an asset register entry's lifecycle ---
+  const { assetId: assetIdParam } = useLocalSearchParams<{ assetId?: string }>();
+  const [showAssetModal, setShowAssetModal] = useState(false);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [assetSearch, setAssetSearch] = useState("");
+  const [pendingAssetId, setPendingAssetId] = useState<string | null>(null);
+  const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
+  const [assetForm, setAssetForm] = useState({ reason: "obsolete" as DisposalReason, notes: "", disposedBy: "" });
+  const [assetSaving, setAssetSaving] = useState(false);
+
   useEffect(() => {
     if (profileLoading) return;
 
@@ -111,6 +134,12 @@ export default function DisposalScreen() {
             disposedByUid: data.disposedByUid || "",
             disposedAt: data.disposedAt,
             quantity: data.quantity || 1,
+            model: data.model || "",
+            vendor: data.vendor || "",
+            approxValue: data.approxValue != null ? String(data.approxValue) : "",
+            totalValue: data.totalValue != null ? String(data.totalValue) : "",
+            approxAge: data.approxAge || "",
+            assetId: data.assetId || undefined,
           };
         });
         setDisposals(list);
@@ -126,6 +155,30 @@ export default function DisposalScreen() {
     return () => unsub();
   }, [siteId, profileLoading]);
 
+  // Only listen to the register while picking an asset
+  useEffect(() => {
+    if (!showAssetModal || !siteId) return;
+    return subscribeSiteAssets(siteId, (list) => setAssets(list.filter((a) => a.status !== "disposed")));
+  }, [showAssetModal, siteId]);
+
+  // "Dispose…" on an asset's screen links here with its ID
+  useEffect(() => {
+    const id = String(assetIdParam ?? "").trim();
+    if (!id) return;
+    openAssetModal(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assetIdParam]);
+
+  // Select the linked asset once the register has loaded
+  useEffect(() => {
+    if (!pendingAssetId) return;
+    const match = assets.find((a) => a.id === pendingAssetId);
+    if (match) {
+      setSelectedAsset(match);
+      setPendingAssetId(null);
+    }
+  }, [assets, pendingAssetId]);
+
   const formatDate = (timestamp: any) => {
     if (!timestamp || !timestamp.toDate) return "";
     const date = timestamp.toDate();
@@ -138,81 +191,41 @@ export default function DisposalScreen() {
     });
   };
 
-  const formatDateForCSV = (timestamp: any) => {
-    if (!timestamp || !timestamp.toDate) return "";
-    const date = timestamp.toDate();
-    return date.toLocaleString(undefined, {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-    });
-  };
-
-  const escapeCSV = (value: string) => {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
-  };
-
-  const generateCSV = () => {
-    const headers = [
-      'Item Name',
-      'Item ID',
-      'Quantity',
-      'Site',
-      'Reason',
-      'Notes',
-      'Disposed By',
-      'Disposal Date'
-    ];
-
-    const rows = disposals.map(disposal => [
-      escapeCSV(disposal.itemName),
-      escapeCSV(disposal.itemId),
-      disposal.quantity.toString(),
-      escapeCSV(disposal.siteId),
-      escapeCSV(disposal.reason),
-      escapeCSV(disposal.notes || ''),
-      escapeCSV(disposal.disposedBy),
-      escapeCSV(formatDateForCSV(disposal.disposedAt))
-    ]);
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-
-    return csvContent;
-  };
+  // Quantity stays numeric and the date a real date cell in .xlsx exports
+  const buildExportTable = (): ExportTable => ({
+    headers: ['Item Name', 'Item ID', 'Quantity', 'Site', 'Reason', 'Notes', 'Disposed By', 'Disposal Date'],
+    rows: disposals.map((disposal) => [
+      disposal.itemName,
+      disposal.itemId,
+      disposal.quantity,
+      disposal.siteId,
+      disposal.reason,
+      disposal.notes || '',
+      disposal.disposedBy,
+      toDate(disposal.disposedAt),
+    ]),
+    sheetName: 'Disposals',
+  });
 
-  const exportToCSV = async () => {
+  const exportRecords = async () => {
     if (disposals.length === 0) {
       Alert.alert('No Data', 'There are no disposal records to export.');
       return;
     }
 
+    const format = await chooseExportFormat('Export Disposal Records');
+    if (!format) return;
+
     setExporting(true);
 
     try {
-      const csv = generateCSV();
       const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `Disposal_${siteId}_${timestamp}.csv`;
-
-      const dir = FileSystem.documentDirectory as string;
-      const fileUri = dir + filename;
 
-      await FileSystem.writeAsStringAsync(fileUri, csv, {
-        encoding: 'utf8',
-      });
-
-      await Sharing.shareAsync(fileUri, {
-        mimeType: 'text/csv',
+      await shareTable(buildExportTable(), {
+        fileName: `Disposal_${siteId}_${timestamp}`,
+        format,
         dialogTitle: `Disposal Records - ${siteId}`,
-        UTI: 'public.comma-separated-values-text', // iOS
+        directory: FileSystem.documentDirectory,
       });
 
       Alert.alert(
@@ -245,169 +258,74 @@ export default function DisposalScreen() {
     }
   };
 
-  // ── CSV Import helpers ──────────────────────────────────────────────────────
-
-  const importDisposalsFromCSV = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({
-        type: ["text/csv", "text/comma-separated-values", "text/plain"],
-      });
-      if (result.canceled) return;
+  // ── Disposal certificate ────────────────────────────────────────────────────
 
-      setImporting(true);
-      const fileUri = result.assets[0].uri;
-      const content = await FileSystem.readAsStringAsync(fileUri);
-
-      const rows = parseCSV(content);
-      if (rows.length < 2) {
-        Alert.alert("Empty File", "No data rows found in the CSV.");
-        return;
-      }
-
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = (names: string[]) => {
-        for (const n of names) {
-          const idx = headers.findIndex((h) => h.includes(n));
-          if (idx !== -1) return idx;
-        }
-        return -1;
-      };
-
-      const iItem   = col(["item", "name", "description"]);
-      const iModel  = col(["model"]);
-      const iAmount = col(["amount", "qty", "quantity"]);
-      const iVendor = col(["vendor", "supplier"]);
-      const iTotal  = col(["multipleamount", "totalvalue", "total"]);
-      const iApprox = col(["approxamount", "approxprice", "unitprice"]);
-      const iAge    = col(["approxage", "age"]);
-      const iNotes  = col(["notes", "desc"]);
-
-      if (iItem === -1) {
-        Alert.alert("Import Failed", "Could not find an 'ITEM' or 'Name' column in the CSV.");
-        return;
-      }
-
-      const headerItemVal = rows[0][iItem]?.toLowerCase() ?? "";
-      const dataRows = rows.slice(1).filter((row) => {
-        const cell = (row[iItem] ?? "").toLowerCase().trim();
-        return cell !== "" && cell !== headerItemVal && !cell.startsWith("---");
-      });
-
-      const parsed: PreviewRow[] = dataRows.map((row) => {
-        const name   = normalizeCell(row[iItem]   ?? "");
-        const model  = normalizeCell(row[iModel]  ?? "");
-        const vendor = normalizeCell(row[iVendor] ?? "");
-        const qtyRaw = normalizeCell(row[iAmount] ?? "");
-        const qty    = parseInt(qtyRaw) || 0;
-
-        const stableId = `${name}_${model}_${vendor}`
-          .toLowerCase()
-          .replace(/[^a-z0-9]/g, "_")
-          .replace(/_+/g, "_")
-          .slice(0, 100);
-
-        let warning: string | undefined;
-        if (!name) warning = "Missing item name — row will be skipped";
-        else if (qty === 0) warning = "Invalid quantity — will default to 1";
-
-        return {
-          stableId,
-          name: name || "(empty)",
-          model,
-          vendor,
-          quantity: qty || 1,
-          approxValue: normalizeCell(row[iApprox] ?? ""),
-          totalValue:  normalizeCell(row[iTotal]  ?? ""),
-          approxAge:   normalizeCell(row[iAge]    ?? ""),
-          notes:       normalizeCell(row[iNotes]  ?? ""),
-          warning,
-        };
-      });
+  const openCertModal = () => {
+    const [from, to] = CERT_PRESETS[0].range();
+    setCertFrom(from);
+    setCertTo(to);
+    setShowCertModal(true);
+  };
 
-      setPreviewRows(parsed);
-      setShowPreviewModal(true);
-    } catch (err: any) {
-      if (__DEV__) console.error("Import error:", err);
-      Alert.alert("Import Failed", err.message || "An unexpected error occurred.");
-    } finally {
-      setImporting(false);
-    }
+  const certRange = (): [Date, Date] | null => {
+    const from = toDate(certFrom.trim());
+    const to = toDate(certTo.trim());
+    if (!from || !to || !/^\d{4}-\d{2}-\d{2}$/.test(certFrom.trim()) || !/^\d{4}-\d{2}-\d{2}$/.test(certTo.trim())) return null;
+    return [from, new Date(to.getFullYear(), to.getMonth(), to.getDate(), 23, 59, 59, 999)];
   };
 
-  const commitImport = async () => {
-    const valid = previewRows.filter((r) => r.name !== "(empty)");
-    if (valid.length === 0) {
-      Alert.alert("Nothing to Import", "All rows are invalid and will be skipped.");
+  const range = certRange();
+  const certRecords = range
+    ? disposals.filter((d) => {
+        const at = toDate(d.disposedAt);
+        return !!at && at >= range[0] && at <= range[1];
+      })
+    : [];
+  const certTotal = certRecords.reduce((sum, d) => sum + (disposalLineValue(d) ?? 0), 0);
+
+  const printCertificate = async () => {
+    if (!siteId) return;
+    if (!range) {
+      Alert.alert("Invalid Dates", "Enter the period as YYYY-MM-DD.");
       return;
     }
-    if (!siteId) {
-      Alert.alert("Error", "No site assigned to your account.");
+    if (range[0] > range[1]) {
+      Alert.alert("Invalid Dates", "The start date is after the end date.");
+      return;
+    }
+    if (certRecords.length === 0) {
+      Alert.alert("No Records", "There are no disposal records in this period.");
       return;
     }
 
-    setCommitting(true);
+    setCertPreparing(true);
     try {
-      let batch = writeBatch(db);
-      let opCount = 0;
-
-      for (const row of valid) {
-        const docRef = doc(db, "disposals", row.stableId);
-        batch.set(docRef, {
-          itemName:      row.name,
-          model:         row.model,
-          vendor:        row.vendor,
-          quantity:      row.quantity,
-          approxValue:   row.approxValue,
-          totalValue:    row.totalValue,
-          approxAge:     row.approxAge,
-          notes:         row.notes,
-          siteId,
-          reason:        "obsolete" as DisposalReason,
-          disposedBy:    profile?.role === "admin" ? "Admin" : "Staff",
-          disposedByUid: uid || "",
-          importedAt:    serverTimestamp(),
-          disposedAt:    serverTimestamp(),
-        }, { merge: true });
-        opCount++;
-        if (opCount === 499) { await batch.commit(); batch = writeBatch(db); opCount = 0; }
-      }
-
-      if (opCount > 0) await batch.commit();
-      setShowPreviewModal(false);
-      setPreviewRows([]);
-      Alert.alert(
-        "Import Complete",
-        `${valid.length} disposal item${valid.length !== 1 ? "s" : ""} imported/updated successfully.`
-      );
-    } catch (err: any) {
-      if (__DEV__) console.error("Commit error:", err);
-      Alert.alert("Import Failed", err.message || "An unexpected error occurred.");
+      const user = auth.currentUser;
+      await shareDisposalCertificatePdf({
+        siteId,
+        rows: certRecords,
+        from: range[0],
+        to: range[1],
+        preparedBy: profile?.name || user?.displayName || user?.email || "Unknown",
+      });
+      setShowCertModal(false);
+    } catch (error: any) {
+      if (__DEV__) console.error("Certificate error:", error);
+      Alert.alert("Certificate Failed", error?.message || "Could not create the certificate.");
     } finally {
-      setCommitting(false);
+      setCertPreparing(false);
     }
   };
 
-  const renderPreviewRow = useCallback(({ item, index }: { item: PreviewRow; index: number }) => {
-    const rowBg = item.name === "(empty)" || item.warning
-      ? "rgba(251,191,36,0.12)"
-      : "transparent";
-    return (
-      <View style={[styles.previewRow, { borderBottomColor: theme.border, backgroundColor: rowBg }]}>
-        <View style={styles.previewRowLeft}>
-          <Text style={[styles.previewRowName, { color: theme.text }]} numberOfLines={1}>
-            {item.name}
-          </Text>
-          <Text style={[styles.previewRowSub, { color: theme.mutedText }]} numberOfLines={1}>
-            {[item.model, item.vendor].filter(Boolean).join(" · ") || "—"}
-          </Text>
-          {item.warning ? (
-            <Text style={styles.previewRowWarning}>{item.warning}</Text>
-          ) : null}
-        </View>
-        <Text style={[styles.previewRowQty, { color: theme.mutedText }]}>×{item.quantity}</Text>
-      </View>
-    );
-  }, [theme]);
+  // ── CSV Import (validated and committed by the importRecords callable) ───────
+
+  const importDisposalsFromCSV = () => {
+    if (!siteId) {
+      Alert.alert("Error", "No site assigned to your account.");
+      return;
+    }
+    startImport("disposals");
+  };
 
   // ── Add Record helpers ───────────────────────────────────────────────────────
 
@@ -443,7 +361,7 @@ export default function DisposalScreen() {
     setAddSaving(true);
 
     try {
-      await addDoc(collection(db, "disposals"), {
+      const queued = await submitDisposal({
         itemId: "",
         itemName: addForm.itemName.trim(),
         model: addForm.model.trim(),
@@ -457,11 +375,10 @@ export default function DisposalScreen() {
         disposedByUid: uid || "",
         siteId,
         reason: "other" as DisposalReason,
-        disposedAt: serverTimestamp(),
-      });
+      }, { label: `Disposal: ${addForm.itemName.trim()}`, siteId });
 
       setShowAddModal(false);
-      Alert.alert("Success", "Disposal record added successfully.");
+      Alert.alert(queued ? "Queued" : "Success", queued ? QUEUED_MESSAGE : "Disposal record added successfully.");
     } catch (err: any) {
       if (__DEV__) console.error("Error adding disposal record:", err);
       Alert.alert("Error", "Failed to save disposal record. Please try again.");
@@ -470,6 +387,58 @@ export default function DisposalScreen() {
     }
   };
 
+  // ── Dispose Asset helpers ───────────────────────────────────────────────────
+
+  const openAssetModal = (assetId?: string) => {
+    setAssetSearch("");
+    setSelectedAsset(null);
+    setPendingAssetId(assetId ?? null);
+    setAssetForm({ reason: "obsolete", notes: "", disposedBy: profile?.name || "" });
+    setShowAssetModal(true);
+  };
+
+  const assetQuery = assetSearch.trim().toLowerCase();
+  const assetMatches = assetQuery
+    ? assets.filter((a) => [a.name, a.assetTag, a.serial, a.model].some((t) => t?.toLowerCase().includes(assetQuery)))
+    : assets;
+
+  const saveAssetDisposal = async () => {
+    if (!selectedAsset) {
+      Alert.alert("Error", "Pick the asset being disposed.");
+      return;
+    }
+    if (!assetForm.disposedBy.trim()) {
+      Alert.alert("Error", "Please enter who is disposing this asset.");
+      return;
+    }
+    if (!siteId) {
+      Alert.alert("Error", "No site assigned to your account.");
+      return;
+    }
+
+    setAssetSaving(true);
+
+    try {
+      const queued = await submitDisposal(
+        assetDisposalData(selectedAsset, {
+          reason: assetForm.reason,
+          notes: assetForm.notes.trim(),
+          disposedBy: assetForm.disposedBy.trim(),
+          disposedByUid: uid || "",
+        }),
+        { label: `Disposal: ${selectedAsset.name}`, siteId }
+      );
+
+      setShowAssetModal(false);
+      Alert.alert(queued ? "Queued" : "Success", queued ? QUEUED_MESSAGE : `${selectedAsset.name} has been disposed.`);
+    } catch (err: any) {
+      if (__DEV__) console.error("Error disposing asset:", err);
+      Alert.alert("Error", "Failed to dispose the asset. Please try again.");
+    } finally {
+      setAssetSaving(false);
+    }
+  };
+
   // ── Delete All ──────────────────────────────────────────────────────────────
 
   const deleteAllDisposals = () => {
@@ -533,20 +502,36 @@ export default function DisposalScreen() {
           </Pressable>
 
           <Pressable
-            style={[styles.exportButton, { backgroundColor: theme.primary }, importing && styles.exportButtonDisabled]}
+            style={[styles.exportButton, { backgroundColor: "#8b5cf6" }]}
+            onPress={() => openAssetModal()}
+          >
+            <Text style={styles.exportButtonText}>Dispose Asset</Text>
+          </Pressable>
+
+          <Pressable
+            style={[styles.exportButton, { backgroundColor: theme.primary }, importing === "disposals" && styles.exportButtonDisabled]}
             onPress={importDisposalsFromCSV}
-            disabled={importing}
+            disabled={importing === "disposals"}
           >
-            {importing ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.exportButtonText}>Import CSV</Text>}
+            {importing === "disposals" ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.exportButtonText}>Import CSV</Text>}
           </Pressable>
 
           {disposals.length > 0 && (
             <Pressable
               style={[styles.exportButton, { backgroundColor: "#007AFF" }, exporting && styles.exportButtonDisabled]}
-              onPress={exportToCSV}
+              onPress={exportRecords}
               disabled={exporting}
             >
-              {exporting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.exportButtonText}>Export CSV</Text>}
+              {exporting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.exportButtonText}>Export</Text>}
+            </Pressable>
+          )}
+
+          {disposals.length > 0 && (
+            <Pressable
+              style={[styles.exportButton, { backgroundColor: "#16a34a" }]}
+              onPress={openCertModal}
+            >
+              <Text style={styles.exportButtonText}>Certificate</Text>
             </Pressable>
           )}
 
@@ -590,76 +575,87 @@ export default function DisposalScreen() {
                 <Text style={[styles.metaText, { color: theme.mutedText }]}>•</Text>
                 <Text style={[styles.metaText, { color: theme.mutedText }]}>By: {item.disposedBy}</Text>
               </View>
+              {item.assetId && (item.totalValue || item.approxAge) ? (
+                <Text style={[styles.metaText, { color: theme.mutedText, marginTop: 4 }]}>
+                  {["Asset", item.totalValue ? `$${item.totalValue}` : null, item.approxAge ? `Age ${item.approxAge}` : null].filter(Boolean).join(" • ")}
+                </Text>
+              ) : null}
               <Text style={[styles.date, { color: theme.mutedText }]}>{formatDate(item.disposedAt)}</Text>
             </View>
           )}
         />
       )}
-      {/* IMPORT PREVIEW MODAL */}
-      <Modal
-        visible={showPreviewModal}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => { if (!committing) { setShowPreviewModal(false); setPreviewRows([]); } }}
-      >
+      <ImportReportModal {...reportProps} />
+
+      {/* Disposal certificate: pick a period, then print to PDF */}
+      <Modal visible={showCertModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => { if (!certPreparing) setShowCertModal(false); }}>
         <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
-          {/* Header */}
           <View style={styles.modalHeader}>
-            <View>
-              <Text style={[styles.modalTitle, { color: theme.text }]}>Review Import</Text>
-              <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }}>
-                {previewRows.length} row{previewRows.length !== 1 ? "s" : ""} parsed
-                {previewRows.filter((r) => r.warning).length > 0
-                  ? ` · ${previewRows.filter((r) => r.warning).length} with warnings`
-                  : ""}
-              </Text>
-            </View>
-            <Pressable
-              onPress={() => { if (!committing) { setShowPreviewModal(false); setPreviewRows([]); } }}
-            >
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Disposal Certificate</Text>
+            <Pressable onPress={() => { if (!certPreparing) setShowCertModal(false); }}>
               <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
             </Pressable>
           </View>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.presetRow}>
+              {CERT_PRESETS.map((preset) => {
+                const [from, to] = preset.range();
+                const active = from === certFrom && to === certTo;
+                return (
+                  <Pressable
+                    key={preset.label}
+                    onPress={() => { setCertFrom(from); setCertTo(to); }}
+                    style={[styles.presetChip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+                  >
+                    <Text style={{ color: active ? "#fff" : theme.text, fontSize: 13, fontWeight: "700" }}>{preset.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
 
-          {/* Column labels */}
-          <View style={[styles.previewHeader, { borderBottomColor: theme.border }]}>
-            <Text style={[styles.previewHeaderText, { color: theme.mutedText, flex: 1 }]}>ITEM · MODEL · VENDOR</Text>
-            <Text style={[styles.previewHeaderText, { color: theme.mutedText }]}>QTY</Text>
-          </View>
+            <View style={{ flexDirection: "row", gap: 12 }}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>From</Text>
+                <TextInput
+                  style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.mutedText}
+                  autoCapitalize="none"
+                  value={certFrom}
+                  onChangeText={setCertFrom}
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>To</Text>
+                <TextInput
+                  style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.mutedText}
+                  autoCapitalize="none"
+                  value={certTo}
+                  onChangeText={setCertTo}
+                />
+              </View>
+            </View>
+
+            <Text style={[styles.certSummary, { color: theme.mutedText }]}>
+              {range
+                ? `${certRecords.length} record${certRecords.length !== 1 ? "s" : ""} · $${certTotal.toFixed(2)} total value`
+                : "Enter both dates as YYYY-MM-DD."}
+            </Text>
 
-          {/* Row list */}
-          <FlatList
-            data={previewRows}
-            keyExtractor={(_, i) => String(i)}
-            renderItem={renderPreviewRow}
-            style={{ flex: 1 }}
-            contentContainerStyle={{ paddingBottom: 8 }}
-          />
-
-          {/* Footer */}
-          <View style={[styles.previewFooter, { borderTopColor: theme.border }]}>
-            {previewRows.filter((r) => r.name === "(empty)").length > 0 && (
-              <Text style={{ color: "#fbbf24", fontSize: 12, marginBottom: 10, textAlign: "center" }}>
-                {previewRows.filter((r) => r.name === "(empty)").length} row{previewRows.filter((r) => r.name === "(empty)").length !== 1 ? "s" : ""} will be skipped (missing name)
-              </Text>
-            )}
             <Pressable
-              style={[
-                styles.saveBtn,
-                { backgroundColor: theme.primary, opacity: committing ? 0.6 : 1 },
-              ]}
-              onPress={commitImport}
-              disabled={committing}
+              style={[styles.saveBtn, { backgroundColor: "#16a34a", opacity: certPreparing || certRecords.length === 0 ? 0.6 : 1 }]}
+              onPress={printCertificate}
+              disabled={certPreparing || certRecords.length === 0}
             >
-              {committing ? (
+              {certPreparing ? (
                 <ActivityIndicator color="#fff" size="small" />
               ) : (
-                <Text style={styles.saveBtnText}>
-                  Import {previewRows.filter((r) => r.name !== "(empty)").length} Record{previewRows.filter((r) => r.name !== "(empty)").length !== 1 ? "s" : ""}
-                </Text>
+                <Text style={styles.saveBtnText}>Create PDF</Text>
               )}
             </Pressable>
-          </View>
+          </ScrollView>
         </View>
       </Modal>
 
@@ -790,6 +786,114 @@ export default function DisposalScreen() {
           </ScrollView>
         </View>
       </Modal>
+
+      {/* DISPOSE ASSET: pick a register entry; its value and age carry into the record */}
+      <Modal visible={showAssetModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => { if (!assetSaving) setShowAssetModal(false); }}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Dispose Asset</Text>
+            <Pressable onPress={() => { if (!assetSaving) setShowAssetModal(false); }}>
+              <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
+            </Pressable>
+          </View>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {selectedAsset ? (
+              <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, marginTop: 0 }]}>
+                <View style={styles.cardHeader}>
+                  <Text style={[styles.itemName, { color: theme.text }]}>{selectedAsset.name}</Text>
+                  <Pressable onPress={() => setSelectedAsset(null)} hitSlop={8}>
+                    <Text style={{ color: theme.primary, fontWeight: "700" }}>Change</Text>
+                  </Pressable>
+                </View>
+                <Text style={[styles.notes, { color: theme.mutedText }]}>
+                  {[selectedAsset.assetTag, selectedAsset.serial && `S/N ${selectedAsset.serial}`, [selectedAsset.manufacturer, selectedAsset.model].filter(Boolean).join(" ")]
+                    .filter(Boolean).join(" • ") || "No tag or serial"}
+                </Text>
+                <View style={styles.meta}>
+                  <Text style={[styles.metaText, { color: theme.mutedText }]}>
+                    Value: {typeof selectedAsset.cost === "number" ? `$${selectedAsset.cost.toFixed(2)}` : "not recorded"}
+                  </Text>
+                  <Text style={[styles.metaText, { color: theme.mutedText }]}>•</Text>
+                  <Text style={[styles.metaText, { color: theme.mutedText }]}>
+                    Age: {assetAge(selectedAsset.purchaseDate) ?? "no purchase date"}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <>
+                <TextInput
+                  style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+                  placeholder="Search name, tag or serial…"
+                  placeholderTextColor={theme.mutedText}
+                  value={assetSearch}
+                  onChangeText={setAssetSearch}
+                />
+                {assetMatches.length === 0 ? (
+                  <Text style={[styles.emptySubtext, { color: theme.mutedText }]}>
+                    {assets.length ? "No matching assets." : "No assets in service. Add them under Settings → Asset register."}
+                  </Text>
+                ) : (
+                  assetMatches.slice(0, 30).map((a) => (
+                    <Pressable key={a.id} onPress={() => setSelectedAsset(a)} style={[styles.assetRow, { borderBottomColor: theme.border }]}>
+                      <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>{a.name}</Text>
+                      <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }} numberOfLines={1}>
+                        {[a.assetTag, a.serial, a.assignedTo || a.location].filter(Boolean).join(" • ") || "No details"}
+                      </Text>
+                    </Pressable>
+                  ))
+                )}
+              </>
+            )}
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Reason</Text>
+            <View style={styles.presetRow}>
+              {DISPOSAL_REASONS.map((r) => {
+                const active = assetForm.reason === r;
+                return (
+                  <Pressable
+                    key={r}
+                    onPress={() => setAssetForm((p) => ({ ...p, reason: r }))}
+                    style={[styles.presetChip, { borderColor: active ? reasonColor(r) : theme.border, backgroundColor: active ? reasonColor(r) : theme.card }]}
+                  >
+                    <Text style={{ color: active ? "#fff" : theme.text, fontSize: 13, fontWeight: "700" }}>{reasonLabel(r)}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
+            <TextInput
+              style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 80, textAlignVertical: "top" }]}
+              placeholder="Condition, data wiped, recycler, etc."
+              placeholderTextColor={theme.mutedText}
+              multiline
+              value={assetForm.notes}
+              onChangeText={(v) => setAssetForm((p) => ({ ...p, notes: v }))}
+            />
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Who is disposing it? *</Text>
+            <TextInput
+              style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+              placeholder="Your name"
+              placeholderTextColor={theme.mutedText}
+              value={assetForm.disposedBy}
+              onChangeText={(v) => setAssetForm((p) => ({ ...p, disposedBy: v }))}
+            />
+
+            <Pressable
+              style={[styles.saveBtn, { backgroundColor: "#8b5cf6", opacity: assetSaving || !selectedAsset ? 0.6 : 1 }]}
+              onPress={saveAssetDisposal}
+              disabled={assetSaving || !selectedAsset}
+            >
+              {assetSaving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.saveBtnText}>Dispose Asset</Text>
+              )}
+            </Pressable>
+          </ScrollView>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -823,13 +927,8 @@ const styles = StyleSheet.create({
   fieldInput: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, fontSize: 14 },
   saveBtn: { marginTop: 24, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginBottom: 20 },
   saveBtnText: { color: "#ffffff", fontSize: 16, fontWeight: "800" },
-  previewHeader: { flexDirection: "row", justifyContent: "space-between", paddingHorizontal: 16, paddingBottom: 8, borderBottomWidth: 1 },
-  previewHeaderText: { fontSize: 11, fontWeight: "700", letterSpacing: 0.5 },
-  previewRow: { flexDirection: "row", alignItems: "center", paddingHorizontal: 16, paddingVertical: 10, borderBottomWidth: 1 },
-  previewRowLeft: { flex: 1, marginRight: 12 },
-  previewRowName: { fontSize: 14, fontWeight: "700" },
-  previewRowSub: { fontSize: 12, marginTop: 2 },
-  previewRowWarning: { fontSize: 11, color: "#fbbf24", marginTop: 3 },
-  previewRowQty: { fontSize: 14, fontWeight: "600", minWidth: 30, textAlign: "right" },
-  previewFooter: { paddingHorizontal: 20, paddingTop: 12, borderTopWidth: 1 },
+  presetRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  presetChip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 999, borderWidth: 1 },
+  certSummary: { fontSize: 13, marginTop: 16 },
+  assetRow: { paddingVertical: 12, borderBottomWidth: 1 },
 });
\ No newline at end of file
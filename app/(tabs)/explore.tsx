@@ -1,7 +1,7 @@
 // app/(tabs)/explore.tsx — Directory (Contacts + Vendors)
 import { Ionicons } from "@expo/vector-icons";
-import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
+import { router } from "expo-router";
 import * as Sharing from "expo-sharing";
 import {
   addDoc,
@@ -32,7 +32,8 @@ import {
 import { useAppTheme } from "../../constants/theme";
 import { db } from "../../firebaseConfig";
 import { useUserProfile } from "../../hooks/useUserProfile";
-import { downloadLincolnTechTemplate, makeColFinder, normalizeCell, parseCSV } from "../../utils/csvHelpers";
+import { downloadLincolnTechTemplate, makeColFinder, normalizeCell } from "../../utils/csvHelpers";
+import { chooseExportFormat, pickSpreadsheet, shareTable } from "../../utils/spreadsheet";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -413,11 +414,11 @@ export default function DirectoryScreen() {
 
   const importContactsFromCSV = useCallback(async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
+      const picked = await pickSpreadsheet();
+      if (!picked) return;
       setImportingContacts(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
+      // Workbooks: the first sheet with data
+      const rows = picked.sheets.find((sh) => sh.rows.length >= 2)?.rows ?? [];
       if (rows.length < 2) { Alert.alert("Empty File", "No data rows found."); return; }
 
       const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
@@ -466,35 +467,31 @@ export default function DirectoryScreen() {
     }
   }, [siteId]);
 
-  const exportContactsToCSV = useCallback(async () => {
+  const exportContacts = useCallback(async () => {
     if (contacts.length === 0) { Alert.alert("Nothing to export", "No contacts to export."); return; }
     try {
-      const header = "Name,Department,Role/Description,Phone,Phone2,Email,Notes";
+      const format = await chooseExportFormat("Export Contacts");
+      if (!format) return;
+      const headers = ["Name", "Department", "Role/Description", "Phone", "Phone2", "Email", "Notes"];
       const rows = contacts.map((c) =>
         [c.name, c.company ?? "", c.notes ?? "", c.phone ?? "", c.phone2 ?? "", c.email ?? "", ""]
-          .map((v) => `"${String(v).replace(/"/g, '""')}"`)
-          .join(",")
       );
-      const uri = FileSystem.cacheDirectory + "contacts_export.csv";
-      await FileSystem.writeAsStringAsync(uri, [header, ...rows].join("\n"), { encoding: FileSystem.EncodingType.UTF8 });
-      await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle: "Export Contacts CSV" });
+      await shareTable({ headers, rows, sheetName: "Contacts" }, { fileName: "contacts_export", format, dialogTitle: "Export Contacts" });
     } catch (err: any) {
       Alert.alert("Export Failed", err.message || "An unexpected error occurred.");
     }
   }, [contacts]);
 
-  const exportVendorsToCSV = useCallback(async () => {
+  const exportVendors = useCallback(async () => {
     if (vendors.length === 0) { Alert.alert("Nothing to export", "No vendors to export."); return; }
     try {
-      const header = "Company,Contact Name,Phone,Email,Website,Account #,Service Type,Notes";
+      const format = await chooseExportFormat("Export Vendors");
+      if (!format) return;
+      const headers = ["Company", "Contact Name", "Phone", "Email", "Website", "Account #", "Service Type", "Notes"];
       const rows = vendors.map((v) =>
         [v.company, v.contactName ?? "", v.phone ?? "", v.email ?? "", v.website ?? "", v.accountNumber ?? "", v.serviceType ?? "", v.notes ?? ""]
-          .map((val) => `"${String(val).replace(/"/g, '""')}"`)
-          .join(",")
       );
-      const uri = FileSystem.cacheDirectory + "vendors_export.csv";
-      await FileSystem.writeAsStringAsync(uri, [header, ...rows].join("\n"), { encoding: FileSystem.EncodingType.UTF8 });
-      await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle: "Export Vendors CSV" });
+      await shareTable({ headers, rows, sheetName: "Vendors" }, { fileName: "vendors_export", format, dialogTitle: "Export Vendors" });
     } catch (err: any) {
       Alert.alert("Export Failed", err.message || "An unexpected error occurred.");
     }
@@ -518,11 +515,11 @@ export default function DirectoryScreen() {
 
   const importVendorsFromCSV = useCallback(async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
+      const picked = await pickSpreadsheet();
+      if (!picked) return;
       setImportingVendors(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
+      // Workbooks: the first sheet with data
+      const rows = picked.sheets.find((sh) => sh.rows.length >= 2)?.rows ?? [];
       if (rows.length < 2) { Alert.alert("Empty File", "No data rows found."); return; }
 
       const headers = rows[0].map((h) => h.toLowerCase().replace(/[\s#]+/g, ""));
@@ -589,11 +586,11 @@ export default function DirectoryScreen() {
 
   const importLincolnTechsFromCSV = useCallback(async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
+      const picked = await pickSpreadsheet();
+      if (!picked) return;
       setImportingLincolnTechs(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
+      // Workbooks: the first sheet with data
+      const rows = picked.sheets.find((sh) => sh.rows.length >= 2)?.rows ?? [];
       if (rows.length < 2) { Alert.alert("Empty File", "No data rows found."); return; }
 
       const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
@@ -750,6 +747,8 @@ export default function DirectoryScreen() {
         {item.phone   ? <Pressable onPress={() => call(item.phone!)} hitSlop={8}><Ionicons name="call-outline" size={20} color={theme.tint} /></Pressable> : null}
         {item.email   ? <Pressable onPress={() => email(item.email!)} hitSlop={8}><Ionicons name="mail-outline" size={20} color={theme.tint} /></Pressable> : null}
         {item.website ? <Pressable onPress={() => web(item.website!)} hitSlop={8}><Ionicons name="globe-outline" size={20} color={theme.tint} /></Pressable> : null}
+        <Pressable onPress={() => router.push({ pathname: "/purchase-orders", params: { vendorId: item.id } })} hitSlop={8}><Ionicons name="receipt-outline" size={20} color={theme.tint} /></Pressable>
+        <Pressable onPress={() => router.push({ pathname: "/contracts" as any, params: { vendorId: item.id, vendorName: item.company } })} hitSlop={8}><Ionicons name="document-text-outline" size={20} color={theme.tint} /></Pressable>
         <Pressable onPress={() => deleteVendor(item)} hitSlop={8}><Ionicons name="trash-outline" size={18} color="#ef4444" /></Pressable>
       </View>
     </View>
@@ -816,7 +815,7 @@ export default function DirectoryScreen() {
                 ? <ActivityIndicator size="small" color={theme.text} />
                 : <><Ionicons name="cloud-upload-outline" size={15} color={theme.text} style={{ marginRight: 4 }} /><Text style={[styles.csvBtnText, { color: theme.text }]}>Import</Text></>}
             </Pressable>
-            <Pressable onPress={exportContactsToCSV}
+            <Pressable onPress={exportContacts}
               style={[styles.csvBtn, { backgroundColor: theme.card, borderColor: theme.border, flex: 1 }]}>
               <Ionicons name="cloud-download-outline" size={15} color={theme.text} style={{ marginRight: 4 }} />
               <Text style={[styles.csvBtnText, { color: theme.text }]}>Export</Text>
@@ -895,7 +894,7 @@ export default function DirectoryScreen() {
                 ? <ActivityIndicator size="small" color={theme.text} />
                 : <><Ionicons name="cloud-upload-outline" size={15} color={theme.text} style={{ marginRight: 4 }} /><Text style={[styles.csvBtnText, { color: theme.text }]}>Import</Text></>}
             </Pressable>
-            <Pressable onPress={exportVendorsToCSV}
+            <Pressable onPress={exportVendors}
               style={[styles.csvBtn, { backgroundColor: theme.card, borderColor: theme.border, flex: 1 }]}>
               <Ionicons name="cloud-download-outline" size={15} color={theme.text} style={{ marginRight: 4 }} />
               <Text style={[styles.csvBtnText, { color: theme.text }]}>Export</Text>
@@ -1,7 +1,5 @@
 import { Ionicons } from "@expo/vector-icons";
 import { CameraView, useCameraPermissions } from "expo-camera";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system/legacy";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import {
@@ -12,11 +10,8 @@ import {
   getDocs,
   onSnapshot,
   query,
-  serverTimestamp,
   setDoc,
-  updateDoc,
   where,
-  writeBatch,
 } from "firebase/firestore";
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
@@ -34,13 +29,23 @@ import {
 } from "react-native";
 import inventoryStyles from "../../constants/inventoryStyles";
 import { useAppTheme } from "../../constants/theme";
-import { db } from "../../firebaseConfig";
+import { auth, db } from "../../firebaseConfig";
+import { useCsvImport } from "../../hooks/useCsvImport";
 import { useUserProfile } from "../../hooks/useUserProfile";
 import { Item, Radio, SortMode, TabMode, UNDO_ANIMATION_MS, UNDO_TIMEOUT_MS } from "../../types/inventory";
 import { getStockStatus, logActivity } from "../../utils/activity";
-import { downloadDisposalTemplate, downloadInventoryTemplate, normalizeCell, parseCSV } from "../../utils/csvHelpers";
+import { parseAssetLink } from "../../utils/assetLabels";
+import { downloadDisposalTemplate, downloadInventoryTemplate } from "../../utils/csvHelpers";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
+import { getLocationStock, LocationStock, STOCK_SOURCES, StockItemType } from "../../utils/stockMovements";
 import RadioSection, { RadioSectionRef } from "../../components/RadioSection";
 import TonerSection, { TonerSectionRef } from "../../components/TonerSection";
+import { ImportReportModal } from "../../components/ImportReportModal";
+import { CycleCountModal } from "../../components/CycleCountModal";
+
+// Quick take: a scan records a removal straight away, undoable for UNDO_TIMEOUT_MS
+type QuickTake = { key: number; itemType: StockItemType; itemId: string; name: string; qty: number; siteId: string; text: string };
+const QUICK_QTY_MAX = 99;
 
 export default function IndexScreen() {
   const theme = useAppTheme();
@@ -67,10 +72,19 @@ export default function IndexScreen() {
 
   // --- Scanner state ---
   const [showScanModal, setShowScanModal] = useState(false);
+  const [showCountModal, setShowCountModal] = useState(false);
   const [scanBusy, setScanBusy] = useState(false);
   const [scanningEnabled, setScanningEnabled] = useState(true);
   const [cameraPermission, requestCameraPermission] = useCameraPermissions();
   const lastScanRef = useRef<{ data: string; at: number } | null>(null);
+  // Scanned stock held in more than one location: ask where it is taken from
+  const [scanLocationPick, setScanLocationPick] = useState<{ itemType: StockItemType; id: string; name: string; locations: LocationStock } | null>(null);
+  const [quickMode, setQuickMode] = useState(false);
+  const [quickQty, setQuickQty] = useState(1);
+  const [quickError, setQuickError] = useState<string | null>(null);
+  const [quickUndo, setQuickUndo] = useState<QuickTake | null>(null);
+  const quickUndoAnim = useRef(new Animated.Value(0)).current;
+  const quickUndoTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // --- Inventory add modal state ---
   const [showInventoryModal, setShowInventoryModal] = useState(false);
@@ -90,7 +104,7 @@ export default function IndexScreen() {
   const isMountedRef = useRef(true);
 
   // --- Import state ---
-  const [importingInventory, setImportingInventory] = useState(false);
+  const { importing, startImport, reportProps } = useCsvImport();
 
   // Mounted tracking + cleanup
   useEffect(() => {
@@ -98,9 +112,13 @@ export default function IndexScreen() {
     return () => {
       isMountedRef.current = false;
       if (undoTimeoutRef.current) { clearTimeout(undoTimeoutRef.current); undoTimeoutRef.current = null; }
+      if (quickUndoTimeoutRef.current) { clearTimeout(quickUndoTimeoutRef.current); quickUndoTimeoutRef.current = null; }
     };
   }, []);
 
+  // Movements recorded from this screen are attributed to the signed-in user
+  const movementBy = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
   // Route param: deep-link to add toner with prefilled barcode
   useEffect(() => {
     const bc = String(addTonerBarcode ?? "").trim();
@@ -212,21 +230,26 @@ export default function IndexScreen() {
     setDisposeSaving(true);
     try {
       const disposedQty = parseInt(disposeForm.amount) || 1;
-      const newQty = Math.max(0, disposingItem.currentQuantity - disposedQty);
-      await addDoc(collection(db, "disposals"), {
-        itemId: disposingItem.id, itemName: disposeForm.itemName.trim(), model: disposeForm.model.trim(),
-        quantity: disposedQty, vendor: disposeForm.vendor.trim(), approxValue: disposeForm.approxAmount.trim(),
-        totalValue: disposeForm.multipleAmount.trim(), approxAge: disposeForm.approxAge.trim(),
-        notes: disposeForm.description.trim(), disposedBy: disposeForm.disposedBy.trim(),
-        disposedByUid: uid || "", siteId, reason: "other" as const,
-        disposedAt: serverTimestamp(),
-      });
-      await updateDoc(doc(db, "items", disposingItem.id), { currentQuantity: newQty });
-      await logActivity({ siteId, itemName: disposeForm.itemName.trim(), itemId: disposingItem.id, qty: newQty, min: disposingItem.minQuantity, prevState: getStockStatus(disposingItem.currentQuantity, disposingItem.minQuantity), nextState: getStockStatus(newQty, disposingItem.minQuantity), action: "disposed", itemType: "inventory" });
+      const result = await submitStockMovement(
+        {
+          itemType: "inventory", itemId: disposingItem.id, delta: -disposedQty,
+          by: disposeForm.disposedBy.trim(), note: disposeForm.description.trim(),
+          type: "disposal", action: "disposed",
+          disposal: {
+            itemName: disposeForm.itemName.trim(), model: disposeForm.model.trim(),
+            vendor: disposeForm.vendor.trim(), approxValue: disposeForm.approxAmount.trim(),
+            totalValue: disposeForm.multipleAmount.trim(), approxAge: disposeForm.approxAge.trim(),
+            notes: disposeForm.description.trim(), disposedBy: disposeForm.disposedBy.trim(),
+            disposedByUid: uid || "", reason: "other" as const,
+          },
+        },
+        { label: `Dispose ${disposedQty} × ${disposeForm.itemName.trim()}`, siteId }
+      );
+      if (!result) Alert.alert("Queued", QUEUED_MESSAGE);
       setShowDisposeModal(false);
       setDisposingItem(null);
       setDisposeSaving(false);
-    } catch { Alert.alert("Error", "Failed to dispose item. Please try again."); setDisposeSaving(false); }
+    } catch (err: any) { Alert.alert("Error", err.message || "Failed to dispose item. Please try again."); setDisposeSaving(false); }
   }, [disposingItem, disposeForm, uid, siteId]);
 
   // Scanner
@@ -238,14 +261,104 @@ export default function IndexScreen() {
     lastScanRef.current = null;
     setScanBusy(false);
     setScanningEnabled(true);
+    setQuickError(null);
     setShowScanModal(true);
   }, [cameraPermission, requestCameraPermission]);
 
+  // Quick take undo bar (same timing as the delete undo bar)
+  const dismissQuickUndo = useCallback((key?: number) => {
+    if (quickUndoTimeoutRef.current) { clearTimeout(quickUndoTimeoutRef.current); quickUndoTimeoutRef.current = null; }
+    Animated.timing(quickUndoAnim, { toValue: 0, duration: UNDO_ANIMATION_MS, useNativeDriver: true }).start(({ finished }) => {
+      if (finished && isMountedRef.current) setQuickUndo((prev) => (key && prev?.key !== key ? prev : null));
+    });
+  }, [quickUndoAnim]);
+
+  const showQuickUndo = useCallback((take: QuickTake) => {
+    if (quickUndoTimeoutRef.current) { clearTimeout(quickUndoTimeoutRef.current); quickUndoTimeoutRef.current = null; }
+    setQuickUndo(take);
+    Animated.timing(quickUndoAnim, { toValue: 1, duration: UNDO_ANIMATION_MS, useNativeDriver: true }).start();
+    quickUndoTimeoutRef.current = setTimeout(() => {
+      if (isMountedRef.current) dismissQuickUndo(take.key);
+    }, UNDO_TIMEOUT_MS);
+  }, [quickUndoAnim, dismissQuickUndo]);
+
+  // Records the removal immediately; the camera stays open for the next scan
+  const quickTake = useCallback(async (itemType: StockItemType, id: string, data: any) => {
+    if (!siteId) return;
+    const name = STOCK_SOURCES[itemType].getName(data);
+    try {
+      // No location picker while the camera is open, so split stock is taken from the detail screen
+      const locationCount = Object.keys(getLocationStock(data, itemType)).length;
+      if (locationCount > 1) {
+        setQuickError(`${name} is kept in ${locationCount} locations. Turn off Quick take to pick one.`);
+        return;
+      }
+      const result = await submitStockMovement(
+        { itemType, itemId: id, delta: -quickQty, by: movementBy, note: "Quick take" },
+        { label: `-${quickQty} ${name}`, siteId }
+      );
+      const qty = result ? -result.delta : quickQty;
+      setQuickError(null);
+      showQuickUndo({
+        key: Date.now(), itemType, itemId: id, name, qty, siteId,
+        text: result ? `Took ${qty} × ${name} · ${result.newQuantity} left` : `Took ${qty} × ${name} · queued offline`,
+      });
+    } catch (err: any) {
+      setQuickError(err?.message || `Could not take ${name}.`);
+    } finally {
+      setScanningEnabled(true);
+    }
+  }, [siteId, quickQty, movementBy, showQuickUndo]);
+
+  // Movements are append-only, so undo puts the stock back with a second movement
+  const undoQuickTake = useCallback(async () => {
+    const take = quickUndo;
+    if (!take) return;
+    dismissQuickUndo(take.key);
+    try {
+      const result = await submitStockMovement(
+        { itemType: take.itemType, itemId: take.itemId, delta: take.qty, by: movementBy, note: "Quick take undone" },
+        { label: `+${take.qty} ${take.name}`, siteId: take.siteId }
+      );
+      if (!result) Alert.alert("Queued", QUEUED_MESSAGE);
+    } catch (err: any) {
+      Alert.alert("Undo Failed", err?.message || "Could not put the stock back.");
+    }
+  }, [quickUndo, dismissQuickUndo, movementBy]);
+
+  // Cycle count: continuous batch scan session
+  const openCountModal = useCallback(async () => {
+    if (!cameraPermission?.granted) {
+      const res = await requestCameraPermission();
+      if (!res.granted) { Alert.alert("Camera permission needed", "Enable camera access to use the scanner."); return; }
+    }
+    setShowCountModal(true);
+  }, [cameraPermission, requestCameraPermission]);
+
+  const openStockDetail = useCallback((itemType: StockItemType, id: string, location?: string) => {
+    const params = location ? { id, location } : { id };
+    if (itemType === "toner") router.push({ pathname: "/toners/[id]" as any, params });
+    else if (itemType === "radioPart") router.push({ pathname: "/radiopart/[id]" as any, params });
+    else if (itemType === "cardSupply") router.push({ pathname: "/cardsupply/[id]" as any, params });
+    else router.push({ pathname: "/item/[id]", params });
+  }, [router]);
+
+  const openScannedStock = useCallback((itemType: StockItemType, id: string, data: any) => {
+    setShowScanModal(false);
+    const locations = getLocationStock(data, itemType);
+    if (Object.keys(locations).length > 1) {
+      setScanLocationPick({ itemType, id, name: STOCK_SOURCES[itemType].getName(data), locations });
+      return;
+    }
+    openStockDetail(itemType, id);
+  }, [openStockDetail]);
+
   const handleBarcodeScanned = useCallback(async ({ data }: { data: string }) => {
     if (!scanningEnabled || scanBusy) return;
     const now = Date.now();
     const last = lastScanRef.current;
-    if (last && last.data === data && now - last.at < 1500) return;
+    // In quick take a code held in frame must not be taken again while its undo bar is up
+    if (last && last.data === data && now - last.at < (quickMode ? UNDO_TIMEOUT_MS : 1500)) return;
     lastScanRef.current = { data, at: now };
     setScanBusy(true);
     setScanningEnabled(false);
@@ -254,11 +367,27 @@ export default function IndexScreen() {
 
       if (!siteId) { Alert.alert("Error", "No site assigned to your account."); setScanBusy(false); setScanningEnabled(true); return; }
 
+      // QR asset labels carry a deep link straight to the record
+      const link = parseAssetLink(clean);
+      if (link) { setShowScanModal(false); router.push({ pathname: link.pathname as any, params: { id: link.id } }); return; }
+
+      const onStock = quickMode ? quickTake : openScannedStock;
+
       const itemSnap = await getDocs(query(collection(db, "items"), where("barcode", "==", clean), where("siteId", "==", siteId)));
-      if (!itemSnap.empty) { setShowScanModal(false); router.push({ pathname: "/item/[id]", params: { id: itemSnap.docs[0].id } }); return; }
+      if (!itemSnap.empty) { await onStock("inventory", itemSnap.docs[0].id, itemSnap.docs[0].data()); return; }
 
       const tonerSnap = await getDocs(query(collection(db, "toners"), where("barcode", "==", clean), where("siteId", "==", siteId)));
-      if (!tonerSnap.empty) { setShowScanModal(false); router.push({ pathname: "/toners/[id]" as any, params: { id: tonerSnap.docs[0].id } }); return; }
+      if (!tonerSnap.empty) { await onStock("toner", tonerSnap.docs[0].id, tonerSnap.docs[0].data()); return; }
+
+      if (quickMode) {
+        const partSnap = await getDocs(query(collection(db, "radioParts"), where("barcode", "==", clean), where("siteId", "==", siteId)));
+        if (!partSnap.empty) { await quickTake("radioPart", partSnap.docs[0].id, partSnap.docs[0].data()); return; }
+        const supplySnap = await getDocs(query(collection(db, "cardSupplies"), where("barcode", "==", clean), where("siteId", "==", siteId)));
+        if (!supplySnap.empty) { await quickTake("cardSupply", supplySnap.docs[0].id, supplySnap.docs[0].data()); return; }
+        setQuickError(`No stock with barcode ${clean}`);
+        setScanningEnabled(true);
+        return;
+      }
 
       const radioSnap = await getDocs(query(collection(db, "radios"), where("barcode", "==", clean), where("siteId", "==", siteId)));
       if (!radioSnap.empty) {
@@ -269,7 +398,16 @@ export default function IndexScreen() {
       }
 
       const radioPartSnap = await getDocs(query(collection(db, "radioParts"), where("barcode", "==", clean), where("siteId", "==", siteId)));
-      if (!radioPartSnap.empty) { setShowScanModal(false); router.push(`/radiopart/${radioPartSnap.docs[0].id}` as any); return; }
+      if (!radioPartSnap.empty) { openScannedStock("radioPart", radioPartSnap.docs[0].id, radioPartSnap.docs[0].data()); return; }
+
+      const cardSupplySnap = await getDocs(query(collection(db, "cardSupplies"), where("barcode", "==", clean), where("siteId", "==", siteId)));
+      if (!cardSupplySnap.empty) { openScannedStock("cardSupply", cardSupplySnap.docs[0].id, cardSupplySnap.docs[0].data()); return; }
+
+      const printerSnap = await getDocs(query(collection(db, "printers"), where("barcode", "==", clean), where("siteId", "==", siteId)));
+      if (!printerSnap.empty) { setShowScanModal(false); router.push({ pathname: "/Printers/[id]" as any, params: { id: printerSnap.docs[0].id } }); return; }
+
+      const pmDeviceSnap = await getDocs(query(collection(db, "pmDevices"), where("barcode", "==", clean), where("siteId", "==", siteId)));
+      if (!pmDeviceSnap.empty) { setShowScanModal(false); router.push({ pathname: "/pm/[id]" as any, params: { id: pmDeviceSnap.docs[0].id } }); return; }
 
       Alert.alert(
         "Barcode not found",
@@ -282,48 +420,17 @@ export default function IndexScreen() {
           { text: "Cancel", style: "cancel", onPress: () => setShowScanModal(false) },
         ]
       );
-    } catch { Alert.alert("Scan failed", "Could not look up that barcode. Try again."); }
+    } catch {
+      if (quickMode) { setQuickError("Lookup failed — scan again"); setScanningEnabled(true); }
+      else Alert.alert("Scan failed", "Could not look up that barcode. Try again.");
+    }
     finally { setScanBusy(false); }
-  }, [scanningEnabled, scanBusy, router, siteId]);
+  }, [scanningEnabled, scanBusy, siteId, quickMode, quickTake, openScannedStock, router]);
 
-  // CSV Import — Inventory
-  const importInventoryFromCSV = async () => {
+  // CSV Import — Inventory (validated and committed by the importRecords callable)
+  const importInventoryFromCSV = () => {
     if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-    try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      setImportingInventory(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = (names: string[]) => { for (const n of names) { const idx = headers.findIndex((h) => h.includes(n)); if (idx !== -1) return idx; } return -1; };
-      const iName = col(["name", "item", "description"]);
-      const iQty = col(["qty", "quantity", "amount", "stock"]);
-      const iMinQty = col(["min", "minimum", "minqty", "minstock"]);
-      const iLocation = col(["location", "loc", "shelf", "room"]);
-      const iBarcode = col(["barcode", "sku", "upc"]);
-      const iNotes = col(["notes", "note", "desc"]);
-      if (iName === -1) { Alert.alert("Import Failed", "Could not find a 'Name' or 'Item' column."); return; }
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[iName] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const name = normalizeCell(row[iName] ?? "");
-          if (!name) continue;
-          // ID derived from site + name keeps re-imports idempotent.
-          // If an item is renamed in the CSV a new doc is created — delete the old one manually.
-          const stableId = `${siteId}_${name}`.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100);
-          batch.set(doc(db, "items", stableId), { name, currentQuantity: parseInt(normalizeCell(row[iQty] ?? "")) || 0, minQuantity: parseInt(normalizeCell(row[iMinQty] ?? "")) || 0, location: normalizeCell(row[iLocation] ?? ""), barcode: normalizeCell(row[iBarcode] ?? ""), notes: normalizeCell(row[iNotes] ?? ""), siteId, importedAt: serverTimestamp() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} inventory item${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) { Alert.alert("Import Failed", err.message || "An unexpected error occurred."); }
-    finally { setImportingInventory(false); }
+    startImport("items");
   };
 
   // Derived data
@@ -437,8 +544,8 @@ export default function IndexScreen() {
 
               {/* Action buttons */}
               <View style={{ flexDirection: "row", gap: 10, marginBottom: 16 }}>
-                <Pressable onPress={importInventoryFromCSV} disabled={importingInventory} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}>
-                  {importingInventory ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                <Pressable onPress={importInventoryFromCSV} disabled={importing === "items"} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}>
+                  {importing === "items" ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
                 </Pressable>
                 <Pressable onPress={() => downloadInventoryTemplate().catch((e) => Alert.alert("Error", e.message))} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
                   <Ionicons name="document-outline" size={18} color={theme.text} />
@@ -446,6 +553,12 @@ export default function IndexScreen() {
                 <Pressable onPress={openScanModal} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
                   <Ionicons name="barcode-outline" size={18} color={theme.text} />
                 </Pressable>
+                <Pressable onPress={openCountModal} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
+                  <Ionicons name="clipboard-outline" size={18} color={theme.text} />
+                </Pressable>
+                <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "items" } })} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
+                  <Ionicons name="pricetags-outline" size={18} color={theme.text} />
+                </Pressable>
                 <Pressable onPress={() => openInventoryModal()} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
                   <Ionicons name="add" size={18} color={theme.text} />
                 </Pressable>
@@ -489,9 +602,45 @@ export default function IndexScreen() {
       <Modal visible={showScanModal} animationType="slide" presentationStyle="fullScreen" onRequestClose={() => setShowScanModal(false)}>
         <View style={{ flex: 1, backgroundColor: "#000" }}>
           <CameraView style={StyleSheet.absoluteFill} facing="back" autofocus="on" onBarcodeScanned={scanningEnabled ? handleBarcodeScanned : undefined} />
+
+          {/* Quick take undo bar */}
+          <Animated.View
+            pointerEvents={quickUndo ? "auto" : "none"}
+            style={[inventoryStyles.undoBar, { backgroundColor: theme.card, borderColor: theme.border, top: 60, opacity: quickUndoAnim, transform: [{ translateY: quickUndoAnim.interpolate({ inputRange: [0, 1], outputRange: [-120, 0] }) }] }]}
+          >
+            <Text style={{ color: theme.text, fontWeight: "700", flex: 1, marginRight: 12 }} numberOfLines={2}>{quickUndo?.text}</Text>
+            <Pressable onPress={undoQuickTake} style={{ paddingHorizontal: 16, paddingVertical: 8, backgroundColor: "#fff", borderRadius: 8 }}>
+              <Text style={{ color: "#000", fontWeight: "800" }}>UNDO</Text>
+            </Pressable>
+          </Animated.View>
+
           <View style={{ position: "absolute", left: 16, right: 16, bottom: 48, backgroundColor: "rgba(0,0,0,0.6)", borderRadius: 16, padding: 16 }}>
-            <Text style={{ color: "#fff", fontWeight: "700", fontSize: 16, marginBottom: 12 }}>
-              {scanBusy ? "Looking up barcode…" : scanningEnabled ? "Point at a barcode" : "Paused"}
+            <View style={{ flexDirection: "row", alignItems: "center", marginBottom: 12 }}>
+              <Pressable
+                onPress={() => { setQuickMode((q) => !q); setQuickError(null); }}
+                style={{ flexDirection: "row", alignItems: "center", gap: 6, paddingHorizontal: 12, paddingVertical: 6, borderRadius: 999, borderWidth: 1, borderColor: quickMode ? theme.warning : "#6b7280", backgroundColor: quickMode ? theme.warning : "transparent" }}
+              >
+                <Ionicons name="flash" size={14} color={quickMode ? "#000" : "#fff"} />
+                <Text style={{ color: quickMode ? "#000" : "#fff", fontWeight: "800", fontSize: 12 }}>Quick take</Text>
+              </Pressable>
+              {quickMode && (
+                <View style={{ flexDirection: "row", alignItems: "center", marginLeft: "auto", gap: 10 }}>
+                  <Pressable onPress={() => setQuickQty((q) => Math.max(1, q - 1))} hitSlop={8}>
+                    <Ionicons name="remove-circle-outline" size={26} color="#fff" />
+                  </Pressable>
+                  <Text style={{ color: "#fff", fontWeight: "900", fontSize: 18, minWidth: 28, textAlign: "center" }}>{quickQty}</Text>
+                  <Pressable onPress={() => setQuickQty((q) => Math.min(QUICK_QTY_MAX, q + 1))} hitSlop={8}>
+                    <Ionicons name="add-circle-outline" size={26} color="#fff" />
+                  </Pressable>
+                </View>
+              )}
+            </View>
+            <Text style={{ color: quickMode && quickError ? "#fbbf24" : "#fff", fontWeight: "700", fontSize: 16, marginBottom: 12 }} numberOfLines={2}>
+              {scanBusy
+                ? "Looking up barcode…"
+                : quickMode
+                  ? quickError ?? `Scan to take ${quickQty} · as ${movementBy}`
+                  : scanningEnabled ? "Point at a barcode" : "Paused"}
             </Text>
             <View style={{ flexDirection: "row", gap: 10 }}>
               <Pressable onPress={() => { setScanBusy(false); setScanningEnabled(true); }} style={{ flex: 1, backgroundColor: theme.primary, paddingVertical: 10, borderRadius: 999, alignItems: "center" }}>
@@ -505,6 +654,33 @@ export default function IndexScreen() {
         </View>
       </Modal>
 
+      <CycleCountModal
+        visible={showCountModal}
+        siteId={siteId}
+        by={movementBy}
+        onClose={() => setShowCountModal(false)}
+      />
+
+      {/* Scanned stock: which location is it taken from? */}
+      <Modal visible={!!scanLocationPick} transparent animationType="fade" onRequestClose={() => setScanLocationPick(null)}>
+        <View style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.5)", justifyContent: "center", padding: 24 }}>
+          <View style={{ backgroundColor: theme.card, borderColor: theme.border, borderWidth: 1, borderRadius: 16, padding: 18 }}>
+            <Text style={{ color: theme.text, fontSize: 17, fontWeight: "800" }}>Taking stock from?</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 4, marginBottom: 8 }}>{scanLocationPick?.name} is stocked in more than one location.</Text>
+            {scanLocationPick && Object.entries(scanLocationPick.locations).sort((a, b) => b[1] - a[1]).map(([name, qty]) => (
+              <Pressable key={name} onPress={() => { const pick = scanLocationPick; setScanLocationPick(null); openStockDetail(pick.itemType, pick.id, name); }} style={{ flexDirection: "row", alignItems: "center", paddingVertical: 12, borderTopWidth: 1, borderTopColor: theme.border }}>
+                <Ionicons name="location-outline" size={16} color={theme.mutedText} />
+                <Text style={{ color: theme.text, fontSize: 14, fontWeight: "700", marginLeft: 8, flex: 1 }}>{name}</Text>
+                <Text style={{ color: theme.text, fontSize: 14, fontWeight: "900" }}>{qty}</Text>
+              </Pressable>
+            ))}
+            <Pressable onPress={() => { const pick = scanLocationPick; setScanLocationPick(null); if (pick) openStockDetail(pick.itemType, pick.id); }} style={{ alignSelf: "flex-end", marginTop: 12 }}>
+              <Text style={{ color: theme.mutedText, fontWeight: "700" }}>Skip</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
       {/* Add Inventory Item Modal */}
       <Modal visible={showInventoryModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowInventoryModal(false)}>
         <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
@@ -593,6 +769,8 @@ export default function IndexScreen() {
           </ScrollView>
         </View>
       </Modal>
+
+      <ImportReportModal {...reportProps} />
     </View>
   );
 }
@@ -1,8 +1,5 @@
 // app/(tabs)/pm.tsx — Preventative Maintenance Device List
 import { Ionicons } from "@expo/vector-icons";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system/legacy";
-import * as Sharing from "expo-sharing";
 import { useRouter } from "expo-router";
 import {
   collection,
@@ -13,7 +10,6 @@ import {
   serverTimestamp,
   setDoc,
   where,
-  writeBatch,
 } from "firebase/firestore";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
@@ -31,8 +27,10 @@ import {
 import { ALL_CHECKS, PM_SECTIONS } from "../../constants/pmSections";
 import { useAppTheme } from "../../constants/theme";
 import { db } from "../../firebaseConfig";
+import { ImportReportModal } from "../../components/ImportReportModal";
+import { useCsvImport } from "../../hooks/useCsvImport";
 import { useUserProfile } from "../../hooks/useUserProfile";
-import { normalizeCell, parseCSV } from "../../utils/csvHelpers";
+import { chooseExportFormat, shareTable, toDate } from "../../utils/spreadsheet";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -73,17 +71,6 @@ interface AddForm {
   user: string;
 }
 
-interface ImportPreviewRow {
-  name: string;
-  fqdn: string;
-  ip: string;
-  os: string;
-  osVer: string;
-  type: string;
-  status: string;
-  user: string;
-}
-
 const BLANK_FORM: AddForm = {
   name: "", fqdn: "", ip: "", os: "", osVer: "",
   type: "Desktop", status: "Active [ON]", user: "",
@@ -154,11 +141,9 @@ export default function PMScreen() {
   const [addSaving, setAddSaving] = useState(false);
   const [editingDevice, setEditingDevice] = useState<PmDevice | null>(null);
 
-  // Import modal
-  const [importPreview, setImportPreview] = useState<ImportPreviewRow[]>([]);
-  const [showImportModal, setShowImportModal] = useState(false);
+  // Import (shared pipeline, reviewed in ImportReportModal)
+  const { startImport, reportProps } = useCsvImport();
   const [showOverflowMenu, setShowOverflowMenu] = useState(false);
-  const [importSaving, setImportSaving] = useState(false);
 
   const [exporting, setExporting] = useState(false);
 
@@ -307,156 +292,17 @@ export default function PMScreen() {
 
   // ─── CSV Import ───────────────────────────────────────────────────────────
 
-  const pickImportCSV = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri, {
-        encoding: FileSystem.EncodingType.UTF8,
-      });
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Error", "CSV has no data rows."); return; }
-
-      // BeyondTrust exports start with a single-cell "Jump Client" label row — skip it
-      const headerRowIdx = rows[0].length === 1 ? 1 : 0;
-      const headers = rows[headerRowIdx].map((h) => h.toLowerCase().trim());
-      const dataRows = rows.slice(headerRowIdx + 1);
-
-      // Detect BeyondTrust Jump Client format by unique column names
-      const isBeyondTrust = headers.some(
-        (h) => h === "operating system" || h === "console user" || h === "hostname / ip"
-      );
-
-      let preview: ImportPreviewRow[];
-
-      if (isBeyondTrust) {
-        const nameIdx      = headers.indexOf("name");
-        const fqdnIdx      = headers.indexOf("fqdn");
-        const ipIdx        = headers.indexOf("private ip");
-        const osIdx        = headers.indexOf("operating system");
-        const statusIdx    = headers.indexOf("status");
-        const userIdx      = headers.indexOf("console user");
-
-        const strip = (s: string) => (s.startsWith("'") ? s.slice(1) : s);
-
-        const parseOS = (raw: string): { os: string; osVer: string } => {
-          const m = raw.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
-          return m ? { os: m[1].trim(), osVer: m[2].trim() } : { os: raw, osVer: "" };
-        };
-
-        const mapStatus = (s: string): string => {
-          const l = s.toLowerCase();
-          if (l.includes("lost")) return "Lost";
-          if (l.includes("offline") || l === "uninstalled") return "Offline";
-          return "Active [ON]";
-        };
-
-        const inferType = (os: string, name: string): DeviceType => {
-          if (os.toLowerCase().includes("server")) return "Server";
-          if (name.toLowerCase().includes("laptop")) return "Laptop";
-          return "Desktop";
-        };
-
-        const seen = new Set<string>();
-        preview = dataRows
-          .map((row) => {
-            const name = strip(normalizeCell(row[nameIdx] ?? ""));
-            const rawOs = osIdx !== -1 ? normalizeCell(row[osIdx] ?? "") : "";
-            const { os, osVer } = parseOS(rawOs);
-            return {
-              name,
-              fqdn:   fqdnIdx   !== -1 ? strip(normalizeCell(row[fqdnIdx]   ?? "")) : "",
-              ip:     ipIdx     !== -1 ? normalizeCell(row[ipIdx]            ?? "") : "",
-              os,
-              osVer,
-              type:   inferType(os, name),
-              status: statusIdx !== -1 ? mapStatus(normalizeCell(row[statusIdx] ?? "")) : "Active [ON]",
-              user:   userIdx   !== -1 ? normalizeCell(row[userIdx]          ?? "") : "",
-            };
-          })
-          .filter((d) => {
-            if (!d.name || d.name.toLowerCase().startsWith("tv48 jump")) return false;
-            const key = d.name.toLowerCase();
-            if (seen.has(key)) return false;
-            seen.add(key);
-            return true;
-          });
-      } else {
-        // Original Nexus device template format
-        const col = (names: string[]) =>
-          names.map((n) => headers.findIndex((h) => h.includes(n))).find((i) => i !== -1) ?? -1;
-        const nameIdx   = col(["name"]);
-        const fqdnIdx   = col(["fqdn", "hostname", "host"]);
-        const ipIdx     = col(["ip"]);
-        const osIdx     = col(["os"]);
-        const osVerIdx  = col(["os ver", "osver", "version", "ver"]);
-        const typeIdx   = col(["type"]);
-        const statusIdx = col(["status"]);
-        const userIdx   = col(["user"]);
-
-        if (nameIdx === -1) { Alert.alert("Error", "CSV must have a 'Name' column."); return; }
-
-        preview = dataRows
-          .map((row) => ({
-            name:   normalizeCell(row[nameIdx]   ?? ""),
-            fqdn:   fqdnIdx   !== -1 ? normalizeCell(row[fqdnIdx]   ?? "") : "",
-            ip:     ipIdx     !== -1 ? normalizeCell(row[ipIdx]     ?? "") : "",
-            os:     osIdx     !== -1 ? normalizeCell(row[osIdx]     ?? "") : "",
-            osVer:  osVerIdx  !== -1 ? normalizeCell(row[osVerIdx]  ?? "") : "",
-            type:   typeIdx   !== -1 ? normalizeCell(row[typeIdx]   ?? "") : "Desktop",
-            status: statusIdx !== -1 ? normalizeCell(row[statusIdx] ?? "") : "Active [ON]",
-            user:   userIdx   !== -1 ? normalizeCell(row[userIdx]   ?? "") : "",
-          }))
-          .filter((d) => d.name);
-      }
-
-      if (preview.length === 0) { Alert.alert("Error", "No valid rows found."); return; }
-      setImportPreview(preview);
-      setShowImportModal(true);
-    } catch {
-      Alert.alert("Error", "Failed to read CSV file.");
-    }
-  };
-
-  const commitImport = async () => {
-    if (!siteId) return;
-    setImportSaving(true);
-    try {
-      // Firestore batch limit = 500; device lists are typically <500
-      const batch = writeBatch(db);
-      importPreview.forEach((d) => {
-        const docId = stableDeviceId(siteId, d.name);
-        batch.set(
-          doc(db, "pmDevices", docId),
-          {
-            name: d.name,
-            fqdn: d.fqdn,
-            ip: d.ip,
-            os: d.os,
-            osVer: d.osVer,
-            type: d.type || "Desktop",
-            status: d.status || "Active [ON]",
-            user: d.user,
-            siteId,
-            updatedAt: serverTimestamp(),
-          },
-          { merge: true }
-        );
-      });
-      await batch.commit();
-      setShowImportModal(false);
-      setImportPreview([]);
-      Alert.alert("Success", `${importPreview.length} device(s) imported.`);
-    } catch {
-      Alert.alert("Error", "Import failed.");
-    }
-    setImportSaving(false);
+  const pickImportCSV = () => {
+    if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
+    startImport("pmDevices");
   };
 
-  // ─── CSV Export ───────────────────────────────────────────────────────────
+  // ─── Export ───────────────────────────────────────────────────────────────
 
-  const exportCSV = async () => {
+  const exportChecklist = async () => {
     if (devices.length === 0) { Alert.alert("Nothing to export."); return; }
+    const format = await chooseExportFormat("PM Checklist Export");
+    if (!format) return;
     setExporting(true);
     try {
       const headers = [
@@ -464,28 +310,21 @@ export default function PMScreen() {
         "PM Date", "Tech", "Dept", "Asset No",
         ...ALL_CHECKS, "Boot Errors", "PM Notes",
       ];
-      const rows = [headers];
-      devices.forEach((d) => {
+      const rows = devices.map((d) => {
         const rec = records[d.id];
-        rows.push([
+        return [
           d.name, d.fqdn || "", d.ip || "", d.os || "", d.osVer || "",
           d.type || "", d.status || "", d.user || "",
-          rec?.pmDate || "", rec?.tech || "",
+          toDate(rec?.pmDate) ?? rec?.pmDate ?? "", rec?.tech || "",
           (rec as any)?.dept || "", (rec as any)?.assetNo || "",
           ...ALL_CHECKS.map((c) => rec?.checks?.[c] || ""),
           (rec as any)?.bootErrors || "", (rec as any)?.notes || "",
-        ]);
-      });
-      const csv = rows
-        .map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
-        .join("\n");
-      const uri =
-        FileSystem.cacheDirectory +
-        `PM_Checklist_${new Date().toISOString().split("T")[0]}.csv`;
-      await FileSystem.writeAsStringAsync(uri, csv, {
-        encoding: FileSystem.EncodingType.UTF8,
+        ];
       });
-      await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle: "PM Checklist Export" });
+      await shareTable(
+        { headers, rows, sheetName: "PM Checklist" },
+        { fileName: `PM_Checklist_${new Date().toISOString().split("T")[0]}`, format, dialogTitle: "PM Checklist Export" }
+      );
     } catch {
       Alert.alert("Error", "Export failed.");
     }
@@ -791,10 +630,10 @@ export default function PMScreen() {
             )}
             <Pressable
               style={styles.actionItem}
-              onPress={() => { setShowOverflowMenu(false); exportCSV(); }}
+              onPress={() => { setShowOverflowMenu(false); exportChecklist(); }}
             >
               <Ionicons name="download-outline" size={20} color={theme.primary} style={{ marginRight: 14 }} />
-              <Text style={[styles.actionText, { color: theme.text }]}>Export CSV</Text>
+              <Text style={[styles.actionText, { color: theme.text }]}>Export</Text>
             </Pressable>
           </View>
         </Pressable>
@@ -810,53 +649,7 @@ export default function PMScreen() {
         </Pressable>
       )}
 
-      {/* ── Import preview modal ── */}
-      <Modal visible={showImportModal} animationType="slide" presentationStyle="pageSheet">
-        <View style={[styles.modal, { backgroundColor: theme.background }]}>
-          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
-            <Pressable onPress={() => { setShowImportModal(false); setImportPreview([]); }} style={styles.modalClose}>
-              <Ionicons name="close" size={22} color={theme.mutedText} />
-            </Pressable>
-            <Text style={[styles.modalTitle, { color: theme.text }]}>
-              Import Preview ({importPreview.length})
-            </Text>
-            <View style={styles.modalClose} />
-          </View>
-          <FlatList
-            data={importPreview}
-            keyExtractor={(_, i) => String(i)}
-            contentContainerStyle={styles.modalBody}
-            renderItem={({ item }) => (
-              <View style={[styles.previewRow, { borderBottomColor: theme.border }]}>
-                <Text style={[styles.previewName, { color: theme.text }]}>{item.name}</Text>
-                <Text style={[styles.previewMeta, { color: theme.mutedText }]}>
-                  {[item.os, item.osVer].filter(Boolean).join(" ")}
-                  {item.ip ? ` · ${item.ip}` : ""}
-                </Text>
-              </View>
-            )}
-          />
-          <View style={[styles.modalFooter, { borderTopColor: theme.border, backgroundColor: theme.background }]}>
-            <Pressable
-              style={[styles.footerBtn, styles.footerCancel, { borderColor: theme.border }]}
-              onPress={() => { setShowImportModal(false); setImportPreview([]); }}
-            >
-              <Text style={[styles.footerCancelText, { color: theme.mutedText }]}>Cancel</Text>
-            </Pressable>
-            <Pressable
-              style={[styles.footerBtn, styles.footerSave, { backgroundColor: theme.primary }]}
-              onPress={commitImport}
-              disabled={importSaving}
-            >
-              {importSaving ? (
-                <ActivityIndicator size="small" color="#fff" />
-              ) : (
-                <Text style={styles.footerSaveText}>Import {importPreview.length}</Text>
-              )}
-            </Pressable>
-          </View>
-        </View>
-      </Modal>
+      <ImportReportModal {...reportProps} />
     </View>
   );
 }
@@ -975,8 +768,4 @@ const styles = StyleSheet.create({
     borderRadius: 8, borderWidth: 1.5,
   },
   optionText: { fontSize: 13, fontWeight: "500" },
-
-  previewRow: { paddingVertical: 10, borderBottomWidth: 1 },
-  previewName: { fontSize: 14, fontWeight: "600" },
-  previewMeta: { fontSize: 12, marginTop: 2 },
 });
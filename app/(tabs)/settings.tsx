@@ -14,11 +14,15 @@ import { BRAND } from "../../constants/branding";
 import { AppColors, useAppTheme } from "../../constants/theme";
 import { auth, db } from "../../firebaseConfig";
 import { usePushNotifications } from "../../hooks/usePushNotifications";
+import { useOutbox } from "../../hooks/useOutbox";
 import { useToast } from "../../hooks/useToast";
 import { useUserProfile } from "../../hooks/useUserProfile";
 import { SITES } from "../../hooks/useSiteContext";
 import { useThemePreference } from "../../src/theme/ThemeProvider";
-import { exportInventoryToCSV } from "../../utils/exportInventory";
+import { exportInventory } from "../../utils/exportInventory";
+import { shareStockReportPdf } from "../../utils/pdfReports";
+import { BackupFormat, shareSiteBackup } from "../../utils/siteBackup";
+import { chooseExportFormat } from "../../utils/spreadsheet";
 
 type RegistrationDoc = {
   token: string;
@@ -99,6 +103,11 @@ export default function SettingsScreen() {
   
   // Export state
   const [exporting, setExporting] = useState(false);
+  const [backingUp, setBackingUp] = useState(false);
+  const [printingReport, setPrintingReport] = useState(false);
+
+  // Offline outbox
+  const { pendingCount, conflictCount } = useOutbox();
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -267,9 +276,12 @@ export default function SettingsScreen() {
       return;
     }
 
+    const format = await chooseExportFormat("Export Inventory");
+    if (!format) return;
+
     setExporting(true);
     try {
-      await exportInventoryToCSV(siteId);
+      await exportInventory(siteId, format);
       showToast("✓ Inventory exported", "success");
     } catch (error) {
       if (__DEV__) console.error("Export error:", error);
@@ -279,6 +291,52 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleStockReport = async () => {
+    if (!siteId) {
+      showToast("No site assigned", "error");
+      return;
+    }
+
+    setPrintingReport(true);
+    try {
+      const user = auth.currentUser;
+      await shareStockReportPdf(siteId, profile?.name || user?.displayName || user?.email || "Unknown");
+    } catch (error: any) {
+      if (__DEV__) console.error("Stock report error:", error);
+      showToast(error?.message || "Failed to create stock report", "error");
+    } finally {
+      setPrintingReport(false);
+    }
+  };
+
+  const runBackup = async (format: BackupFormat) => {
+    if (!siteId) return;
+    setBackingUp(true);
+    try {
+      const user = auth.currentUser;
+      const counts = await shareSiteBackup(siteId, profile?.name || user?.displayName || user?.email || "Unknown", format);
+      const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+      showToast(`✓ Backed up ${total} records`, "success");
+    } catch (error) {
+      if (__DEV__) console.error("Backup error:", error);
+      showToast("Failed to back up site", "error");
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleBackup = () => {
+    if (!siteId) {
+      showToast("No site assigned", "error");
+      return;
+    }
+    Alert.alert("Back Up Site", "Archive every record for this site, including stock movements and the activity log.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "JSON", onPress: () => runBackup("json") },
+      { text: "ZIP", onPress: () => runBackup("zip") },
+    ]);
+  };
+
   const handleSaveName = async () => {
     if (!uid) return;
     setSavingName(true);
@@ -440,6 +498,102 @@ export default function SettingsScreen() {
           <PrefRow title="Vibration" subtitle="Vibrate when receiving alerts" value={notifVibrate} onChange={toggleNotifVibrate} theme={theme} isDark={isDark} />
         </Card>
 
+        <Card title="Offline sync" subtitle="Changes made without signal are queued on this device and synced automatically" theme={theme}>
+          <InfoRow label="Waiting to sync" value={String(pendingCount)} theme={theme} />
+          <InfoRow label="Needs review" value={String(conflictCount)} theme={theme} />
+          <Pressable
+            onPress={() => router.push("/outbox")}
+            style={{
+              marginTop: 12,
+              borderWidth: 1,
+              borderColor: conflictCount > 0 ? theme.danger : theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: conflictCount > 0 ? theme.danger : theme.primary, fontWeight: "800", fontSize: 14 }}>Open outbox</Text>
+          </Pressable>
+        </Card>
+
+        <Card title="Site transfers" subtitle="Stock sent to or requested from other sites" theme={theme}>
+          <Pressable
+            onPress={() => router.push("/transfers")}
+            style={{
+              borderWidth: 1,
+              borderColor: theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 14 }}>Open transfers</Text>
+          </Pressable>
+        </Card>
+
+        <Card title="Cycle counts" subtitle="This week's assigned counts and count accuracy" theme={theme}>
+          <Pressable
+            onPress={() => router.push("/cycle-counts" as any)}
+            style={{
+              borderWidth: 1,
+              borderColor: theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 14 }}>Open cycle counts</Text>
+          </Pressable>
+        </Card>
+
+        <Card title="Asset register" subtitle="Hardware from purchase to disposal: cost, warranty, assignment and status" theme={theme}>
+          <Pressable
+            onPress={() => router.push("/assets" as any)}
+            style={{
+              borderWidth: 1,
+              borderColor: theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 14 }}>Open asset register</Text>
+          </Pressable>
+        </Card>
+
+        <Card title="Contracts & warranties" subtitle="Service contracts and warranties expiring in the next 60 days" theme={theme}>
+          <Pressable
+            onPress={() => router.push("/contracts" as any)}
+            style={{
+              borderWidth: 1,
+              borderColor: theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 14 }}>Expiring soon</Text>
+          </Pressable>
+        </Card>
+
+        <Card title="Asset labels" subtitle="Barcode and QR label sheets for Avery stock" theme={theme}>
+          <Pressable
+            onPress={() => router.push("/labels" as any)}
+            style={{
+              borderWidth: 1,
+              borderColor: theme.primary,
+              paddingVertical: 11,
+              borderRadius: 999,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 14 }}>Print labels</Text>
+          </Pressable>
+          <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 10 }}>
+            Records without a barcode get an internal asset code when their label is printed.
+          </Text>
+        </Card>
+
         <Card title="Data management" subtitle="Export and backup your data" theme={theme}>
           <Pressable
             onPress={handleExport}
@@ -453,12 +607,56 @@ export default function SettingsScreen() {
             }}
           >
             <Text style={{ color: "#fff", fontWeight: "900" }}>
-              {exporting ? "Exporting…" : "Export Inventory to CSV"}
+              {exporting ? "Exporting…" : "Export Inventory"}
             </Text>
           </Pressable>
           
           <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 10 }}>
-            Downloads a spreadsheet with all inventory items for your site.
+            Downloads a CSV or Excel spreadsheet with all inventory items for your site.
+          </Text>
+
+          <Pressable
+            onPress={handleStockReport}
+            disabled={printingReport || !siteId}
+            style={{
+              marginTop: 14,
+              borderWidth: 1,
+              borderColor: theme.border,
+              paddingVertical: 12,
+              borderRadius: 999,
+              alignItems: "center",
+              opacity: printingReport || !siteId ? 0.6 : 1,
+            }}
+          >
+            <Text style={{ color: theme.text, fontWeight: "900" }}>
+              {printingReport ? "Preparing…" : "Stock Report (PDF)"}
+            </Text>
+          </Pressable>
+
+          <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 10 }}>
+            A printable audit report of inventory, toners and radio parts grouped into OUT, LOW and OK.
+          </Text>
+
+          <Pressable
+            onPress={handleBackup}
+            disabled={backingUp || !siteId}
+            style={{
+              marginTop: 14,
+              borderWidth: 1,
+              borderColor: theme.border,
+              paddingVertical: 12,
+              borderRadius: 999,
+              alignItems: "center",
+              opacity: backingUp || !siteId ? 0.6 : 1,
+            }}
+          >
+            <Text style={{ color: theme.text, fontWeight: "900" }}>
+              {backingUp ? "Backing up…" : "Back Up Entire Site"}
+            </Text>
+          </Pressable>
+
+          <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 10 }}>
+            A versioned JSON or ZIP archive of every record for your site. Admins can restore it from the Admin tab.
           </Text>
         </Card>
 
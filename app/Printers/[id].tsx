@@ -1,17 +1,14 @@
 import { Ionicons } from "@expo/vector-icons";
-import { Stack, useLocalSearchParams } from "expo-router";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import {
-    addDoc,
     collection,
     doc,
-    increment,
+    documentId,
     onSnapshot,
     query,
-    serverTimestamp,
-    updateDoc,
     where
 } from "firebase/firestore";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
@@ -22,10 +19,16 @@ import {
     Text,
     View,
 } from "react-native";
+import { ContractsCard } from "../../components/ContractsCard";
+import { PrinterCostCard } from "../../components/PrinterCostCard";
 import { useAppTheme } from "../../constants/theme";
 import { auth, db } from "../../firebaseConfig";
 import { useUserProfile } from "../../hooks/useUserProfile";
-import { getStockStatus } from "../../utils/activity";
+import { PrinterCompatibility, PrinterStatus } from "../../types/inventory";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
+import { modelKey, printerConsumables, slotLabel } from "../../utils/printerCompatibility";
+import { printerReference } from "../../utils/printerCosts";
+import { ERROR_STATE_LABELS, isStatusStale, levelColor } from "../../utils/printerStatus";
 
 interface Printer {
   id: string;
@@ -34,6 +37,8 @@ interface Printer {
   ipAddress?: string;
   serial?: string;
   assetNumber?: string;
+  model?: string;
+  tonerId?: string;
   siteId: string;
 }
 
@@ -49,8 +54,11 @@ export default function PrinterDetail() {
   const theme = useAppTheme();
   const { profile } = useUserProfile();
   const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
   const [printer, setPrinter] = useState<Printer | null>(null);
   const [linkedToners, setLinkedToners] = useState<Toner[]>([]);
+  const [status, setStatus] = useState<PrinterStatus | null>(null);
+  const [compat, setCompat] = useState<PrinterCompatibility | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -64,20 +72,64 @@ export default function PrinterDetail() {
     return () => unsub();
   }, [id]);
 
-  // Automatically find toners linked to this printer name
+  // Consumables for this printer's model (printerCompatibility)
   useEffect(() => {
-    if (!printer?.name || !printer?.siteId) return;
+    if (!printer?.siteId || !printer?.model) {
+      setCompat(null);
+      return;
+    }
     const q = query(
-      collection(db, "toners"),
+      collection(db, "printerCompatibility"),
       where("siteId", "==", printer.siteId),
-      where("printer", "==", printer.name),
+      where("modelKey", "==", modelKey(printer.model)),
     );
+    const unsub = onSnapshot(q, (snap) => {
+      setCompat(snap.empty ? null : ({ id: snap.docs[0].id, ...snap.docs[0].data() } as PrinterCompatibility));
+    });
+    return () => unsub();
+  }, [printer?.siteId, printer?.model]);
+
+  const byModel = useMemo(() => (compat ? { [compat.modelKey]: compat } : {}), [compat]);
+  const consumableIds = useMemo(
+    () => printer ? printerConsumables(printer, byModel).map((c) => c.tonerId).join(",") : "",
+    [printer, byModel]
+  );
+
+  // Toners in the printer's consumable set; without one, fall back to toners
+  // whose "Compatible Printer" is this printer's name
+  useEffect(() => {
+    if (!printer?.name || !printer?.siteId) return;
+    const q = consumableIds
+      ? query(
+          collection(db, "toners"),
+          where("siteId", "==", printer.siteId),
+          where(documentId(), "in", consumableIds.split(",").slice(0, 30)),
+        )
+      : query(
+          collection(db, "toners"),
+          where("siteId", "==", printer.siteId),
+          where("printer", "==", printer.name),
+        );
     const unsub = onSnapshot(q, (snap) => {
       const list = snap.docs.map(d => ({ id: d.id, ...d.data() } as Toner));
       setLinkedToners(list);
     });
     return () => unsub();
-  }, [printer?.name, printer?.siteId]);
+  }, [printer?.name, printer?.siteId, consumableIds]);
+
+  // Latest SNMP reading from the on-prem agent, if it polls this printer
+  useEffect(() => {
+    if (!id || !printer?.siteId) return;
+    const q = query(
+      collection(db, "printerStatus"),
+      where("siteId", "==", printer.siteId),
+      where("printerId", "==", id),
+    );
+    const unsub = onSnapshot(q, (snap) => {
+      setStatus(snap.empty ? null : ({ id: snap.docs[0].id, ...snap.docs[0].data() } as PrinterStatus));
+    });
+    return () => unsub();
+  }, [id, printer?.siteId]);
 
   const openWebUI = () => {
     if (printer?.ipAddress) {
@@ -105,49 +157,52 @@ export default function PrinterDetail() {
         text: "Confirm",
         onPress: async () => {
           try {
-            const userName = user.displayName || user.email || "Unknown Tech";
-            const newQuantity = toner.quantity - 1;
-            const prevState = getStockStatus(toner.quantity, toner.minQuantity);
-            const nextState = getStockStatus(newQuantity, toner.minQuantity);
-
-            await updateDoc(doc(db, "toners", toner.id), {
-              quantity: increment(-1),
-              updatedAt: serverTimestamp()
-            });
-
-            await addDoc(collection(db, "alertsLog"), {
-              createdAt: serverTimestamp(),
-              siteId: printer?.siteId || "",
-              itemId: toner.id,
-              itemName: toner.model,
-              action: "deducted",
-              qty: newQuantity,
-              min: toner.minQuantity,
-              prevState,
-              nextState,
-              status: nextState,
-              itemType: "toner",
-              by: userName,
-              note: printer ? `Via printer: ${printer.name}` : null,
-              source: "movement",
-            });
-
-            Alert.alert("Success", "Toner deducted from inventory.");
-          } catch (e) {
-            Alert.alert("Error", "Failed to update stock.");
+            const result = await submitStockMovement(
+              {
+                itemType: "toner",
+                itemId: toner.id,
+                delta: -1,
+                by: user.displayName || user.email || "Unknown Tech",
+                note: printer ? `Via printer: ${printer.name}` : null,
+                reference: printer ? printerReference(printer) : undefined,
+              },
+              { label: `-1 ${toner.model}`, siteId: printer?.siteId || "" }
+            );
+
+            Alert.alert(result ? "Success" : "Queued", result ? "Toner deducted from inventory." : QUEUED_MESSAGE);
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to update stock.");
           }
         }
       }
     ]);
   };
 
+  // One row per slot, in slot order; name-matched toners have no slot
+  const tonersById = Object.fromEntries(linkedToners.map((t) => [t.id, t]));
+  const slottedToners = consumableIds && printer
+    ? printerConsumables(printer, byModel, tonersById)
+        .filter((c) => tonersById[c.tonerId])
+        .map((c) => ({ toner: tonersById[c.tonerId], slot: c.slot }))
+    : linkedToners.map((toner) => ({ toner, slot: null }));
+
   if (loading) return <View style={styles.center}><ActivityIndicator size="large" /></View>;
   if (!printer) return <View style={styles.center}><Text style={{color: theme.text}}>Printer not found.</Text></View>;
   if (profile?.siteId && printer.siteId !== profile.siteId) return <View style={styles.center}><Text style={{color: theme.text}}>Access denied.</Text></View>;
 
   return (
     <ScrollView style={[styles.container, { backgroundColor: theme.background }]}>
-      <Stack.Screen options={{ title: printer.name, headerTintColor: theme.text }} />
+      <Stack.Screen
+        options={{
+          title: printer.name,
+          headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "printers", id } })} hitSlop={8}>
+              <Ionicons name="pricetag-outline" size={20} color={theme.text} />
+            </Pressable>
+          ),
+        }}
+      />
 
       {/* Printer Info Card */}
       <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
@@ -168,15 +223,78 @@ export default function PrinterDetail() {
         </View>
       </View>
 
+      {/* Live Status (SNMP) */}
+      {status && (
+        <>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Live Status</Text>
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <View style={styles.row}>
+              <Ionicons
+                name={status.reachable ? "radio-outline" : "cloud-offline-outline"}
+                size={16}
+                color={status.reachable ? "#22c55e" : "#ef4444"}
+              />
+              <Text style={{ color: theme.text, fontWeight: "700", flex: 1 }}>
+                {status.reachable ? (status.printerState === "printing" ? "Printing" : status.deviceStatus === "down" ? "Down" : "Online") : "Not responding"}
+              </Text>
+              <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                {status.lastSeenAt?.toDate ? `Seen ${status.lastSeenAt.toDate().toLocaleString()}` : "Never seen"}
+              </Text>
+            </View>
+            {!status.reachable && status.error ? (
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 4 }}>{status.error}</Text>
+            ) : null}
+
+            {(status.errorStates ?? []).length > 0 && (
+              <View style={[styles.row, { flexWrap: "wrap", gap: 6, marginTop: 10 }]}>
+                {(status.errorStates ?? []).map((e) => (
+                  <View key={e} style={styles.errorChip}>
+                    <Text style={styles.errorChipText}>{ERROR_STATE_LABELS[e] ?? e}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {(status.supplies ?? []).map((s) => (
+              <View key={s.index} style={{ marginTop: 12, opacity: isStatusStale(status) ? 0.6 : 1 }}>
+                <View style={styles.row}>
+                  <Text style={{ color: theme.text, fontSize: 13, fontWeight: "700", flex: 1 }} numberOfLines={1}>{s.description}</Text>
+                  <Text style={{ color: levelColor(s.percent), fontSize: 13, fontWeight: "900" }}>
+                    {s.percent != null ? `${s.percent}%` : s.someRemaining ? "OK" : "—"}
+                  </Text>
+                </View>
+                {s.percent != null && (
+                  <View style={[styles.levelTrack, { backgroundColor: theme.border }]}>
+                    <View style={[styles.levelFill, { width: `${s.percent}%`, backgroundColor: levelColor(s.percent) }]} />
+                  </View>
+                )}
+              </View>
+            ))}
+
+            {status.pageCount != null && (
+              <>
+                <View style={styles.divider} />
+                <Text style={[styles.label, { color: theme.mutedText }]}>Page count</Text>
+                <Text style={[styles.value, { color: theme.text }]}>{status.pageCount.toLocaleString()}</Text>
+              </>
+            )}
+          </View>
+        </>
+      )}
+
       {/* Toner Section */}
-      <Text style={[styles.sectionTitle, { color: theme.text }]}>Linked Toners</Text>
+      <Text style={[styles.sectionTitle, { color: theme.text }]}>{consumableIds ? "Consumables" : "Linked Toners"}</Text>
+      {printer.model ? (
+        <Text style={{ color: theme.mutedText, fontSize: 12, paddingHorizontal: 4, marginBottom: 8 }}>Model: {printer.model}</Text>
+      ) : null}
       {linkedToners.length === 0 ? (
         <Text style={{ color: theme.mutedText, paddingHorizontal: 4 }}>No toners linked to this printer model.</Text>
       ) : (
-        linkedToners.map(toner => (
-          <View key={toner.id} style={[styles.card, { backgroundColor: theme.card, borderColor: toner.quantity <= toner.minQuantity ? "#ef4444" : theme.border }]}>
+        slottedToners.map(({ toner, slot }) => (
+          <View key={`${slot ?? ""}_${toner.id}`} style={[styles.card, { backgroundColor: theme.card, borderColor: toner.quantity <= toner.minQuantity ? "#ef4444" : theme.border }]}>
             <View style={styles.row}>
               <View style={{ flex: 1 }}>
+                {slot && <Text style={[styles.label, { color: theme.mutedText }]}>{slotLabel(slot)}</Text>}
                 <Text style={[styles.value, { color: theme.text }]}>{toner.model}</Text>
                 <Text style={{ color: theme.mutedText, fontSize: 12 }}>Stock: {toner.quantity}</Text>
               </View>
@@ -191,6 +309,12 @@ export default function PrinterDetail() {
         ))
       )}
 
+      {/* Toner consumption & cost per page */}
+      <Text style={[styles.sectionTitle, { color: theme.text, marginTop: 20 }]}>Toner & Cost</Text>
+      <PrinterCostCard printer={printer} />
+
+      <ContractsCard targetType="printer" targetId={String(id)} targetName={printer.name} />
+
       {/* Maintenance Section Placeholder */}
       <Text style={[styles.sectionTitle, { color: theme.text, marginTop: 20 }]}>Maintenance Log</Text>
       <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderStyle: 'dashed' }]}>
@@ -213,4 +337,8 @@ const styles = StyleSheet.create({
   actionBtnText: { color: '#fff', fontWeight: '700', fontSize: 12 },
   deductBtn: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 8 },
   deductBtnText: { color: '#fff', fontWeight: '900', fontSize: 13 },
+  levelTrack: { height: 6, borderRadius: 3, marginTop: 6, overflow: 'hidden' },
+  levelFill: { height: 6, borderRadius: 3 },
+  errorChip: { backgroundColor: 'rgba(239, 68, 68, 0.18)', borderRadius: 999, paddingVertical: 4, paddingHorizontal: 10 },
+  errorChipText: { color: '#ef4444', fontSize: 12, fontWeight: '700' },
 });
\ No newline at end of file
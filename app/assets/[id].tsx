@@ -0,0 +1,223 @@
+// app/assets/[id].tsx — One asset: details, status, lifecycle history
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { doc, onSnapshot } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { AssetFormModal } from "../../components/AssetFormModal";
+import { ContractsCard } from "../../components/ContractsCard";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { Asset, AssetStatus } from "../../types/inventory";
+import {
+  ASSET_STATUS_COLORS,
+  ASSET_STATUS_LABELS,
+  AssetFields,
+  assetAge,
+  categoryLabel,
+  setAssetStatus,
+  updateAsset,
+  warrantyExpired,
+} from "../../utils/assets";
+import { formatCost } from "../../utils/printerCosts";
+
+const STATUS_ACTIONS: Exclude<AssetStatus, "disposed">[] = ["in_service", "in_repair", "retired"];
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
+export default function AssetDetail() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { profile } = useUserProfile();
+
+  const [asset, setAsset] = useState<Asset | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showEdit, setShowEdit] = useState(false);
+  const [changing, setChanging] = useState<AssetStatus | null>(null);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, "assets", String(id)),
+      (snap) => {
+        setAsset(snap.exists() ? ({ id: snap.id, ...snap.data() } as Asset) : null);
+        setLoading(false);
+      },
+      (err) => { if (__DEV__) console.error("Error loading asset:", err); setLoading(false); }
+    );
+    return () => unsub();
+  }, [id]);
+
+  const changeStatus = async (status: Exclude<AssetStatus, "disposed">) => {
+    if (!asset || asset.status === status) return;
+    setChanging(status);
+    try {
+      await setAssetStatus(asset, status, by);
+    } catch (err: any) {
+      Alert.alert("Error", err?.message || "Could not change the status.");
+    } finally {
+      setChanging(null);
+    }
+  };
+
+  const handleEdit = async (fields: AssetFields) => {
+    if (!asset) return;
+    await updateAsset(asset, fields);
+    setShowEdit(false);
+  };
+
+  const disposed = asset?.status === "disposed";
+  const disposedOn: Date | null = asset?.disposedAt?.toDate ? asset.disposedAt.toDate() : null;
+  const age = asset ? assetAge(asset.purchaseDate, disposedOn ?? undefined) : null;
+  const expired = !disposed && warrantyExpired(asset?.warrantyEnd);
+
+  const details: [string, string | undefined][] = asset ? [
+    ["Category", categoryLabel(asset.category)],
+    ["Asset Tag", asset.assetTag],
+    ["Serial", asset.serial],
+    ["Make / Model", [asset.manufacturer, asset.model].filter(Boolean).join(" ") || undefined],
+    ["Assigned To", asset.assignedTo],
+    ["Location", asset.location],
+    ["Purchased", asset.purchaseDate],
+    ["Cost", typeof asset.cost === "number" ? formatCost(asset.cost) : undefined],
+    ["Vendor", asset.vendor],
+    [disposed ? "Age at Disposal" : "Age", age ?? undefined],
+    ["Warranty Ends", asset.warrantyEnd ? `${asset.warrantyEnd}${expired ? " (expired)" : ""}` : undefined],
+  ] : [];
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: asset?.name || "Asset",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+          headerRight: () => asset && !disposed ? (
+            <Pressable onPress={() => setShowEdit(true)} hitSlop={8}>
+              <Ionicons name="create-outline" size={22} color={theme.text} />
+            </Pressable>
+          ) : null,
+        }}
+      />
+
+      {loading ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator />
+        </View>
+      ) : !asset ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <Text style={{ color: theme.mutedText }}>This asset no longer exists.</Text>
+        </View>
+      ) : (
+        <ScrollView style={{ flex: 1, backgroundColor: theme.background }} contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: ASSET_STATUS_COLORS[asset.status], borderLeftWidth: 3 }]}>
+            <View style={{ flexDirection: "row", alignItems: "center" }}>
+              <Text style={[styles.title, { color: theme.text, flex: 1 }]}>{asset.name}</Text>
+              <View style={[styles.statusPill, { backgroundColor: ASSET_STATUS_COLORS[asset.status] + "20" }]}>
+                <Text style={{ color: ASSET_STATUS_COLORS[asset.status], fontSize: 11, fontWeight: "800" }}>
+                  {ASSET_STATUS_LABELS[asset.status]}
+                </Text>
+              </View>
+            </View>
+            {details.filter(([, v]) => v).map(([label, value]) => (
+              <View key={label} style={styles.detailRow}>
+                <Text style={{ color: theme.mutedText, fontSize: 13 }}>{label}</Text>
+                <Text style={{ color: label === "Warranty Ends" && expired ? theme.warning : theme.text, fontSize: 13, fontWeight: "700", flexShrink: 1, textAlign: "right" }}>
+                  {value}
+                </Text>
+              </View>
+            ))}
+            {asset.notes ? <Text style={{ color: theme.mutedText, fontSize: 12, fontStyle: "italic", marginTop: 10 }}>{asset.notes}</Text> : null}
+          </View>
+
+          {disposed ? (
+            <View style={[styles.banner, { borderColor: theme.danger, backgroundColor: theme.danger + "1A" }]}>
+              <Ionicons name="trash-outline" size={18} color={theme.danger} style={{ marginRight: 8 }} />
+              <Text style={{ color: theme.danger, fontWeight: "800", flex: 1 }}>
+                Disposed{disposedOn ? ` ${disposedOn.toLocaleDateString()}` : ""}. The record is on the Disposal tab.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <Text style={[styles.section, { color: theme.mutedText }]}>STATUS</Text>
+              <View style={styles.statusRow}>
+                {STATUS_ACTIONS.map((s) => {
+                  const active = asset.status === s;
+                  const color = ASSET_STATUS_COLORS[s];
+                  return (
+                    <Pressable
+                      key={s}
+                      onPress={() => changeStatus(s)}
+                      disabled={active || !!changing}
+                      style={[styles.statusBtn, { borderColor: active ? color : theme.border, backgroundColor: active ? color + "20" : theme.card }]}
+                    >
+                      {changing === s
+                        ? <ActivityIndicator size="small" color={color} />
+                        : <Text style={{ color: active ? color : theme.text, fontWeight: "800", fontSize: 13 }}>{ASSET_STATUS_LABELS[s]}</Text>}
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Pressable
+                onPress={() => router.push({ pathname: "/disposal" as any, params: { assetId: asset.id } })}
+                style={[styles.actionBtn, { borderWidth: 1, borderColor: theme.danger }]}
+              >
+                <Text style={{ color: theme.danger, fontWeight: "800" }}>Dispose…</Text>
+              </Pressable>
+            </>
+          )}
+
+          {!disposed && <ContractsCard targetType="asset" targetId={asset.id} targetName={asset.name} />}
+
+          <Text style={[styles.section, { color: theme.mutedText }]}>LIFECYCLE</Text>
+          {(asset.history ?? []).length === 0 ? (
+            <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 8 }}>No history.</Text>
+          ) : (
+            [...(asset.history ?? [])].reverse().map((h, i) => (
+              <View key={`${h.at}-${i}`} style={[styles.historyRow, { borderColor: theme.border }]}>
+                <View style={[styles.dot, { backgroundColor: ASSET_STATUS_COLORS[h.status] ?? theme.mutedText }]} />
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: theme.text, fontWeight: "800" }}>{ASSET_STATUS_LABELS[h.status] ?? h.status}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12 }}>{formatWhen(h.at)} by {h.by}</Text>
+                  {h.note ? <Text style={{ color: theme.mutedText, fontSize: 11, fontStyle: "italic" }}>{h.note}</Text> : null}
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      <AssetFormModal visible={showEdit} asset={asset} onSave={handleEdit} onClose={() => setShowEdit(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  card: { borderRadius: 16, borderWidth: 1, padding: 16 },
+  title: { fontSize: 18, fontWeight: "800" },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+  detailRow: { flexDirection: "row", justifyContent: "space-between", gap: 12, marginTop: 10 },
+  banner: { flexDirection: "row", alignItems: "center", marginTop: 12, borderWidth: 1, borderRadius: 12, padding: 12 },
+  section: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginTop: 20, marginBottom: 8 },
+  statusRow: { flexDirection: "row", gap: 8 },
+  statusBtn: { flex: 1, paddingVertical: 10, borderRadius: 999, borderWidth: 1, alignItems: "center" },
+  actionBtn: { marginTop: 12, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  historyRow: { flexDirection: "row", paddingVertical: 10, borderTopWidth: StyleSheet.hairlineWidth },
+  dot: { width: 10, height: 10, borderRadius: 5, marginRight: 10, marginTop: 5 },
+});
@@ -0,0 +1,188 @@
+// app/assets/index.tsx — Asset register for the site
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { AssetFormModal } from "../../components/AssetFormModal";
+import { useAppTheme } from "../../constants/theme";
+import { auth } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { Asset, AssetStatus } from "../../types/inventory";
+import {
+  ASSET_STATUS_COLORS,
+  ASSET_STATUS_LABELS,
+  AssetFields,
+  assetAge,
+  categoryLabel,
+  createAsset,
+  subscribeSiteAssets,
+  warrantyExpired,
+} from "../../utils/assets";
+import { formatCost } from "../../utils/printerCosts";
+
+type StatusFilter = "active" | AssetStatus | "all";
+
+const STATUS_FILTERS: { label: string; value: StatusFilter }[] = [
+  { label: "Active", value: "active" },
+  { label: "In service", value: "in_service" },
+  { label: "In repair", value: "in_repair" },
+  { label: "Retired", value: "retired" },
+  { label: "Disposed", value: "disposed" },
+  { label: "All", value: "all" },
+];
+
+export default function AssetList() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { siteId, profile } = useUserProfile();
+
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active");
+  const [search, setSearch] = useState("");
+  const [showAdd, setShowAdd] = useState(false);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!siteId) return;
+    return subscribeSiteAssets(siteId, (list) => {
+      setAssets(list);
+      setLoading(false);
+    });
+  }, [siteId]);
+
+  const visible = useMemo(() => {
+    let list = assets;
+    if (statusFilter === "active") list = list.filter((a) => a.status !== "disposed");
+    else if (statusFilter !== "all") list = list.filter((a) => a.status === statusFilter);
+    const q = search.trim().toLowerCase();
+    if (q) {
+      list = list.filter((a) =>
+        [a.name, a.assetTag, a.serial, a.manufacturer, a.model, a.assignedTo, a.location]
+          .some((t) => t?.toLowerCase().includes(q))
+      );
+    }
+    return list;
+  }, [assets, statusFilter, search]);
+
+  const handleAdd = async (fields: AssetFields) => {
+    if (!siteId) return;
+    const id = await createAsset(siteId, fields, by);
+    setShowAdd(false);
+    router.push({ pathname: "/assets/[id]" as any, params: { id } });
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Asset Register",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => setShowAdd(true)} hitSlop={8}>
+              <Ionicons name="add" size={24} color={theme.text} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search name, tag, serial or user…"
+          placeholderTextColor={theme.mutedText}
+          style={[styles.search, { color: theme.text, borderColor: theme.border, backgroundColor: theme.card }]}
+        />
+        <View style={styles.filterRow}>
+          {STATUS_FILTERS.map((f) => {
+            const active = statusFilter === f.value;
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => setStatusFilter(f.value)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: active ? theme.primary : "transparent", borderColor: active ? theme.primary : theme.border },
+                ]}
+              >
+                <Text style={{ color: active ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{f.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : visible.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="cube-outline" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8, textAlign: "center" }}>
+              {assets.length ? "No assets match." : "No assets yet. Tap + to add one."}
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={visible}
+            keyExtractor={(a) => a.id}
+            contentContainerStyle={{ padding: 16, paddingBottom: 60 }}
+            renderItem={({ item }) => {
+              const color = ASSET_STATUS_COLORS[item.status] ?? "#6b7280";
+              const age = assetAge(item.purchaseDate);
+              const expired = item.status !== "disposed" && warrantyExpired(item.warrantyEnd);
+              return (
+                <Pressable
+                  onPress={() => router.push({ pathname: "/assets/[id]" as any, params: { id: item.id } })}
+                  style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: color }]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{item.name}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }} numberOfLines={1}>
+                      {[categoryLabel(item.category), item.assetTag, item.assignedTo || item.location].filter(Boolean).join(" • ")}
+                    </Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 4 }}>
+                      {[
+                        typeof item.cost === "number" ? formatCost(item.cost) : null,
+                        age ? `Age ${age}` : null,
+                      ].filter(Boolean).join(" • ") || "No purchase details"}
+                      {expired ? <Text style={{ color: theme.warning }}>{"  •  Warranty expired"}</Text> : null}
+                    </Text>
+                  </View>
+                  <View style={[styles.statusPill, { backgroundColor: color + "20" }]}>
+                    <Text style={{ color, fontSize: 11, fontWeight: "800" }}>{ASSET_STATUS_LABELS[item.status]}</Text>
+                  </View>
+                </Pressable>
+              );
+            }}
+          />
+        )}
+      </View>
+
+      <AssetFormModal visible={showAdd} onSave={handleAdd} onClose={() => setShowAdd(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  search: { marginHorizontal: 16, marginTop: 12, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14 },
+  filterRow: { flexDirection: "row", flexWrap: "wrap", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1 },
+  card: { flexDirection: "row", alignItems: "center", borderRadius: 16, padding: 14, marginBottom: 10, borderWidth: 1, borderLeftWidth: 3 },
+  name: { fontSize: 15, fontWeight: "800" },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+});
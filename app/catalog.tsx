@@ -0,0 +1,422 @@
+// app/catalog.tsx — Global printer model and consumable catalog (admins only)
+import { Ionicons } from "@expo/vector-icons";
+import { Stack } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { auth } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import {
+  CatalogConsumable,
+  CatalogPrinterModel,
+  CONSUMABLE_SLOTS,
+  ConsumableSlot,
+  TONER_COLORS,
+} from "../types/inventory";
+import {
+  CatalogKind,
+  catalogConsumableName,
+  catalogModelName,
+  deleteCatalogEntry,
+  matchesCatalogSearch,
+  parseAliases,
+  saveCatalogEntry,
+  subscribeCatalogConsumables,
+  subscribeCatalogPrinterModels,
+} from "../utils/modelCatalog";
+import { formatCost, parseUnitCost } from "../utils/printerCosts";
+
+const EMPTY_MODEL_FORM = { manufacturer: "", model: "", aliases: "", color: false, notes: "" };
+const EMPTY_CONSUMABLE_FORM = {
+  manufacturer: "",
+  partNumber: "",
+  description: "",
+  color: "Black",
+  slot: "black" as ConsumableSlot,
+  yieldPages: "",
+  typicalPrice: "",
+  aliases: "",
+  printerModelIds: [] as string[],
+};
+
+export default function CatalogScreen() {
+  const theme = useAppTheme();
+  const { profile } = useUserProfile();
+  const isAdmin = profile?.role === "admin";
+
+  const [kind, setKind] = useState<CatalogKind>("printerModels");
+  const [models, setModels] = useState<CatalogPrinterModel[]>([]);
+  const [consumables, setConsumables] = useState<CatalogConsumable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [modelForm, setModelForm] = useState(EMPTY_MODEL_FORM);
+  const [consumableForm, setConsumableForm] = useState(EMPTY_CONSUMABLE_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    const unsubModels = subscribeCatalogPrinterModels((list) => {
+      setModels(list);
+      setLoading(false);
+    });
+    const unsubConsumables = subscribeCatalogConsumables(setConsumables);
+    return () => {
+      unsubModels();
+      unsubConsumables();
+    };
+  }, [isAdmin]);
+
+  const modelsById = useMemo(() => Object.fromEntries(models.map((m) => [m.id, m])), [models]);
+  const filteredModels = useMemo(() => models.filter((m) => matchesCatalogSearch(m, search)), [models, search]);
+  const filteredConsumables = useMemo(
+    () => consumables.filter((c) => matchesCatalogSearch(c, search)),
+    [consumables, search]
+  );
+  const consumableCount = (modelId: string) =>
+    consumables.filter((c) => c.printerModelIds?.includes(modelId)).length;
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  const openModel = (entry?: CatalogPrinterModel) => {
+    setEditingId(entry?.id ?? null);
+    setModelForm(entry ? {
+      manufacturer: entry.manufacturer ?? "",
+      model: entry.model,
+      aliases: (entry.aliases ?? []).join(", "),
+      color: !!entry.color,
+      notes: entry.notes ?? "",
+    } : EMPTY_MODEL_FORM);
+    setShowModal(true);
+  };
+
+  const openConsumable = (entry?: CatalogConsumable) => {
+    setEditingId(entry?.id ?? null);
+    setConsumableForm(entry ? {
+      manufacturer: entry.manufacturer ?? "",
+      partNumber: entry.partNumber,
+      description: entry.description ?? "",
+      color: entry.color ?? "Black",
+      slot: entry.slot ?? "black",
+      yieldPages: entry.yieldPages ? String(entry.yieldPages) : "",
+      typicalPrice: typeof entry.typicalPrice === "number" ? entry.typicalPrice.toFixed(2) : "",
+      aliases: (entry.aliases ?? []).join(", "),
+      printerModelIds: entry.printerModelIds ?? [],
+    } : EMPTY_CONSUMABLE_FORM);
+    setShowModal(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      if (kind === "printerModels") {
+        const model = modelForm.model.trim();
+        if (!model) { Alert.alert("Missing Model", "Enter the model name."); return; }
+        await saveCatalogEntry("printerModels", {
+          manufacturer: modelForm.manufacturer.trim() || undefined,
+          model,
+          aliases: parseAliases(modelForm.aliases),
+          color: modelForm.color,
+          notes: modelForm.notes.trim() || undefined,
+        }, by, editingId ?? undefined);
+      } else {
+        const partNumber = consumableForm.partNumber.trim();
+        if (!partNumber) { Alert.alert("Missing Part Number", "Enter the part number."); return; }
+        const yieldPages = Number(consumableForm.yieldPages.replace(/[,\s]/g, ""));
+        if (consumableForm.yieldPages.trim() && (!Number.isInteger(yieldPages) || yieldPages <= 0)) {
+          Alert.alert("Invalid Yield", "Enter the page yield as a whole number.");
+          return;
+        }
+        const typicalPrice = parseUnitCost(consumableForm.typicalPrice);
+        if (consumableForm.typicalPrice.trim() && typicalPrice == null) {
+          Alert.alert("Invalid Price", "Enter the typical price as a number, e.g. 89.99.");
+          return;
+        }
+        await saveCatalogEntry("consumables", {
+          manufacturer: consumableForm.manufacturer.trim() || undefined,
+          partNumber,
+          description: consumableForm.description.trim() || undefined,
+          color: consumableForm.color,
+          slot: consumableForm.slot,
+          yieldPages: consumableForm.yieldPages.trim() ? yieldPages : undefined,
+          typicalPrice: typicalPrice ?? undefined,
+          aliases: parseAliases(consumableForm.aliases),
+          printerModelIds: consumableForm.printerModelIds.filter((id) => modelsById[id]),
+        }, by, editingId ?? undefined);
+      }
+      setShowModal(false);
+    } catch (err: any) {
+      Alert.alert("Error", err?.message || "Failed to save catalog entry.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!editingId) return;
+    const name = kind === "printerModels" ? catalogModelName(modelForm) : consumableForm.partNumber;
+    Alert.alert(
+      "Delete Catalog Entry",
+      `Delete "${name}"? Site printers and toners linked to it keep their own details.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteCatalogEntry(kind, editingId);
+              setShowModal(false);
+            } catch (err: any) {
+              Alert.alert("Error", err?.message || "Failed to delete catalog entry.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const toggleFits = (modelId: string) =>
+    setConsumableForm((f) => ({
+      ...f,
+      printerModelIds: f.printerModelIds.includes(modelId)
+        ? f.printerModelIds.filter((id) => id !== modelId)
+        : [...f.printerModelIds, modelId],
+    }));
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+    >
+      <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  );
+
+  const field = (label: string, value: string, onChangeText: (t: string) => void, props: Partial<React.ComponentProps<typeof TextInput>> = {}) => (
+    <>
+      <Text style={[styles.label, { color: theme.text }]}>{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholderTextColor={theme.mutedText}
+        style={[styles.input, { color: theme.text, borderColor: theme.border, backgroundColor: theme.card }]}
+        {...props}
+      />
+    </>
+  );
+
+  const renderModel = ({ item }: { item: CatalogPrinterModel }) => {
+    const count = consumableCount(item.id);
+    return (
+      <Pressable onPress={() => openModel(item)} style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="print-outline" size={20} color={theme.tint} />
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>{catalogModelName(item)}</Text>
+          <Text style={[styles.rowSub, { color: theme.mutedText }]} numberOfLines={1}>
+            {item.color ? "Color" : "Mono"} · {count} consumable{count === 1 ? "" : "s"}
+            {item.aliases?.length ? ` · Also: ${item.aliases.join(", ")}` : ""}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={16} color={theme.mutedText} />
+      </Pressable>
+    );
+  };
+
+  const renderConsumable = ({ item }: { item: CatalogConsumable }) => {
+    const fits = (item.printerModelIds ?? []).map((id) => modelsById[id]).filter(Boolean).map(catalogModelName);
+    return (
+      <Pressable onPress={() => openConsumable(item)} style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="water-outline" size={20} color={theme.tint} />
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>{catalogConsumableName(item)}</Text>
+          <Text style={[styles.rowSub, { color: theme.mutedText }]} numberOfLines={1}>
+            {[
+              item.color,
+              item.yieldPages ? `${item.yieldPages.toLocaleString()} pages` : null,
+              typeof item.typicalPrice === "number" ? formatCost(item.typicalPrice) : null,
+            ].filter(Boolean).join(" · ")}
+          </Text>
+          {fits.length > 0 && (
+            <Text style={[styles.rowSub, { color: theme.mutedText }]} numberOfLines={1}>Fits {fits.join(", ")}</Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={16} color={theme.mutedText} />
+      </Pressable>
+    );
+  };
+
+  const header = (
+    <Stack.Screen
+      options={{
+        title: "Model Catalog",
+        headerStyle: { backgroundColor: theme.background },
+        headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+        headerTintColor: theme.text,
+      }}
+    />
+  );
+
+  if (!isAdmin) {
+    return (
+      <View style={{ flex: 1, backgroundColor: theme.background, padding: 16 }}>
+        {header}
+        <Text style={{ color: theme.mutedText }}>You don&apos;t have access to this screen.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.background }}>
+      {header}
+
+      <View style={{ padding: 16, paddingBottom: 8 }}>
+        <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 10 }}>
+          Shared by every site. Site printers and toners link to these entries, and CSV imports suggest them.
+        </Text>
+        <View style={styles.segment}>
+          {chip("Printer Models", kind === "printerModels", () => setKind("printerModels"))}
+          {chip("Consumables", kind === "consumables", () => setKind("consumables"))}
+        </View>
+        <View style={{ flexDirection: "row", gap: 8, marginTop: 10 }}>
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder={kind === "printerModels" ? "Search models…" : "Search part numbers…"}
+            placeholderTextColor={theme.mutedText}
+            style={[styles.input, { flex: 1, color: theme.text, borderColor: theme.border, backgroundColor: theme.card }]}
+          />
+          <Pressable
+            onPress={() => (kind === "printerModels" ? openModel() : openConsumable())}
+            style={[styles.addBtn, { backgroundColor: theme.primary }]}
+          >
+            <Ionicons name="add" size={18} color="#fff" />
+            <Text style={styles.addBtnText}>Add</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={{ marginTop: 24 }} />
+      ) : kind === "printerModels" ? (
+        <FlatList
+          data={filteredModels}
+          keyExtractor={(m) => m.id}
+          renderItem={renderModel}
+          contentContainerStyle={{ padding: 16, paddingTop: 0 }}
+          ListEmptyComponent={<Text style={[styles.empty, { color: theme.mutedText }]}>No printer models yet.</Text>}
+        />
+      ) : (
+        <FlatList
+          data={filteredConsumables}
+          keyExtractor={(c) => c.id}
+          renderItem={renderConsumable}
+          contentContainerStyle={{ padding: 16, paddingTop: 0 }}
+          ListEmptyComponent={<Text style={[styles.empty, { color: theme.mutedText }]}>No consumables yet.</Text>}
+        />
+      )}
+
+      <Modal visible={showModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowModal(false)}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>
+              {editingId ? "Edit" : "Add"} {kind === "printerModels" ? "Printer Model" : "Consumable"}
+            </Text>
+            <Pressable onPress={() => setShowModal(false)}>
+              <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
+            </Pressable>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingBottom: 24 }}>
+            {kind === "printerModels" ? (
+              <>
+                {field("Manufacturer", modelForm.manufacturer, (t) => setModelForm((f) => ({ ...f, manufacturer: t })), { placeholder: "e.g. HP" })}
+                {field("Model *", modelForm.model, (t) => setModelForm((f) => ({ ...f, model: t })), { placeholder: "e.g. LaserJet Pro M404dn" })}
+                {field("Also known as", modelForm.aliases, (t) => setModelForm((f) => ({ ...f, aliases: t })), { placeholder: "Comma-separated, e.g. HP M404n, M404" })}
+                <Text style={[styles.label, { color: theme.text }]}>Type</Text>
+                <View style={styles.chipWrap}>
+                  {chip("Mono", !modelForm.color, () => setModelForm((f) => ({ ...f, color: false })))}
+                  {chip("Color", modelForm.color, () => setModelForm((f) => ({ ...f, color: true })))}
+                </View>
+                {field("Notes", modelForm.notes, (t) => setModelForm((f) => ({ ...f, notes: t })), { multiline: true })}
+              </>
+            ) : (
+              <>
+                {field("Manufacturer", consumableForm.manufacturer, (t) => setConsumableForm((f) => ({ ...f, manufacturer: t })), { placeholder: "e.g. HP" })}
+                {field("Part Number *", consumableForm.partNumber, (t) => setConsumableForm((f) => ({ ...f, partNumber: t })), { placeholder: "e.g. CF258A", autoCapitalize: "characters" })}
+                {field("Description", consumableForm.description, (t) => setConsumableForm((f) => ({ ...f, description: t })), { placeholder: "e.g. HP 58A Black Toner" })}
+                <Text style={[styles.label, { color: theme.text }]}>Color</Text>
+                <View style={styles.chipWrap}>
+                  {TONER_COLORS.map((c) => chip(c, consumableForm.color === c, () => setConsumableForm((f) => ({ ...f, color: c }))))}
+                </View>
+                <Text style={[styles.label, { color: theme.text }]}>Slot</Text>
+                <View style={styles.chipWrap}>
+                  {CONSUMABLE_SLOTS.map((s) => chip(s.label, consumableForm.slot === s.value, () => setConsumableForm((f) => ({ ...f, slot: s.value }))))}
+                </View>
+                {field("Yield (pages)", consumableForm.yieldPages, (t) => setConsumableForm((f) => ({ ...f, yieldPages: t })), { keyboardType: "number-pad", placeholder: "e.g. 3000" })}
+                {field("Typical Price ($)", consumableForm.typicalPrice, (t) => setConsumableForm((f) => ({ ...f, typicalPrice: t })), { keyboardType: "decimal-pad", placeholder: "e.g. 89.99" })}
+                {field("Also known as", consumableForm.aliases, (t) => setConsumableForm((f) => ({ ...f, aliases: t })), { placeholder: "Comma-separated, e.g. 58A, HP 58A" })}
+                <Text style={[styles.label, { color: theme.text }]}>Fits</Text>
+                {models.length === 0 ? (
+                  <Text style={{ color: theme.mutedText, fontSize: 12 }}>Add printer models first.</Text>
+                ) : (
+                  <View style={styles.chipWrap}>
+                    {models.map((m) => chip(catalogModelName(m), consumableForm.printerModelIds.includes(m.id), () => toggleFits(m.id)))}
+                  </View>
+                )}
+              </>
+            )}
+          </ScrollView>
+
+          <Pressable
+            onPress={save}
+            disabled={saving}
+            style={[styles.saveBtn, { backgroundColor: theme.primary, opacity: saving ? 0.6 : 1 }]}
+          >
+            {saving ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.saveBtnText}>Save</Text>}
+          </Pressable>
+          {editingId && (
+            <Pressable onPress={confirmDelete} style={styles.deleteBtn}>
+              <Text style={{ color: "#ef4444", fontWeight: "800" }}>Delete</Text>
+            </Pressable>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segment: { flexDirection: "row", gap: 8 },
+  chipWrap: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  chip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 12, paddingVertical: 6 },
+  input: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14 },
+  addBtn: { flexDirection: "row", alignItems: "center", gap: 4, paddingHorizontal: 14, borderRadius: 999 },
+  addBtnText: { color: "#fff", fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", gap: 12, borderWidth: 1, borderRadius: 12, padding: 12, marginBottom: 8 },
+  rowTitle: { fontSize: 15, fontWeight: "800" },
+  rowSub: { fontSize: 12, marginTop: 2 },
+  empty: { textAlign: "center", marginTop: 24 },
+  modalContainer: { flex: 1, padding: 20 },
+  modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 8 },
+  modalTitle: { fontSize: 20, fontWeight: "800" },
+  label: { fontSize: 13, fontWeight: "700", marginTop: 14, marginBottom: 6 },
+  saveBtn: { paddingVertical: 14, borderRadius: 999, alignItems: "center", marginTop: 8 },
+  saveBtnText: { color: "#fff", fontWeight: "900", fontSize: 15 },
+  deleteBtn: { paddingVertical: 12, alignItems: "center" },
+});
@@ -0,0 +1,207 @@
+// app/contracts.tsx — Service contracts and warranties, expiring soonest first
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { ContractFormModal } from "../components/ContractFormModal";
+import { useAppTheme } from "../constants/theme";
+import { auth } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import { Asset, Contract } from "../types/inventory";
+import { subscribeSiteAssets } from "../utils/assets";
+import {
+  ContractFields,
+  deleteContract,
+  EXPIRING_WINDOW_DAYS,
+  expiryColor,
+  expiryEntries,
+  ExpiryEntry,
+  formatDaysLeft,
+  saveContract,
+  subscribeSiteContracts,
+} from "../utils/contracts";
+
+type Filter = "soon" | "expired" | "all";
+
+const FILTERS: { label: string; value: Filter }[] = [
+  { label: "Expiring soon", value: "soon" },
+  { label: "Expired", value: "expired" },
+  { label: "All", value: "all" },
+];
+
+export default function ContractList() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { vendorId, vendorName } = useLocalSearchParams<{ vendorId?: string; vendorName?: string }>();
+  const { siteId, profile } = useUserProfile();
+
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<Filter>(vendorId ? "all" : "soon");
+  const [editing, setEditing] = useState<Contract | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!siteId) return;
+    const unsubContracts = subscribeSiteContracts(siteId, (list) => {
+      setContracts(list);
+      setLoading(false);
+    });
+    const unsubAssets = subscribeSiteAssets(siteId, setAssets);
+    return () => { unsubContracts(); unsubAssets(); };
+  }, [siteId]);
+
+  const entries = useMemo(() => {
+    // Filtered to one vendor, asset register warranties are left out
+    let list = vendorId
+      ? expiryEntries(contracts.filter((c) => c.vendorId === vendorId), [])
+      : expiryEntries(contracts, assets);
+    if (filter === "soon") list = list.filter((e) => e.daysLeft >= 0 && e.daysLeft <= EXPIRING_WINDOW_DAYS);
+    if (filter === "expired") list = list.filter((e) => e.daysLeft < 0).reverse();
+    return list;
+  }, [contracts, assets, vendorId, filter]);
+
+  const openForm = (contract: Contract | null) => {
+    setEditing(contract);
+    setShowForm(true);
+  };
+
+  const openEntry = (entry: ExpiryEntry) => {
+    if (entry.contract) openForm(entry.contract);
+    else if (entry.assetId) router.push({ pathname: "/assets/[id]" as any, params: { id: entry.assetId } });
+  };
+
+  const handleSave = async (fields: ContractFields) => {
+    if (!siteId) return;
+    await saveContract(siteId, fields, by, editing);
+    setShowForm(false);
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    Alert.alert("Delete", `Remove ${editing.title}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteContract(editing.id);
+            setShowForm(false);
+          } catch (err: any) {
+            Alert.alert("Error", err?.message || "Failed to delete.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const emptyText =
+    filter === "soon" ? `Nothing expires in the next ${EXPIRING_WINDOW_DAYS} days.`
+    : filter === "expired" ? "Nothing has expired."
+    : "No contracts or warranties yet. Tap + to add one.";
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: vendorName ? `Contracts · ${vendorName}` : "Contracts & Warranties",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => openForm(null)} hitSlop={8}>
+              <Ionicons name="add" size={24} color={theme.text} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <View style={styles.filterRow}>
+          {FILTERS.map((f) => {
+            const active = filter === f.value;
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => setFilter(f.value)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: active ? theme.primary : "transparent", borderColor: active ? theme.primary : theme.border },
+                ]}
+              >
+                <Text style={{ color: active ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{f.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : entries.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="document-text-outline" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8, textAlign: "center" }}>{emptyText}</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={(e) => e.key}
+            contentContainerStyle={{ padding: 16, paddingBottom: 60 }}
+            renderItem={({ item }) => {
+              const color = expiryColor(item.daysLeft);
+              return (
+                <Pressable
+                  onPress={() => openEntry(item)}
+                  style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: color }]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{item.title}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }} numberOfLines={1}>{item.subtitle}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 4 }}>Ends {item.endDate}</Text>
+                  </View>
+                  <View style={[styles.statusPill, { backgroundColor: color + "20" }]}>
+                    <Text style={{ color, fontSize: 11, fontWeight: "800" }}>{formatDaysLeft(item.daysLeft)}</Text>
+                  </View>
+                </Pressable>
+              );
+            }}
+          />
+        )}
+      </View>
+
+      <ContractFormModal
+        visible={showForm}
+        siteId={siteId}
+        contract={editing}
+        preset={vendorId ? { vendorId, vendorName } : undefined}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onClose={() => setShowForm(false)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  filterRow: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1 },
+  card: { flexDirection: "row", alignItems: "center", borderRadius: 16, padding: 14, marginBottom: 10, borderWidth: 1, borderLeftWidth: 3 },
+  name: { fontSize: 15, fontWeight: "800" },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+});
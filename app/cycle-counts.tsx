@@ -0,0 +1,226 @@
+// app/cycle-counts.tsx — This week's cycle count assignment and count accuracy
+import { Ionicons } from "@expo/vector-icons";
+import { useCameraPermissions } from "expo-camera";
+import { Stack } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { CycleCountModal } from "../components/CycleCountModal";
+import { useAppTheme } from "../constants/theme";
+import { auth } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import {
+  AbcClass,
+  accuracyPercent,
+  COUNT_KIND_LABELS,
+  CountAccuracy,
+  CycleCountAccuracy,
+  CycleCountAssignment,
+  loadCountAccuracy,
+  loadLatestAssignment,
+} from "../utils/cycleCount";
+
+const CLASS_COLORS: Record<AbcClass, string> = { A: "#dc2626", B: "#f59e0b", C: "#6b7280" };
+
+const STATUS_LABELS: Record<CycleCountAssignment["status"], string> = {
+  open: "Open",
+  completed: "Completed",
+  missed: "Missed",
+};
+
+const LEAST_ACCURATE_SHOWN = 10;
+
+export default function CycleCounts() {
+  const theme = useAppTheme();
+  const { siteId, profile } = useUserProfile();
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+
+  const [assignment, setAssignment] = useState<CycleCountAssignment | null>(null);
+  const [accuracy, setAccuracy] = useState<CycleCountAccuracy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCountModal, setShowCountModal] = useState(false);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  const load = useCallback(async () => {
+    if (!siteId) return;
+    try {
+      const [latest, acc] = await Promise.all([loadLatestAssignment(siteId), loadCountAccuracy(siteId)]);
+      setAssignment(latest);
+      setAccuracy(acc);
+    } catch (err) {
+      if (__DEV__) console.error("Error loading cycle counts:", err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [siteId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const startCount = async () => {
+    if (!cameraPermission?.granted) {
+      const res = await requestCameraPermission();
+      if (!res.granted) { Alert.alert("Camera permission needed", "Enable camera access to use the scanner."); return; }
+    }
+    setShowCountModal(true);
+  };
+
+  const closeCount = () => {
+    setShowCountModal(false);
+    load();
+  };
+
+  const lines = assignment?.lines ?? [];
+  const done = lines.filter((l) => l.countedAt).length;
+  const progress = lines.length ? done / lines.length : 0;
+  const statusColor = assignment?.status === "completed" ? "#16a34a" : assignment?.status === "missed" ? theme.danger : theme.primary;
+
+  const accuracyRow = (a: CountAccuracy, key: string) => (
+    <View key={key} style={[styles.accRow, { borderColor: theme.border }]}>
+      <View style={{ flex: 1 }}>
+        <Text style={{ color: theme.text, fontWeight: "700" }} numberOfLines={1}>{a.name}</Text>
+        <Text style={{ color: theme.mutedText, fontSize: 11 }}>
+          {a.exact} of {a.lines} exact · {a.unitsOff} unit{a.unitsOff !== 1 ? "s" : ""} off
+        </Text>
+      </View>
+      <Text style={{ color: accuracyPercent(a) >= 95 ? "#16a34a" : accuracyPercent(a) >= 80 ? theme.warning : theme.danger, fontWeight: "900" }}>
+        {accuracyPercent(a)}%
+      </Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Cycle Counts",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      {loading ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <ScrollView
+          style={{ flex: 1, backgroundColor: theme.background }}
+          contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); load(); }} />}
+        >
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            {assignment ? (
+              <>
+                <View style={styles.cardHeader}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.cardTitle, { color: theme.text }]}>Week of {assignment.weekOf}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 12 }}>Due {assignment.dueDate}</Text>
+                  </View>
+                  <View style={[styles.pill, { borderColor: statusColor }]}>
+                    <Text style={{ color: statusColor, fontSize: 11, fontWeight: "800" }}>{STATUS_LABELS[assignment.status]}</Text>
+                  </View>
+                </View>
+
+                <View style={[styles.track, { backgroundColor: theme.border }]}>
+                  <View style={[styles.fill, { width: `${Math.round(progress * 100)}%`, backgroundColor: statusColor }]} />
+                </View>
+                <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 8 }}>
+                  {done} of {lines.length} counted
+                </Text>
+
+                {lines.map((l) => (
+                  <View key={`${l.itemType}:${l.itemId}`} style={[styles.lineRow, { borderColor: theme.border }]}>
+                    <View style={[styles.classBadge, { backgroundColor: CLASS_COLORS[l.abcClass] }]}>
+                      <Text style={styles.classText}>{l.abcClass}</Text>
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: theme.text, fontWeight: "700" }} numberOfLines={1}>{l.itemName}</Text>
+                      <Text style={{ color: theme.mutedText, fontSize: 11 }}>
+                        {COUNT_KIND_LABELS[l.itemType]} · {l.volume} moved in 90 days
+                        {l.countedAt ? ` · ${l.countedBy ?? "Unknown"}` : ""}
+                      </Text>
+                    </View>
+                    {l.countedAt ? (
+                      <Text style={{ color: l.counted === l.recorded ? "#16a34a" : theme.warning, fontWeight: "800", fontSize: 12 }}>
+                        {l.counted === l.recorded ? "Exact" : `${l.recorded} → ${l.counted}`}
+                      </Text>
+                    ) : (
+                      <Ionicons name="ellipse-outline" size={18} color={theme.mutedText} />
+                    )}
+                  </View>
+                ))}
+
+                {assignment.status === "open" && (
+                  <Pressable onPress={startCount} style={[styles.startBtn, { backgroundColor: theme.primary }]}>
+                    <Ionicons name="scan-outline" size={18} color="#fff" />
+                    <Text style={{ color: "#fff", fontWeight: "900" }}>Start count</Text>
+                  </Pressable>
+                )}
+              </>
+            ) : (
+              <Text style={{ color: theme.mutedText, textAlign: "center" }}>
+                No assignment yet. Counts are assigned every Monday from stock movement volume.
+              </Text>
+            )}
+          </View>
+
+          <Text style={[styles.section, { color: theme.mutedText }]}>ACCURACY</Text>
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            {accuracy && accuracy.overall.lines > 0 ? (
+              <>
+                <View style={styles.cardHeader}>
+                  <Text style={[styles.bigPercent, { color: theme.text }]}>{accuracyPercent(accuracy.overall)}%</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12, flex: 1, marginLeft: 12 }}>
+                    of {accuracy.overall.lines} counted lines matched the record, over the last {accuracy.sessions} count
+                    {accuracy.sessions !== 1 ? "s" : ""}
+                  </Text>
+                </View>
+
+                <Text style={[styles.subhead, { color: theme.mutedText }]}>By counter</Text>
+                {accuracy.byCounter.map((a) => accuracyRow(a, `counter:${a.name}`))}
+
+                <Text style={[styles.subhead, { color: theme.mutedText }]}>Least accurate items</Text>
+                {accuracy.byItem.slice(0, LEAST_ACCURATE_SHOWN).map((a, i) => accuracyRow(a, `item:${i}`))}
+              </>
+            ) : (
+              <Text style={{ color: theme.mutedText, textAlign: "center" }}>No committed counts yet.</Text>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <CycleCountModal visible={showCountModal} siteId={siteId} by={by} onClose={closeCount} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  card: { borderRadius: 16, borderWidth: 1, padding: 14 },
+  cardHeader: { flexDirection: "row", alignItems: "center", marginBottom: 10 },
+  cardTitle: { fontSize: 16, fontWeight: "800" },
+  pill: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 10, paddingVertical: 3 },
+  track: { height: 6, borderRadius: 3, overflow: "hidden", marginBottom: 6 },
+  fill: { height: 6, borderRadius: 3 },
+  lineRow: { flexDirection: "row", alignItems: "center", gap: 10, paddingVertical: 9, borderTopWidth: StyleSheet.hairlineWidth },
+  classBadge: { width: 24, height: 24, borderRadius: 6, alignItems: "center", justifyContent: "center" },
+  classText: { color: "#fff", fontWeight: "900", fontSize: 12 },
+  startBtn: { flexDirection: "row", gap: 8, marginTop: 12, paddingVertical: 12, borderRadius: 999, alignItems: "center", justifyContent: "center" },
+  section: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginTop: 20, marginBottom: 8 },
+  bigPercent: { fontSize: 32, fontWeight: "900" },
+  subhead: { fontSize: 12, fontWeight: "800", marginTop: 8, marginBottom: 2 },
+  accRow: { flexDirection: "row", alignItems: "center", paddingVertical: 8, borderTopWidth: StyleSheet.hairlineWidth },
+});
@@ -0,0 +1,287 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import {
+    arrayRemove,
+    arrayUnion,
+    collection,
+    doc,
+    onSnapshot,
+    query,
+    updateDoc,
+    where
+} from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Linking,
+    Modal,
+    Pressable,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View,
+} from "react-native";
+import inventoryStyles from "../../constants/inventoryStyles";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { CARD_SUPPLY_KINDS, CardSupply, DataCardPrinter } from "../../types/inventory";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
+
+const kindLabel = (supply: CardSupply) => CARD_SUPPLY_KINDS.find((k) => k.value === supply.kind)?.label ?? "Other";
+
+export default function DataCardPrinterDetail() {
+  const theme = useAppTheme();
+  const { profile } = useUserProfile();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const [printer, setPrinter] = useState<DataCardPrinter | null>(null);
+  const [supplies, setSupplies] = useState<CardSupply[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showLinkModal, setShowLinkModal] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(doc(db, "datacardPrinters", id), (snap) => {
+      setPrinter(snap.exists() ? ({ id: snap.id, ...snap.data() } as DataCardPrinter) : null);
+      setLoading(false);
+    });
+    return () => unsub();
+  }, [id]);
+
+  // All of the site's supplies: linked ones are shown, the rest offered in the link picker
+  useEffect(() => {
+    if (!printer?.siteId) return;
+    const q = query(collection(db, "cardSupplies"), where("siteId", "==", printer.siteId));
+    const unsub = onSnapshot(q, (snap) => {
+      const list = snap.docs.map((d) => ({ id: d.id, ...d.data() } as CardSupply));
+      setSupplies(list.sort((a, b) => (a.name || "").localeCompare(b.name || "")));
+    });
+    return () => unsub();
+  }, [printer?.siteId]);
+
+  const linkedSupplies = useMemo(
+    () => supplies.filter((s) => printer?.supplyIds?.includes(s.id)),
+    [supplies, printer?.supplyIds]
+  );
+
+  // Unlinked supplies, ones matching this printer's ribbon type first
+  const linkCandidates = useMemo(() => {
+    const ribbon = printer?.ribbonType?.trim().toLowerCase();
+    const matches = (s: CardSupply) => !!ribbon && s.ribbonType?.trim().toLowerCase() === ribbon;
+    return supplies
+      .filter((s) => !printer?.supplyIds?.includes(s.id))
+      .sort((a, b) => Number(matches(b)) - Number(matches(a)));
+  }, [supplies, printer?.supplyIds, printer?.ribbonType]);
+
+  const openWebUI = () => {
+    if (printer?.ipAddress) {
+      Linking.openURL(`http://${printer.ipAddress}`).catch(() =>
+        Alert.alert("Error", "Could not open Printer Web UI. Make sure you are on the same network.")
+      );
+    }
+  };
+
+  const linkSupply = async (supply: CardSupply) => {
+    if (!printer) return;
+    try {
+      await updateDoc(doc(db, "datacardPrinters", printer.id), { supplyIds: arrayUnion(supply.id) });
+      setShowLinkModal(false);
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to link supply.");
+    }
+  };
+
+  const unlinkSupply = (supply: CardSupply) => {
+    if (!printer) return;
+    Alert.alert("Unlink Supply", `Stop tracking ${supply.name} for this printer?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Unlink",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await updateDoc(doc(db, "datacardPrinters", printer.id), { supplyIds: arrayRemove(supply.id) });
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to unlink supply.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const deductSupply = async (supply: CardSupply) => {
+    if ((supply.quantity ?? 0) <= 0) {
+      Alert.alert("Out of Stock", "Cannot deduct. Stock is already 0.");
+      return;
+    }
+
+    const user = auth.currentUser;
+    if (!user) {
+      Alert.alert("Error", "You must be signed in to deduct stock.");
+      return;
+    }
+
+    Alert.alert("Confirm", `Deduct 1 ${supply.name} for this printer?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Confirm",
+        onPress: async () => {
+          try {
+            const result = await submitStockMovement(
+              {
+                itemType: "cardSupply",
+                itemId: supply.id,
+                delta: -1,
+                by: profile?.name || user.displayName || user.email || "Unknown",
+                note: printer ? `Via printer: ${printer.name}` : null,
+              },
+              { label: `-1 ${supply.name}`, siteId: printer?.siteId || "" }
+            );
+
+            Alert.alert(result ? "Success" : "Queued", result ? `${kindLabel(supply)} deducted from inventory.` : QUEUED_MESSAGE);
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to update stock.");
+          }
+        }
+      }
+    ]);
+  };
+
+  if (loading) return <View style={styles.center}><ActivityIndicator size="large" /></View>;
+  if (!printer) return <View style={styles.center}><Text style={{color: theme.text}}>Printer not found.</Text></View>;
+  if (profile?.siteId && printer.siteId !== profile.siteId) return <View style={styles.center}><Text style={{color: theme.text}}>Access denied.</Text></View>;
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.background }]}>
+      <Stack.Screen options={{ title: printer.name, headerTintColor: theme.text }} />
+
+      {/* Printer Info Card */}
+      <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Text style={[styles.label, { color: theme.mutedText }]}>Location</Text>
+        <Text style={[styles.value, { color: theme.text }]}>{printer.location || "Not set"}</Text>
+
+        <View style={styles.divider} />
+
+        <Text style={[styles.label, { color: theme.mutedText }]}>IP Address</Text>
+        <View style={styles.row}>
+          <Text style={[styles.value, { color: theme.tint, flex: 1 }]}>{printer.ipAddress || "No IP"}</Text>
+          {printer.ipAddress && (
+            <Pressable style={styles.actionBtn} onPress={openWebUI}>
+              <Ionicons name="globe-outline" size={20} color="#fff" />
+              <Text style={styles.actionBtnText}>Open UI</Text>
+            </Pressable>
+          )}
+        </View>
+
+        <View style={styles.divider} />
+
+        <View style={styles.row}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Ribbon Type</Text>
+            <Text style={[styles.valueSmall, { color: theme.text }]}>{printer.ribbonType || "Not set"}</Text>
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Serial</Text>
+            <Text style={[styles.valueSmall, { color: theme.text }]}>{printer.serial || "—"}</Text>
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Asset #</Text>
+            <Text style={[styles.valueSmall, { color: theme.text }]}>{printer.assetNumber || "—"}</Text>
+          </View>
+        </View>
+      </View>
+
+      {/* Supplies Section */}
+      <View style={[styles.row, { justifyContent: "space-between" }]}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Ribbons & Cleaning Kits</Text>
+        <Pressable onPress={() => setShowLinkModal(true)} hitSlop={8} style={styles.row}>
+          <Ionicons name="link-outline" size={16} color={theme.primary} />
+          <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 13 }}>Link</Text>
+        </Pressable>
+      </View>
+      {linkedSupplies.length === 0 ? (
+        <Text style={{ color: theme.mutedText, paddingHorizontal: 4 }}>No supplies linked to this printer.</Text>
+      ) : (
+        linkedSupplies.map(supply => (
+          <Pressable
+            key={supply.id}
+            onPress={() => router.push({ pathname: "/cardsupply/[id]" as any, params: { id: supply.id } })}
+            onLongPress={() => unlinkSupply(supply)}
+            style={[styles.card, { backgroundColor: theme.card, borderColor: supply.quantity <= supply.minQuantity ? "#ef4444" : theme.border }]}
+          >
+            <View style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.value, { color: theme.text }]}>{supply.name}</Text>
+                <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                  {kindLabel(supply)}{supply.ribbonType ? ` · ${supply.ribbonType}` : ""} · Stock: {supply.quantity ?? 0}
+                </Text>
+              </View>
+              <Pressable
+                style={[styles.deductBtn, { backgroundColor: theme.primary }]}
+                onPress={() => deductSupply(supply)}
+              >
+                <Text style={styles.deductBtnText}>{supply.kind === "ribbon" ? "Deduct ribbon" : "Deduct 1"}</Text>
+              </Pressable>
+            </View>
+          </Pressable>
+        ))
+      )}
+      {linkedSupplies.length > 0 && (
+        <Text style={{ color: theme.mutedText, fontSize: 11, paddingHorizontal: 4 }}>Long-press a supply to unlink it.</Text>
+      )}
+
+      {printer.notes ? (
+        <>
+          <Text style={[styles.sectionTitle, { color: theme.text, marginTop: 20 }]}>Notes</Text>
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={{ color: theme.text }}>{printer.notes}</Text>
+          </View>
+        </>
+      ) : null}
+
+      {/* Link Supply Modal */}
+      <Modal visible={showLinkModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowLinkModal(false)}>
+        <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
+          <View style={inventoryStyles.modalHeader}>
+            <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Link Supply</Text>
+            <Pressable onPress={() => setShowLinkModal(false)}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+          </View>
+          <ScrollView>
+            {linkCandidates.length === 0 ? (
+              <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 40 }}>
+                No other supplies. Add ribbons and cleaning kits on the Data Card tab.
+              </Text>
+            ) : (
+              linkCandidates.map((s) => (
+                <Pressable key={s.id} onPress={() => linkSupply(s)} style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                  <Text style={[styles.valueSmall, { color: theme.text }]}>{s.name}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                    {kindLabel(s)}{s.ribbonType ? ` · ${s.ribbonType}` : ""} · Stock: {s.quantity ?? 0}
+                  </Text>
+                </Pressable>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 16 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  card: { padding: 16, borderRadius: 12, borderWidth: 1, marginBottom: 12 },
+  label: { fontSize: 12, fontWeight: '600', marginBottom: 4 },
+  value: { fontSize: 18, fontWeight: '800' },
+  valueSmall: { fontSize: 15, fontWeight: '700' },
+  divider: { height: 1, backgroundColor: '#333', marginVertical: 12 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  sectionTitle: { fontSize: 16, fontWeight: '800', marginBottom: 10, marginTop: 10 },
+  actionBtn: { backgroundColor: '#007AFF', flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, gap: 6 },
+  actionBtnText: { color: '#fff', fontWeight: '700', fontSize: 12 },
+  deductBtn: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 8 },
+  deductBtnText: { color: '#fff', fontWeight: '900', fontSize: 13 },
+});
@@ -2,7 +2,6 @@
 import { Ionicons } from "@expo/vector-icons";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import {
-  addDoc,
   collection,
   deleteDoc,
   doc,
@@ -26,18 +25,23 @@ import {
   View,
 } from "react-native";
 
+import { ForecastCard } from "../../components/ForecastCard";
+import { LocationStockCard } from "../../components/LocationStockCard";
+import { MovementTimeline } from "../../components/MovementTimeline";
 import { Toast } from "../../components/Toast";
 import { useAppTheme } from "../../constants/theme";
 import { auth, db } from "../../firebaseConfig";
 import { useToast } from "../../hooks/useToast";
 import { useUserProfile } from "../../hooks/useUserProfile";
 import { SITES } from "../../hooks/useSiteContext";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
 
 interface Item {
   id: string;
   name: string;
   currentQuantity: number;
   minQuantity: number;
+  leadTimeDays?: number;
   location?: string;
   barcode?: string;
   notes?: string;
@@ -46,22 +50,10 @@ interface Item {
   lowStockAt?: any;
 }
 
-interface Movement {
-  id: string;
-  type: "in" | "out" | string;
-  delta: number;
-  previousQuantity: number;
-  newQuantity: number;
-  by: string;
-  note?: string | null;
-  createdAt?: any;
-  isLowStock?: boolean;
-}
-
 export default function ItemDetail() {
   const theme = useAppTheme();
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, location } = useLocalSearchParams<{ id: string; location?: string }>();
 
   const { profile } = useUserProfile();
   const mySiteId = profile?.siteId ?? null;
@@ -82,6 +74,8 @@ export default function ItemDetail() {
   const [deletingItem, setDeletingItem] = useState(false);
 
   const [pendingDelta, setPendingDelta] = useState<number | null>(null);
+  // Location stock adjustments apply to (preselected when arriving from a scan)
+  const [stockLocation, setStockLocation] = useState<string | null>(location ? String(location) : null);
   const [movementBy, setMovementBy] = useState("");
   const [movementNote, setMovementNote] = useState("");
   const [savingMovement, setSavingMovement] = useState(false);
@@ -94,8 +88,6 @@ export default function ItemDetail() {
   const [disposalQuantity, setDisposalQuantity] = useState("1");
   const [disposingItem, setDisposingItem] = useState(false);
 
-  const [movements, setMovements] = useState<Movement[]>([]);
-  const [loadingMovements, setLoadingMovements] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const [alertHistory, setAlertHistory] = useState<any[]>([]);
@@ -116,6 +108,7 @@ export default function ItemDetail() {
             name: d.name || "Unnamed item",
             currentQuantity: d.currentQuantity ?? 0,
             minQuantity: d.minQuantity ?? 0,
+            leadTimeDays: d.leadTimeDays ?? undefined,
             location: d.location || "",
             barcode: d.barcode || "",
             notes: d.notes || "",
@@ -144,42 +137,6 @@ export default function ItemDetail() {
     return () => unsubscribe();
   }, [id, mySiteId]);
 
-  useEffect(() => {
-    if (!id) return;
-
-    const movementsRef = collection(db, "items", String(id), "movements");
-    const q = query(movementsRef, orderBy("createdAt", "desc"));
-
-    const unsub = onSnapshot(
-      q,
-      (snap) => {
-        const list: Movement[] = [];
-        snap.forEach((docSnap) => {
-          const d = docSnap.data() as any;
-          list.push({
-            id: docSnap.id,
-            type: d.type || "out",
-            delta: d.delta ?? 0,
-            previousQuantity: d.previousQuantity ?? 0,
-            newQuantity: d.newQuantity ?? 0,
-            by: d.by || "Unknown",
-            note: d.note ?? null,
-            createdAt: d.createdAt ?? null,
-            isLowStock: d.isLowStock ?? undefined,
-          });
-        });
-        setMovements(list);
-        setLoadingMovements(false);
-      },
-      (err) => {
-        if (__DEV__) console.error("Error loading movements:", err);
-        setLoadingMovements(false);
-      }
-    );
-
-    return () => unsub();
-  }, [id]);
-
   useEffect(() => {
     if (!id || !mySiteId) return;
 
@@ -331,42 +288,32 @@ export default function ItemDetail() {
 
       const userName = user.displayName || user.email || "Unknown";
 
-      await addDoc(collection(db, "disposals"), {
-        itemId: item.id,
-        itemName: item.name,
-        siteId: item.siteId || "",
-        reason: disposalReason,
-        notes: disposalNotes.trim() || null,
-        disposedBy: userName,
-        disposedByUid: user.uid,
-        disposedAt: serverTimestamp(),
-        quantity: qty,
-      });
-
-      const newQuantity = item.currentQuantity - qty;
-      await updateDoc(doc(db, "items", item.id), {
-        currentQuantity: newQuantity,
-        updatedAt: serverTimestamp(),
-      });
-
-      const movementsRef = collection(db, "items", item.id, "movements");
-      await addDoc(movementsRef, {
-        type: "disposal",
-        delta: -qty,
-        previousQuantity: item.currentQuantity,
-        newQuantity: newQuantity,
-        by: userName,
-        note: `Disposed: ${disposalReason}${disposalNotes ? ` - ${disposalNotes}` : ""}`,
-        siteId: item.siteId || "",
-        isLowStock: newQuantity <= item.minQuantity,
-        createdAt: serverTimestamp(),
-      });
+      const result = await submitStockMovement(
+        {
+          itemType: "inventory",
+          itemId: item.id,
+          delta: -qty,
+          by: userName,
+          note: `Disposed: ${disposalReason}${disposalNotes ? ` - ${disposalNotes}` : ""}`,
+          type: "disposal",
+          action: "disposed",
+          location: stockLocation,
+          disposal: {
+            itemName: item.name,
+            reason: disposalReason,
+            notes: disposalNotes.trim() || null,
+            disposedBy: userName,
+            disposedByUid: user.uid,
+          },
+        },
+        { label: `Dispose ${qty} × ${item.name}`, siteId: item.siteId || mySiteId || "" }
+      );
 
       setShowDisposalDialog(false);
-      showToast(`✓ ${qty} item(s) disposed`, "success");
-    } catch (err) {
+      showToast(result ? `✓ ${qty} item(s) disposed` : QUEUED_MESSAGE, result ? "success" : "info");
+    } catch (err: any) {
       if (__DEV__) console.error("Disposal failed:", err);
-      showToast("Failed to dispose item", "error");
+      showToast(err?.message || "Failed to dispose item", "error");
     } finally {
       setDisposingItem(false);
     }
@@ -379,13 +326,6 @@ export default function ItemDetail() {
     setError(null);
   };
 
-  const getStockState = (qty: number, min: number): string => {
-    if (qty <= 0) return "OUT";
-    if (min > 0 && qty <= min * 0.5) return "CRITICAL";
-    if (min > 0 && qty <= min) return "LOW";
-    return "OK";
-  };
-
   const applyQuantityChange = async () => {
     if (!item || pendingDelta === null) return;
 
@@ -395,71 +335,39 @@ export default function ItemDetail() {
       return;
     }
 
-    const note = movementNote.trim();
-    const delta = pendingDelta;
-
-    const previousQuantity = item.currentQuantity;
-    const newQuantity = Math.max(0, previousQuantity + delta);
-    const isLowStock = newQuantity <= item.minQuantity;
-    const prevState = getStockState(previousQuantity, item.minQuantity);
-    const nextState = getStockState(newQuantity, item.minQuantity);
-
     setSavingMovement(true);
     setError(null);
 
     try {
-      const itemRef = doc(db, "items", item.id);
-      const movementsRef = collection(db, "items", item.id, "movements");
-
-      await updateDoc(itemRef, {
-        currentQuantity: newQuantity,
-        isLowStock,
-        lowStockAt: isLowStock ? serverTimestamp() : null,
-        updatedAt: serverTimestamp(),
-      });
-
-      await addDoc(movementsRef, {
-        type: delta < 0 ? "out" : "in",
-        delta,
-        previousQuantity,
-        newQuantity,
-        by,
-        note: note || null,
-        isLowStock,
-        siteId: item.siteId || "",
-        createdAt: serverTimestamp(),
-      });
-
-      await addDoc(collection(db, "alertsLog"), {
-        createdAt: serverTimestamp(),
-        siteId: item.siteId || "",
-        itemId: item.id,
-        itemName: item.name,
-        action: delta < 0 ? "deducted" : "added",
-        qty: newQuantity,
-        min: item.minQuantity,
-        prevState,
-        nextState,
-        status: nextState,
-        itemType: "inventory",
-        by,
-        note: note || null,
-        source: "movement",
-      });
-
-      showToast(
-        delta < 0 
-          ? `✓ Removed ${Math.abs(delta)} from stock` 
-          : `✓ Added ${delta} to stock`,
-        "success"
+      const result = await submitStockMovement(
+        {
+          itemType: "inventory",
+          itemId: item.id,
+          delta: pendingDelta,
+          by,
+          note: movementNote.trim(),
+          location: stockLocation,
+        },
+        { label: `${pendingDelta > 0 ? "+" : ""}${pendingDelta} ${item.name}`, siteId: item.siteId || mySiteId || "" }
       );
 
+      if (!result) {
+        showToast(QUEUED_MESSAGE, "info");
+      } else {
+        showToast(
+          result.delta < 0
+            ? `✓ Removed ${Math.abs(result.delta)} from stock`
+            : `✓ Added ${result.delta} to stock`,
+          "success"
+        );
+      }
+
       setPendingDelta(null);
       setMovementBy("");
       setMovementNote("");
-    } catch (err) {
+    } catch (err: any) {
       if (__DEV__) console.error("Error applying quantity change:", err);
-      showToast("Failed to update stock", "error");
+      showToast(err?.message || "Failed to update stock", "error");
     } finally {
       setSavingMovement(false);
     }
@@ -475,18 +383,6 @@ export default function ItemDetail() {
 
   const isLow = item && item.currentQuantity <= item.minQuantity;
 
-  const formatMovementTime = (m: Movement) => {
-    const ts = m.createdAt;
-    if (!ts || !ts.toDate) return "";
-    const d = ts.toDate() as Date;
-    return d.toLocaleString(undefined, {
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
-
   return (
     <>
       <Stack.Screen
@@ -499,6 +395,11 @@ export default function ItemDetail() {
             fontSize: 18,
           },
           headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "items", id } })} hitSlop={8}>
+              <Ionicons name="pricetag-outline" size={20} color={theme.text} />
+            </Pressable>
+          ),
         }}
       />
 
@@ -645,6 +546,14 @@ export default function ItemDetail() {
               </View>
             </View>
 
+            <LocationStockCard
+              itemType="inventory"
+              itemId={item.id}
+              selected={stockLocation}
+              onSelect={setStockLocation}
+              onTransferred={(message) => showToast(message, "success")}
+            />
+
             <View
               style={[
                 styles.card,
@@ -808,81 +717,16 @@ export default function ItemDetail() {
               </Pressable>
             </View>
 
-            <View
-              style={[
-                styles.card,
-                { backgroundColor: theme.card, borderColor: theme.border },
-              ]}
-            >
-              <Text style={[styles.sectionTitle, { color: theme.text }]}>
-                Recent movements
-              </Text>
-
-              {loadingMovements ? (
-                <View style={styles.centerSmall}>
-                  <ActivityIndicator />
-                </View>
-              ) : movements.length === 0 ? (
-                <Text style={[styles.noMovementsText, { color: theme.mutedText }]}>
-                  No movements logged yet for this item.
-                </Text>
-              ) : (
-                movements.slice(0, 15).map((m) => {
-                  const isOut = m.type === "out" || m.delta < 0;
-                  const isDisposal = m.type === "disposal";
-                  return (
-                    <View key={m.id} style={styles.movementRow}>
-                      <View
-                        style={[
-                          styles.movementPill,
-                          isDisposal
-                            ? { backgroundColor: "rgba(249, 115, 22, 0.25)" }
-                            : isOut
-                            ? styles.movementOut
-                            : styles.movementIn,
-                        ]}
-                      >
-                        <Text
-                          style={[
-                            styles.movementPillText,
-                            { color: theme.text },
-                          ]}
-                        >
-                          {isDisposal ? "DISPOSE" : isOut ? "OUT" : "IN"}
-                        </Text>
-                      </View>
+            <ForecastCard
+              itemType="inventory"
+              itemId={item.id}
+              siteId={item.siteId || mySiteId}
+              currentQuantity={item.currentQuantity}
+              minQuantity={item.minQuantity}
+              leadTimeDays={item.leadTimeDays}
+            />
 
-                      <View style={{ flex: 1 }}>
-                        <Text style={[styles.movementMain, { color: theme.text }]}>
-                          {m.by || "Unknown"} • {isOut || isDisposal ? m.delta : `+${m.delta}`} •
-                          New: {m.newQuantity}
-                        </Text>
-
-                        {m.note ? (
-                          <Text
-                            style={[
-                              styles.movementNote,
-                              { color: theme.mutedText },
-                            ]}
-                          >
-                            {m.note}
-                          </Text>
-                        ) : null}
-
-                        <Text
-                          style={[
-                            styles.movementTime,
-                            { color: theme.mutedText },
-                          ]}
-                        >
-                          {formatMovementTime(m)}
-                        </Text>
-                      </View>
-                    </View>
-                  );
-                })
-              )}
-            </View>
+            <MovementTimeline itemType="inventory" itemId={item.id} />
 
             <View
               style={[
@@ -932,14 +776,17 @@ export default function ItemDetail() {
                     edited: "create",
                     deleted: "trash",
                     deducted: "remove-circle",
+                    received: "cube",
+                    shipped: "paper-plane",
+                    transferred: "swap-horizontal",
                     linked: "link",
                     unlinked: "unlink",
                     disposed: "close-circle",
                   };
                   const iconName = iconMap[action] ?? "ellipse";
-                  const iconColor = action === "added" ? "#22c55e"
+                  const iconColor = action === "added" || action === "received" ? "#22c55e"
                     : action === "deleted" || action === "disposed" ? "#ef4444"
-                    : action === "deducted" ? "#f97316"
+                    : action === "deducted" || action === "shipped" ? "#f97316"
                     : "#3b82f6";
 
                   return (
@@ -988,6 +835,7 @@ export default function ItemDetail() {
             <Text style={[styles.overlaySub, { color: theme.mutedText }]}>
               Current: {item.currentQuantity} • Change:{" "}
               {pendingDelta > 0 ? `+${pendingDelta}` : pendingDelta}
+              {stockLocation ? ` • ${stockLocation}` : ""}
             </Text>
 
             <Text style={[styles.fieldLabel, { color: theme.text }]}>
@@ -1389,23 +1237,6 @@ const styles = StyleSheet.create({
     marginRight: 8,
     marginTop: 2,
   },
-  movementOut: {
-    backgroundColor: "rgba(239, 68, 68, 0.25)",
-  },
-  movementIn: {
-    backgroundColor: "rgba(34, 197, 94, 0.25)",
-  },
-  movementPillText: {
-    fontSize: 11,
-    fontWeight: "800",
-  },
-  movementMain: {
-    fontSize: 13,
-    fontWeight: "700",
-  },
-  movementNote: {
-    fontSize: 12,
-  },
   movementTime: {
     fontSize: 11,
     marginTop: 1,
@@ -0,0 +1,279 @@
+// app/labels.tsx — Print asset label sheets (Code128 / QR) for any record type
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { useUserProfile } from "../hooks/useUserProfile";
+import {
+  assignAssetCodes,
+  LABEL_ENTITIES,
+  LABEL_ENTITY_ORDER,
+  LABEL_LAYOUTS,
+  LabelEntity,
+  LabelRecord,
+  LabelSymbology,
+  loadLabelRecords,
+  shareLabelSheetPdf,
+} from "../utils/assetLabels";
+
+const SYMBOLOGIES: { label: string; value: LabelSymbology }[] = [
+  { label: "QR + Code128", value: "both" },
+  { label: "QR only", value: "qr" },
+  { label: "Code128 only", value: "code128" },
+];
+
+export default function AssetLabels() {
+  const theme = useAppTheme();
+  const params = useLocalSearchParams<{ entity?: string; id?: string }>();
+  const { siteId } = useUserProfile();
+
+  const initialEntity = LABEL_ENTITY_ORDER.includes(params.entity as LabelEntity) ? (params.entity as LabelEntity) : "items";
+  const [entity, setEntity] = useState<LabelEntity>(initialEntity);
+  const [records, setRecords] = useState<LabelRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set(params.id ? [String(params.id)] : []));
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [symbology, setSymbology] = useState<LabelSymbology>(LABEL_LAYOUTS[0].symbology);
+  const [skip, setSkip] = useState("");
+  const [printing, setPrinting] = useState(false);
+
+  const layout = LABEL_LAYOUTS.find((l) => l.id === layoutId) ?? LABEL_LAYOUTS[0];
+
+  useEffect(() => {
+    if (!siteId) return;
+    let cancelled = false;
+    setLoading(true);
+    loadLabelRecords(siteId, entity)
+      .then((list) => { if (!cancelled) setRecords(list); })
+      .catch((err) => {
+        if (__DEV__) console.error("Error loading label records:", err);
+        if (!cancelled) setRecords([]);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [siteId, entity]);
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return records;
+    return records.filter((r) => `${r.title} ${r.subtitle} ${r.code}`.toLowerCase().includes(q));
+  }, [records, search]);
+
+  const chosen = records.filter((r) => selected.has(r.id));
+  const uncoded = chosen.filter((r) => !r.code).length;
+
+  const switchEntity = (next: LabelEntity) => {
+    if (next === entity) return;
+    setEntity(next);
+    setSelected(new Set());
+    setSearch("");
+  };
+
+  const chooseLayout = (id: string) => {
+    const next = LABEL_LAYOUTS.find((l) => l.id === id);
+    if (!next) return;
+    setLayoutId(id);
+    setSymbology(next.symbology);
+  };
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const allVisibleSelected = visible.length > 0 && visible.every((r) => selected.has(r.id));
+  const toggleAll = () =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      visible.forEach((r) => (allVisibleSelected ? next.delete(r.id) : next.add(r.id)));
+      return next;
+    });
+
+  const print = async () => {
+    if (chosen.length === 0) return;
+    setPrinting(true);
+    try {
+      const coded = await assignAssetCodes(chosen);
+      if (uncoded > 0) {
+        const codes = new Map(coded.map((r) => [r.id, r.code]));
+        setRecords((prev) => prev.map((r) => (codes.has(r.id) ? { ...r, code: codes.get(r.id)! } : r)));
+      }
+      await shareLabelSheetPdf(coded, layout, symbology, parseInt(skip, 10) || 0);
+    } catch (err: any) {
+      if (__DEV__) console.error("Label print failed:", err);
+      Alert.alert("Print Failed", err?.message || "Could not create the label sheet.");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Asset Labels",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ flexGrow: 0 }} contentContainerStyle={styles.chipRow}>
+          {LABEL_ENTITY_ORDER.map((e) => {
+            const active = entity === e;
+            return (
+              <Pressable
+                key={e}
+                onPress={() => switchEntity(e)}
+                style={[styles.chip, { backgroundColor: active ? theme.primary : "transparent", borderColor: active ? theme.primary : theme.border }]}
+              >
+                <Text style={{ color: active ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{LABEL_ENTITIES[e].label}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.searchRow}>
+          <TextInput
+            style={[styles.search, { backgroundColor: theme.card, borderColor: theme.border, color: theme.text }]}
+            placeholder={`Search ${LABEL_ENTITIES[entity].label.toLowerCase()}...`}
+            placeholderTextColor={theme.mutedText}
+            value={search}
+            onChangeText={setSearch}
+          />
+          <Pressable onPress={toggleAll} hitSlop={8}>
+            <Text style={{ color: theme.primary, fontWeight: "700" }}>{allVisibleSelected ? "None" : "All"}</Text>
+          </Pressable>
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : visible.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="pricetags-outline" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8, textAlign: "center" }}>No records to label.</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={visible}
+            keyExtractor={(r) => r.id}
+            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
+            renderItem={({ item }) => {
+              const checked = selected.has(item.id);
+              return (
+                <Pressable
+                  onPress={() => toggle(item.id)}
+                  style={[styles.row, { backgroundColor: theme.card, borderColor: checked ? theme.primary : theme.border }]}
+                >
+                  <Ionicons name={checked ? "checkbox" : "square-outline"} size={22} color={checked ? theme.primary : theme.mutedText} style={{ marginRight: 10 }} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.title, { color: theme.text }]} numberOfLines={1}>{item.title}</Text>
+                    {item.subtitle ? <Text style={{ color: theme.mutedText, fontSize: 12 }} numberOfLines={1}>{item.subtitle}</Text> : null}
+                  </View>
+                  <Text style={{ color: item.code ? theme.mutedText : theme.warning, fontSize: 11, fontWeight: "700", marginLeft: 8 }}>
+                    {item.code || "No code"}
+                  </Text>
+                </Pressable>
+              );
+            }}
+          />
+        )}
+
+        <View style={[styles.panel, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.panelLabel, { color: theme.mutedText }]}>SHEET</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+            {LABEL_LAYOUTS.map((l) => {
+              const active = l.id === layoutId;
+              return (
+                <Pressable
+                  key={l.id}
+                  onPress={() => chooseLayout(l.id)}
+                  style={[styles.chip, { backgroundColor: active ? theme.text : "transparent", borderColor: active ? theme.text : theme.border }]}
+                >
+                  <Text style={{ color: active ? theme.background : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{l.name}</Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          <Text style={[styles.panelLabel, { color: theme.mutedText }]}>SYMBOLS</Text>
+          <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+            {SYMBOLOGIES.map((s) => {
+              const active = s.value === symbology;
+              return (
+                <Pressable
+                  key={s.value}
+                  onPress={() => setSymbology(s.value)}
+                  style={[styles.chip, { backgroundColor: active ? theme.text : "transparent", borderColor: active ? theme.text : theme.border }]}
+                >
+                  <Text style={{ color: active ? theme.background : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{s.label}</Text>
+                </Pressable>
+              );
+            })}
+            <TextInput
+              style={[styles.skip, { borderColor: theme.border, color: theme.text }]}
+              placeholder="Skip"
+              placeholderTextColor={theme.mutedText}
+              keyboardType="number-pad"
+              value={skip}
+              onChangeText={setSkip}
+            />
+          </View>
+
+          {uncoded > 0 && (
+            <Text style={{ color: theme.warning, fontSize: 12, marginTop: 10 }}>
+              {uncoded} selected record{uncoded !== 1 ? "s have" : " has"} no barcode. An asset code will be assigned and saved before printing.
+            </Text>
+          )}
+
+          <Pressable
+            onPress={print}
+            disabled={printing || chosen.length === 0}
+            style={[styles.printBtn, { backgroundColor: theme.primary, opacity: printing || chosen.length === 0 ? 0.6 : 1 }]}
+          >
+            {printing ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={{ color: "#fff", fontWeight: "900" }}>
+                {chosen.length === 0 ? "Select records to print" : `Print ${chosen.length} label${chosen.length !== 1 ? "s" : ""}`}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  chipRow: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1 },
+  searchRow: { flexDirection: "row", alignItems: "center", gap: 12, paddingHorizontal: 16, paddingVertical: 12 },
+  search: { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14 },
+  row: { flexDirection: "row", alignItems: "center", borderRadius: 14, padding: 12, marginBottom: 8, borderWidth: 1 },
+  title: { fontSize: 15, fontWeight: "800" },
+  panel: { borderTopWidth: 1, padding: 16, paddingBottom: 28 },
+  panelLabel: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginBottom: 8, marginTop: 4 },
+  skip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 12, paddingVertical: 5, fontSize: 12, minWidth: 56, textAlign: "center" },
+  printBtn: { marginTop: 14, paddingVertical: 13, borderRadius: 999, alignItems: "center" },
+});
@@ -0,0 +1,217 @@
+// app/outbox.tsx — Offline outbox: queued writes waiting to sync
+import { Ionicons } from "@expo/vector-icons";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { Toast } from "../components/Toast";
+import { useAppTheme } from "../constants/theme";
+import { useOutbox } from "../hooks/useOutbox";
+import { useToast } from "../hooks/useToast";
+import {
+  discardOutboxEntry,
+  forceApplyOutboxEntry,
+  OutboxEntry,
+  OutboxKind,
+  replayOutbox,
+} from "../utils/outbox";
+
+const KIND_META: Record<OutboxKind, { icon: keyof typeof Ionicons.glyphMap; label: string }> = {
+  stockMovement: { icon: "swap-vertical-outline", label: "Stock movement" },
+  pmRecord: { icon: "construct-outline", label: "PM check" },
+  disposal: { icon: "trash-outline", label: "Disposal" },
+};
+
+const formatQueuedTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function OutboxScreen() {
+  const theme = useAppTheme();
+  const { toast, fadeAnim, showToast, hideToast } = useToast();
+  const { entries, syncing, lastSyncAt, pendingCount, conflictCount } = useOutbox();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const syncNow = async () => {
+    const synced = await replayOutbox();
+    if (synced > 0) showToast(`✓ Synced ${synced} change(s)`, "success");
+    else if (pendingCount > 0) showToast("Still offline. Will retry automatically.", "info");
+  };
+
+  const applyAnyway = async (entry: OutboxEntry) => {
+    setBusyId(entry.id);
+    try {
+      await forceApplyOutboxEntry(entry.id);
+      showToast("✓ Change applied", "success");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to apply change", "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const discard = (entry: OutboxEntry) => {
+    Alert.alert("Discard change?", `"${entry.label}" will not be synced. This cannot be undone.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Discard",
+        style: "destructive",
+        onPress: async () => {
+          await discardOutboxEntry(entry.id);
+          showToast("Change discarded", "info");
+        },
+      },
+    ]);
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Outbox",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={[styles.container, { backgroundColor: theme.background }]}>
+        {/* Summary card */}
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Sync status</Text>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Waiting to sync</Text>
+            <Text style={[styles.value, { color: pendingCount > 0 ? theme.warning : theme.text }]}>{pendingCount}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Needs review</Text>
+            <Text style={[styles.value, { color: conflictCount > 0 ? theme.danger : theme.text }]}>{conflictCount}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Last sync attempt</Text>
+            <Text style={[styles.value, { color: theme.text }]}>{lastSyncAt ? formatQueuedTime(lastSyncAt) : "—"}</Text>
+          </View>
+
+          <Pressable
+            style={[styles.syncButton, { backgroundColor: theme.primary }, (syncing || pendingCount === 0) && { opacity: 0.6 }]}
+            onPress={syncNow}
+            disabled={syncing || pendingCount === 0}
+          >
+            {syncing ? (
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+                <ActivityIndicator size="small" color="#fff" />
+                <Text style={styles.syncButtonText}>Syncing…</Text>
+              </View>
+            ) : (
+              <Text style={styles.syncButtonText}>Sync now</Text>
+            )}
+          </Pressable>
+        </View>
+
+        {entries.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="cloud-done-outline" size={40} color={theme.primary} />
+            <Text style={[styles.emptyText, { color: theme.mutedText }]}>Everything is synced.</Text>
+          </View>
+        ) : (
+          entries.map((entry) => {
+            const meta = KIND_META[entry.kind];
+            const isConflict = entry.status === "conflict";
+            const busy = busyId === entry.id;
+            return (
+              <View
+                key={entry.id}
+                style={[
+                  styles.card,
+                  { backgroundColor: theme.card, borderColor: isConflict ? theme.danger : theme.border },
+                ]}
+              >
+                <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                  <Ionicons name={meta.icon} size={20} color={isConflict ? theme.danger : theme.warning} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.entryLabel, { color: theme.text }]}>{entry.label}</Text>
+                    <Text style={[styles.entryMeta, { color: theme.mutedText }]}>
+                      {meta.label} • {formatQueuedTime(entry.createdAt)}
+                    </Text>
+                  </View>
+                  <View
+                    style={[
+                      styles.statusPill,
+                      { backgroundColor: (isConflict ? theme.danger : theme.warning) + "20" },
+                    ]}
+                  >
+                    <Text style={[styles.statusPillText, { color: isConflict ? theme.danger : theme.warning }]}>
+                      {isConflict ? "REVIEW" : "PENDING"}
+                    </Text>
+                  </View>
+                </View>
+
+                {entry.lastError ? (
+                  <Text style={[styles.errorText, { color: theme.danger }]}>{entry.lastError}</Text>
+                ) : null}
+
+                <View style={styles.actionsRow}>
+                  {isConflict && (
+                    <Pressable
+                      style={[styles.actionButton, { borderColor: theme.primary }, busy && { opacity: 0.6 }]}
+                      onPress={() => applyAnyway(entry)}
+                      disabled={busy}
+                    >
+                      {busy ? (
+                        <ActivityIndicator size="small" />
+                      ) : (
+                        <Text style={[styles.actionButtonText, { color: theme.primary }]}>Apply anyway</Text>
+                      )}
+                    </Pressable>
+                  )}
+                  <Pressable
+                    style={[styles.actionButton, { borderColor: theme.danger }, busy && { opacity: 0.6 }]}
+                    onPress={() => discard(entry)}
+                    disabled={busy}
+                  >
+                    <Text style={[styles.actionButtonText, { color: theme.danger }]}>Discard</Text>
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <Toast toast={toast} fadeAnim={fadeAnim} onDismiss={hideToast} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, flexGrow: 1 },
+  center: { marginTop: 40, alignItems: "center" },
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  sectionTitle: { fontSize: 16, fontWeight: "800", marginBottom: 8 },
+  row: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", paddingVertical: 6 },
+  label: { fontSize: 14 },
+  value: { fontSize: 15, fontWeight: "700" },
+  syncButton: { marginTop: 14, paddingVertical: 10, borderRadius: 999, alignItems: "center" },
+  syncButtonText: { color: "#fff", fontWeight: "900" },
+  emptyText: { marginTop: 8, fontSize: 14 },
+  entryLabel: { fontSize: 15, fontWeight: "800" },
+  entryMeta: { fontSize: 12, marginTop: 2 },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+  statusPillText: { fontSize: 11, fontWeight: "800" },
+  errorText: { fontSize: 13, fontWeight: "700", marginTop: 10 },
+  actionsRow: { flexDirection: "row", justifyContent: "flex-end", gap: 8, marginTop: 12 },
+  actionButton: { paddingVertical: 8, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1, minWidth: 90, alignItems: "center" },
+  actionButtonText: { fontWeight: "800" },
+});
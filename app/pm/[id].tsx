@@ -24,10 +24,13 @@ import {
   TextInput,
   View,
 } from "react-native";
+import { ContractsCard } from "../../components/ContractsCard";
 import { ALL_CHECKS, PM_SECTIONS } from "../../constants/pmSections";
 import { useAppTheme } from "../../constants/theme";
 import { db } from "../../firebaseConfig";
 import { useUserProfile } from "../../hooks/useUserProfile";
+import { clearQueuedPmRecord, isOfflineError, queuePmRecord, withTimeout } from "../../utils/outbox";
+import { sharePmChecklistPdf } from "../../utils/pdfReports";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -86,6 +89,7 @@ export default function PMDetail() {
   const [loadingRecord, setLoadingRecord] = useState(true);
   const [saving, setSaving] = useState(false);
   const [saveFlash, setSaveFlash] = useState(false);
+  const [queuedOffline, setQueuedOffline] = useState(false);
 
   // Local editable state
   const [localChecks, setLocalChecks] = useState<Record<string, CheckValue>>({});
@@ -99,6 +103,7 @@ export default function PMDetail() {
   // Ref holds always-current checks to avoid stale closures in rapid taps
   const latestChecks = useRef<Record<string, CheckValue>>({});
   const recordExists = useRef(false);
+  const queuedRef = useRef(false);
 
   const deviceId = String(id ?? "");
   const recordId = siteId && deviceId ? `${siteId}_${deviceId}` : null;
@@ -146,6 +151,45 @@ export default function PMDetail() {
     setTimeout(() => setSaveFlash(false), 1200);
   };
 
+  // Runs a direct write; when offline, queues the full local snapshot in the
+  // outbox instead so the PM survives an app restart before signal returns.
+  const writeOrQueue = useCallback(
+    async (write: () => Promise<unknown>, overrides: Record<string, any> = {}) => {
+      if (!recordId || !siteId) return;
+      try {
+        await withTimeout(write());
+        if (queuedRef.current) {
+          queuedRef.current = false;
+          setQueuedOffline(false);
+          await clearQueuedPmRecord(recordId);
+        }
+      } catch (err) {
+        if (!isOfflineError(err)) throw err;
+        await queuePmRecord(
+          recordId,
+          {
+            deviceId,
+            deviceName: device?.name || "",
+            siteId,
+            checks: latestChecks.current,
+            pmDate: localDate,
+            tech: localTech,
+            dept: localDept,
+            assetNo: localAssetNo,
+            bootErrors: localBootErrors,
+            notes: localNotes,
+            ...overrides,
+          },
+          { label: `PM: ${device?.name || deviceId}`, siteId }
+        );
+        recordExists.current = true;
+        queuedRef.current = true;
+        setQueuedOffline(true);
+      }
+    },
+    [recordId, siteId, deviceId, device, localDate, localTech, localDept, localAssetNo, localBootErrors, localNotes]
+  );
+
   const ensureRecord = useCallback(
     async (withChecks: Record<string, CheckValue>) => {
       if (!recordId || !siteId || !deviceId) return;
@@ -156,6 +200,7 @@ export default function PMDetail() {
           siteId,
           checks: withChecks,
           pmDate: localDate,
+          nextDue: nextDueDate(localDate),
           tech: localTech,
           dept: localDept,
           assetNo: localAssetNo,
@@ -186,26 +231,28 @@ export default function PMDetail() {
       setLocalChecks(newChecks);
 
       try {
-        // If no record yet, create it first (includes all current checks)
-        if (!recordExists.current) {
-          await ensureRecord(newChecks);
-        }
-        // Always write this specific field — handles concurrent-create races
-        // and the toggle/uncheck path uniformly
-        if (recordExists.current) {
-          await updateDoc(
-            doc(db, "pmRecords", recordId),
-            new FieldPath("checks", checkName), toggling ? deleteField() : val,
-            "updatedAt", serverTimestamp(),
-          );
-        }
+        await writeOrQueue(async () => {
+          // If no record yet, create it first (includes all current checks)
+          if (!recordExists.current) {
+            await ensureRecord(newChecks);
+          }
+          // Always write this specific field — handles concurrent-create races
+          // and the toggle/uncheck path uniformly
+          if (recordExists.current) {
+            await updateDoc(
+              doc(db, "pmRecords", recordId),
+              new FieldPath("checks", checkName), toggling ? deleteField() : val,
+              "updatedAt", serverTimestamp(),
+            );
+          }
+        });
         flashSaved();
       } catch (err: any) {
         const code = err?.code ?? err?.message ?? "unknown";
         Alert.alert("Save Error", `Code: ${code}`);
       }
     },
-    [recordId, siteId, ensureRecord]
+    [recordId, siteId, ensureRecord, writeOrQueue]
   );
 
   // ─── Save admin info fields ───────────────────────────────────────────────
@@ -224,39 +271,43 @@ export default function PMDetail() {
         assetNo: localAssetNo,
         updatedAt: serverTimestamp(),
       };
-      if (!recordExists.current) {
-        await setDoc(doc(db, "pmRecords", recordId), {
-          ...payload,
-          checks: latestChecks.current,
-          bootErrors: localBootErrors,
-          notes: localNotes,
-          createdAt: serverTimestamp(),
-        });
-        recordExists.current = true;
-      } else {
-        await updateDoc(doc(db, "pmRecords", recordId), payload);
-      }
+      await writeOrQueue(async () => {
+        if (!recordExists.current) {
+          await setDoc(doc(db, "pmRecords", recordId), {
+            ...payload,
+            checks: latestChecks.current,
+            bootErrors: localBootErrors,
+            notes: localNotes,
+            createdAt: serverTimestamp(),
+          });
+          recordExists.current = true;
+        } else {
+          await updateDoc(doc(db, "pmRecords", recordId), payload);
+        }
+      });
       flashSaved();
     } catch (err) {
       if (__DEV__) console.error("[PM saveAdminInfo] Firestore error:", err);
       Alert.alert("Error", "Failed to save.");
     }
     setSaving(false);
-  }, [recordId, siteId, deviceId, device, localDate, localTech, localDept, localAssetNo, localBootErrors, localNotes]);
+  }, [recordId, siteId, deviceId, device, localDate, localTech, localDept, localAssetNo, localBootErrors, localNotes, writeOrQueue]);
 
   const saveNotes = useCallback(async () => {
     if (!recordId || !siteId || !recordExists.current) return;
     try {
-      await updateDoc(doc(db, "pmRecords", recordId), {
-        bootErrors: localBootErrors,
-        notes: localNotes,
-        updatedAt: serverTimestamp(),
-      });
+      await writeOrQueue(() =>
+        updateDoc(doc(db, "pmRecords", recordId), {
+          bootErrors: localBootErrors,
+          notes: localNotes,
+          updatedAt: serverTimestamp(),
+        })
+      );
       flashSaved();
     } catch (err) {
       if (__DEV__) console.error("[PM saveNotes] Firestore error:", err);
     }
-  }, [recordId, siteId, localBootErrors, localNotes]);
+  }, [recordId, siteId, localBootErrors, localNotes, writeOrQueue]);
 
   // ─── Reset / Start New PM ────────────────────────────────────────────────
 
@@ -276,11 +327,15 @@ export default function PMDetail() {
               setLocalChecks({});
               setLocalDate(today());
               if (recordExists.current) {
-                await updateDoc(doc(db, "pmRecords", recordId), {
-                  checks: {},
-                  pmDate: "",
-                  updatedAt: serverTimestamp(),
-                });
+                await writeOrQueue(
+                  () =>
+                    updateDoc(doc(db, "pmRecords", recordId), {
+                      checks: {},
+                      pmDate: "",
+                      updatedAt: serverTimestamp(),
+                    }),
+                  { checks: {}, pmDate: "" }
+                );
               }
               flashSaved();
             } catch {
@@ -290,7 +345,7 @@ export default function PMDetail() {
         },
       ]
     );
-  }, [recordId, siteId]);
+  }, [recordId, siteId, writeOrQueue]);
 
   // ─── CSV export (single device) ───────────────────────────────────────────
 
@@ -320,6 +375,29 @@ export default function PMDetail() {
     }
   };
 
+  // ─── PDF checklist sheet ──────────────────────────────────────────────────
+
+  const exportPDF = async () => {
+    if (!device || !siteId) return;
+    try {
+      await sharePmChecklistPdf({
+        device,
+        siteId,
+        record: {
+          pmDate: localDate,
+          tech: localTech,
+          dept: localDept,
+          assetNo: localAssetNo,
+          checks: localChecks,
+          bootErrors: localBootErrors,
+          notes: localNotes,
+        },
+      });
+    } catch {
+      Alert.alert("Error", "PDF export failed.");
+    }
+  };
+
   // ─── Render ───────────────────────────────────────────────────────────────
 
   const loading = loadingDevice || loadingRecord;
@@ -353,12 +431,21 @@ export default function PMDetail() {
           headerTitleStyle: { color: theme.text, fontWeight: "700" },
           headerRight: () => (
             <View style={{ flexDirection: "row", alignItems: "center", gap: 14 }}>
+              {queuedOffline && (
+                <Ionicons name="cloud-offline-outline" size={18} color={theme.warning} />
+              )}
               {saveFlash && (
                 <Ionicons name="checkmark-circle" size={18} color={theme.primary} />
               )}
               <Pressable onPress={startNewPM} hitSlop={8}>
                 <Ionicons name="refresh-outline" size={20} color={theme.mutedText} />
               </Pressable>
+              <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "pmDevices", id: deviceId } })} hitSlop={8}>
+                <Ionicons name="pricetag-outline" size={20} color={theme.primary} />
+              </Pressable>
+              <Pressable onPress={exportPDF} hitSlop={8}>
+                <Ionicons name="document-text-outline" size={20} color={theme.primary} />
+              </Pressable>
               <Pressable onPress={exportCSV} hitSlop={8}>
                 <Ionicons name="download-outline" size={20} color={theme.primary} />
               </Pressable>
@@ -562,6 +649,8 @@ export default function PMDetail() {
           </View>
         </View>
 
+        <ContractsCard targetType="pmDevice" targetId={deviceId} targetName={device.name} />
+
         {/* ── Save button (manual, for admin info) ── */}
         <Pressable
           style={[styles.saveBtn, { backgroundColor: theme.primary }, saving && { opacity: 0.7 }]}
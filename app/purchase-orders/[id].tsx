@@ -0,0 +1,371 @@
+// app/purchase-orders/[id].tsx — Purchase order detail: edit draft, mark ordered, receive
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { deleteDoc, doc, onSnapshot } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { Toast } from "../../components/Toast";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useToast } from "../../hooks/useToast";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { PurchaseOrder, PurchaseOrderLine } from "../../types/inventory";
+import {
+  markPurchaseOrderOrdered,
+  PO_STATUS_COLORS,
+  PO_STATUS_LABELS,
+  receivePurchaseOrder,
+  updateDraftLines,
+} from "../../utils/purchaseOrders";
+
+const formatDate = (ts: any) =>
+  ts?.toDate
+    ? ts.toDate().toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+    : "—";
+
+const ITEM_TYPE_LABELS: Record<PurchaseOrderLine["itemType"], string> = {
+  inventory: "Inventory",
+  toner: "Toner",
+  radioPart: "Radio part",
+  cardSupply: "Card supply",
+};
+
+export default function PurchaseOrderDetail() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { profile } = useUserProfile();
+  const { toast, fadeAnim, showToast, hideToast } = useToast();
+
+  const [po, setPo] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draftLines, setDraftLines] = useState<PurchaseOrderLine[]>([]);
+  const [receiveQty, setReceiveQty] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, "purchaseOrders", String(id)),
+      (snap) => {
+        if (snap.exists()) {
+          const loaded = { id: snap.id, ...snap.data() } as PurchaseOrder;
+          setPo(loaded);
+          setDraftLines(loaded.lines.map((l) => ({ ...l })));
+        } else {
+          setPo(null);
+        }
+        setLoading(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading purchase order:", err);
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [id]);
+
+  const userName = () => {
+    const user = auth.currentUser;
+    return profile?.name || user?.displayName || user?.email || "Unknown";
+  };
+
+  const setDraftQty = (index: number, value: string) => {
+    const qty = parseInt(value.replace(/[^0-9]/g, "")) || 0;
+    setDraftLines((prev) => prev.map((l, i) => (i === index ? { ...l, qtyOrdered: qty } : l)));
+  };
+
+  const removeDraftLine = (index: number) => {
+    setDraftLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const saveDraft = async () => {
+    if (!po) return false;
+    const lines = draftLines.filter((l) => l.qtyOrdered > 0);
+    if (lines.length === 0) {
+      showToast("Add at least one line with a quantity", "error");
+      return false;
+    }
+    await updateDraftLines(po.id, lines);
+    return true;
+  };
+
+  const handleSaveDraft = async () => {
+    setBusy(true);
+    try {
+      if (await saveDraft()) showToast("✓ Draft saved", "success");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to save draft", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMarkOrdered = async () => {
+    if (!po) return;
+    setBusy(true);
+    try {
+      if (!(await saveDraft())) return;
+      await markPurchaseOrderOrdered(po.id);
+      showToast("✓ Marked as ordered", "success");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to update order", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteDraft = () => {
+    if (!po) return;
+    Alert.alert("Delete Draft", `Delete ${po.poNumber}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteDoc(doc(db, "purchaseOrders", po.id));
+            router.back();
+          } catch (err: any) {
+            showToast(err?.message || "Failed to delete draft", "error");
+          }
+        },
+      },
+    ]);
+  };
+
+  const receive = async (receipts: Record<number, number>) => {
+    if (!po) return;
+    setBusy(true);
+    try {
+      const units = await receivePurchaseOrder(po.id, receipts, userName());
+      setReceiveQty({});
+      showToast(`✓ Received ${units} unit(s)`, "success");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to receive", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReceiveEntered = () => {
+    const receipts: Record<number, number> = {};
+    for (const [key, value] of Object.entries(receiveQty)) {
+      const qty = parseInt(value) || 0;
+      if (qty > 0) receipts[Number(key)] = qty;
+    }
+    if (Object.keys(receipts).length === 0) {
+      showToast("Enter a quantity to receive", "error");
+      return;
+    }
+    receive(receipts);
+  };
+
+  const handleReceiveAll = () => {
+    if (!po) return;
+    const receipts: Record<number, number> = {};
+    po.lines.forEach((l, i) => {
+      const remaining = l.qtyOrdered - l.qtyReceived;
+      if (remaining > 0) receipts[i] = remaining;
+    });
+    receive(receipts);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.center, { flex: 1, backgroundColor: theme.background }]}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!po) {
+    return (
+      <View style={[styles.center, { flex: 1, backgroundColor: theme.background }]}>
+        <Text style={{ color: "#f87171", fontWeight: "800" }}>Purchase order not found.</Text>
+      </View>
+    );
+  }
+
+  const isDraft = po.status === "draft";
+  const canReceive = po.status === "ordered" || po.status === "partial";
+  const statusColor = PO_STATUS_COLORS[po.status];
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: po.poNumber,
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={[styles.container, { backgroundColor: theme.background }]}>
+        {/* Header card */}
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+            <Text style={[styles.name, { color: theme.text }]}>{po.poNumber}</Text>
+            <View style={[styles.statusPill, { backgroundColor: statusColor + "20" }]}>
+              <Text style={{ color: statusColor, fontSize: 12, fontWeight: "800" }}>{PO_STATUS_LABELS[po.status]}</Text>
+            </View>
+          </View>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Vendor</Text>
+            <Text style={[styles.value, { color: theme.text }]}>{po.vendorName}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Created</Text>
+            <Text style={[styles.value, { color: theme.text }]}>{formatDate(po.createdAt)} • {po.createdBy}</Text>
+          </View>
+          {po.orderedAt ? (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: theme.mutedText }]}>Ordered</Text>
+              <Text style={[styles.value, { color: theme.text }]}>{formatDate(po.orderedAt)}</Text>
+            </View>
+          ) : null}
+          {po.receivedAt ? (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: theme.mutedText }]}>Received</Text>
+              <Text style={[styles.value, { color: theme.text }]}>{formatDate(po.receivedAt)}</Text>
+            </View>
+          ) : null}
+        </View>
+
+        {/* Lines card */}
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Line items</Text>
+
+          {(isDraft ? draftLines : po.lines).map((line, index) => {
+            const remaining = line.qtyOrdered - line.qtyReceived;
+            return (
+              <View key={`${line.itemType}_${line.itemId}`} style={[styles.lineRow, { borderTopColor: theme.border }]}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.lineName, { color: theme.text }]}>{line.itemName}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 2 }}>
+                    {ITEM_TYPE_LABELS[line.itemType]}
+                    {!isDraft ? ` • ${line.qtyReceived}/${line.qtyOrdered} received` : ""}
+                  </Text>
+                </View>
+
+                {isDraft ? (
+                  <>
+                    <TextInput
+                      style={[styles.qtyInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+                      keyboardType="number-pad"
+                      value={String(line.qtyOrdered)}
+                      onChangeText={(v) => setDraftQty(index, v)}
+                      editable={!busy}
+                    />
+                    <Pressable onPress={() => removeDraftLine(index)} hitSlop={8} style={{ marginLeft: 10 }}>
+                      <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                    </Pressable>
+                  </>
+                ) : canReceive && remaining > 0 ? (
+                  <>
+                    <TextInput
+                      style={[styles.qtyInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+                      keyboardType="number-pad"
+                      placeholder="0"
+                      placeholderTextColor={theme.mutedText}
+                      value={receiveQty[index] ?? ""}
+                      onChangeText={(v) => setReceiveQty((prev) => ({ ...prev, [index]: v.replace(/[^0-9]/g, "") }))}
+                      editable={!busy}
+                    />
+                    <Pressable
+                      onPress={() => setReceiveQty((prev) => ({ ...prev, [index]: String(remaining) }))}
+                      hitSlop={8}
+                      style={{ marginLeft: 10 }}
+                    >
+                      <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 12 }}>All</Text>
+                    </Pressable>
+                  </>
+                ) : (
+                  <Ionicons
+                    name={remaining <= 0 ? "checkmark-circle" : "ellipse-outline"}
+                    size={20}
+                    color={remaining <= 0 ? "#22c55e" : theme.mutedText}
+                  />
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Actions */}
+        {isDraft && (
+          <>
+            <Pressable
+              style={[styles.primaryButton, { backgroundColor: theme.primary }, busy && { opacity: 0.6 }]}
+              onPress={handleMarkOrdered}
+              disabled={busy}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Mark as ordered</Text>}
+            </Pressable>
+            <Pressable
+              style={[styles.outlineButton, { borderColor: theme.primary }, busy && { opacity: 0.6 }]}
+              onPress={handleSaveDraft}
+              disabled={busy}
+            >
+              <Text style={[styles.outlineButtonText, { color: theme.primary }]}>Save draft</Text>
+            </Pressable>
+            <Pressable style={[styles.outlineButton, { borderColor: "#ef4444" }]} onPress={handleDeleteDraft} disabled={busy}>
+              <Text style={[styles.outlineButtonText, { color: "#ef4444" }]}>Delete draft</Text>
+            </Pressable>
+          </>
+        )}
+
+        {canReceive && (
+          <>
+            <Pressable
+              style={[styles.primaryButton, { backgroundColor: theme.primary }, busy && { opacity: 0.6 }]}
+              onPress={handleReceiveEntered}
+              disabled={busy}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Receive entered quantities</Text>}
+            </Pressable>
+            <Pressable
+              style={[styles.outlineButton, { borderColor: theme.primary }, busy && { opacity: 0.6 }]}
+              onPress={handleReceiveAll}
+              disabled={busy}
+            >
+              <Text style={[styles.outlineButtonText, { color: theme.primary }]}>Receive everything outstanding</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+
+      <Toast toast={toast} fadeAnim={fadeAnim} onDismiss={hideToast} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, flexGrow: 1 },
+  center: { marginTop: 40, alignItems: "center" },
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  name: { fontSize: 20, fontWeight: "900" },
+  sectionTitle: { fontSize: 16, fontWeight: "800", marginBottom: 4 },
+  row: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", paddingVertical: 6 },
+  label: { fontSize: 14 },
+  value: { fontSize: 14, fontWeight: "700", flexShrink: 1, textAlign: "right" },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 999 },
+  lineRow: { flexDirection: "row", alignItems: "center", paddingVertical: 10, borderTopWidth: 1 },
+  lineName: { fontSize: 14, fontWeight: "700" },
+  qtyInput: { width: 64, borderRadius: 10, borderWidth: 1, paddingHorizontal: 8, paddingVertical: 6, fontSize: 14, textAlign: "center" },
+  primaryButton: { marginTop: 4, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  primaryButtonText: { color: "#fff", fontWeight: "900" },
+  outlineButton: { marginTop: 10, paddingVertical: 11, borderRadius: 999, alignItems: "center", borderWidth: 1 },
+  outlineButtonText: { fontWeight: "800" },
+});
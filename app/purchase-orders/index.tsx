@@ -0,0 +1,151 @@
+// app/purchase-orders/index.tsx — Purchase order list (optionally for one vendor)
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { collection, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../../constants/theme";
+import { db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { PurchaseOrder } from "../../types/inventory";
+import { PO_STATUS_COLORS, PO_STATUS_LABELS } from "../../utils/purchaseOrders";
+
+type StatusFilter = "open" | "received" | "all";
+
+const STATUS_FILTERS: { label: string; value: StatusFilter }[] = [
+  { label: "Open", value: "open" },
+  { label: "Received", value: "received" },
+  { label: "All", value: "all" },
+];
+
+export default function PurchaseOrderList() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { vendorId } = useLocalSearchParams<{ vendorId?: string }>();
+  const { siteId } = useUserProfile();
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+
+  useEffect(() => {
+    if (!siteId) return;
+    const q = query(
+      collection(db, "purchaseOrders"),
+      where("siteId", "==", siteId),
+      orderBy("createdAt", "desc")
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setOrders(snap.docs.map((d) => ({ id: d.id, ...d.data() } as PurchaseOrder)));
+        setLoading(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading purchase orders:", err);
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [siteId]);
+
+  const visible = useMemo(() => {
+    let list = vendorId ? orders.filter((o) => o.vendorId === vendorId) : orders;
+    if (statusFilter === "open") list = list.filter((o) => o.status !== "received");
+    if (statusFilter === "received") list = list.filter((o) => o.status === "received");
+    return list;
+  }, [orders, vendorId, statusFilter]);
+
+  const vendorName = vendorId ? orders.find((o) => o.vendorId === vendorId)?.vendorName : null;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: vendorName ? `POs · ${vendorName}` : "Purchase Orders",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <View style={styles.filterRow}>
+          {STATUS_FILTERS.map((f) => {
+            const active = statusFilter === f.value;
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => setStatusFilter(f.value)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: active ? theme.primary : "transparent", borderColor: active ? theme.primary : theme.border },
+                ]}
+              >
+                <Text style={{ color: active ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>{f.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : visible.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="receipt-outline" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8 }}>
+              No purchase orders yet. Draft one from the Alerts tab.
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={visible}
+            keyExtractor={(o) => o.id}
+            contentContainerStyle={{ padding: 16, paddingBottom: 60 }}
+            renderItem={({ item }) => {
+              const color = PO_STATUS_COLORS[item.status] ?? "#6b7280";
+              const ordered = item.lines.reduce((sum, l) => sum + l.qtyOrdered, 0);
+              const received = item.lines.reduce((sum, l) => sum + l.qtyReceived, 0);
+              return (
+                <Pressable
+                  onPress={() => router.push(`/purchase-orders/${item.id}`)}
+                  style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: color }]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.poNumber, { color: theme.text }]}>{item.poNumber}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }}>{item.vendorName}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 4 }}>
+                      {item.lines.length} line(s) • {received}/{ordered} received
+                    </Text>
+                  </View>
+                  <View style={[styles.statusPill, { backgroundColor: color + "20" }]}>
+                    <Text style={{ color, fontSize: 11, fontWeight: "800" }}>{PO_STATUS_LABELS[item.status]}</Text>
+                  </View>
+                </Pressable>
+              );
+            }}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  filterRow: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1 },
+  card: { flexDirection: "row", alignItems: "center", borderRadius: 16, padding: 14, marginBottom: 10, borderWidth: 1, borderLeftWidth: 3 },
+  poNumber: { fontSize: 15, fontWeight: "800" },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+});
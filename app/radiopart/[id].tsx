@@ -1,8 +1,7 @@
 // app/radiopart/[id].tsx
+import { Ionicons } from "@expo/vector-icons";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import {
-  addDoc,
-  collection,
   deleteDoc,
   doc,
   onSnapshot,
@@ -21,10 +20,14 @@ import {
   View,
 } from "react-native";
 
+import { ForecastCard } from "../../components/ForecastCard";
+import { LocationStockCard } from "../../components/LocationStockCard";
+import { MovementTimeline } from "../../components/MovementTimeline";
 import { Toast } from "../../components/Toast";
 import { useAppTheme } from "../../constants/theme";
 import { db } from "../../firebaseConfig";
 import { useToast } from "../../hooks/useToast";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
 
 interface RadioPart {
   id: string;
@@ -32,6 +35,7 @@ interface RadioPart {
   compatibleModel?: string;
   quantity: number;
   minQuantity: number;
+  leadTimeDays?: number;
   location?: string;
   barcode?: string;
   notes?: string;
@@ -41,7 +45,7 @@ interface RadioPart {
 export default function RadioPartDetail() {
   const theme = useAppTheme();
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, location } = useLocalSearchParams<{ id: string; location?: string }>();
   const { toast, fadeAnim, showToast, hideToast } = useToast();
 
   const [part, setPart] = useState<RadioPart | null>(null);
@@ -56,6 +60,8 @@ export default function RadioPartDetail() {
   const [savingMovement, setSavingMovement] = useState(false);
   const [customAmount, setCustomAmount] = useState("");
   const [pendingDelta, setPendingDelta] = useState<number | null>(null);
+  // Location stock adjustments apply to (preselected when arriving from a scan)
+  const [stockLocation, setStockLocation] = useState<string | null>(location ? String(location) : null);
   const [movementBy, setMovementBy] = useState("");
   const [movementNote, setMovementNote] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -74,6 +80,7 @@ export default function RadioPartDetail() {
             compatibleModel: d.compatibleModel || "",
             quantity: d.quantity ?? 0,
             minQuantity: d.minQuantity ?? 0,
+            leadTimeDays: d.leadTimeDays ?? undefined,
             location: d.location || "",
             barcode: d.barcode || "",
             notes: d.notes || "",
@@ -120,40 +127,27 @@ export default function RadioPartDetail() {
       setError("Please enter who is taking / adding the item.");
       return;
     }
-    const note = movementNote.trim();
-    const delta = pendingDelta;
-    const newQty = Math.max(0, part.quantity + delta);
-    const prevStatus = part.quantity <= 0 ? "OUT" : part.quantity <= part.minQuantity ? "LOW" : "OK";
-    const nextStatus = newQty <= 0 ? "OUT" : newQty <= part.minQuantity ? "LOW" : "OK";
     setSavingMovement(true);
     setError(null);
     try {
-      await updateDoc(doc(db, "radioParts", part.id), {
-        quantity: newQty,
-        updatedAt: serverTimestamp(),
-      });
-      await addDoc(collection(db, "alertsLog"), {
-        siteId: part.siteId,
-        itemName: part.name,
-        itemId: part.id,
-        qty: newQty,
-        min: part.minQuantity,
-        prevState: prevStatus,
-        nextState: nextStatus,
-        status: nextStatus,
-        action: delta < 0 ? "deducted" : "added",
-        itemType: "radioPart",
-        by,
-        note: note || null,
-        source: "movement",
-        createdAt: serverTimestamp(),
-      });
-      showToast(delta < 0 ? `✓ Removed ${Math.abs(delta)}` : `✓ Added ${delta}`, "success");
+      const result = await submitStockMovement(
+        {
+          itemType: "radioPart",
+          itemId: part.id,
+          delta: pendingDelta,
+          by,
+          note: movementNote.trim(),
+          location: stockLocation,
+        },
+        { label: `${pendingDelta > 0 ? "+" : ""}${pendingDelta} ${part.name}`, siteId: part.siteId }
+      );
+      if (!result) showToast(QUEUED_MESSAGE, "info");
+      else showToast(result.delta < 0 ? `✓ Removed ${Math.abs(result.delta)}` : `✓ Added ${result.delta}`, "success");
       setPendingDelta(null);
       setMovementBy("");
       setMovementNote("");
-    } catch {
-      showToast("Failed to update quantity", "error");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to update quantity", "error");
     } finally {
       setSavingMovement(false);
     }
@@ -209,6 +203,11 @@ export default function RadioPartDetail() {
           headerStyle: { backgroundColor: theme.background },
           headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
           headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "radioParts", id } })} hitSlop={8}>
+              <Ionicons name="pricetag-outline" size={20} color={theme.text} />
+            </Pressable>
+          ),
         }}
       />
 
@@ -319,6 +318,14 @@ export default function RadioPartDetail() {
               </View>
             </View>
 
+            <LocationStockCard
+              itemType="radioPart"
+              itemId={part.id}
+              selected={stockLocation}
+              onSelect={setStockLocation}
+              onTransferred={(message) => showToast(message, "success")}
+            />
+
             {/* Details card */}
             <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
               <Text style={[styles.sectionTitle, { color: theme.text }]}>Details</Text>
@@ -389,6 +396,17 @@ export default function RadioPartDetail() {
                 <Text style={styles.deleteButtonText}>Delete part</Text>
               </Pressable>
             </View>
+
+            <ForecastCard
+              itemType="radioPart"
+              itemId={part.id}
+              siteId={part.siteId}
+              currentQuantity={part.quantity}
+              minQuantity={part.minQuantity}
+              leadTimeDays={part.leadTimeDays}
+            />
+
+            <MovementTimeline itemType="radioPart" itemId={part.id} />
           </>
         )}
       </ScrollView>
@@ -402,6 +420,7 @@ export default function RadioPartDetail() {
             </Text>
             <Text style={[styles.overlaySub, { color: theme.mutedText }]}>
               Current: {part.quantity} • Change: {pendingDelta > 0 ? `+${pendingDelta}` : pendingDelta}
+              {stockLocation ? ` • ${stockLocation}` : ""}
             </Text>
 
             <Text style={[styles.fieldLabel, { color: theme.text }]}>Who is taking / adding it?</Text>
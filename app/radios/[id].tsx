@@ -0,0 +1,277 @@
+// app/radios/[id].tsx — One radio: current holder, check out / in, repairs, custody history
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { collection, doc, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { RadioCheckoutModal } from "../../components/RadioCheckoutModal";
+import { RadioRepairModal } from "../../components/RadioRepairModal";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { Radio, RadioCheckout, RadioRepair } from "../../types/inventory";
+import {
+  checkinRadio,
+  formatCustodyTime,
+  isOverdue,
+  loadRadioCustody,
+  radioLabel,
+  SHIFT_LABELS,
+} from "../../utils/radioCustody";
+import { formatTurnaround, isRepairOpen, REPAIR_STATUS_LABELS, repairTurnaroundMs } from "../../utils/radioRepairs";
+
+export default function RadioDetail() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { siteId, profile } = useUserProfile();
+
+  const [radio, setRadio] = useState<Radio | null>(null);
+  const [history, setHistory] = useState<RadioCheckout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [repairs, setRepairs] = useState<RadioRepair[]>([]);
+  const [showReport, setShowReport] = useState(false);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, "radios", String(id)),
+      (snap) => {
+        setRadio(snap.exists() ? ({ id: snap.id, ...snap.data() } as Radio) : null);
+        setLoading(false);
+      },
+      (err) => { if (__DEV__) console.error("Error loading radio:", err); setLoading(false); }
+    );
+    return () => unsub();
+  }, [id]);
+
+  // Live, so status and parts changed on the ticket screen show up on return
+  useEffect(() => {
+    if (!siteId || !id) return;
+    const unsub = onSnapshot(
+      query(collection(db, "radioRepairs"), where("siteId", "==", siteId), where("radioId", "==", String(id)), orderBy("reportedAt", "desc")),
+      (snap) => setRepairs(snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioRepair))),
+      (err) => { if (__DEV__) console.error("Error loading repair history:", err); }
+    );
+    return () => unsub();
+  }, [siteId, id]);
+
+  const loadHistory = useCallback(async () => {
+    if (!siteId || !id) return;
+    try {
+      setHistory(await loadRadioCustody(siteId, String(id)));
+    } catch (err) {
+      if (__DEV__) console.error("Error loading custody history:", err);
+    }
+  }, [siteId, id]);
+
+  // Reload whenever the radio goes out or comes back
+  useEffect(() => { loadHistory(); }, [loadHistory, radio?.checkoutId]);
+
+  const checkIn = async () => {
+    if (!radio) return;
+    setCheckingIn(true);
+    try {
+      await checkinRadio({ radioId: radio.id, by });
+    } catch (err: any) {
+      Alert.alert("Check-in Failed", err?.message || "Could not check in this radio.");
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  const current = radio?.checkoutId ? history.find((c) => c.id === radio.checkoutId) ?? null : null;
+  const overdue = !!current && isOverdue(current);
+  const openRepair = radio?.repairId ? repairs.find((r) => r.id === radio.repairId) ?? null : null;
+  const openTicket = (repairId: string) => router.push({ pathname: "/radios/repairs/[id]" as any, params: { id: repairId } });
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: radio?.model || "Radio",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "radios", id } })} hitSlop={8}>
+              <Ionicons name="pricetag-outline" size={22} color={theme.text} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      {loading ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator />
+        </View>
+      ) : !radio ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <Text style={{ color: theme.mutedText }}>This radio no longer exists.</Text>
+        </View>
+      ) : (
+        <FlatList
+          style={{ flex: 1, backgroundColor: theme.background }}
+          data={history}
+          keyExtractor={(c) => c.id}
+          contentContainerStyle={{ padding: 16, paddingBottom: 40 }}
+          ListHeaderComponent={
+            <>
+              <View style={[styles.card, { backgroundColor: theme.card, borderColor: overdue ? theme.danger : theme.border }]}>
+                <Text style={[styles.title, { color: theme.text }]}>{radioLabel(radio)}</Text>
+                <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>
+                  {[radio.channel && `Ch ${radio.channel}`, radio.condition, radio.location].filter(Boolean).join(" · ") || "No details"}
+                </Text>
+
+                {radio.checkoutId ? (
+                  <>
+                    <Text style={{ color: theme.text, fontSize: 15, fontWeight: "800", marginTop: 12 }}>
+                      Out to {current?.holder ?? radio.assignedTo ?? "Unknown"}
+                    </Text>
+                    {current && (
+                      <Text style={{ color: overdue ? theme.danger : theme.mutedText, fontSize: 12, fontWeight: overdue ? "800" : "400" }}>
+                        {SHIFT_LABELS[current.shift]} shift · since {formatCustodyTime(current.checkedOutAt)} ·{" "}
+                        {overdue ? "overdue since" : "due"} {formatCustodyTime(current.expectedReturnAt)}
+                      </Text>
+                    )}
+                    <Pressable
+                      onPress={checkIn}
+                      disabled={checkingIn}
+                      style={[styles.actionBtn, { backgroundColor: theme.primary, opacity: checkingIn ? 0.6 : 1 }]}
+                    >
+                      {checkingIn ? <ActivityIndicator color="#fff" /> : <Text style={styles.actionText}>Check in</Text>}
+                    </Pressable>
+                  </>
+                ) : (
+                  <>
+                    <Text style={{ color: "#16a34a", fontSize: 15, fontWeight: "800", marginTop: 12 }}>In</Text>
+                    {!radio.repairId && (
+                      <Pressable onPress={() => setShowCheckout(true)} style={[styles.actionBtn, { backgroundColor: theme.primary }]}>
+                        <Text style={styles.actionText}>Check out</Text>
+                      </Pressable>
+                    )}
+                  </>
+                )}
+
+                {radio.repairId ? (
+                  <Pressable
+                    onPress={() => openTicket(radio.repairId!)}
+                    style={[styles.repairBanner, { borderColor: theme.warning, backgroundColor: theme.warning + "1A" }]}
+                  >
+                    <Ionicons name="construct-outline" size={18} color={theme.warning} style={{ marginRight: 8 }} />
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: theme.warning, fontWeight: "800" }}>
+                        In repair{openRepair ? ` · ${REPAIR_STATUS_LABELS[openRepair.status]}` : ""}
+                      </Text>
+                      {openRepair && (
+                        <Text style={{ color: theme.mutedText, fontSize: 12 }} numberOfLines={1}>
+                          {openRepair.issue} · {openRepair.tech || "Unassigned"}
+                        </Text>
+                      )}
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={theme.warning} />
+                  </Pressable>
+                ) : (
+                  <Pressable onPress={() => setShowReport(true)} style={[styles.actionBtn, { borderWidth: 1, borderColor: theme.border }]}>
+                    <Text style={{ color: theme.text, fontWeight: "800" }}>Report repair</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              <Text style={[styles.section, { color: theme.mutedText }]}>REPAIR HISTORY</Text>
+              {repairs.length === 0 ? (
+                <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 8 }}>No repairs.</Text>
+              ) : (
+                repairs.map((r) => {
+                  const open = isRepairOpen(r);
+                  const partsUsed = (r.parts ?? []).reduce((sum, p) => sum + (p.qty || 0), 0);
+                  return (
+                    <Pressable key={r.id} onPress={() => openTicket(r.id)} style={[styles.historyRow, { borderColor: theme.border }]}>
+                      <Ionicons
+                        name={open ? "construct-outline" : r.status === "repaired" ? "checkmark-circle-outline" : "close-circle-outline"}
+                        size={18}
+                        color={open ? theme.warning : r.status === "repaired" ? "#16a34a" : theme.danger}
+                        style={{ marginRight: 10, marginTop: 2 }}
+                      />
+                      <View style={{ flex: 1 }}>
+                        <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>{r.issue}</Text>
+                        <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                          {REPAIR_STATUS_LABELS[r.status]} · {open ? "open" : "turnaround"} {formatTurnaround(repairTurnaroundMs(r))}
+                          {partsUsed ? ` · ${partsUsed} part${partsUsed !== 1 ? "s" : ""}` : ""}
+                        </Text>
+                        <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                          Reported {formatCustodyTime(r.reportedAt)} by {r.reportedBy}{r.tech ? ` · ${r.tech}` : ""}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })
+              )}
+              <Text style={[styles.section, { color: theme.mutedText }]}>CUSTODY HISTORY</Text>
+            </>
+          }
+          ListEmptyComponent={<Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 8 }}>Never checked out.</Text>}
+          renderItem={({ item }) => {
+            const late = !!item.returnedAt && item.returnedAt.toMillis?.() > (item.expectedReturnAt?.toMillis?.() ?? Infinity);
+            return (
+              <View style={[styles.historyRow, { borderColor: theme.border }]}>
+                <Ionicons
+                  name={item.returnedAt ? "return-down-back-outline" : "radio-outline"}
+                  size={18}
+                  color={item.returnedAt ? theme.mutedText : theme.warning}
+                  style={{ marginRight: 10, marginTop: 2 }}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: theme.text, fontWeight: "800" }}>
+                    {item.holder} <Text style={{ color: theme.mutedText, fontWeight: "400" }}>· {SHIFT_LABELS[item.shift]}</Text>
+                  </Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                    Out {formatCustodyTime(item.checkedOutAt)} by {item.checkedOutBy}
+                  </Text>
+                  <Text style={{ color: late ? theme.warning : theme.mutedText, fontSize: 12 }}>
+                    {item.returnedAt
+                      ? `Back ${formatCustodyTime(item.returnedAt)} by ${item.returnedBy ?? "Unknown"}${late ? " (late)" : ""}`
+                      : `Due ${formatCustodyTime(item.expectedReturnAt)}`}
+                  </Text>
+                  {item.note ? <Text style={{ color: theme.mutedText, fontSize: 11, fontStyle: "italic" }}>{item.note}</Text> : null}
+                </View>
+              </View>
+            );
+          }}
+        />
+      )}
+
+      <RadioCheckoutModal radio={showCheckout ? radio : null} by={by} onClose={() => setShowCheckout(false)} />
+      <RadioRepairModal
+        radio={showReport ? radio : null}
+        by={by}
+        onClose={() => setShowReport(false)}
+        onReported={(repair) => openTicket(repair.id)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  card: { borderRadius: 16, borderWidth: 1, padding: 16 },
+  title: { fontSize: 18, fontWeight: "800" },
+  actionBtn: { marginTop: 14, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  actionText: { color: "#fff", fontWeight: "900" },
+  section: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginTop: 20, marginBottom: 4 },
+  repairBanner: { flexDirection: "row", alignItems: "center", marginTop: 12, borderWidth: 1, borderRadius: 12, padding: 12 },
+  historyRow: { flexDirection: "row", paddingVertical: 10, borderTopWidth: StyleSheet.hairlineWidth },
+});
@@ -0,0 +1,237 @@
+// app/radios/custody.tsx — Radio custody board: who has which radio, what is overdue
+import { Ionicons } from "@expo/vector-icons";
+import { useCameraPermissions } from "expo-camera";
+import { Stack, useRouter } from "expo-router";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { RadioCheckoutModal } from "../../components/RadioCheckoutModal";
+import { RadioShiftScanModal } from "../../components/RadioShiftScanModal";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { Radio, RadioCheckout } from "../../types/inventory";
+import { checkinRadio, formatCustodyTime, isOverdue, radioLabel, SHIFT_LABELS } from "../../utils/radioCustody";
+
+type CustodyFilter = "overdue" | "out" | "in" | "all";
+
+const CUSTODY_FILTERS: { label: string; value: CustodyFilter }[] = [
+  { label: "Overdue", value: "overdue" },
+  { label: "Out", value: "out" },
+  { label: "In", value: "in" },
+  { label: "All", value: "all" },
+];
+
+// Re-evaluate overdue while the board is open
+const OVERDUE_TICK_MS = 60000;
+
+export default function RadioCustody() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { siteId, profile } = useUserProfile();
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+
+  const [radios, setRadios] = useState<Radio[]>([]);
+  const [checkouts, setCheckouts] = useState<RadioCheckout[]>([]);
+  const [loaded, setLoaded] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<CustodyFilter>("out");
+  const [now, setNow] = useState(Date.now());
+  const [checkoutTarget, setCheckoutTarget] = useState<Radio | null>(null);
+  const [showScan, setShowScan] = useState(false);
+  const [checkingIn, setCheckingIn] = useState<string | null>(null);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!siteId) return;
+    const unsubRadios = onSnapshot(
+      query(collection(db, "radios"), where("siteId", "==", siteId)),
+      (snap) => {
+        setRadios(snap.docs.map((d) => ({ id: d.id, ...d.data() } as Radio)));
+        setLoaded((prev) => new Set(prev).add("radios"));
+      },
+      (err) => { if (__DEV__) console.error("Error loading radios:", err); setLoaded((prev) => new Set(prev).add("radios")); }
+    );
+    const unsubCheckouts = onSnapshot(
+      query(collection(db, "radioCheckouts"), where("siteId", "==", siteId), where("returnedAt", "==", null)),
+      (snap) => {
+        setCheckouts(snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioCheckout)));
+        setLoaded((prev) => new Set(prev).add("checkouts"));
+      },
+      (err) => { if (__DEV__) console.error("Error loading radio checkouts:", err); setLoaded((prev) => new Set(prev).add("checkouts")); }
+    );
+    return () => { unsubRadios(); unsubCheckouts(); };
+  }, [siteId]);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), OVERDUE_TICK_MS);
+    return () => clearInterval(t);
+  }, []);
+
+  const checkoutById = useMemo(() => new Map(checkouts.map((c) => [c.id, c])), [checkouts]);
+
+  const rows = useMemo(() => {
+    const list = radios.map((radio) => {
+      const checkout = radio.checkoutId ? checkoutById.get(radio.checkoutId) ?? null : null;
+      return { radio, checkout, overdue: !!checkout && isOverdue(checkout, now) };
+    });
+    const filtered = list.filter((r) =>
+      filter === "overdue" ? r.overdue : filter === "out" ? !!r.radio.checkoutId : filter === "in" ? !r.radio.checkoutId : true
+    );
+    // Overdue first, then soonest due, then name
+    return filtered.sort((a, b) =>
+      Number(b.overdue) - Number(a.overdue)
+      || (a.checkout?.expectedReturnAt?.toMillis?.() ?? Infinity) - (b.checkout?.expectedReturnAt?.toMillis?.() ?? Infinity)
+      || radioLabel(a.radio).localeCompare(radioLabel(b.radio))
+    );
+  }, [radios, checkoutById, filter, now]);
+
+  const counts: Record<CustodyFilter, number> = {
+    overdue: radios.filter((r) => { const c = r.checkoutId ? checkoutById.get(r.checkoutId) : null; return !!c && isOverdue(c, now); }).length,
+    out: radios.filter((r) => r.checkoutId).length,
+    in: radios.filter((r) => !r.checkoutId).length,
+    all: radios.length,
+  };
+
+  const openScan = async () => {
+    if (!cameraPermission?.granted) {
+      const res = await requestCameraPermission();
+      if (!res.granted) { Alert.alert("Camera permission needed", "Enable camera access to use the scanner."); return; }
+    }
+    setShowScan(true);
+  };
+
+  const checkIn = async (radio: Radio) => {
+    setCheckingIn(radio.id);
+    try {
+      await checkinRadio({ radioId: radio.id, by });
+    } catch (err: any) {
+      Alert.alert("Check-in Failed", err?.message || "Could not check in this radio.");
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
+  const loading = loaded.size < 2;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Radio Custody",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={openScan} hitSlop={8}>
+              <Ionicons name="scan-outline" size={22} color={theme.text} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <View style={styles.filterRow}>
+          {CUSTODY_FILTERS.map((f) => {
+            const active = filter === f.value;
+            const alert = f.value === "overdue" && counts.overdue > 0;
+            const color = alert ? theme.danger : theme.primary;
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => setFilter(f.value)}
+                style={[styles.chip, { backgroundColor: active ? color : "transparent", borderColor: active || alert ? color : theme.border }]}
+              >
+                <Text style={{ color: active ? "#fff" : alert ? color : theme.mutedText, fontSize: 12, fontWeight: "700" }}>
+                  {f.label} ({counts[f.value]})
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : rows.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="radio-outline" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8, textAlign: "center" }}>
+              {filter === "overdue" ? "Nothing overdue. Every radio out is within its shift." : "No radios here."}
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={rows}
+            keyExtractor={(r) => r.radio.id}
+            contentContainerStyle={{ padding: 16, paddingBottom: 60 }}
+            renderItem={({ item: { radio, checkout, overdue } }) => {
+              const out = !!radio.checkoutId;
+              const accent = overdue ? theme.danger : out ? theme.warning : "#16a34a";
+              return (
+                <Pressable
+                  onPress={() => router.push({ pathname: "/radios/[id]" as any, params: { id: radio.id } })}
+                  style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: accent }]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.itemName, { color: theme.text }]} numberOfLines={1}>{radioLabel(radio)}</Text>
+                    {out ? (
+                      <>
+                        <Text style={{ color: theme.text, fontSize: 13, marginTop: 2 }} numberOfLines={1}>
+                          {checkout?.holder ?? radio.assignedTo ?? "Unknown"}
+                          {checkout ? ` · ${SHIFT_LABELS[checkout.shift] ?? ""}` : ""}
+                        </Text>
+                        <Text style={{ color: overdue ? theme.danger : theme.mutedText, fontSize: 12, fontWeight: overdue ? "800" : "400" }}>
+                          {overdue ? "Overdue · " : "Due "}{formatCustodyTime(checkout?.expectedReturnAt)}
+                        </Text>
+                      </>
+                    ) : (
+                      <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>{radio.location || "In"}</Text>
+                    )}
+                  </View>
+                  {out ? (
+                    <Pressable
+                      onPress={() => checkIn(radio)}
+                      disabled={checkingIn === radio.id}
+                      style={[styles.actionBtn, { borderColor: theme.border }]}
+                    >
+                      {checkingIn === radio.id
+                        ? <ActivityIndicator size="small" color={theme.text} />
+                        : <Text style={{ color: theme.text, fontWeight: "800", fontSize: 12 }}>Check in</Text>}
+                    </Pressable>
+                  ) : (
+                    <Pressable onPress={() => setCheckoutTarget(radio)} style={[styles.actionBtn, { borderColor: theme.primary }]}>
+                      <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 12 }}>Check out</Text>
+                    </Pressable>
+                  )}
+                </Pressable>
+              );
+            }}
+          />
+        )}
+      </View>
+
+      <RadioCheckoutModal radio={checkoutTarget} by={by} onClose={() => setCheckoutTarget(null)} />
+      <RadioShiftScanModal visible={showScan} siteId={siteId} by={by} onClose={() => setShowScan(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  filterRow: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1 },
+  card: { flexDirection: "row", alignItems: "center", borderRadius: 14, borderWidth: 1, borderLeftWidth: 4, padding: 14, marginBottom: 10 },
+  itemName: { fontSize: 15, fontWeight: "800" },
+  actionBtn: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 12, paddingVertical: 7, marginLeft: 10, minWidth: 84, alignItems: "center" },
+});
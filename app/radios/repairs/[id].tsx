@@ -0,0 +1,372 @@
+// app/radios/repairs/[id].tsx — One repair ticket: status, tech, parts used, close out
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { collection, doc, onSnapshot, query, where } from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import inventoryStyles from "../../../constants/inventoryStyles";
+import { useAppTheme } from "../../../constants/theme";
+import { auth, db } from "../../../firebaseConfig";
+import { useUserProfile } from "../../../hooks/useUserProfile";
+import { RADIO_CONDITIONS, RadioCondition, RadioPart, RadioRepair, RadioRepairStatus } from "../../../types/inventory";
+import { formatCustodyTime } from "../../../utils/radioCustody";
+import {
+  closeRadioRepair,
+  consumeRepairPart,
+  formatTurnaround,
+  isRepairOpen,
+  OPEN_REPAIR_STATUSES,
+  REPAIR_STATUS_LABELS,
+  repairTurnaroundMs,
+  updateRadioRepair,
+} from "../../../utils/radioRepairs";
+
+// A repaired radio goes back into service; Out of Service is for unrepairable
+const REPAIRED_CONDITIONS = RADIO_CONDITIONS.filter((c) => c !== "Out of Service");
+
+export default function RadioRepairDetail() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { siteId, profile } = useUserProfile();
+
+  const [repair, setRepair] = useState<RadioRepair | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tech, setTech] = useState("");
+  const [savingStatus, setSavingStatus] = useState(false);
+  const [condition, setCondition] = useState<RadioCondition>("Good");
+  const [resolution, setResolution] = useState("");
+  const [closing, setClosing] = useState(false);
+
+  const [showParts, setShowParts] = useState(false);
+  const [parts, setParts] = useState<RadioPart[]>([]);
+  const [partSearch, setPartSearch] = useState("");
+  const [partQty, setPartQty] = useState(1);
+  const [usingPart, setUsingPart] = useState<string | null>(null);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, "radioRepairs", String(id)),
+      (snap) => {
+        const next = snap.exists() ? ({ id: snap.id, ...snap.data() } as RadioRepair) : null;
+        setRepair(next);
+        setTech(next?.tech ?? "");
+        setLoading(false);
+      },
+      (err) => { if (__DEV__) console.error("Error loading repair ticket:", err); setLoading(false); }
+    );
+    return () => unsub();
+  }, [id]);
+
+  // Parts list only while the picker is open
+  useEffect(() => {
+    if (!showParts || !siteId) return;
+    const unsub = onSnapshot(
+      query(collection(db, "radioParts"), where("siteId", "==", siteId)),
+      (snap) => setParts(snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioPart))),
+      (err) => { if (__DEV__) console.error("Error loading radio parts:", err); }
+    );
+    return () => unsub();
+  }, [showParts, siteId]);
+
+  // Parts listed as compatible with this radio's model first
+  const pickerParts = useMemo(() => {
+    const model = (repair?.model ?? "").toLowerCase();
+    const q = partSearch.trim().toLowerCase();
+    const fits = (p: RadioPart) => !!model && !!p.compatibleModel && p.compatibleModel.toLowerCase().includes(model);
+    return parts
+      .filter((p) => !q || p.name.toLowerCase().includes(q) || p.compatibleModel?.toLowerCase().includes(q))
+      .sort((a, b) => Number(fits(b)) - Number(fits(a)) || a.name.localeCompare(b.name))
+      .map((p) => ({ part: p, fits: fits(p) }));
+  }, [parts, partSearch, repair?.model]);
+
+  const setStatus = async (status: RadioRepairStatus) => {
+    if (!repair || status === repair.status) return;
+    setSavingStatus(true);
+    try {
+      await updateRadioRepair(repair.id, { status });
+    } catch (err: any) {
+      Alert.alert("Update Failed", err?.message || "Could not update this ticket.");
+    } finally {
+      setSavingStatus(false);
+    }
+  };
+
+  const saveTech = async () => {
+    if (!repair || tech.trim() === (repair.tech ?? "")) return;
+    try {
+      await updateRadioRepair(repair.id, { tech });
+    } catch (err: any) {
+      Alert.alert("Update Failed", err?.message || "Could not update this ticket.");
+    }
+  };
+
+  const takePart = async (part: RadioPart) => {
+    if (!repair) return;
+    setUsingPart(part.id);
+    try {
+      const result = await consumeRepairPart({ repairId: repair.id, partId: part.id, qty: partQty, by });
+      setShowParts(false);
+      setPartQty(1);
+      setPartSearch("");
+      Alert.alert("Part Used", `${partQty} × ${result.name} taken from stock (${result.newQuantity} left).`);
+    } catch (err: any) {
+      Alert.alert("Could Not Use Part", err?.message || "Could not take this part from stock.");
+    } finally {
+      setUsingPart(null);
+    }
+  };
+
+  const close = async (outcome: "repaired" | "unrepairable") => {
+    if (!repair) return;
+    setClosing(true);
+    try {
+      await closeRadioRepair({ repairId: repair.id, outcome, condition, resolution, by });
+    } catch (err: any) {
+      Alert.alert("Close Failed", err?.message || "Could not close this ticket.");
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const confirmUnrepairable = () => {
+    Alert.alert("Mark Unrepairable", "Close the ticket and leave the radio Out of Service?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Unrepairable", style: "destructive", onPress: () => close("unrepairable") },
+    ]);
+  };
+
+  const open = !!repair && isRepairOpen(repair);
+  const partsUsed = (repair?.parts ?? []).reduce((sum, p) => sum + (p.qty || 0), 0);
+  const inputStyle = [inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }];
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Repair Ticket",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      {loading ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator />
+        </View>
+      ) : !repair ? (
+        <View style={[styles.center, { backgroundColor: theme.background }]}>
+          <Text style={{ color: theme.mutedText }}>This repair ticket no longer exists.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={{ flex: 1, backgroundColor: theme.background }}
+          contentContainerStyle={{ padding: 16, paddingBottom: 40 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: open ? theme.warning : theme.border }]}>
+            <Pressable onPress={() => router.push({ pathname: "/radios/[id]" as any, params: { id: repair.radioId } })}>
+              <Text style={[styles.title, { color: theme.text }]}>{repair.radioLabel}</Text>
+            </Pressable>
+            <Text style={{ color: open ? theme.warning : theme.mutedText, fontSize: 13, fontWeight: "800", marginTop: 4 }}>
+              {REPAIR_STATUS_LABELS[repair.status]} · {open ? "open" : "turnaround"} {formatTurnaround(repairTurnaroundMs(repair))}
+            </Text>
+            <Text style={{ color: theme.text, fontSize: 15, marginTop: 10 }}>{repair.issue}</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 6 }}>
+              Reported {formatCustodyTime(repair.reportedAt)} by {repair.reportedBy}
+            </Text>
+          </View>
+
+          {open ? (
+            <>
+              <Text style={[styles.section, { color: theme.mutedText }]}>STATUS</Text>
+              <View style={styles.chipRow}>
+                {OPEN_REPAIR_STATUSES.map((s) => {
+                  const active = repair.status === s;
+                  return (
+                    <Pressable
+                      key={s}
+                      onPress={() => setStatus(s)}
+                      disabled={savingStatus}
+                      style={[styles.chip, { borderColor: active ? theme.tint : theme.border, backgroundColor: active ? theme.tint + "22" : theme.card }]}
+                    >
+                      <Text style={{ color: active ? theme.tint : theme.mutedText, fontWeight: "700", fontSize: 13 }}>{REPAIR_STATUS_LABELS[s]}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Assigned tech</Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="Unassigned"
+                placeholderTextColor={theme.mutedText}
+                value={tech}
+                onChangeText={setTech}
+                onEndEditing={saveTech}
+              />
+            </>
+          ) : (
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 12 }}>Tech: {repair.tech || "Unassigned"}</Text>
+          )}
+
+          <Text style={[styles.section, { color: theme.mutedText }]}>PARTS USED{partsUsed ? ` · ${partsUsed}` : ""}</Text>
+          {(repair.parts ?? []).length === 0 ? (
+            <Text style={{ color: theme.mutedText, fontSize: 13 }}>No parts used.</Text>
+          ) : (
+            repair.parts.map((p) => (
+              <Pressable
+                key={p.movementId}
+                onPress={() => router.push(`/radiopart/${p.partId}` as any)}
+                style={[styles.partRow, { borderColor: theme.border }]}
+              >
+                <Text style={{ color: theme.text, fontWeight: "700", flex: 1 }} numberOfLines={1}>{p.name}</Text>
+                <Text style={{ color: theme.mutedText, fontSize: 12, marginRight: 10 }}>{p.by}</Text>
+                <Text style={{ color: "#f97316", fontWeight: "900" }}>−{p.qty}</Text>
+              </Pressable>
+            ))
+          )}
+          {open && (
+            <Pressable onPress={() => setShowParts(true)} style={[styles.outlineBtn, { borderColor: theme.primary }]}>
+              <Ionicons name="construct-outline" size={16} color={theme.primary} style={{ marginRight: 6 }} />
+              <Text style={{ color: theme.primary, fontWeight: "800" }}>Use part</Text>
+            </Pressable>
+          )}
+
+          {open ? (
+            <>
+              <Text style={[styles.section, { color: theme.mutedText }]}>CLOSE TICKET</Text>
+              <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Condition after repair</Text>
+              <View style={styles.chipRow}>
+                {REPAIRED_CONDITIONS.map((c) => {
+                  const active = condition === c;
+                  return (
+                    <Pressable
+                      key={c}
+                      onPress={() => setCondition(c)}
+                      style={[styles.chip, { borderColor: active ? theme.tint : theme.border, backgroundColor: active ? theme.tint + "22" : theme.card }]}
+                    >
+                      <Text style={{ color: active ? theme.tint : theme.mutedText, fontWeight: "700", fontSize: 13 }}>{c}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Resolution</Text>
+              <TextInput
+                style={[inputStyle, { height: 70, textAlignVertical: "top" }]}
+                placeholder="e.g. Replaced antenna and battery contacts"
+                placeholderTextColor={theme.mutedText}
+                multiline
+                value={resolution}
+                onChangeText={setResolution}
+              />
+              <Pressable
+                onPress={() => close("repaired")}
+                disabled={closing}
+                style={[styles.actionBtn, { backgroundColor: theme.primary, opacity: closing ? 0.6 : 1 }]}
+              >
+                {closing ? <ActivityIndicator color="#fff" /> : <Text style={styles.actionText}>Mark repaired</Text>}
+              </Pressable>
+              <Pressable
+                onPress={confirmUnrepairable}
+                disabled={closing}
+                style={[styles.actionBtn, { borderWidth: 1, borderColor: theme.danger, opacity: closing ? 0.6 : 1 }]}
+              >
+                <Text style={{ color: theme.danger, fontWeight: "900" }}>Unrepairable</Text>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              <Text style={[styles.section, { color: theme.mutedText }]}>RESOLUTION</Text>
+              <Text style={{ color: theme.text, fontSize: 14 }}>{repair.resolution || "No resolution notes."}</Text>
+              <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 6 }}>
+                Closed {formatCustodyTime(repair.closedAt)} by {repair.closedBy ?? "Unknown"}
+              </Text>
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <Modal visible={showParts} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowParts(false)}>
+        <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
+          <View style={inventoryStyles.modalHeader}>
+            <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Use Part</Text>
+            <Pressable onPress={() => setShowParts(false)}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+          </View>
+          <View style={styles.qtyRow}>
+            <Text style={{ color: theme.mutedText, fontWeight: "700", flex: 1 }}>Quantity</Text>
+            <Pressable onPress={() => setPartQty((q) => Math.max(1, q - 1))} style={[styles.qtyBtn, { borderColor: theme.border }]}>
+              <Ionicons name="remove" size={18} color={theme.text} />
+            </Pressable>
+            <Text style={{ color: theme.text, fontWeight: "900", fontSize: 18, minWidth: 36, textAlign: "center" }}>{partQty}</Text>
+            <Pressable onPress={() => setPartQty((q) => q + 1)} style={[styles.qtyBtn, { borderColor: theme.border }]}>
+              <Ionicons name="add" size={18} color={theme.text} />
+            </Pressable>
+          </View>
+          <TextInput
+            style={[inventoryStyles.searchInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+            placeholder="Search parts..."
+            placeholderTextColor={theme.mutedText}
+            value={partSearch}
+            onChangeText={setPartSearch}
+          />
+          <FlatList
+            data={pickerParts}
+            keyExtractor={(r) => r.part.id}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={<Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 24 }}>No radio parts.</Text>}
+            renderItem={({ item: { part, fits } }) => (
+              <Pressable
+                onPress={() => takePart(part)}
+                disabled={!!usingPart || part.quantity <= 0}
+                style={[styles.pickRow, { borderColor: theme.border, opacity: part.quantity <= 0 ? 0.5 : 1 }]}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>{part.name}</Text>
+                  <Text style={{ color: fits ? "#16a34a" : theme.mutedText, fontSize: 12 }} numberOfLines={1}>
+                    {part.compatibleModel ? `Fits ${part.compatibleModel}` : "No model listed"}
+                  </Text>
+                </View>
+                {usingPart === part.id
+                  ? <ActivityIndicator size="small" color={theme.text} />
+                  : <Text style={{ color: theme.text, fontWeight: "800" }}>{part.quantity} on hand</Text>}
+              </Pressable>
+            )}
+          />
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  card: { borderRadius: 16, borderWidth: 1, padding: 16 },
+  title: { fontSize: 18, fontWeight: "800" },
+  section: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginTop: 20, marginBottom: 8 },
+  chipRow: { flexDirection: "row", gap: 8, flexWrap: "wrap", marginBottom: 10 },
+  chip: { paddingHorizontal: 14, paddingVertical: 7, borderRadius: 999, borderWidth: 1 },
+  partRow: { flexDirection: "row", alignItems: "center", paddingVertical: 10, borderTopWidth: StyleSheet.hairlineWidth },
+  outlineBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", marginTop: 10, paddingVertical: 10, borderRadius: 999, borderWidth: 1 },
+  actionBtn: { marginTop: 12, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  actionText: { color: "#fff", fontWeight: "900" },
+  qtyRow: { flexDirection: "row", alignItems: "center", marginBottom: 12 },
+  qtyBtn: { width: 36, height: 36, borderRadius: 18, borderWidth: 1, alignItems: "center", justifyContent: "center" },
+  pickRow: { flexDirection: "row", alignItems: "center", paddingVertical: 12, borderTopWidth: StyleSheet.hairlineWidth },
+});
@@ -1,8 +1,7 @@
 // app/toners/[id].tsx
+import { Ionicons } from "@expo/vector-icons";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import {
-  addDoc,
-  collection,
   deleteDoc,
   doc,
   onSnapshot,
@@ -21,10 +20,15 @@ import {
   View,
 } from "react-native";
 
+import { ForecastCard } from "../../components/ForecastCard";
+import { LocationStockCard } from "../../components/LocationStockCard";
+import { MovementTimeline } from "../../components/MovementTimeline";
 import { Toast } from "../../components/Toast";
 import { useAppTheme } from "../../constants/theme";
 import { db } from "../../firebaseConfig";
 import { useToast } from "../../hooks/useToast";
+import { QUEUED_MESSAGE, submitStockMovement } from "../../utils/outbox";
+import { parseUnitCost } from "../../utils/printerCosts";
 
 const TONER_COLORS = ["Black", "Cyan", "Magenta", "Yellow", "Other"];
 
@@ -34,6 +38,8 @@ interface Toner {
   color: string;
   quantity: number;
   minQuantity: number;
+  leadTimeDays?: number;
+  unitCost?: number;
   printer?: string;
   barcode?: string;
   notes?: string;
@@ -43,7 +49,7 @@ interface Toner {
 export default function TonerDetail() {
   const theme = useAppTheme();
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, location } = useLocalSearchParams<{ id: string; location?: string }>();
   const { toast, fadeAnim, showToast, hideToast } = useToast();
 
   const [toner, setToner] = useState<Toner | null>(null);
@@ -54,10 +60,13 @@ export default function TonerDetail() {
   const [editBarcode, setEditBarcode] = useState("");
   const [editNotes, setEditNotes] = useState("");
   const [editMinQty, setEditMinQty] = useState("");
+  const [editUnitCost, setEditUnitCost] = useState("");
   const [savingMeta, setSavingMeta] = useState(false);
   const [savingMovement, setSavingMovement] = useState(false);
   const [customAmount, setCustomAmount] = useState("");
   const [pendingDelta, setPendingDelta] = useState<number | null>(null);
+  // Location stock adjustments apply to (preselected when arriving from a scan)
+  const [stockLocation, setStockLocation] = useState<string | null>(location ? String(location) : null);
   const [movementBy, setMovementBy] = useState("");
   const [movementNote, setMovementNote] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +85,8 @@ export default function TonerDetail() {
             color: d.color || "Black",
             quantity: d.quantity ?? 0,
             minQuantity: d.minQuantity ?? 0,
+            leadTimeDays: d.leadTimeDays ?? undefined,
+            unitCost: typeof d.unitCost === "number" ? d.unitCost : undefined,
             printer: d.printer || "",
             barcode: d.barcode || "",
             notes: d.notes || "",
@@ -87,6 +98,7 @@ export default function TonerDetail() {
           setEditBarcode(loaded.barcode || "");
           setEditNotes(loaded.notes || "");
           setEditMinQty(String(loaded.minQuantity));
+          setEditUnitCost(loaded.unitCost != null ? String(loaded.unitCost) : "");
         } else {
           setToner(null);
         }
@@ -122,40 +134,27 @@ export default function TonerDetail() {
       setError("Please enter who is taking / adding the item.");
       return;
     }
-    const note = movementNote.trim();
-    const delta = pendingDelta;
-    const newQty = Math.max(0, toner.quantity + delta);
-    const prevStatus = toner.quantity <= 0 ? "OUT" : toner.quantity <= toner.minQuantity ? "LOW" : "OK";
-    const nextStatus = newQty <= 0 ? "OUT" : newQty <= toner.minQuantity ? "LOW" : "OK";
     setSavingMovement(true);
     setError(null);
     try {
-      await updateDoc(doc(db, "toners", toner.id), {
-        quantity: newQty,
-        updatedAt: serverTimestamp(),
-      });
-      await addDoc(collection(db, "alertsLog"), {
-        siteId: toner.siteId,
-        itemName: toner.model,
-        itemId: toner.id,
-        qty: newQty,
-        min: toner.minQuantity,
-        prevState: prevStatus,
-        nextState: nextStatus,
-        status: nextStatus,
-        action: delta < 0 ? "deducted" : "added",
-        itemType: "toner",
-        by,
-        note: note || null,
-        source: "movement",
-        createdAt: serverTimestamp(),
-      });
-      showToast(delta < 0 ? `✓ Removed ${Math.abs(delta)}` : `✓ Added ${delta}`, "success");
+      const result = await submitStockMovement(
+        {
+          itemType: "toner",
+          itemId: toner.id,
+          delta: pendingDelta,
+          by,
+          note: movementNote.trim(),
+          location: stockLocation,
+        },
+        { label: `${pendingDelta > 0 ? "+" : ""}${pendingDelta} ${toner.model}`, siteId: toner.siteId }
+      );
+      if (!result) showToast(QUEUED_MESSAGE, "info");
+      else showToast(result.delta < 0 ? `✓ Removed ${Math.abs(result.delta)}` : `✓ Added ${result.delta}`, "success");
       setPendingDelta(null);
       setMovementBy("");
       setMovementNote("");
-    } catch {
-      showToast("Failed to update quantity", "error");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to update quantity", "error");
     } finally {
       setSavingMovement(false);
     }
@@ -171,6 +170,7 @@ export default function TonerDetail() {
         barcode: editBarcode.trim(),
         notes: editNotes.trim(),
         minQuantity: parseInt(editMinQty) || 0,
+        unitCost: parseUnitCost(editUnitCost),
         updatedAt: serverTimestamp(),
       });
       showToast("✓ Changes saved", "success");
@@ -211,6 +211,11 @@ export default function TonerDetail() {
           headerStyle: { backgroundColor: theme.background },
           headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
           headerTintColor: theme.text,
+          headerRight: () => (
+            <Pressable onPress={() => router.push({ pathname: "/labels" as any, params: { entity: "toners", id } })} hitSlop={8}>
+              <Ionicons name="pricetag-outline" size={20} color={theme.text} />
+            </Pressable>
+          ),
         }}
       />
 
@@ -321,6 +326,14 @@ export default function TonerDetail() {
               </View>
             </View>
 
+            <LocationStockCard
+              itemType="toner"
+              itemId={toner.id}
+              selected={stockLocation}
+              onSelect={setStockLocation}
+              onTransferred={(message) => showToast(message, "success")}
+            />
+
             {/* Details card */}
             <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
               <Text style={[styles.sectionTitle, { color: theme.text }]}>Details</Text>
@@ -375,6 +388,16 @@ export default function TonerDetail() {
                 onChangeText={setEditMinQty}
               />
 
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>Unit Cost ($)</Text>
+              <TextInput
+                style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+                keyboardType="decimal-pad"
+                placeholder="e.g. 89.99 (used for cost per page)"
+                placeholderTextColor={theme.mutedText}
+                value={editUnitCost}
+                onChangeText={setEditUnitCost}
+              />
+
               <Text style={[styles.fieldLabel, { color: theme.text }]}>Notes</Text>
               <TextInput
                 style={[styles.input, { height: 90, textAlignVertical: "top", borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
@@ -404,6 +427,17 @@ export default function TonerDetail() {
                 <Text style={styles.deleteButtonText}>Delete toner</Text>
               </Pressable>
             </View>
+
+            <ForecastCard
+              itemType="toner"
+              itemId={toner.id}
+              siteId={toner.siteId}
+              currentQuantity={toner.quantity}
+              minQuantity={toner.minQuantity}
+              leadTimeDays={toner.leadTimeDays}
+            />
+
+            <MovementTimeline itemType="toner" itemId={toner.id} />
           </>
         )}
       </ScrollView>
@@ -417,6 +451,7 @@ export default function TonerDetail() {
             </Text>
             <Text style={[styles.overlaySub, { color: theme.mutedText }]}>
               Current: {toner.quantity} • Change: {pendingDelta > 0 ? `+${pendingDelta}` : pendingDelta}
+              {stockLocation ? ` • ${stockLocation}` : ""}
             </Text>
 
             <Text style={[styles.fieldLabel, { color: theme.text }]}>Who is taking / adding it?</Text>
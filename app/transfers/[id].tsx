@@ -0,0 +1,259 @@
+// app/transfers/[id].tsx — Inter-site transfer detail: ship, receive, cancel
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { doc, onSnapshot } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { Toast } from "../../components/Toast";
+import { useAppTheme } from "../../constants/theme";
+import { auth, db } from "../../firebaseConfig";
+import { useToast } from "../../hooks/useToast";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { SiteTransfer } from "../../types/inventory";
+import {
+  cancelSiteTransfer,
+  receiveSiteTransfer,
+  shipSiteTransfer,
+  siteLabel,
+  TRANSFER_STATUS_COLORS,
+  TRANSFER_STATUS_LABELS,
+} from "../../utils/siteTransfers";
+
+const ITEM_ROUTES: Record<SiteTransfer["itemType"], string> = {
+  inventory: "/item/",
+  toner: "/toners/",
+  radioPart: "/radiopart/",
+  cardSupply: "/cardsupply/",
+};
+
+const formatDateTime = (ts: any) =>
+  ts?.toDate
+    ? ts.toDate().toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+    : "";
+
+export default function SiteTransferDetail() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { siteId, profile } = useUserProfile();
+  const { toast, fadeAnim, showToast, hideToast } = useToast();
+
+  const [transfer, setTransfer] = useState<SiteTransfer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    const unsub = onSnapshot(
+      doc(db, "siteTransfers", String(id)),
+      (snap) => {
+        setTransfer(snap.exists() ? ({ id: snap.id, ...snap.data() } as SiteTransfer) : null);
+        setLoading(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading transfer:", err);
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [id]);
+
+  const userName = () => {
+    const user = auth.currentUser;
+    return profile?.name || user?.displayName || user?.email || "Unknown";
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      showToast(success, "success");
+    } catch (err: any) {
+      showToast(err?.message || "Failed to update transfer", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.center, { flex: 1, backgroundColor: theme.background }]}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!transfer) {
+    return (
+      <View style={[styles.center, { flex: 1, backgroundColor: theme.background }]}>
+        <Text style={{ color: "#f87171", fontWeight: "800" }}>Transfer not found.</Text>
+      </View>
+    );
+  }
+
+  const isSource = transfer.fromSiteId === siteId;
+  const isDestination = transfer.toSiteId === siteId;
+  const myItemId = isSource ? transfer.sourceItemId : isDestination ? transfer.destItemId : null;
+  const statusColor = TRANSFER_STATUS_COLORS[transfer.status];
+
+  const handleShip = () =>
+    Alert.alert("Ship Transfer", `Take ${transfer.qty} × ${transfer.item.name} out of stock and ship to ${siteLabel(transfer.toSiteId)}?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Ship", onPress: () => run(() => shipSiteTransfer(transfer.id, userName()), "✓ Marked as shipped") },
+    ]);
+
+  const handleReceive = () =>
+    run(() => receiveSiteTransfer(transfer.id, userName()), `✓ Received ${transfer.qty} × ${transfer.item.name}`);
+
+  const handleCancel = () =>
+    Alert.alert("Cancel Transfer", "Cancel this transfer request?", [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Cancel transfer",
+        style: "destructive",
+        onPress: () => run(() => cancelSiteTransfer(transfer.id, userName()), "Transfer cancelled"),
+      },
+    ]);
+
+  const steps = [
+    { label: "Requested", by: transfer.requestedBy, at: transfer.requestedAt },
+    { label: "Shipped", by: transfer.shippedBy, at: transfer.shippedAt },
+    { label: "Received", by: transfer.receivedBy, at: transfer.receivedAt },
+    ...(transfer.status === "cancelled" ? [{ label: "Cancelled", by: transfer.cancelledBy, at: transfer.cancelledAt }] : []),
+  ];
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Transfer",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={[styles.container, { backgroundColor: theme.background }]}>
+        {/* Header card */}
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+            <Text style={[styles.name, { color: theme.text, flex: 1 }]}>
+              {transfer.qty} × {transfer.item.name}
+            </Text>
+            <View style={[styles.statusPill, { backgroundColor: statusColor + "20" }]}>
+              <Text style={{ color: statusColor, fontSize: 12, fontWeight: "800" }}>{TRANSFER_STATUS_LABELS[transfer.status]}</Text>
+            </View>
+          </View>
+          <View style={styles.routeRow}>
+            <Text style={[styles.siteText, { color: theme.text }]}>{siteLabel(transfer.fromSiteId)}</Text>
+            <Ionicons name="arrow-forward" size={16} color={theme.mutedText} />
+            <Text style={[styles.siteText, { color: theme.text }]}>{siteLabel(transfer.toSiteId)}</Text>
+          </View>
+          {transfer.item.barcode ? (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: theme.mutedText }]}>Barcode</Text>
+              <Text style={[styles.value, { color: theme.text }]}>{transfer.item.barcode}</Text>
+            </View>
+          ) : null}
+          {transfer.item.partNumber ? (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: theme.mutedText }]}>Part number</Text>
+              <Text style={[styles.value, { color: theme.text }]}>{transfer.item.partNumber}</Text>
+            </View>
+          ) : null}
+          {transfer.note ? <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 8 }}>{transfer.note}</Text> : null}
+          {myItemId ? (
+            <Pressable onPress={() => router.push(`${ITEM_ROUTES[transfer.itemType]}${myItemId}` as any)} style={{ marginTop: 10 }}>
+              <Text style={{ color: theme.primary, fontWeight: "800" }}>Open this site&apos;s record</Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {/* Timeline card */}
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>History</Text>
+          {steps.map((step) => {
+            const done = !!step.at;
+            return (
+              <View key={step.label} style={styles.stepRow}>
+                <Ionicons
+                  name={done ? "checkmark-circle" : "ellipse-outline"}
+                  size={18}
+                  color={done ? (step.label === "Cancelled" ? "#6b7280" : "#22c55e") : theme.mutedText}
+                />
+                <View style={{ flex: 1, marginLeft: 8 }}>
+                  <Text style={{ color: done ? theme.text : theme.mutedText, fontWeight: "700" }}>{step.label}</Text>
+                  {done ? (
+                    <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                      {step.by} • {formatDateTime(step.at)}
+                    </Text>
+                  ) : null}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Actions */}
+        {transfer.status === "requested" && isSource && (
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: theme.primary }, busy && { opacity: 0.6 }]}
+            onPress={handleShip}
+            disabled={busy}
+          >
+            {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Mark as shipped</Text>}
+          </Pressable>
+        )}
+        {transfer.status === "requested" && isDestination && (
+          <Text style={{ color: theme.mutedText, fontSize: 13, textAlign: "center", marginBottom: 8 }}>
+            Waiting for {siteLabel(transfer.fromSiteId)} to ship.
+          </Text>
+        )}
+        {transfer.status === "shipped" && isDestination && (
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: theme.primary }, busy && { opacity: 0.6 }]}
+            onPress={handleReceive}
+            disabled={busy}
+          >
+            {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Receive into stock</Text>}
+          </Pressable>
+        )}
+        {transfer.status === "requested" && (isSource || isDestination) && (
+          <Pressable style={[styles.outlineButton, { borderColor: "#ef4444" }]} onPress={handleCancel} disabled={busy}>
+            <Text style={[styles.outlineButtonText, { color: "#ef4444" }]}>Cancel transfer</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+
+      <Toast toast={toast} fadeAnim={fadeAnim} onDismiss={hideToast} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, flexGrow: 1 },
+  center: { marginTop: 40, alignItems: "center" },
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  name: { fontSize: 20, fontWeight: "900" },
+  sectionTitle: { fontSize: 16, fontWeight: "800", marginBottom: 4 },
+  routeRow: { flexDirection: "row", alignItems: "center", gap: 8, marginTop: 10, marginBottom: 4 },
+  siteText: { fontSize: 15, fontWeight: "800" },
+  row: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", paddingVertical: 6 },
+  label: { fontSize: 14 },
+  value: { fontSize: 14, fontWeight: "700" },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 999, marginLeft: 8 },
+  stepRow: { flexDirection: "row", alignItems: "flex-start", marginTop: 10 },
+  primaryButton: { marginTop: 4, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  primaryButtonText: { color: "#fff", fontWeight: "900" },
+  outlineButton: { marginTop: 10, paddingVertical: 11, borderRadius: 999, alignItems: "center", borderWidth: 1 },
+  outlineButtonText: { fontWeight: "800" },
+});
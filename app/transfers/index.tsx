@@ -0,0 +1,170 @@
+// app/transfers/index.tsx — Inter-site transfers for my site (incoming and outgoing)
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import { collection, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../../constants/theme";
+import { db } from "../../firebaseConfig";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { SiteTransfer } from "../../types/inventory";
+import { siteLabel, TRANSFER_STATUS_COLORS, TRANSFER_STATUS_LABELS } from "../../utils/siteTransfers";
+
+type DirectionFilter = "incoming" | "outgoing" | "all";
+
+const DIRECTION_FILTERS: { label: string; value: DirectionFilter }[] = [
+  { label: "Incoming", value: "incoming" },
+  { label: "Outgoing", value: "outgoing" },
+  { label: "All", value: "all" },
+];
+
+export default function SiteTransferList() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { siteId } = useUserProfile();
+
+  const [outgoing, setOutgoing] = useState<SiteTransfer[]>([]);
+  const [incoming, setIncoming] = useState<SiteTransfer[]>([]);
+  const [loaded, setLoaded] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<DirectionFilter>("incoming");
+
+  useEffect(() => {
+    if (!siteId) return;
+    const listen = (field: "fromSiteId" | "toSiteId", set: (t: SiteTransfer[]) => void) =>
+      onSnapshot(
+        query(collection(db, "siteTransfers"), where(field, "==", siteId), orderBy("requestedAt", "desc")),
+        (snap) => {
+          set(snap.docs.map((d) => ({ id: d.id, ...d.data() } as SiteTransfer)));
+          setLoaded((prev) => new Set(prev).add(field));
+        },
+        (err) => {
+          if (__DEV__) console.error(`Error loading transfers (${field}):`, err);
+          setLoaded((prev) => new Set(prev).add(field));
+        }
+      );
+    const unsubOut = listen("fromSiteId", setOutgoing);
+    const unsubIn = listen("toSiteId", setIncoming);
+    return () => {
+      unsubOut();
+      unsubIn();
+    };
+  }, [siteId]);
+
+  const visible = useMemo(() => {
+    const list = filter === "incoming" ? incoming : filter === "outgoing" ? outgoing : [...incoming, ...outgoing];
+    return [...list].sort(
+      (a, b) => (b.requestedAt?.toMillis?.() ?? Date.now()) - (a.requestedAt?.toMillis?.() ?? Date.now())
+    );
+  }, [filter, incoming, outgoing]);
+
+  // Transfers waiting on my site: incoming shipments to receive, outgoing requests to ship
+  const actionCount = (dir: DirectionFilter) =>
+    dir === "incoming"
+      ? incoming.filter((t) => t.status === "shipped").length
+      : dir === "outgoing"
+      ? outgoing.filter((t) => t.status === "requested").length
+      : 0;
+
+  const loading = loaded.size < 2;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "Site Transfers",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <View style={styles.filterRow}>
+          {DIRECTION_FILTERS.map((f) => {
+            const active = filter === f.value;
+            const count = actionCount(f.value);
+            return (
+              <Pressable
+                key={f.value}
+                onPress={() => setFilter(f.value)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: active ? theme.primary : "transparent", borderColor: active ? theme.primary : theme.border },
+                ]}
+              >
+                <Text style={{ color: active ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>
+                  {f.label}
+                  {count > 0 ? ` (${count})` : ""}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator />
+          </View>
+        ) : visible.length === 0 ? (
+          <View style={styles.center}>
+            <Ionicons name="swap-horizontal" size={40} color={theme.mutedText} />
+            <Text style={{ color: theme.mutedText, marginTop: 8, textAlign: "center" }}>
+              No transfers yet. Start one from an item, toner or radio part screen.
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={visible}
+            keyExtractor={(t) => t.id}
+            contentContainerStyle={{ padding: 16, paddingBottom: 60 }}
+            renderItem={({ item }) => {
+              const color = TRANSFER_STATUS_COLORS[item.status] ?? "#6b7280";
+              const isIncoming = item.toSiteId === siteId;
+              return (
+                <Pressable
+                  onPress={() => router.push(`/transfers/${item.id}`)}
+                  style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border, borderLeftColor: color }]}
+                >
+                  <Ionicons
+                    name={isIncoming ? "arrow-down-circle-outline" : "arrow-up-circle-outline"}
+                    size={22}
+                    color={theme.mutedText}
+                    style={{ marginRight: 10 }}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.itemName, { color: theme.text }]} numberOfLines={1}>
+                      {item.qty} × {item.item?.name ?? "Unknown"}
+                    </Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>
+                      {isIncoming ? `From ${siteLabel(item.fromSiteId)}` : `To ${siteLabel(item.toSiteId)}`} • {item.requestedBy}
+                    </Text>
+                  </View>
+                  <View style={[styles.statusPill, { backgroundColor: color + "20" }]}>
+                    <Text style={{ color, fontSize: 11, fontWeight: "800" }}>{TRANSFER_STATUS_LABELS[item.status]}</Text>
+                  </View>
+                </Pressable>
+              );
+            }}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { marginTop: 40, alignItems: "center", paddingHorizontal: 24 },
+  filterRow: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: { paddingVertical: 6, paddingHorizontal: 14, borderRadius: 999, borderWidth: 1 },
+  card: { flexDirection: "row", alignItems: "center", borderRadius: 16, padding: 14, marginBottom: 10, borderWidth: 1, borderLeftWidth: 3 },
+  itemName: { fontSize: 15, fontWeight: "800" },
+  statusPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 },
+});
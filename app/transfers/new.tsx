@@ -0,0 +1,192 @@
+// app/transfers/new.tsx — Send stock to, or request it from, another site
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { getDoc } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { Toast } from "../../components/Toast";
+import { useAppTheme } from "../../constants/theme";
+import { auth } from "../../firebaseConfig";
+import { SITES } from "../../hooks/useSiteContext";
+import { useToast } from "../../hooks/useToast";
+import { useUserProfile } from "../../hooks/useUserProfile";
+import { createSiteTransfer } from "../../utils/siteTransfers";
+import { STOCK_SOURCES, StockItemType, stockDocRef } from "../../utils/stockMovements";
+
+type Direction = "send" | "request";
+
+export default function NewSiteTransfer() {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { itemType, itemId } = useLocalSearchParams<{ itemType: StockItemType; itemId: string }>();
+  const { siteId, profile } = useUserProfile();
+  const { toast, fadeAnim, showToast, hideToast } = useToast();
+
+  const [itemName, setItemName] = useState<string | null>(null);
+  const [onHand, setOnHand] = useState(0);
+  const [direction, setDirection] = useState<Direction>("send");
+  const [otherSiteId, setOtherSiteId] = useState<string | null>(null);
+  const [qty, setQty] = useState("1");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!itemType || !itemId || !STOCK_SOURCES[itemType]) return;
+    getDoc(stockDocRef(itemType, String(itemId)))
+      .then((snap) => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        setItemName(STOCK_SOURCES[itemType].getName(data));
+        setOnHand(Number(data[STOCK_SOURCES[itemType].qtyField] ?? 0));
+      })
+      .catch((err) => {
+        if (__DEV__) console.error("Error loading item for transfer:", err);
+      });
+  }, [itemType, itemId]);
+
+  const otherSites = SITES.filter((s) => s.id !== siteId);
+
+  const handleCreate = async () => {
+    if (!siteId || !itemType || !itemId) return;
+    if (!otherSiteId) {
+      showToast("Choose a site", "error");
+      return;
+    }
+    setSaving(true);
+    try {
+      const user = auth.currentUser;
+      const transferId = await createSiteTransfer({
+        direction,
+        itemType,
+        itemId: String(itemId),
+        mySiteId: siteId,
+        otherSiteId,
+        qty: parseInt(qty) || 0,
+        note,
+        by: profile?.name || user?.displayName || user?.email || "Unknown",
+      });
+      router.replace(`/transfers/${transferId}`);
+    } catch (err: any) {
+      showToast(err?.message || "Failed to create transfer", "error");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: "New Transfer",
+          headerStyle: { backgroundColor: theme.background },
+          headerTitleStyle: { color: theme.text, fontWeight: "700", fontSize: 18 },
+          headerTintColor: theme.text,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {itemName === null ? (
+            <ActivityIndicator />
+          ) : (
+            <>
+              <Text style={[styles.name, { color: theme.text }]}>{itemName}</Text>
+              <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }}>{onHand} on hand at this site</Text>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Direction</Text>
+          <View style={styles.chipRow}>
+            {([
+              { value: "send", label: "Send to another site" },
+              { value: "request", label: "Request from another site" },
+            ] as const).map((d) => {
+              const active = direction === d.value;
+              return (
+                <Pressable
+                  key={d.value}
+                  onPress={() => setDirection(d.value)}
+                  style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : "transparent" }]}
+                >
+                  <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{d.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>{direction === "send" ? "To site" : "From site"}</Text>
+          <View style={styles.chipRow}>
+            {otherSites.map((s) => {
+              const active = otherSiteId === s.id;
+              return (
+                <Pressable
+                  key={s.id}
+                  onPress={() => setOtherSiteId(s.id)}
+                  style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : "transparent" }]}
+                >
+                  <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{s.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Quantity</Text>
+          <TextInput
+            style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+            keyboardType="number-pad"
+            value={qty}
+            onChangeText={(v) => setQty(v.replace(/[^0-9]/g, ""))}
+            editable={!saving}
+          />
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Note (optional)</Text>
+          <TextInput
+            style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+            placeholder="e.g. Loan until our order arrives"
+            placeholderTextColor={theme.mutedText}
+            value={note}
+            onChangeText={setNote}
+            editable={!saving}
+          />
+
+          <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 10 }}>
+            {direction === "send"
+              ? "Stock leaves this site when you mark the transfer shipped."
+              : "The other site ships it from their matching record (by barcode or part number)."}
+          </Text>
+        </View>
+
+        <Pressable
+          style={[styles.primaryButton, { backgroundColor: theme.primary }, saving && { opacity: 0.6 }]}
+          onPress={handleCreate}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Create transfer</Text>}
+        </Pressable>
+      </ScrollView>
+
+      <Toast toast={toast} fadeAnim={fadeAnim} onDismiss={hideToast} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16, flexGrow: 1 },
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  name: { fontSize: 20, fontWeight: "900" },
+  fieldLabel: { fontSize: 12, fontWeight: "700", marginTop: 12, marginBottom: 6 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 10, paddingVertical: 8, fontSize: 14 },
+  primaryButton: { marginTop: 4, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  primaryButtonText: { color: "#fff", fontWeight: "900" },
+});
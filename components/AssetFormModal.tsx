@@ -0,0 +1,213 @@
+// components/AssetFormModal.tsx
+// Add / edit form for the asset register (utils/assets.ts). Dates are typed
+// as YYYY-MM-DD like the rest of the app; cost uses the same parsing as a
+// toner's unit cost.
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { Asset, AssetCategory } from "../types/inventory";
+import { ASSET_CATEGORIES, AssetFields, parseDay } from "../utils/assets";
+import { parseUnitCost } from "../utils/printerCosts";
+
+const EMPTY_FORM = {
+  name: "",
+  category: "computer" as AssetCategory,
+  assetTag: "",
+  serial: "",
+  manufacturer: "",
+  model: "",
+  purchaseDate: "",
+  cost: "",
+  vendor: "",
+  warrantyEnd: "",
+  assignedTo: "",
+  location: "",
+  notes: "",
+};
+
+type FormKey = Exclude<keyof typeof EMPTY_FORM, "category">;
+
+const FIELDS: { key: FormKey; label: string; placeholder?: string; keyboardType?: "decimal-pad"; half?: boolean }[] = [
+  { key: "name", label: "Name *", placeholder: "e.g. Front desk PC" },
+  { key: "assetTag", label: "Asset Tag", half: true },
+  { key: "serial", label: "Serial", half: true },
+  { key: "manufacturer", label: "Manufacturer", placeholder: "e.g. Dell", half: true },
+  { key: "model", label: "Model", placeholder: "e.g. OptiPlex 7010", half: true },
+  { key: "purchaseDate", label: "Purchase Date", placeholder: "YYYY-MM-DD", half: true },
+  { key: "cost", label: "Cost ($)", placeholder: "e.g. 899.00", keyboardType: "decimal-pad", half: true },
+  { key: "vendor", label: "Vendor", placeholder: "e.g. CDW", half: true },
+  { key: "warrantyEnd", label: "Warranty End", placeholder: "YYYY-MM-DD", half: true },
+  { key: "assignedTo", label: "Assigned To", placeholder: "User", half: true },
+  { key: "location", label: "Location", half: true },
+];
+
+export function AssetFormModal({
+  visible,
+  asset,
+  onSave,
+  onClose,
+}: {
+  visible: boolean;
+  asset?: Asset | null;
+  onSave: (fields: AssetFields) => Promise<void>;
+  onClose: () => void;
+}) {
+  const theme = useAppTheme();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setForm(asset ? {
+      name: asset.name,
+      category: asset.category,
+      assetTag: asset.assetTag ?? "",
+      serial: asset.serial ?? "",
+      manufacturer: asset.manufacturer ?? "",
+      model: asset.model ?? "",
+      purchaseDate: asset.purchaseDate ?? "",
+      cost: typeof asset.cost === "number" ? asset.cost.toFixed(2) : "",
+      vendor: asset.vendor ?? "",
+      warrantyEnd: asset.warrantyEnd ?? "",
+      assignedTo: asset.assignedTo ?? "",
+      location: asset.location ?? "",
+      notes: asset.notes ?? "",
+    } : EMPTY_FORM);
+  }, [visible, asset]);
+
+  const save = async () => {
+    const name = form.name.trim();
+    if (!name) { Alert.alert("Error", "Name is required."); return; }
+    for (const key of ["purchaseDate", "warrantyEnd"] as const) {
+      if (form[key].trim() && !parseDay(form[key])) {
+        Alert.alert("Invalid Date", `Enter the ${key === "purchaseDate" ? "purchase date" : "warranty end"} as YYYY-MM-DD.`);
+        return;
+      }
+    }
+    const cost = parseUnitCost(form.cost);
+    if (form.cost.trim() && cost == null) { Alert.alert("Invalid Cost", "Enter the cost as a number, e.g. 899.00."); return; }
+
+    const text = (key: FormKey) => form[key].trim() || undefined;
+    setSaving(true);
+    try {
+      await onSave({
+        name,
+        category: form.category,
+        assetTag: text("assetTag"),
+        serial: text("serial"),
+        manufacturer: text("manufacturer"),
+        model: text("model"),
+        purchaseDate: text("purchaseDate"),
+        cost: cost ?? undefined,
+        vendor: text("vendor"),
+        warrantyEnd: text("warrantyEnd"),
+        assignedTo: text("assignedTo"),
+        location: text("location"),
+        notes: text("notes"),
+      });
+    } catch (err: any) {
+      Alert.alert("Error", err?.message || "Failed to save asset.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const input = (key: FormKey, props: { placeholder?: string; keyboardType?: "decimal-pad" }) => (
+    <TextInput
+      style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+      placeholderTextColor={theme.mutedText}
+      autoCapitalize={key === "purchaseDate" || key === "warrantyEnd" ? "none" : "sentences"}
+      value={form[key]}
+      onChangeText={(v) => setForm((p) => ({ ...p, [key]: v }))}
+      {...props}
+    />
+  );
+
+  const rows: (typeof FIELDS)[] = [];
+  FIELDS.forEach((f) => {
+    const last = rows[rows.length - 1];
+    if (f.half && last?.length === 1 && last[0].half) last.push(f);
+    else rows.push([f]);
+  });
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => { if (!saving) onClose(); }}>
+      <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: theme.text }]}>{asset ? "Edit Asset" : "Add Asset"}</Text>
+          <Pressable onPress={() => { if (!saving) onClose(); }}>
+            <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
+          </Pressable>
+        </View>
+        <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Category</Text>
+          <View style={styles.chipRow}>
+            {ASSET_CATEGORIES.map((c) => {
+              const active = form.category === c.value;
+              return (
+                <Pressable
+                  key={c.value}
+                  onPress={() => setForm((p) => ({ ...p, category: c.value }))}
+                  style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+                >
+                  <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{c.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {rows.map((row) => (
+            <View key={row[0].key} style={{ flexDirection: "row", gap: 12 }}>
+              {row.map((f) => (
+                <View key={f.key} style={{ flex: 1 }}>
+                  <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>{f.label}</Text>
+                  {input(f.key, { placeholder: f.placeholder, keyboardType: f.keyboardType })}
+                </View>
+              ))}
+            </View>
+          ))}
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
+          <TextInput
+            style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 80, textAlignVertical: "top" }]}
+            placeholderTextColor={theme.mutedText}
+            multiline
+            value={form.notes}
+            onChangeText={(v) => setForm((p) => ({ ...p, notes: v }))}
+          />
+
+          <Pressable
+            style={[styles.saveBtn, { backgroundColor: theme.primary, opacity: saving ? 0.6 : 1 }]}
+            onPress={save}
+            disabled={saving}
+          >
+            {saving ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.saveBtnText}>{asset ? "Save Changes" : "Add Asset"}</Text>}
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: { flex: 1, padding: 20 },
+  modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 8 },
+  modalTitle: { fontSize: 20, fontWeight: "800" },
+  fieldLabel: { fontSize: 13, fontWeight: "600", marginBottom: 6, marginTop: 14 },
+  fieldInput: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, fontSize: 14 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 999, borderWidth: 1 },
+  saveBtn: { marginTop: 24, borderRadius: 12, paddingVertical: 14, alignItems: "center", marginBottom: 20 },
+  saveBtnText: { color: "#ffffff", fontSize: 16, fontWeight: "800" },
+});
@@ -0,0 +1,122 @@
+// components/CatalogPickerModal.tsx
+// Picks a global catalog entry (utils/modelCatalog.ts) for a site printer or
+// toner. "No catalog link" clears the link.
+import React, { useEffect, useMemo, useState } from "react";
+import { FlatList, Modal, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { CatalogConsumable, CatalogPrinterModel } from "../types/inventory";
+import {
+  CatalogKind,
+  catalogConsumableName,
+  catalogModelName,
+  matchesCatalogSearch,
+  subscribeCatalogConsumables,
+  subscribeCatalogPrinterModels,
+} from "../utils/modelCatalog";
+import { formatCost } from "../utils/printerCosts";
+
+type Entry = CatalogPrinterModel | CatalogConsumable;
+
+export function CatalogPickerModal({
+  visible,
+  kind,
+  selectedId,
+  onPick,
+  onClose,
+}: {
+  visible: boolean;
+  kind: CatalogKind;
+  selectedId?: string;
+  onPick: (entry: Entry | null) => void;
+  onClose: () => void;
+}) {
+  const theme = useAppTheme();
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setSearch("");
+    return kind === "printerModels" ? subscribeCatalogPrinterModels(setEntries) : subscribeCatalogConsumables(setEntries);
+  }, [visible, kind]);
+
+  const filtered = useMemo(() => entries.filter((e) => matchesCatalogSearch(e, search)), [entries, search]);
+
+  const describe = (entry: Entry) => {
+    if ("partNumber" in entry) {
+      return {
+        title: catalogConsumableName(entry),
+        sub: [
+          entry.color,
+          entry.yieldPages ? `${entry.yieldPages.toLocaleString()} pages` : null,
+          typeof entry.typicalPrice === "number" ? formatCost(entry.typicalPrice) : null,
+        ].filter(Boolean).join(" · "),
+      };
+    }
+    return {
+      title: catalogModelName(entry),
+      sub: [entry.color ? "Color" : "Mono", entry.aliases?.length ? `Also: ${entry.aliases.join(", ")}` : null].filter(Boolean).join(" · "),
+    };
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: theme.background }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.text }]}>
+              {kind === "printerModels" ? "Catalog Printer Model" : "Catalog Consumable"}
+            </Text>
+            <Pressable onPress={onClose}>
+              <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Close</Text>
+            </Pressable>
+          </View>
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search name, part number or alias…"
+            placeholderTextColor={theme.mutedText}
+            style={[styles.input, { color: theme.text, borderColor: theme.border, backgroundColor: theme.card }]}
+          />
+          <FlatList
+            data={filtered}
+            keyExtractor={(e) => e.id}
+            keyboardShouldPersistTaps="handled"
+            ListHeaderComponent={
+              selectedId ? (
+                <Pressable onPress={() => onPick(null)} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <Text style={{ color: "#ef4444", fontWeight: "700" }}>No catalog link</Text>
+                </Pressable>
+              ) : null
+            }
+            ListEmptyComponent={
+              <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 16 }}>
+                {entries.length ? "No matches." : "The catalog is empty. Admins add entries under Admin → Model Catalog."}
+              </Text>
+            }
+            renderItem={({ item }) => {
+              const { title, sub } = describe(item);
+              const active = item.id === selectedId;
+              return (
+                <Pressable onPress={() => onPick(item)} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <Text style={{ color: active ? theme.primary : theme.text, fontWeight: "800" }} numberOfLines={1}>{title}</Text>
+                  {!!sub && <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }} numberOfLines={1}>{sub}</Text>}
+                </Pressable>
+              );
+            }}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: "rgba(0,0,0,0.5)", justifyContent: "flex-end" },
+  sheet: { maxHeight: "80%", minHeight: "50%", borderTopLeftRadius: 20, borderTopRightRadius: 20, padding: 20 },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 },
+  title: { fontSize: 18, fontWeight: "800" },
+  input: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14, marginBottom: 8 },
+  row: { paddingVertical: 12, borderBottomWidth: 1 },
+});
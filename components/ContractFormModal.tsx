@@ -0,0 +1,305 @@
+// components/ContractFormModal.tsx
+// Add / edit form for a service contract or warranty (utils/contracts.ts).
+// The vendor and the record it covers are picked from the site's Directory
+// vendors, asset register, printers and PM devices.
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { Contract, ContractKind, ContractTargetType } from "../types/inventory";
+import { parseDay } from "../utils/assets";
+import {
+  CONTRACT_KIND_LABELS,
+  CONTRACT_TARGET_LABELS,
+  ContractFields,
+  ContractOption,
+  loadContractOptions,
+} from "../utils/contracts";
+import { parseUnitCost } from "../utils/printerCosts";
+
+const KINDS: ContractKind[] = ["service", "warranty"];
+const TARGET_TYPES: ContractTargetType[] = ["asset", "printer", "pmDevice"];
+const OPTIONS_SHOWN = 8;
+
+type Linked = { id: string; name: string } | null;
+
+const EMPTY_FORM = {
+  kind: "service" as ContractKind,
+  title: "",
+  reference: "",
+  startDate: "",
+  endDate: "",
+  cost: "",
+  notes: "",
+};
+
+type TextKey = Exclude<keyof typeof EMPTY_FORM, "kind">;
+
+export function ContractFormModal({
+  visible,
+  siteId,
+  contract,
+  preset,
+  onSave,
+  onDelete,
+  onClose,
+}: {
+  visible: boolean;
+  siteId: string | null;
+  contract?: Contract | null;
+  // New contracts opened from a vendor or a covered record start linked to it
+  preset?: Partial<Pick<Contract, "kind" | "vendorId" | "vendorName" | "targetType" | "targetId" | "targetName">>;
+  onSave: (fields: ContractFields) => Promise<void>;
+  onDelete?: () => void;
+  onClose: () => void;
+}) {
+  const theme = useAppTheme();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [vendor, setVendor] = useState<Linked>(null);
+  const [targetType, setTargetType] = useState<ContractTargetType | null>(null);
+  const [target, setTarget] = useState<Linked>(null);
+  const [picking, setPicking] = useState<"vendor" | "target" | null>(null);
+  const [options, setOptions] = useState<ContractOption[]>([]);
+  const [optionsLoading, setOptionsLoading] = useState(false);
+  const [optionSearch, setOptionSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const source = contract ?? preset ?? {};
+    setForm(contract ? {
+      kind: contract.kind,
+      title: contract.title,
+      reference: contract.reference ?? "",
+      startDate: contract.startDate ?? "",
+      endDate: contract.endDate,
+      cost: typeof contract.cost === "number" ? contract.cost.toFixed(2) : "",
+      notes: contract.notes ?? "",
+    } : { ...EMPTY_FORM, kind: preset?.kind ?? EMPTY_FORM.kind });
+    setVendor(source.vendorId ? { id: source.vendorId, name: source.vendorName ?? "" } : null);
+    setTargetType(source.targetType ?? null);
+    setTarget(source.targetType && source.targetId ? { id: source.targetId, name: source.targetName ?? "" } : null);
+    setPicking(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, contract]);
+
+  // Options for the open picker, loaded once per pick
+  useEffect(() => {
+    if (!picking || !siteId) return;
+    const source = picking === "vendor" ? "vendor" : targetType;
+    if (!source) return;
+    let alive = true;
+    setOptions([]);
+    setOptionSearch("");
+    setOptionsLoading(true);
+    loadContractOptions(siteId, source)
+      .then((list) => { if (alive) setOptions(list); })
+      .catch((err) => { if (__DEV__) console.error("Error loading contract options:", err); })
+      .finally(() => { if (alive) setOptionsLoading(false); });
+    return () => { alive = false; };
+  }, [picking, targetType, siteId]);
+
+  const matches = useMemo(() => {
+    const q = optionSearch.trim().toLowerCase();
+    return (q ? options.filter((o) => o.name.toLowerCase().includes(q)) : options).slice(0, OPTIONS_SHOWN);
+  }, [options, optionSearch]);
+
+  const pickOption = (option: ContractOption | null) => {
+    if (picking === "vendor") setVendor(option);
+    else setTarget(option);
+    setPicking(null);
+  };
+
+  const save = async () => {
+    const title = form.title.trim();
+    if (!title) { Alert.alert("Error", "Title is required."); return; }
+    if (!parseDay(form.endDate)) { Alert.alert("Invalid Date", "Enter the end date as YYYY-MM-DD."); return; }
+    if (form.startDate.trim() && !parseDay(form.startDate)) { Alert.alert("Invalid Date", "Enter the start date as YYYY-MM-DD."); return; }
+    const cost = parseUnitCost(form.cost);
+    if (form.cost.trim() && cost == null) { Alert.alert("Invalid Cost", "Enter the cost as a number, e.g. 1200.00."); return; }
+
+    const text = (key: TextKey) => form[key].trim() || undefined;
+    setSaving(true);
+    try {
+      await onSave({
+        kind: form.kind,
+        title,
+        vendorId: vendor?.id,
+        vendorName: vendor?.name,
+        targetType: target ? targetType ?? undefined : undefined,
+        targetId: target?.id,
+        targetName: target?.name,
+        reference: text("reference"),
+        startDate: text("startDate"),
+        endDate: form.endDate.trim(),
+        cost: cost ?? undefined,
+        notes: text("notes"),
+      });
+    } catch (err: any) {
+      Alert.alert("Error", err?.message || "Failed to save.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const input = (key: TextKey, placeholder?: string, extra?: object) => (
+    <TextInput
+      style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+      placeholder={placeholder}
+      placeholderTextColor={theme.mutedText}
+      value={form[key]}
+      onChangeText={(v) => setForm((p) => ({ ...p, [key]: v }))}
+      {...extra}
+    />
+  );
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+    >
+      <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  );
+
+  const linkRow = (kind: "vendor" | "target", linked: Linked, placeholder: string) => (
+    <>
+      <Pressable
+        onPress={() => setPicking(picking === kind ? null : kind)}
+        style={[styles.fieldInput, styles.linkRow, { borderColor: picking === kind ? theme.primary : theme.border, backgroundColor: theme.card }]}
+      >
+        <Text style={{ color: linked ? theme.text : theme.mutedText, fontSize: 14, flex: 1 }} numberOfLines={1}>
+          {linked?.name || placeholder}
+        </Text>
+        <Text style={{ color: theme.primary, fontWeight: "700" }}>{picking === kind ? "Close" : linked ? "Change" : "Pick"}</Text>
+      </Pressable>
+      {picking === kind && (
+        <View style={[styles.picker, { borderColor: theme.border }]}>
+          <TextInput
+            value={optionSearch}
+            onChangeText={setOptionSearch}
+            placeholder="Search…"
+            placeholderTextColor={theme.mutedText}
+            style={[styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]}
+          />
+          {linked && (
+            <Pressable onPress={() => pickOption(null)} style={[styles.optionRow, { borderBottomColor: theme.border }]}>
+              <Text style={{ color: "#ef4444", fontWeight: "700" }}>None</Text>
+            </Pressable>
+          )}
+          {optionsLoading ? (
+            <ActivityIndicator style={{ marginVertical: 10 }} />
+          ) : matches.length === 0 ? (
+            <Text style={{ color: theme.mutedText, marginVertical: 10, textAlign: "center" }}>{options.length ? "No matches." : "Nothing to pick yet."}</Text>
+          ) : (
+            matches.map((o) => (
+              <Pressable key={o.id} onPress={() => pickOption(o)} style={[styles.optionRow, { borderBottomColor: theme.border }]}>
+                <Text style={{ color: o.id === linked?.id ? theme.primary : theme.text, fontWeight: "700" }} numberOfLines={1}>{o.name}</Text>
+              </Pressable>
+            ))
+          )}
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => { if (!saving) onClose(); }}>
+      <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: theme.text }]}>{contract ? "Edit" : "Add"} {CONTRACT_KIND_LABELS[form.kind]}</Text>
+          <Pressable onPress={() => { if (!saving) onClose(); }}>
+            <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
+          </Pressable>
+        </View>
+        <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingBottom: 20 }}>
+          <View style={styles.chipRow}>
+            {KINDS.map((k) => chip(CONTRACT_KIND_LABELS[k], form.kind === k, () => setForm((p) => ({ ...p, kind: k }))))}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Title *</Text>
+          {input("title", form.kind === "warranty" ? "e.g. Dell ProSupport 3 yr" : "e.g. Copier maintenance agreement")}
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Vendor</Text>
+          {linkRow("vendor", vendor, "No vendor")}
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Covers</Text>
+          <View style={styles.chipRow}>
+            {chip("Nothing specific", !targetType, () => { setTargetType(null); setTarget(null); setPicking(null); })}
+            {TARGET_TYPES.map((t) => chip(CONTRACT_TARGET_LABELS[t], targetType === t, () => {
+              if (targetType !== t) setTarget(null);
+              setTargetType(t);
+              setPicking("target");
+            }))}
+          </View>
+          {targetType && <View style={{ marginTop: 8 }}>{linkRow("target", target, `Pick a ${CONTRACT_TARGET_LABELS[targetType].toLowerCase()}`)}</View>}
+
+          <View style={{ flexDirection: "row", gap: 12 }}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Start Date</Text>
+              {input("startDate", "YYYY-MM-DD", { autoCapitalize: "none" })}
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>End Date *</Text>
+              {input("endDate", "YYYY-MM-DD", { autoCapitalize: "none" })}
+            </View>
+          </View>
+
+          <View style={{ flexDirection: "row", gap: 12 }}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Contract / Warranty No.</Text>
+              {input("reference")}
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Cost ($)</Text>
+              {input("cost", "e.g. 1200.00", { keyboardType: "decimal-pad" })}
+            </View>
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
+          {input("notes", "Coverage, renewal terms, contact…", { multiline: true, style: [styles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 80, textAlignVertical: "top" }] })}
+
+          <Pressable
+            style={[styles.saveBtn, { backgroundColor: theme.primary, opacity: saving ? 0.6 : 1 }]}
+            onPress={save}
+            disabled={saving}
+          >
+            {saving ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.saveBtnText}>{contract ? "Save Changes" : "Add"}</Text>}
+          </Pressable>
+          {contract && onDelete && (
+            <Pressable onPress={onDelete} disabled={saving} style={[styles.deleteBtn, { borderColor: theme.danger }]}>
+              <Text style={{ color: theme.danger, fontWeight: "800" }}>Delete</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: { flex: 1, padding: 20 },
+  modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 16 },
+  modalTitle: { fontSize: 20, fontWeight: "800" },
+  fieldLabel: { fontSize: 13, fontWeight: "600", marginBottom: 6, marginTop: 14 },
+  fieldInput: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, fontSize: 14 },
+  linkRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  picker: { marginTop: 8, borderWidth: 1, borderRadius: 10, padding: 8 },
+  optionRow: { paddingVertical: 10, paddingHorizontal: 4, borderBottomWidth: StyleSheet.hairlineWidth },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 999, borderWidth: 1 },
+  saveBtn: { marginTop: 24, borderRadius: 12, paddingVertical: 14, alignItems: "center" },
+  saveBtnText: { color: "#ffffff", fontSize: 16, fontWeight: "800" },
+  deleteBtn: { marginTop: 12, borderRadius: 12, borderWidth: 1, paddingVertical: 12, alignItems: "center" },
+});
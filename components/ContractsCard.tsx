@@ -0,0 +1,134 @@
+// components/ContractsCard.tsx
+// "Contracts & Warranties" card for an asset, printer or PM device detail
+// screen: the contracts that cover it, with add / edit in place.
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import { Alert, Pressable, StyleSheet, Text, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { auth, db } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import { Contract, ContractTargetType } from "../types/inventory";
+import {
+  CONTRACT_KIND_LABELS,
+  ContractFields,
+  daysUntil,
+  deleteContract,
+  expiryColor,
+  formatDaysLeft,
+  saveContract,
+} from "../utils/contracts";
+import { ContractFormModal } from "./ContractFormModal";
+
+export function ContractsCard({
+  targetType,
+  targetId,
+  targetName,
+}: {
+  targetType: ContractTargetType;
+  targetId: string;
+  targetName: string;
+}) {
+  const theme = useAppTheme();
+  const { siteId, profile } = useUserProfile();
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [editing, setEditing] = useState<Contract | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const by = profile?.name || auth.currentUser?.displayName || auth.currentUser?.email || "Unknown";
+
+  useEffect(() => {
+    if (!siteId || !targetId) return;
+    const unsub = onSnapshot(
+      query(
+        collection(db, "contracts"),
+        where("siteId", "==", siteId),
+        where("targetType", "==", targetType),
+        where("targetId", "==", targetId)
+      ),
+      (snap) => {
+        const list = snap.docs.map((d) => ({ id: d.id, ...d.data() } as Contract));
+        setContracts(list.sort((a, b) => a.endDate.localeCompare(b.endDate)));
+      },
+      (err) => { if (__DEV__) console.error("Error loading contracts:", err); }
+    );
+    return () => unsub();
+  }, [siteId, targetType, targetId]);
+
+  const openForm = (contract: Contract | null) => {
+    setEditing(contract);
+    setShowForm(true);
+  };
+
+  const handleSave = async (fields: ContractFields) => {
+    if (!siteId) return;
+    await saveContract(siteId, fields, by, editing);
+    setShowForm(false);
+  };
+
+  const handleDelete = () => {
+    if (!editing) return;
+    Alert.alert("Delete", `Remove ${editing.title}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteContract(editing.id);
+            setShowForm(false);
+          } catch (err: any) {
+            Alert.alert("Error", err?.message || "Failed to delete.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.text }]}>Contracts & Warranties</Text>
+        <Pressable onPress={() => openForm(null)} hitSlop={8}>
+          <Text style={{ color: theme.primary, fontWeight: "800" }}>+ Add</Text>
+        </Pressable>
+      </View>
+      {contracts.length === 0 ? (
+        <Text style={{ color: theme.mutedText, fontSize: 13 }}>None recorded.</Text>
+      ) : (
+        contracts.map((c) => {
+          const daysLeft = daysUntil(c.endDate);
+          const color = daysLeft == null ? theme.mutedText : expiryColor(daysLeft);
+          return (
+            <Pressable key={c.id} onPress={() => openForm(c)} style={[styles.row, { borderTopColor: theme.border }]}>
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>{c.title}</Text>
+                <Text style={{ color: theme.mutedText, fontSize: 12 }} numberOfLines={1}>
+                  {[CONTRACT_KIND_LABELS[c.kind], c.vendorName, `Ends ${c.endDate}`].filter(Boolean).join(" • ")}
+                </Text>
+              </View>
+              {daysLeft != null && <Text style={{ color, fontSize: 12, fontWeight: "800" }}>{formatDaysLeft(daysLeft)}</Text>}
+            </Pressable>
+          );
+        })
+      )}
+
+      <ContractFormModal
+        visible={showForm}
+        siteId={siteId}
+        contract={editing}
+        preset={{ kind: "warranty", targetType, targetId, targetName }}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onClose={() => setShowForm(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 16, borderWidth: 1, padding: 16, marginTop: 16 },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 8 },
+  title: { fontSize: 16, fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", gap: 10, paddingVertical: 10, borderTopWidth: StyleSheet.hairlineWidth },
+});
@@ -0,0 +1,269 @@
+// components/CycleCountModal.tsx
+// Continuous scan session for cycle counts (utils/cycleCount.ts). Unlike the
+// Inventory scanner, a hit does not close the camera: each scan adds one to
+// that record's tally, the list shows the variance against recorded stock,
+// and nothing is written until the session is committed.
+import { Ionicons } from "@expo/vector-icons";
+import { CameraView } from "expo-camera";
+import React, { useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import {
+  commitCycleCount,
+  COUNT_KIND_LABELS,
+  CountLine,
+  countVariance,
+  lookupCountBarcode,
+} from "../utils/cycleCount";
+
+type CycleCountModalProps = {
+  visible: boolean;
+  siteId: string | null;
+  by: string;
+  onClose: () => void;
+};
+
+// The same code held in frame keeps firing; count it once per window
+const REPEAT_SCAN_MS = 1500;
+
+export function CycleCountModal({ visible, siteId, by, onClose }: CycleCountModalProps) {
+  const theme = useAppTheme();
+
+  const [lines, setLines] = useState<CountLine[]>([]);
+  const [unknown, setUnknown] = useState<string[]>([]);
+  const [lastScan, setLastScan] = useState<{ text: string; ok: boolean } | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [note, setNote] = useState("");
+  const [committing, setCommitting] = useState(false);
+
+  const lookups = useRef(new Map<string, CountLine | null>());
+  const pending = useRef(new Set<string>());
+  const lastRef = useRef<{ data: string; at: number } | null>(null);
+
+  const reset = () => {
+    setLines([]);
+    setUnknown([]);
+    setLastScan(null);
+    setPaused(false);
+    setNote("");
+    lookups.current.clear();
+    pending.current.clear();
+    lastRef.current = null;
+  };
+
+  const bump = (key: string, step: number) =>
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, counted: Math.max(0, l.counted + step) } : l)));
+
+  // A radio is either seen or not; everything else counts up per scan
+  const tally = (line: CountLine) => {
+    const before = lines.find((l) => l.key === line.key)?.counted ?? 0;
+    setLastScan({ text: line.kind === "radio" ? `${line.name} · seen` : `${line.name} · ${before + 1}`, ok: true });
+    setLines((prev) => {
+      const existing = prev.find((l) => l.key === line.key);
+      const counted = line.kind === "radio" ? 1 : (existing?.counted ?? 0) + 1;
+      return [{ ...(existing ?? line), counted }, ...prev.filter((l) => l.key !== line.key)];
+    });
+  };
+
+  const handleScan = async ({ data }: { data: string }) => {
+    const code = String(data).trim();
+    if (!code || !siteId || committing) return;
+    const now = Date.now();
+    const last = lastRef.current;
+    if (last && last.data === code && now - last.at < REPEAT_SCAN_MS) return;
+    lastRef.current = { data: code, at: now };
+
+    if (lookups.current.has(code)) {
+      const cached = lookups.current.get(code);
+      if (cached) tally(cached);
+      else setLastScan({ text: `Unknown barcode ${code}`, ok: false });
+      return;
+    }
+    if (pending.current.has(code)) return;
+    pending.current.add(code);
+    try {
+      const line = await lookupCountBarcode(siteId, code);
+      lookups.current.set(code, line);
+      if (line) tally(line);
+      else {
+        setUnknown((prev) => (prev.includes(code) ? prev : [...prev, code]));
+        setLastScan({ text: `Unknown barcode ${code}`, ok: false });
+      }
+    } catch {
+      setLastScan({ text: "Lookup failed — scan again", ok: false });
+    } finally {
+      pending.current.delete(code);
+    }
+  };
+
+  const close = () => {
+    if (committing) return;
+    if (lines.length === 0) { reset(); onClose(); return; }
+    Alert.alert("Discard Count?", `${lines.length} counted record${lines.length !== 1 ? "s" : ""} will be lost.`, [
+      { text: "Keep Counting", style: "cancel" },
+      { text: "Discard", style: "destructive", onPress: () => { reset(); onClose(); } },
+    ]);
+  };
+
+  const stockLines = lines.filter((l) => l.kind !== "radio");
+  const variances = stockLines.filter((l) => countVariance(l) !== 0).length;
+
+  const commit = () => {
+    if (!siteId || lines.length === 0) return;
+    Alert.alert(
+      "Commit Count?",
+      `On-hand quantity is set to the counted amount for ${stockLines.length} record${stockLines.length !== 1 ? "s" : ""} (${variances} with a variance).`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Commit",
+          onPress: async () => {
+            setCommitting(true);
+            setPaused(true);
+            try {
+              const result = await commitCycleCount({ siteId, lines, by, note, unknownBarcodes: unknown });
+              const radios = result.radiosFound
+                ? `\n${result.radiosFound} radio${result.radiosFound !== 1 ? "s" : ""} seen, ${result.radiosMissing.length} not scanned.`
+                : "";
+              Alert.alert(
+                "Count Committed",
+                `${result.counted} counted, ${result.adjusted} adjusted (+${result.unitsOver} / -${result.unitsShort}).${radios}`
+              );
+              reset();
+              onClose();
+            } catch (err: any) {
+              if (__DEV__) console.error("Cycle count commit failed:", err);
+              Alert.alert("Commit Failed", err?.message || "Could not save the count.");
+              setPaused(false);
+            } finally {
+              setCommitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={close}>
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        <View style={styles.cameraBox}>
+          {visible && !paused ? (
+            <CameraView style={StyleSheet.absoluteFill} facing="back" autofocus="on" onBarcodeScanned={handleScan} />
+          ) : (
+            <View style={[StyleSheet.absoluteFill, styles.pausedFill]}>
+              <Ionicons name="pause-circle-outline" size={40} color="#9ca3af" />
+            </View>
+          )}
+          <View style={styles.cameraBar}>
+            <Text style={{ color: lastScan && !lastScan.ok ? "#fbbf24" : "#fff", fontWeight: "700", flex: 1 }} numberOfLines={1}>
+              {lastScan?.text ?? (paused ? "Paused" : "Scan each item once")}
+            </Text>
+            <Pressable onPress={() => setPaused((p) => !p)} hitSlop={8}>
+              <Ionicons name={paused ? "play" : "pause"} size={22} color="#fff" />
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>Cycle Count</Text>
+          <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+            {lines.length} record{lines.length !== 1 ? "s" : ""} · {variances} variance{variances !== 1 ? "s" : ""}
+            {unknown.length ? ` · ${unknown.length} unknown` : ""}
+          </Text>
+        </View>
+
+        <FlatList
+          data={lines}
+          keyExtractor={(l) => l.key}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
+          ListEmptyComponent={
+            <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 24 }}>
+              Scanned items, toners, radios and radio parts appear here.
+            </Text>
+          }
+          renderItem={({ item }) => {
+            const variance = countVariance(item);
+            const varianceColor = variance === 0 ? "#16a34a" : variance > 0 ? theme.primary : theme.danger;
+            return (
+              <View style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{item.name}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 11 }}>
+                    {COUNT_KIND_LABELS[item.kind]}
+                    {item.kind !== "radio" ? ` · Recorded ${item.recorded}` : ""}
+                  </Text>
+                </View>
+                {item.kind === "radio" ? (
+                  <Text style={{ color: "#16a34a", fontWeight: "800" }}>Seen</Text>
+                ) : (
+                  <>
+                    <Text style={{ color: varianceColor, fontWeight: "800", fontSize: 12, marginRight: 10 }}>
+                      {variance > 0 ? `+${variance}` : variance}
+                    </Text>
+                    <Pressable onPress={() => bump(item.key, -1)} style={[styles.stepBtn, { borderColor: theme.border }]} hitSlop={6}>
+                      <Ionicons name="remove" size={16} color={theme.text} />
+                    </Pressable>
+                    <Text style={[styles.counted, { color: theme.text }]}>{item.counted}</Text>
+                    <Pressable onPress={() => bump(item.key, 1)} style={[styles.stepBtn, { borderColor: theme.border }]} hitSlop={6}>
+                      <Ionicons name="add" size={16} color={theme.text} />
+                    </Pressable>
+                  </>
+                )}
+              </View>
+            );
+          }}
+        />
+
+        <View style={[styles.footer, { borderColor: theme.border, backgroundColor: theme.card }]}>
+          <TextInput
+            style={[styles.note, { borderColor: theme.border, color: theme.text }]}
+            placeholder="Note (optional), e.g. Q3 count, stockroom A"
+            placeholderTextColor={theme.mutedText}
+            value={note}
+            onChangeText={setNote}
+          />
+          <View style={{ flexDirection: "row", gap: 10 }}>
+            <Pressable onPress={close} disabled={committing} style={[styles.footerBtn, { backgroundColor: "#374151" }]}>
+              <Text style={styles.footerBtnText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={commit}
+              disabled={committing || lines.length === 0}
+              style={[styles.footerBtn, { backgroundColor: theme.primary, opacity: committing || lines.length === 0 ? 0.6 : 1 }]}
+            >
+              {committing ? <ActivityIndicator color="#fff" /> : <Text style={styles.footerBtnText}>Commit count</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  cameraBox: { height: "38%", backgroundColor: "#000" },
+  pausedFill: { alignItems: "center", justifyContent: "center", backgroundColor: "#111827" },
+  cameraBar: { position: "absolute", left: 12, right: 12, bottom: 12, flexDirection: "row", alignItems: "center", gap: 12, backgroundColor: "rgba(0,0,0,0.6)", borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10 },
+  header: { paddingHorizontal: 16, paddingTop: 14, paddingBottom: 8 },
+  title: { fontSize: 20, fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", borderRadius: 14, borderWidth: 1, padding: 12, marginBottom: 8 },
+  name: { fontSize: 15, fontWeight: "800" },
+  stepBtn: { width: 30, height: 30, borderRadius: 8, borderWidth: 1, alignItems: "center", justifyContent: "center" },
+  counted: { minWidth: 36, textAlign: "center", fontSize: 16, fontWeight: "800" },
+  footer: { borderTopWidth: 1, padding: 16, paddingBottom: 32, gap: 10 },
+  note: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14 },
+  footerBtn: { flex: 1, paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  footerBtnText: { color: "#fff", fontWeight: "800" },
+});
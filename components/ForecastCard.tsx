@@ -0,0 +1,153 @@
+// components/ForecastCard.tsx
+// "Forecast" card shared by the item, toner and radio part detail screens:
+// average usage, days until out and a suggested min / reorder quantity for
+// the item's lead time (hooks/useConsumptionForecast.ts). Lead time and the
+// suggested min are written straight to the stock doc; the screen's own
+// listener picks up the change.
+import { Ionicons } from "@expo/vector-icons";
+import { doc, serverTimestamp, updateDoc } from "firebase/firestore";
+import React, { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { db } from "../firebaseConfig";
+import { useConsumptionForecast } from "../hooks/useConsumptionForecast";
+import { FORECAST_WINDOW_DAYS, formatDailyUsage, formatDaysLeft } from "../utils/forecast";
+import { STOCK_SOURCES, StockItemType } from "../utils/stockMovements";
+
+type ForecastCardProps = {
+  itemType: StockItemType;
+  itemId: string;
+  siteId: string | null | undefined;
+  currentQuantity: number;
+  minQuantity: number;
+  leadTimeDays?: number;
+};
+
+export function ForecastCard({ itemType, itemId, siteId, currentQuantity, minQuantity, leadTimeDays }: ForecastCardProps) {
+  const theme = useAppTheme();
+  const { forecast, loading } = useConsumptionForecast({ itemType, itemId, siteId, currentQuantity, leadTimeDays });
+  const [saving, setSaving] = useState(false);
+
+  const save = async (fields: Record<string, any>) => {
+    setSaving(true);
+    try {
+      await updateDoc(doc(db, STOCK_SOURCES[itemType].collection, itemId), { ...fields, updatedAt: serverTimestamp() });
+    } catch (err: any) {
+      if (__DEV__) console.error("Error saving forecast settings:", err);
+      Alert.alert("Error", err?.message || "Failed to save.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeLeadTime = (step: number) => {
+    const next = Math.max(1, forecast.leadTimeDays + step);
+    if (next !== forecast.leadTimeDays) save({ leadTimeDays: next });
+  };
+
+  const hasUsage = forecast.avgDailyUsage > 0;
+  const orderNow = forecast.orderInDays !== null && forecast.orderInDays <= 0;
+  const daysColor =
+    forecast.daysUntilOut === null
+      ? theme.text
+      : forecast.daysUntilOut <= forecast.leadTimeDays
+      ? theme.danger
+      : orderNow || forecast.daysUntilOut <= forecast.leadTimeDays * 2
+      ? theme.warning
+      : theme.text;
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Forecast</Text>
+        <Text style={[styles.caption, { color: theme.mutedText }]}>Last {FORECAST_WINDOW_DAYS} days</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerSmall}>
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Average usage</Text>
+            <Text style={[styles.value, { color: theme.text }]}>{formatDailyUsage(forecast.avgDailyUsage)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Runs out in</Text>
+            <Text style={[styles.value, { color: daysColor }]}>{formatDaysLeft(forecast.daysUntilOut)}</Text>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: theme.mutedText }]}>Lead time</Text>
+            <View style={styles.stepper}>
+              <Pressable onPress={() => changeLeadTime(-1)} disabled={saving} hitSlop={6}>
+                <Ionicons name="remove-circle-outline" size={22} color={theme.mutedText} />
+              </Pressable>
+              <Text style={[styles.value, { color: theme.text, minWidth: 56, textAlign: "center" }]}>
+                {forecast.leadTimeDays} day{forecast.leadTimeDays === 1 ? "" : "s"}
+              </Text>
+              <Pressable onPress={() => changeLeadTime(1)} disabled={saving} hitSlop={6}>
+                <Ionicons name="add-circle-outline" size={22} color={theme.mutedText} />
+              </Pressable>
+            </View>
+          </View>
+
+          {hasUsage ? (
+            <>
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: theme.mutedText }]}>Suggested min</Text>
+                <Text style={[styles.value, { color: theme.text }]}>
+                  {forecast.suggestedMin}
+                  <Text style={{ color: theme.mutedText, fontWeight: "600" }}> (now {minQuantity})</Text>
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: theme.mutedText }]}>Suggested reorder</Text>
+                <Text style={[styles.value, { color: theme.text }]}>{forecast.suggestedReorderQty}</Text>
+              </View>
+
+              {orderNow && (
+                <Text style={[styles.hint, { color: theme.warning }]}>
+                  Order now — at this rate stock runs out before a new order arrives.
+                </Text>
+              )}
+
+              {forecast.suggestedMin !== minQuantity && (
+                <Pressable
+                  style={[styles.applyButton, { borderColor: theme.primary }, saving && { opacity: 0.6 }]}
+                  onPress={() => save({ minQuantity: forecast.suggestedMin })}
+                  disabled={saving}
+                >
+                  <Text style={[styles.applyButtonText, { color: theme.primary }]}>
+                    Use suggested min ({forecast.suggestedMin})
+                  </Text>
+                </Pressable>
+              )}
+            </>
+          ) : (
+            <Text style={[styles.hint, { color: theme.mutedText }]}>
+              No usage recorded in the last {FORECAST_WINDOW_DAYS} days.
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "baseline", marginBottom: 4 },
+  sectionTitle: { fontSize: 16, fontWeight: "800" },
+  caption: { fontSize: 11 },
+  centerSmall: { marginTop: 8, alignItems: "center" },
+  row: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", paddingVertical: 6 },
+  label: { fontSize: 14 },
+  value: { fontSize: 15, fontWeight: "700" },
+  stepper: { flexDirection: "row", alignItems: "center", gap: 6 },
+  hint: { fontSize: 12, fontWeight: "600", marginTop: 6 },
+  applyButton: { marginTop: 10, paddingVertical: 9, borderRadius: 999, borderWidth: 1, alignItems: "center" },
+  applyButtonText: { fontWeight: "800", fontSize: 13 },
+});
@@ -0,0 +1,392 @@
+// components/ImportReportModal.tsx
+// Dry-run report for the shared CSV import pipeline (hooks/useCsvImport.ts):
+// matched columns, new / updated / unchanged counts, per-row errors and
+// warnings, and the list of changes, with a button to commit. Tapping a
+// column row lets the user reassign it to another header (or skip it), and
+// the confirmed mapping can be saved as a named profile for the site.
+// Workbooks with more than one sheet show a sheet switcher at the top.
+// Toner and printer imports list catalog matches per row; tapping another
+// entry (or None) re-runs the dry run with that choice.
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { ImportMappingProfile, ImportReport } from "../utils/importPipeline";
+
+type ImportReportModalProps = {
+  report: ImportReport | null;
+  committing: boolean;
+  remapping: boolean;
+  profiles: ImportMappingProfile[];
+  appliedProfile: ImportMappingProfile | null;
+  sheetNames: string[];
+  sheetIndex: number;
+  onCommit: () => void;
+  onClose: () => void;
+  onSetColumn: (fieldKey: string, header: string | null) => void;
+  onApplyProfile: (profile: ImportMappingProfile) => void;
+  onSelectSheet: (index: number) => void;
+  onSaveProfile: (name: string) => Promise<void>;
+  onSetCatalogLink: (row: number, catalogId: string) => void;
+};
+
+export function ImportReportModal({
+  report,
+  committing,
+  remapping,
+  profiles,
+  appliedProfile,
+  sheetNames,
+  sheetIndex,
+  onCommit,
+  onClose,
+  onSetColumn,
+  onApplyProfile,
+  onSelectSheet,
+  onSaveProfile,
+  onSetCatalogLink,
+}: ImportReportModalProps) {
+  const theme = useAppTheme();
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [savingProfile, setSavingProfile] = useState(false);
+  if (!report) return null;
+
+  const busy = committing || remapping;
+  const blocked = report.missingColumns.length > 0;
+  const toWrite = report.creates + report.updates;
+  const sampleFor = (header: string) => {
+    const value = report.sample[report.headers.indexOf(header)];
+    return value ? String(value).trim() : "";
+  };
+
+  const handleSaveProfile = async () => {
+    setSavingProfile(true);
+    try {
+      await onSaveProfile(profileName);
+      setProfileName("");
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleClose = () => {
+    setEditingField(null);
+    setProfileName("");
+    onClose();
+  };
+  const fieldLabel = (key: string) => report.fields.find((f) => f.key === key)?.label ?? key;
+
+  const stats = [
+    { label: "New", value: report.creates, color: "#22c55e" },
+    { label: "Updated", value: report.updates, color: "#3b82f6" },
+    { label: "Unchanged", value: report.unchanged, color: theme.mutedText },
+    { label: "Errors", value: report.errorRows, color: "#ef4444" },
+  ];
+
+  return (
+    <Modal visible animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={[styles.modalContainer, { backgroundColor: theme.background }]}>
+        <View style={styles.modalHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Review Import</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 13, marginTop: 2 }}>
+              {report.label} · {report.rowCount} row{report.rowCount !== 1 ? "s" : ""} read
+            </Text>
+          </View>
+          <Pressable onPress={handleClose} disabled={committing}>
+            <Text style={{ color: theme.primary, fontSize: 16, fontWeight: "700" }}>Cancel</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.statRow}>
+          {stats.map((s) => (
+            <View key={s.label} style={[styles.statBox, { borderColor: theme.border, backgroundColor: theme.card }]}>
+              <Text style={[styles.statValue, { color: s.color }]}>{s.value}</Text>
+              <Text style={[styles.statLabel, { color: theme.mutedText }]}>{s.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 12 }} keyboardShouldPersistTaps="handled">
+          {sheetNames.length > 1 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>SHEET</Text>
+              <View style={styles.chipWrap}>
+                {sheetNames.map((name, i) => {
+                  const active = i === sheetIndex;
+                  return (
+                    <Pressable
+                      key={`${name}-${i}`}
+                      onPress={() => { setEditingField(null); onSelectSheet(i); }}
+                      disabled={busy}
+                      style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+                    >
+                      <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }} numberOfLines={1}>{name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {blocked && (
+            <View style={[styles.banner, { borderColor: "#ef4444" }]}>
+              <Text style={{ color: "#ef4444", fontSize: 13, fontWeight: "700" }}>
+                Choose a column for: {report.missingColumns.join(", ")}
+              </Text>
+            </View>
+          )}
+
+          {profiles.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>SAVED MAPPINGS</Text>
+              <View style={styles.chipWrap}>
+                {profiles.map((p) => {
+                  const active = appliedProfile?.id === p.id;
+                  return (
+                    <Pressable
+                      key={p.id}
+                      onPress={() => onApplyProfile(p)}
+                      disabled={busy}
+                      style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+                    >
+                      <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{p.name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>COLUMNS</Text>
+            {remapping ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Text style={{ color: theme.mutedText, fontSize: 11 }}>
+                {appliedProfile ? `Using "${appliedProfile.name}"` : "Tap to change"}
+              </Text>
+            )}
+          </View>
+          {report.fields.map((f) => {
+            const header = report.columns[f.key];
+            const editing = editingField === f.key;
+            const sample = header ? sampleFor(header) : "";
+            return (
+              <View key={f.key} style={{ borderBottomWidth: 1, borderBottomColor: theme.border }}>
+                <Pressable style={styles.columnRow} onPress={() => setEditingField(editing ? null : f.key)} disabled={busy}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.rowMain, { color: theme.text }]}>
+                      {f.label}{f.required ? " *" : ""}
+                    </Text>
+                    {sample ? (
+                      <Text style={[styles.rowSub, { color: theme.mutedText }]} numberOfLines={1}>e.g. {sample}</Text>
+                    ) : null}
+                  </View>
+                  <Text
+                    style={{ color: header ? theme.text : f.required ? "#ef4444" : theme.mutedText, fontSize: 13, maxWidth: "50%" }}
+                    numberOfLines={1}
+                  >
+                    {header ? `"${header}"` : "not in file"}
+                  </Text>
+                </Pressable>
+                {editing && (
+                  <View style={[styles.chipWrap, { paddingBottom: 10 }]}>
+                    <Pressable
+                      onPress={() => { setEditingField(null); onSetColumn(f.key, null); }}
+                      style={[styles.chip, { borderColor: theme.border, backgroundColor: header ? theme.card : theme.border }]}
+                    >
+                      <Text style={{ color: theme.mutedText, fontSize: 12, fontWeight: "700" }}>Don&apos;t import</Text>
+                    </Pressable>
+                    {report.headers.filter(Boolean).map((h, i) => {
+                      const active = h === header;
+                      return (
+                        <Pressable
+                          key={`${h}-${i}`}
+                          onPress={() => { setEditingField(null); if (!active) onSetColumn(f.key, h); }}
+                          style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card }]}
+                        >
+                          <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }} numberOfLines={1}>{h}</Text>
+                          {sampleFor(h) ? (
+                            <Text style={{ color: active ? "#e5e7eb" : theme.mutedText, fontSize: 11 }} numberOfLines={1}>{sampleFor(h)}</Text>
+                          ) : null}
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+
+          <View style={styles.saveProfileRow}>
+            <TextInput
+              value={profileName}
+              onChangeText={setProfileName}
+              placeholder={appliedProfile ? `Update "${appliedProfile.name}" or name a new mapping` : "Save mapping as… (e.g. Vendor export)"}
+              placeholderTextColor={theme.mutedText}
+              style={[styles.input, { color: theme.text, borderColor: theme.border, backgroundColor: theme.card }]}
+            />
+            <Pressable
+              onPress={handleSaveProfile}
+              disabled={!profileName.trim() || savingProfile || busy}
+              style={[styles.smallBtn, { backgroundColor: theme.primary, opacity: !profileName.trim() || savingProfile || busy ? 0.5 : 1 }]}
+            >
+              {savingProfile ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.smallBtnText}>Save</Text>}
+            </Pressable>
+          </View>
+
+          {!!report.catalogSuggestions?.length && (
+            <>
+              <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>CATALOG MATCHES</Text>
+              <Text style={{ color: theme.mutedText, fontSize: 11 }}>
+                Linked rows take the catalog part number, and new printers the catalog name. Tap another entry or None to change.
+              </Text>
+              {report.catalogSuggestions.map((sug) => (
+                <View key={sug.row} style={[styles.catalogRow, { borderBottomColor: theme.border }]}>
+                  <View style={{ flexDirection: "row", gap: 10 }}>
+                    <Text style={[styles.rowNumber, { color: theme.mutedText }]}>Row {sug.row}</Text>
+                    <Text style={[styles.rowMain, { color: theme.text, flex: 1 }]} numberOfLines={1}>{sug.name}</Text>
+                  </View>
+                  {sug.modelRename && (
+                    <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 2 }} numberOfLines={1}>
+                      Model: {sug.modelRename.from || "(blank)"} → {sug.modelRename.to}
+                    </Text>
+                  )}
+                  <View style={[styles.chipWrap, { marginTop: 6 }]}>
+                    {sug.candidates.map((c) => {
+                      const active = c.id === sug.appliedId;
+                      return (
+                        <Pressable
+                          key={c.id}
+                          disabled={busy || active}
+                          onPress={() => onSetCatalogLink(sug.row, c.id)}
+                          style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : theme.card, maxWidth: 240 }]}
+                        >
+                          <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }} numberOfLines={1}>
+                            {c.label} · {Math.round(c.score * 100)}%
+                          </Text>
+                          {!!c.detail && (
+                            <Text style={{ color: active ? "#e5e7eb" : theme.mutedText, fontSize: 11 }} numberOfLines={1}>{c.detail}</Text>
+                          )}
+                        </Pressable>
+                      );
+                    })}
+                    <Pressable
+                      disabled={busy || !sug.appliedId}
+                      onPress={() => onSetCatalogLink(sug.row, "")}
+                      style={[styles.chip, { borderColor: !sug.appliedId ? theme.primary : theme.border, backgroundColor: !sug.appliedId ? theme.primary : theme.card }]}
+                    >
+                      <Text style={{ color: !sug.appliedId ? "#fff" : theme.mutedText, fontSize: 12, fontWeight: "700" }}>None</Text>
+                    </Pressable>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+
+          {report.issues.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>ROW ISSUES</Text>
+              {report.issues.map((issue, i) => (
+                <View key={`${issue.row}-${i}`} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <Text style={[styles.rowNumber, { color: theme.mutedText }]}>Row {issue.row}</Text>
+                  <Text style={[styles.rowSub, { color: issue.severity === "error" ? "#ef4444" : "#fbbf24", flex: 1 }]}>
+                    {issue.message}
+                  </Text>
+                </View>
+              ))}
+            </>
+          )}
+
+          {report.changes.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: theme.mutedText }]}>CHANGES</Text>
+              {report.changes.map((c) => (
+                <View key={c.id} style={[styles.row, { borderBottomColor: theme.border }]}>
+                  <Text style={[styles.rowNumber, { color: theme.mutedText }]}>Row {c.row}</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.rowMain, { color: theme.text }]} numberOfLines={1}>{c.name || c.id}</Text>
+                    {c.kind === "update" && c.fields?.length ? (
+                      <Text style={[styles.rowSub, { color: theme.mutedText }]} numberOfLines={1}>
+                        {c.fields.map(fieldLabel).join(", ")}
+                      </Text>
+                    ) : null}
+                  </View>
+                  <Text style={[styles.kindPill, { color: c.kind === "create" ? "#22c55e" : "#3b82f6" }]}>
+                    {c.kind === "create" ? "NEW" : "UPDATE"}
+                  </Text>
+                </View>
+              ))}
+              {toWrite > report.changes.length && (
+                <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 8, textAlign: "center" }}>
+                  + {toWrite - report.changes.length} more
+                </Text>
+              )}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={[styles.footer, { borderTopColor: theme.border }]}>
+          {report.errorRows > 0 && (
+            <Text style={{ color: "#fbbf24", fontSize: 12, marginBottom: 10, textAlign: "center" }}>
+              {report.errorRows} row{report.errorRows !== 1 ? "s" : ""} with errors will be skipped
+            </Text>
+          )}
+          <Pressable
+            style={[styles.saveBtn, { backgroundColor: theme.primary, opacity: busy || blocked || toWrite === 0 ? 0.6 : 1 }]}
+            onPress={onCommit}
+            disabled={busy || blocked || toWrite === 0}
+          >
+            {committing ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Text style={styles.saveBtnText}>
+                {blocked ? "Map required columns" : toWrite === 0 ? "Nothing to import" : `Import ${toWrite} Record${toWrite !== 1 ? "s" : ""}`}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: { flex: 1, padding: 20 },
+  modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 16 },
+  modalTitle: { fontSize: 20, fontWeight: "800" },
+  statRow: { flexDirection: "row", gap: 8, marginBottom: 8 },
+  statBox: { flex: 1, borderWidth: 1, borderRadius: 12, paddingVertical: 10, alignItems: "center" },
+  statValue: { fontSize: 20, fontWeight: "900" },
+  statLabel: { fontSize: 11, fontWeight: "700", marginTop: 2 },
+  sectionTitle: { fontSize: 11, fontWeight: "700", letterSpacing: 0.5, marginTop: 16, marginBottom: 4 },
+  sectionHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-end", gap: 8 },
+  banner: { borderWidth: 1, borderRadius: 10, padding: 10, marginTop: 8 },
+  columnRow: { flexDirection: "row", alignItems: "center", paddingVertical: 9, gap: 10 },
+  chipWrap: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  chip: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 10, paddingVertical: 6, maxWidth: 180 },
+  saveProfileRow: { flexDirection: "row", alignItems: "center", gap: 8, marginTop: 14 },
+  input: { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 9, fontSize: 14 },
+  smallBtn: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 999, alignItems: "center", minWidth: 64 },
+  smallBtnText: { color: "#fff", fontWeight: "800", fontSize: 13 },
+  row: { flexDirection: "row", alignItems: "center", paddingVertical: 9, borderBottomWidth: 1, gap: 10 },
+  rowNumber: { fontSize: 12, fontWeight: "700", minWidth: 52 },
+  rowMain: { fontSize: 14, fontWeight: "700" },
+  rowSub: { fontSize: 12, marginTop: 1 },
+  kindPill: { fontSize: 11, fontWeight: "800" },
+  catalogRow: { paddingVertical: 9, borderBottomWidth: 1 },
+  footer: { paddingTop: 12, borderTopWidth: 1 },
+  saveBtn: { paddingVertical: 14, borderRadius: 999, alignItems: "center" },
+  saveBtnText: { color: "#fff", fontWeight: "900", fontSize: 15 },
+});
@@ -0,0 +1,287 @@
+// components/LocationStockCard.tsx
+// "Locations" card shared by the item, toner and radio part detail screens.
+// Shows the per-location breakdown of the stock total, lets the user pick the
+// location that stock adjustments apply to, and moves stock between
+// locations (applyLocationTransfer in utils/stockMovements.ts). Transfers to
+// other sites start from here too (app/transfers/new.tsx).
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { onSnapshot } from "firebase/firestore";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { auth } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import {
+  applyLocationTransfer,
+  defaultLocation,
+  getLocationStock,
+  LocationStock,
+  StockItemType,
+  stockDocRef,
+} from "../utils/stockMovements";
+
+type LocationStockCardProps = {
+  itemType: StockItemType;
+  itemId: string;
+  // Location stock adjustments on the screen apply to; null = default rules
+  selected: string | null;
+  onSelect: (location: string | null) => void;
+  onTransferred?: (message: string) => void;
+};
+
+export function LocationStockCard({ itemType, itemId, selected, onSelect, onTransferred }: LocationStockCardProps) {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const { profile } = useUserProfile();
+
+  const [buckets, setBuckets] = useState<LocationStock>({});
+  const [defaultLoc, setDefaultLoc] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [fromLocation, setFromLocation] = useState("");
+  const [toLocation, setToLocation] = useState("");
+  const [transferQty, setTransferQty] = useState("1");
+  const [transferError, setTransferError] = useState<string | null>(null);
+  const [transferring, setTransferring] = useState(false);
+
+  useEffect(() => {
+    if (!itemId) return;
+    const unsub = onSnapshot(
+      stockDocRef(itemType, itemId),
+      (snap) => {
+        if (snap.exists()) {
+          const data = snap.data();
+          setBuckets(getLocationStock(data, itemType));
+          setDefaultLoc(defaultLocation(data));
+        }
+        setLoading(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading location stock:", err);
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [itemType, itemId]);
+
+  const locations = useMemo(
+    () => Object.entries(buckets).sort((a, b) => b[1] - a[1]),
+    [buckets]
+  );
+
+  // A location picked for adjustments that has since been emptied out is
+  // still valid for additions, so keep it selectable.
+  const selectable = useMemo(() => {
+    const names = locations.map(([name]) => name);
+    if (selected && !names.includes(selected)) names.push(selected);
+    return names;
+  }, [locations, selected]);
+
+  const openTransfer = () => {
+    setFromLocation(selected && buckets[selected] ? selected : locations[0]?.[0] ?? "");
+    setToLocation("");
+    setTransferQty("1");
+    setTransferError(null);
+    setShowTransfer(true);
+  };
+
+  const handleTransfer = async () => {
+    const qty = parseInt(transferQty) || 0;
+    setTransferring(true);
+    setTransferError(null);
+    try {
+      const user = auth.currentUser;
+      await applyLocationTransfer({
+        itemType,
+        itemId,
+        fromLocation,
+        toLocation,
+        qty,
+        by: profile?.name || user?.displayName || user?.email || "Unknown",
+      });
+      setShowTransfer(false);
+      onTransferred?.(`✓ Moved ${qty} to ${toLocation.trim()}`);
+    } catch (err: any) {
+      setTransferError(err?.message || "Failed to move stock.");
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const destinationOptions = locations.map(([name]) => name).filter((name) => name !== fromLocation);
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Locations</Text>
+        {locations.length > 0 && (
+          <Pressable onPress={openTransfer} hitSlop={8} style={styles.headerAction}>
+            <Ionicons name="swap-horizontal" size={16} color={theme.primary} />
+            <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 13, marginLeft: 4 }}>Transfer</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.centerSmall}>
+          <ActivityIndicator />
+        </View>
+      ) : locations.length === 0 ? (
+        <Text style={[styles.hint, { color: theme.mutedText }]}>
+          No stock on hand. Additions go to {selected || defaultLoc}.
+        </Text>
+      ) : (
+        <>
+          {selectable.map((name) => {
+            const active = selected === name;
+            return (
+              <Pressable
+                key={name}
+                onPress={() => onSelect(active ? null : name)}
+                style={[
+                  styles.locationRow,
+                  { borderColor: active ? theme.primary : theme.border },
+                  active && { backgroundColor: theme.primary + "15" },
+                ]}
+              >
+                <Ionicons
+                  name={active ? "radio-button-on" : "radio-button-off"}
+                  size={16}
+                  color={active ? theme.primary : theme.mutedText}
+                />
+                <Text style={[styles.locationName, { color: theme.text }]} numberOfLines={1}>
+                  {name}
+                  {name === defaultLoc ? <Text style={{ color: theme.mutedText, fontWeight: "600" }}> · default</Text> : null}
+                </Text>
+                <Text style={[styles.locationQty, { color: theme.text }]}>{buckets[name] ?? 0}</Text>
+              </Pressable>
+            );
+          })}
+          <Text style={[styles.hint, { color: theme.mutedText }]}>
+            {selected
+              ? `Stock changes apply to ${selected}.`
+              : `Tap a location to adjust its stock. Otherwise removals start at ${defaultLoc}.`}
+          </Text>
+        </>
+      )}
+
+      <Pressable
+        onPress={() => router.push({ pathname: "/transfers/new", params: { itemType, itemId } })}
+        style={styles.siteTransferLink}
+      >
+        <Ionicons name="business-outline" size={15} color={theme.primary} />
+        <Text style={{ color: theme.primary, fontWeight: "800", fontSize: 13, marginLeft: 6 }}>
+          Send to or request from another site
+        </Text>
+      </Pressable>
+
+      <Modal visible={showTransfer} transparent animationType="fade" onRequestClose={() => !transferring && setShowTransfer(false)}>
+        <View style={styles.backdrop}>
+          <View style={[styles.modalCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Transfer stock</Text>
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>From</Text>
+            <View style={styles.chipRow}>
+              {locations.map(([name, qty]) => {
+                const active = fromLocation === name;
+                return (
+                  <Pressable
+                    key={name}
+                    onPress={() => setFromLocation(name)}
+                    style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : "transparent" }]}
+                  >
+                    <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>
+                      {name} ({qty})
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>To</Text>
+            {destinationOptions.length > 0 && (
+              <View style={styles.chipRow}>
+                {destinationOptions.map((name) => {
+                  const active = toLocation === name;
+                  return (
+                    <Pressable
+                      key={name}
+                      onPress={() => setToLocation(name)}
+                      style={[styles.chip, { borderColor: active ? theme.primary : theme.border, backgroundColor: active ? theme.primary : "transparent" }]}
+                    >
+                      <Text style={{ color: active ? "#fff" : theme.text, fontSize: 12, fontWeight: "700" }}>{name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+            <TextInput
+              style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+              placeholder="Or type a new location"
+              placeholderTextColor={theme.mutedText}
+              value={destinationOptions.includes(toLocation) ? "" : toLocation}
+              onChangeText={setToLocation}
+              editable={!transferring}
+            />
+
+            <Text style={[styles.fieldLabel, { color: theme.mutedText }]}>Quantity</Text>
+            <TextInput
+              style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+              keyboardType="number-pad"
+              value={transferQty}
+              onChangeText={(v) => setTransferQty(v.replace(/[^0-9]/g, ""))}
+              editable={!transferring}
+            />
+
+            {transferError ? <Text style={[styles.hint, { color: theme.danger }]}>{transferError}</Text> : null}
+
+            <View style={styles.modalActions}>
+              <Pressable onPress={() => setShowTransfer(false)} disabled={transferring} style={styles.modalButton}>
+                <Text style={{ color: theme.mutedText, fontWeight: "700" }}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleTransfer}
+                disabled={transferring}
+                style={[styles.modalButton, { backgroundColor: theme.primary, borderRadius: 999 }, transferring && { opacity: 0.6 }]}
+              >
+                {transferring ? <ActivityIndicator color="#fff" /> : <Text style={{ color: "#fff", fontWeight: "900" }}>Move</Text>}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  headerRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 8 },
+  headerAction: { flexDirection: "row", alignItems: "center" },
+  sectionTitle: { fontSize: 16, fontWeight: "800" },
+  centerSmall: { marginTop: 8, alignItems: "center" },
+  hint: { fontSize: 12, marginTop: 8 },
+  siteTransferLink: { flexDirection: "row", alignItems: "center", marginTop: 12 },
+  locationRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 9, paddingHorizontal: 10, borderRadius: 10, borderWidth: 1, marginTop: 6 },
+  locationName: { flex: 1, fontSize: 14, fontWeight: "700" },
+  locationQty: { fontSize: 15, fontWeight: "900" },
+  backdrop: { flex: 1, backgroundColor: "rgba(0,0,0,0.5)", justifyContent: "center", padding: 24 },
+  modalCard: { borderRadius: 16, borderWidth: 1, padding: 18 },
+  fieldLabel: { fontSize: 12, fontWeight: "700", marginTop: 12, marginBottom: 6 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 6, marginBottom: 6 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, borderWidth: 1 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 10, paddingVertical: 8, fontSize: 14 },
+  modalActions: { flexDirection: "row", justifyContent: "flex-end", alignItems: "center", gap: 12, marginTop: 16 },
+  modalButton: { paddingVertical: 9, paddingHorizontal: 18, alignItems: "center" },
+});
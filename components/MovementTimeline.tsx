@@ -0,0 +1,196 @@
+// components/MovementTimeline.tsx
+// "Recent movements" card shared by the item, toner and radio part detail
+// screens. Listens to the append-only movements subcollection written by
+// applyStockMovement (utils/stockMovements.ts).
+import { useRouter } from "expo-router";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { db } from "../firebaseConfig";
+import { MovementReference, STOCK_SOURCES, StockItemType } from "../utils/stockMovements";
+
+export interface Movement {
+  id: string;
+  type: "in" | "out" | "disposal" | "transfer" | "count" | string;
+  delta: number;
+  previousQuantity: number;
+  newQuantity: number;
+  by: string;
+  note?: string | null;
+  createdAt?: any;
+  isLowStock?: boolean;
+  location?: string | null;
+  reference?: MovementReference | null;
+  // transfers only
+  quantity?: number;
+  fromLocation?: string;
+  toLocation?: string;
+}
+
+type MovementTimelineProps = {
+  itemType: StockItemType;
+  itemId: string;
+  max?: number;
+};
+
+// Cycle counts have no screen of their own; their label is shown as plain text
+const REFERENCE_ROUTES: Partial<Record<MovementReference["type"], string>> = {
+  purchaseOrder: "/purchase-orders/",
+  siteTransfer: "/transfers/",
+  radioRepair: "/radios/repairs/",
+  printer: "/Printers/",
+};
+
+const formatMovementTime = (m: Movement) => {
+  const ts = m.createdAt;
+  if (!ts || !ts.toDate) return "";
+  const d = ts.toDate() as Date;
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export function MovementTimeline({ itemType, itemId, max = 15 }: MovementTimelineProps) {
+  const theme = useAppTheme();
+  const router = useRouter();
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!itemId) return;
+
+    const movementsRef = collection(db, STOCK_SOURCES[itemType].collection, itemId, "movements");
+    const q = query(movementsRef, orderBy("createdAt", "desc"), limit(max));
+
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        const list: Movement[] = [];
+        snap.forEach((docSnap) => {
+          const d = docSnap.data() as any;
+          list.push({
+            id: docSnap.id,
+            type: d.type || "out",
+            delta: d.delta ?? 0,
+            previousQuantity: d.previousQuantity ?? 0,
+            newQuantity: d.newQuantity ?? 0,
+            by: d.by || "Unknown",
+            note: d.note ?? null,
+            createdAt: d.createdAt ?? null,
+            isLowStock: d.isLowStock ?? undefined,
+            location: d.location ?? null,
+            reference: d.reference ?? null,
+            quantity: d.quantity ?? undefined,
+            fromLocation: d.fromLocation ?? undefined,
+            toLocation: d.toLocation ?? undefined,
+          });
+        });
+        setMovements(list);
+        setLoading(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading movements:", err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsub();
+  }, [itemType, itemId, max]);
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Text style={[styles.sectionTitle, { color: theme.text }]}>Recent movements</Text>
+
+      {loading ? (
+        <View style={styles.centerSmall}>
+          <ActivityIndicator />
+        </View>
+      ) : movements.length === 0 ? (
+        <Text style={[styles.noMovementsText, { color: theme.mutedText }]}>
+          No movements logged yet.
+        </Text>
+      ) : (
+        movements.map((m) => {
+          const isTransfer = m.type === "transfer";
+          const isOut = m.type === "out" || m.delta < 0;
+          const isDisposal = m.type === "disposal";
+          const isCount = m.type === "count";
+          return (
+            <View key={m.id} style={styles.movementRow}>
+              <View
+                style={[
+                  styles.movementPill,
+                  isTransfer
+                    ? styles.movementTransfer
+                    : isDisposal
+                    ? { backgroundColor: "rgba(249, 115, 22, 0.25)" }
+                    : isCount
+                    ? { backgroundColor: "rgba(14, 165, 233, 0.25)" }
+                    : isOut
+                    ? styles.movementOut
+                    : styles.movementIn,
+                ]}
+              >
+                <Text style={[styles.movementPillText, { color: theme.text }]}>
+                  {isTransfer ? "MOVE" : isDisposal ? "DISPOSE" : isCount ? "COUNT" : isOut ? "OUT" : "IN"}
+                </Text>
+              </View>
+
+              <View style={{ flex: 1 }}>
+                {isTransfer ? (
+                  <Text style={[styles.movementMain, { color: theme.text }]}>
+                    {m.by || "Unknown"} • {m.quantity ?? 0} • {m.fromLocation} → {m.toLocation}
+                  </Text>
+                ) : (
+                  <Text style={[styles.movementMain, { color: theme.text }]}>
+                    {m.by || "Unknown"} • {isOut || isDisposal ? m.delta : `+${m.delta}`} •
+                    New: {m.newQuantity}
+                    {m.location ? ` • ${m.location}` : ""}
+                  </Text>
+                )}
+
+                {m.note ? (
+                  <Text style={[styles.movementNote, { color: theme.mutedText }]}>{m.note}</Text>
+                ) : null}
+
+                {m.reference && REFERENCE_ROUTES[m.reference.type] ? (
+                  <Pressable onPress={() => router.push(`${REFERENCE_ROUTES[m.reference!.type]}${m.reference!.id}` as any)} hitSlop={6}>
+                    <Text style={[styles.movementReference, { color: theme.primary }]}>{m.reference.label}</Text>
+                  </Pressable>
+                ) : m.reference ? (
+                  <Text style={[styles.movementReference, { color: theme.mutedText }]}>{m.reference.label}</Text>
+                ) : null}
+
+                <Text style={[styles.movementTime, { color: theme.mutedText }]}>
+                  {formatMovementTime(m)}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 16, padding: 16, marginBottom: 12, borderWidth: 1 },
+  sectionTitle: { fontSize: 16, fontWeight: "800", marginBottom: 8 },
+  centerSmall: { marginTop: 8, alignItems: "center" },
+  noMovementsText: { fontSize: 13, marginTop: 8 },
+  movementRow: { flexDirection: "row", alignItems: "flex-start", marginTop: 8 },
+  movementPill: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999, marginRight: 8, marginTop: 2 },
+  movementOut: { backgroundColor: "rgba(239, 68, 68, 0.25)" },
+  movementIn: { backgroundColor: "rgba(34, 197, 94, 0.25)" },
+  movementTransfer: { backgroundColor: "rgba(59, 130, 246, 0.25)" },
+  movementPillText: { fontSize: 11, fontWeight: "800" },
+  movementMain: { fontSize: 13, fontWeight: "700" },
+  movementNote: { fontSize: 12 },
+  movementReference: { fontSize: 12, fontWeight: "700" },
+  movementTime: { fontSize: 11, marginTop: 1 },
+});
@@ -0,0 +1,171 @@
+// components/PrinterCostCard.tsx
+// "Toner & Cost" card on the printer screen: toner used against this printer
+// over the last year, pages printed between page count readings, cost per
+// page from the toners' unit cost, and a field to record the page counter
+// from the printer's config page (utils/printerCosts.ts).
+import { Ionicons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { auth } from "../firebaseConfig";
+import { useUserProfile } from "../hooks/useUserProfile";
+import { Printer, PrinterPageCount } from "../types/inventory";
+import {
+  formatCost,
+  formatCostPerPage,
+  loadPrinterCosts,
+  PRINTER_COST_WINDOW_DAYS,
+  PrinterCostSummary,
+  PrinterTonerUse,
+  recordPageCount,
+} from "../utils/printerCosts";
+
+const RECENT_USES = 5;
+
+export function PrinterCostCard({ printer }: { printer: Pick<Printer, "id" | "name" | "siteId"> }) {
+  const theme = useAppTheme();
+  const { profile } = useUserProfile();
+  const [summary, setSummary] = useState<PrinterCostSummary | null>(null);
+  const [uses, setUses] = useState<PrinterTonerUse[]>([]);
+  const [readings, setReadings] = useState<PrinterPageCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pageCountText, setPageCountText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const since = new Date(Date.now() - PRINTER_COST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const result = await loadPrinterCosts(printer, since);
+      setSummary(result.summary);
+      setUses(result.uses);
+      setReadings(result.readings);
+    } catch (err) {
+      if (__DEV__) console.error("Error loading printer costs:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [printer]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const savePageCount = async () => {
+    const value = Number(pageCountText.replace(/[,\s]/g, ""));
+    const last = readings[readings.length - 1];
+    const save = async () => {
+      setSaving(true);
+      try {
+        const user = auth.currentUser;
+        await recordPageCount({
+          printer,
+          pageCount: value,
+          by: profile?.name || user?.displayName || user?.email || "Unknown",
+        });
+        setPageCountText("");
+        await load();
+      } catch (err: any) {
+        Alert.alert("Error", err?.message || "Failed to save page count.");
+      } finally {
+        setSaving(false);
+      }
+    };
+    if (last && value < last.pageCount) {
+      Alert.alert(
+        "Lower than last reading",
+        `The last reading was ${last.pageCount.toLocaleString()}. Save anyway (e.g. the counter was reset)?`,
+        [{ text: "Cancel", style: "cancel" }, { text: "Save", onPress: save }]
+      );
+      return;
+    }
+    save();
+  };
+
+  const lastReading = readings[readings.length - 1];
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 10 }}>Last {PRINTER_COST_WINDOW_DAYS} days</Text>
+
+      {loading ? (
+        <ActivityIndicator color={theme.text} />
+      ) : (
+        <>
+          <View style={styles.statsRow}>
+            <Stat label="Toners used" value={String(summary?.tonersUsed ?? 0)} />
+            <Stat label="Toner spend" value={formatCost(summary?.tonerCost ?? 0)} />
+            <Stat label="Pages" value={summary?.pagesPrinted != null ? summary.pagesPrinted.toLocaleString() : "—"} />
+            <Stat label="Cost / page" value={formatCostPerPage(summary?.costPerPage ?? null)} />
+          </View>
+          {!!summary?.unpricedToners && (
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 8 }}>
+              {summary.unpricedToners} toner{summary.unpricedToners === 1 ? "" : "s"} without a unit cost (set it on the toner).
+            </Text>
+          )}
+          {summary?.pagesPrinted == null && (
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 8 }}>
+              Cost per page needs at least two page count readings.
+            </Text>
+          )}
+
+          {uses.slice(0, RECENT_USES).map((u) => (
+            <View key={u.id} style={[styles.useRow, { borderTopColor: theme.border }]}>
+              <Ionicons name="remove-circle" size={16} color="#f97316" />
+              <Text style={{ color: theme.text, fontSize: 13, flex: 1 }} numberOfLines={1}>
+                {u.qty} × {u.tonerName}
+              </Text>
+              <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                {u.by ? `${u.by} • ` : ""}{u.at ? u.at.toLocaleDateString() : ""}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={[styles.fieldLabel, { color: theme.text }]}>Record page count</Text>
+      <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 6 }}>
+        {lastReading
+          ? `Last: ${lastReading.pageCount.toLocaleString()}${lastReading.recordedAt?.toDate ? ` on ${lastReading.recordedAt.toDate().toLocaleDateString()}` : ""}${lastReading.source === "agent" ? " (agent)" : ""}`
+          : "From the printer's configuration page or display."}
+      </Text>
+      <View style={{ flexDirection: "row", gap: 8 }}>
+        <TextInput
+          style={[styles.input, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]}
+          keyboardType="number-pad"
+          placeholder="Total pages"
+          placeholderTextColor={theme.mutedText}
+          value={pageCountText}
+          onChangeText={setPageCountText}
+        />
+        <Pressable
+          style={[styles.saveBtn, { backgroundColor: theme.primary }, (saving || !pageCountText.trim()) && { opacity: 0.5 }]}
+          onPress={savePageCount}
+          disabled={saving || !pageCountText.trim()}
+        >
+          {saving ? <ActivityIndicator size="small" color="#fff" /> : <Text style={styles.saveBtnText}>Save</Text>}
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  const theme = useAppTheme();
+  return (
+    <View style={{ flex: 1 }}>
+      <Text style={{ color: theme.text, fontSize: 15, fontWeight: "900" }} numberOfLines={1}>{value}</Text>
+      <Text style={{ color: theme.mutedText, fontSize: 11, marginTop: 2 }}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 16, padding: 16, marginBottom: 20, borderWidth: 1 },
+  statsRow: { flexDirection: "row", gap: 8 },
+  useRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingTop: 8, marginTop: 8, borderTopWidth: 1 },
+  fieldLabel: { fontSize: 13, marginTop: 16, marginBottom: 2, fontWeight: "700" },
+  input: { flex: 1, borderRadius: 10, borderWidth: 1, paddingHorizontal: 10, paddingVertical: 8, fontSize: 14 },
+  saveBtn: { paddingHorizontal: 18, borderRadius: 10, alignItems: "center", justifyContent: "center" },
+  saveBtnText: { color: "#fff", fontWeight: "900" },
+});
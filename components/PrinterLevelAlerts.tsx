@@ -0,0 +1,72 @@
+// components/PrinterLevelAlerts.tsx
+// "Toner nearly empty" rows for the Alerts tab, from the live SNMP readings in
+// printerStatus (utils/printerStatus.ts). Unlike stock alerts these clear on
+// their own once the cartridge is swapped and the agent reads it again.
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { useAppTheme } from "../constants/theme";
+import { PrinterStatus } from "../types/inventory";
+import { levelColor, nearlyEmptySupplies, subscribeSitePrinterStatus } from "../utils/printerStatus";
+
+export function PrinterLevelAlerts({ siteId }: { siteId: string | null | undefined }) {
+  const theme = useAppTheme();
+  const [statusByPrinter, setStatusByPrinter] = useState<Record<string, PrinterStatus>>({});
+
+  useEffect(() => {
+    if (!siteId) {
+      setStatusByPrinter({});
+      return;
+    }
+    return subscribeSitePrinterStatus(siteId, setStatusByPrinter);
+  }, [siteId]);
+
+  const low = Object.values(statusByPrinter)
+    .map((status) => ({ status, supplies: nearlyEmptySupplies(status) }))
+    .filter((p) => p.supplies.length > 0)
+    .sort((a, b) => (a.status.lowestTonerPercent ?? 0) - (b.status.lowestTonerPercent ?? 0));
+
+  if (!low.length) return null;
+
+  return (
+    <View style={{ paddingHorizontal: 16, paddingBottom: 8 }}>
+      <Text style={[styles.heading, { color: theme.mutedText }]}>TONER NEARLY EMPTY</Text>
+      {low.map(({ status, supplies }) => (
+        <Pressable
+          key={status.id}
+          onPress={() => router.push({ pathname: "/Printers/[id]" as any, params: { id: status.printerId } })}
+          style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}
+        >
+          <Ionicons name="print-outline" size={18} color="#ef4444" />
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>
+              {status.printerName || "Printer"}
+            </Text>
+            <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }} numberOfLines={1}>
+              {supplies.map((s) => s.description).join(", ")}
+            </Text>
+          </View>
+          <Text style={{ color: levelColor(status.lowestTonerPercent ?? null), fontWeight: "900" }}>
+            {status.lowestTonerPercent ?? "—"}%
+          </Text>
+          <Ionicons name="chevron-forward" size={16} color={theme.mutedText} />
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  heading: { fontSize: 11, fontWeight: "800", letterSpacing: 0.5, marginBottom: 6 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+});
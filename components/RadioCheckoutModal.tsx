@@ -0,0 +1,143 @@
+// components/RadioCheckoutModal.tsx
+// Checkout form for one radio: who takes it, for which shift, and when it is
+// due back (utils/radioCustody.ts). ShiftFields is shared with the shift scan
+// session so both pick the holder and due time the same way.
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+
+import inventoryStyles from "../constants/inventoryStyles";
+import { useAppTheme } from "../constants/theme";
+import { Radio, RadioShift } from "../types/inventory";
+import { checkoutRadio, expectedReturnFor, formatCustodyTime, radioLabel, SHIFT_PRESETS } from "../utils/radioCustody";
+
+export type ShiftForm = { holder: string; shift: RadioShift; hours: string; note: string };
+
+export const EMPTY_SHIFT_FORM: ShiftForm = { holder: "", shift: "day", hours: "8", note: "" };
+
+/** Due time for the form as it stands, from now. */
+export const shiftFormDue = (form: ShiftForm) => expectedReturnFor(form.shift, new Date(), Number(form.hours) || 8);
+
+export function ShiftFields({ form, onChange }: { form: ShiftForm; onChange: (form: ShiftForm) => void }) {
+  const theme = useAppTheme();
+  const inputStyle = [inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }];
+  const due = shiftFormDue(form);
+
+  return (
+    <>
+      <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Taken by *</Text>
+      <TextInput
+        style={inputStyle}
+        placeholder="e.g. Officer J. Smith"
+        placeholderTextColor={theme.mutedText}
+        value={form.holder}
+        onChangeText={(v) => onChange({ ...form, holder: v })}
+      />
+
+      <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Shift</Text>
+      <View style={styles.chipRow}>
+        {SHIFT_PRESETS.map((p) => {
+          const active = form.shift === p.value;
+          return (
+            <Pressable
+              key={p.value}
+              onPress={() => onChange({ ...form, shift: p.value })}
+              style={[styles.chip, { borderColor: active ? theme.tint : theme.border, backgroundColor: active ? theme.tint + "22" : theme.card }]}
+            >
+              <Text style={{ color: active ? theme.tint : theme.mutedText, fontWeight: "700", fontSize: 13 }}>{p.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      {form.shift === "custom" && (
+        <>
+          <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Hours</Text>
+          <TextInput
+            style={inputStyle}
+            keyboardType="number-pad"
+            placeholder="8"
+            placeholderTextColor={theme.mutedText}
+            value={form.hours}
+            onChangeText={(v) => onChange({ ...form, hours: v })}
+          />
+        </>
+      )}
+      <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 12 }}>
+        Due back {due.toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })}
+      </Text>
+
+      <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Note</Text>
+      <TextInput
+        style={inputStyle}
+        placeholder="e.g. Post 4, spare battery"
+        placeholderTextColor={theme.mutedText}
+        value={form.note}
+        onChangeText={(v) => onChange({ ...form, note: v })}
+      />
+    </>
+  );
+}
+
+type RadioCheckoutModalProps = {
+  radio: Radio | null;
+  by: string;
+  onClose: () => void;
+};
+
+export function RadioCheckoutModal({ radio, by, onClose }: RadioCheckoutModalProps) {
+  const theme = useAppTheme();
+  const [form, setForm] = useState<ShiftForm>(EMPTY_SHIFT_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (radio) setForm(EMPTY_SHIFT_FORM);
+  }, [radio]);
+
+  const save = async () => {
+    if (!radio) return;
+    setSaving(true);
+    try {
+      const checkout = await checkoutRadio({
+        radioId: radio.id,
+        holder: form.holder,
+        shift: form.shift,
+        expectedReturnAt: shiftFormDue(form),
+        by,
+        note: form.note,
+      });
+      Alert.alert("Checked Out", `${checkout.radioLabel} → ${checkout.holder}\nDue ${formatCustodyTime(checkout.expectedReturnAt)}`);
+      onClose();
+    } catch (err: any) {
+      Alert.alert("Checkout Failed", err?.message || "Could not check out this radio.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!radio} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
+        <View style={inventoryStyles.modalHeader}>
+          <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Check Out Radio</Text>
+          <Pressable onPress={onClose}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+        </View>
+        <ScrollView keyboardShouldPersistTaps="handled">
+          {radio && <Text style={{ color: theme.text, fontSize: 16, fontWeight: "800", marginBottom: 12 }}>{radioLabel(radio)}</Text>}
+          <ShiftFields form={form} onChange={setForm} />
+          <Pressable
+            style={[inventoryStyles.saveBtn, { backgroundColor: theme.primary, opacity: saving || !form.holder.trim() ? 0.6 : 1 }]}
+            onPress={save}
+            disabled={saving || !form.holder.trim()}
+          >
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={inventoryStyles.saveBtnText}>Check Out</Text>}
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: { flexDirection: "row", gap: 8, flexWrap: "wrap", marginBottom: 10 },
+  chip: { paddingHorizontal: 14, paddingVertical: 7, borderRadius: 999, borderWidth: 1 },
+});
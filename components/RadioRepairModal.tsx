@@ -0,0 +1,92 @@
+// components/RadioRepairModal.tsx
+// Report form for a broken radio: what is wrong and which tech has it. Opens
+// a repair ticket through utils/radioRepairs.ts, which takes the radio out
+// of service until the ticket is closed.
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+
+import inventoryStyles from "../constants/inventoryStyles";
+import { useAppTheme } from "../constants/theme";
+import { Radio, RadioRepair } from "../types/inventory";
+import { radioLabel } from "../utils/radioCustody";
+import { reportRadioRepair } from "../utils/radioRepairs";
+
+type RadioRepairModalProps = {
+  radio: Radio | null;
+  by: string;
+  onClose: () => void;
+  onReported?: (repair: RadioRepair) => void;
+};
+
+export function RadioRepairModal({ radio, by, onClose, onReported }: RadioRepairModalProps) {
+  const theme = useAppTheme();
+  const [issue, setIssue] = useState("");
+  const [tech, setTech] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (radio) { setIssue(""); setTech(""); }
+  }, [radio]);
+
+  const inputStyle = [inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }];
+
+  const save = async () => {
+    if (!radio) return;
+    setSaving(true);
+    try {
+      const repair = await reportRadioRepair({ radioId: radio.id, issue, tech, by });
+      onClose();
+      onReported?.(repair);
+    } catch (err: any) {
+      Alert.alert("Report Failed", err?.message || "Could not open a repair ticket.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!radio} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
+        <View style={inventoryStyles.modalHeader}>
+          <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Report Repair</Text>
+          <Pressable onPress={onClose}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+        </View>
+        <ScrollView keyboardShouldPersistTaps="handled">
+          {radio && <Text style={{ color: theme.text, fontSize: 16, fontWeight: "800", marginBottom: 12 }}>{radioLabel(radio)}</Text>}
+
+          <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Issue *</Text>
+          <TextInput
+            style={[inputStyle, { height: 80, textAlignVertical: "top" }]}
+            placeholder="e.g. No transmit, cracked antenna"
+            placeholderTextColor={theme.mutedText}
+            multiline
+            value={issue}
+            onChangeText={setIssue}
+          />
+
+          <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Assigned tech</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="e.g. R. Alvarez"
+            placeholderTextColor={theme.mutedText}
+            value={tech}
+            onChangeText={setTech}
+          />
+
+          <Text style={{ color: theme.mutedText, fontSize: 12, marginBottom: 12 }}>
+            The radio is marked Out of Service until the ticket is closed.
+          </Text>
+
+          <Pressable
+            style={[inventoryStyles.saveBtn, { backgroundColor: theme.primary, opacity: saving || !issue.trim() ? 0.6 : 1 }]}
+            onPress={save}
+            disabled={saving || !issue.trim()}
+          >
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={inventoryStyles.saveBtnText}>Open Ticket</Text>}
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
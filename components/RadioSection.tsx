@@ -1,7 +1,4 @@
 import { Ionicons } from "@expo/vector-icons";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system/legacy";
-import * as Sharing from "expo-sharing";
 import { useRouter } from "expo-router";
 import {
   addDoc,
@@ -13,7 +10,6 @@ import {
   serverTimestamp,
   updateDoc,
   where,
-  writeBatch,
 } from "firebase/firestore";
 import React, {
   forwardRef,
@@ -37,8 +33,13 @@ import {
 import inventoryStyles from "../constants/inventoryStyles";
 import { useAppTheme } from "../constants/theme";
 import { db } from "../firebaseConfig";
-import { Radio, RadioPart, RadioSubTab } from "../types/inventory";
-import { normalizeCell, parseCSV, downloadRadioTemplate, downloadRadioPartTemplate } from "../utils/csvHelpers";
+import { Radio, RADIO_CONDITIONS, RadioCheckout, RadioPart, RadioSubTab } from "../types/inventory";
+import { downloadRadioTemplate, downloadRadioPartTemplate } from "../utils/csvHelpers";
+import { isOverdue } from "../utils/radioCustody";
+import { ImportEntity } from "../utils/importPipeline";
+import { chooseExportFormat, shareTable } from "../utils/spreadsheet";
+import { useCsvImport } from "../hooks/useCsvImport";
+import { ImportReportModal } from "./ImportReportModal";
 
 export interface RadioSectionRef {
   openRadioModal: (radio?: Radio) => void;
@@ -65,8 +66,8 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
   const [radioParts, setRadioParts] = useState<RadioPart[]>([]);
   const [radioSearch, setRadioSearch] = useState("");
   const [radioPartSearch, setRadioPartSearch] = useState("");
-  const [importingRadios, setImportingRadios] = useState(false);
-  const [importingRadioParts, setImportingRadioParts] = useState(false);
+  const [openCheckouts, setOpenCheckouts] = useState<Map<string, RadioCheckout>>(new Map());
+  const { importing, startImport, reportProps } = useCsvImport();
 
   const [showRadioModal, setShowRadioModal] = useState(false);
   const [editingRadio, setEditingRadio] = useState<Radio | null>(null);
@@ -93,7 +94,11 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
     const unsubParts = onSnapshot(qParts, (snap) => {
       setRadioParts(snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioPart)));
     });
-    return () => { unsubRadios(); unsubParts(); };
+    const qCheckouts = query(collection(db, "radioCheckouts"), where("siteId", "==", siteId), where("returnedAt", "==", null));
+    const unsubCheckouts = onSnapshot(qCheckouts, (snap) => {
+      setOpenCheckouts(new Map(snap.docs.map((d) => [d.id, { id: d.id, ...d.data() } as RadioCheckout])));
+    });
+    return () => { unsubRadios(); unsubParts(); unsubCheckouts(); };
   }, [siteId]);
 
   const filteredRadios = useMemo(() => {
@@ -137,8 +142,12 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
     if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
     const data = {
       model: radioForm.model.trim(), serialNumber: radioForm.serialNumber.trim(),
-      channel: radioForm.channel.trim(), assignedTo: radioForm.assignedTo.trim(),
-      location: radioForm.location.trim(), condition: radioForm.condition,
+      channel: radioForm.channel.trim(),
+      // While checked out, the holder comes from the checkout (utils/radioCustody.ts)
+      ...(editingRadio?.checkoutId ? {} : { assignedTo: radioForm.assignedTo.trim() }),
+      location: radioForm.location.trim(),
+      // While under repair, the condition is set when the ticket closes (utils/radioRepairs.ts)
+      ...(editingRadio?.repairId ? {} : { condition: radioForm.condition }),
       barcode: radioForm.barcode.trim(), notes: radioForm.notes.trim(),
       siteId,
     };
@@ -150,6 +159,8 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
   }, [radioForm, editingRadio, siteId]);
 
   const deleteRadio = useCallback((radio: Radio) => {
+    if (radio.checkoutId) { Alert.alert("Radio Checked Out", `Check ${radio.model} in from ${radio.assignedTo || "its holder"} before deleting it.`); return; }
+    if (radio.repairId) { Alert.alert("Radio In Repair", `Close the open repair ticket on ${radio.model} before deleting it.`); return; }
     Alert.alert("Delete Radio", `Remove ${radio.model}${radio.serialNumber ? ` (${radio.serialNumber})` : ""}?`, [
       { text: "Cancel", style: "cancel" },
       { text: "Delete", style: "destructive", onPress: async () => { try { await deleteDoc(doc(db, "radios", radio.id)); } catch (err: any) { Alert.alert("Error", err.message); } } },
@@ -190,150 +201,79 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
     ]);
   }, []);
 
-  const importRadiosFromCSV = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-      setImportingRadios(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = (names: string[]) => { for (const n of names) { const idx = headers.findIndex((h) => h.includes(n)); if (idx !== -1) return idx; } return -1; };
-      const iModel = col(["model", "name", "radio"]);
-      const iSerial = col(["serial", "serialnumber", "sn"]);
-      const iChannel = col(["channel", "chan"]);
-      const iAssigned = col(["assigned", "assignedto", "user", "person"]);
-      const iLocation = col(["location", "loc"]);
-      const iCondition = col(["condition", "status", "state"]);
-      const iNotes = col(["notes", "note"]);
-      if (iModel === -1) { Alert.alert("Import Failed", "Could not find a 'Model' or 'Name' column."); return; }
-      const VALID_CONDITIONS = ["Good", "Fair", "Poor", "Out of Service"];
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[iModel] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const model = normalizeCell(row[iModel] ?? "");
-          if (!model) continue;
-          const rawCondition = normalizeCell(row[iCondition] ?? "Good");
-          const condition = VALID_CONDITIONS.find((c) => c.toLowerCase() === rawCondition.toLowerCase()) || "Good";
-          const docRef = doc(db, "radios", `${siteId}_${model}_${normalizeCell(row[iSerial] ?? count.toString())}`
-            .toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100));
-          batch.set(docRef, { model, serialNumber: normalizeCell(row[iSerial] ?? ""), channel: normalizeCell(row[iChannel] ?? ""), assignedTo: normalizeCell(row[iAssigned] ?? ""), location: normalizeCell(row[iLocation] ?? ""), condition, notes: normalizeCell(row[iNotes] ?? ""), siteId, importedAt: new Date().toISOString() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} radio${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) {
-      Alert.alert("Import Failed", err.message || "An unexpected error occurred.");
-    } finally {
-      setImportingRadios(false);
-    }
-  };
-
-  const importRadioPartsFromCSV = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-      setImportingRadioParts(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = (names: string[]) => { for (const n of names) { const idx = headers.findIndex((h) => h.includes(n)); if (idx !== -1) return idx; } return -1; };
-      const iName = col(["name", "part", "item"]);
-      const iCompat = col(["compatible", "model", "compatiblemodel"]);
-      const iQty = col(["qty", "quantity", "amount", "stock"]);
-      const iMin = col(["min", "minimum", "minqty"]);
-      const iLocation = col(["location", "loc"]);
-      const iNotes = col(["notes", "note"]);
-      if (iName === -1) { Alert.alert("Import Failed", "Could not find a 'Name' or 'Part' column."); return; }
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[iName] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const name = normalizeCell(row[iName] ?? "");
-          if (!name) continue;
-          const docRef = doc(db, "radioParts", `${siteId}_${name}`.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100));
-          batch.set(docRef, { name, compatibleModel: normalizeCell(row[iCompat] ?? ""), quantity: parseInt(normalizeCell(row[iQty] ?? "")) || 0, minQuantity: parseInt(normalizeCell(row[iMin] ?? "")) || 0, location: normalizeCell(row[iLocation] ?? ""), notes: normalizeCell(row[iNotes] ?? ""), siteId, importedAt: new Date().toISOString() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} part${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) {
-      Alert.alert("Import Failed", err.message || "An unexpected error occurred.");
-    } finally {
-      setImportingRadioParts(false);
-    }
+  // CSV Import (validated and committed by the importRecords callable)
+  const importCSV = (entity: ImportEntity) => {
+    if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
+    startImport(entity);
   };
+  const importRadiosFromCSV = () => importCSV("radios");
+  const importRadioPartsFromCSV = () => importCSV("radioParts");
 
-  const exportRadiosToCSV = async () => {
+  const exportRadios = async () => {
     try {
       if (radios.length === 0) { Alert.alert("Nothing to export", "No radios to export."); return; }
-      const header = "Model,Serial Number,Channel,Assigned To,Location,Condition,Notes";
+      const format = await chooseExportFormat("Export Radios");
+      if (!format) return;
+      const headers = ["Model", "Serial Number", "Channel", "Assigned To", "Location", "Condition", "Notes"];
       const rows = radios.map((r) =>
         [r.model, r.serialNumber ?? "", r.channel ?? "", r.assignedTo ?? "", r.location ?? "", r.condition ?? "", r.notes ?? ""]
-          .map((v) => `"${String(v).replace(/"/g, '""')}"`)
-          .join(",")
       );
-      const csv = [header, ...rows].join("\n");
-      const uri = FileSystem.cacheDirectory + "radios_export.csv";
-      await FileSystem.writeAsStringAsync(uri, csv, { encoding: FileSystem.EncodingType.UTF8 });
-      await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle: "Export Radios CSV" });
+      await shareTable({ headers, rows, sheetName: "Radios" }, { fileName: "radios_export", format, dialogTitle: "Export Radios" });
     } catch (err: any) { Alert.alert("Export Failed", err.message || "An unexpected error occurred."); }
   };
 
-  const exportRadioPartsToCSV = async () => {
+  const exportRadioParts = async () => {
     try {
       if (radioParts.length === 0) { Alert.alert("Nothing to export", "No radio parts to export."); return; }
-      const header = "Name,Compatible Model,Quantity,Min Quantity,Location,Notes";
+      const format = await chooseExportFormat("Export Radio Parts");
+      if (!format) return;
+      const headers = ["Name", "Compatible Model", "Quantity", "Min Quantity", "Location", "Notes"];
       const rows = radioParts.map((p) =>
-        [p.name, p.compatibleModel ?? "", String(p.quantity), String(p.minQuantity ?? 0), p.location ?? "", p.notes ?? ""]
-          .map((v) => `"${String(v).replace(/"/g, '""')}"`)
-          .join(",")
+        [p.name, p.compatibleModel ?? "", p.quantity ?? 0, p.minQuantity ?? 0, p.location ?? "", p.notes ?? ""]
       );
-      const csv = [header, ...rows].join("\n");
-      const uri = FileSystem.cacheDirectory + "radio_parts_export.csv";
-      await FileSystem.writeAsStringAsync(uri, csv, { encoding: FileSystem.EncodingType.UTF8 });
-      await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle: "Export Radio Parts CSV" });
+      await shareTable({ headers, rows, sheetName: "Radio Parts" }, { fileName: "radio_parts_export", format, dialogTitle: "Export Radio Parts" });
     } catch (err: any) { Alert.alert("Export Failed", err.message || "An unexpected error occurred."); }
   };
 
-  const renderRadio = useCallback(({ item }: { item: Radio }) => (
-    <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
-      <Pressable onPress={() => openRadioModal(item)} style={{ flex: 1 }}>
-        <View style={{ flexDirection: "row", alignItems: "center", marginBottom: 2 }}>
-          <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{item.model}</Text>
-          {item.condition ? (
-            <View style={{ marginLeft: 8, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 999, backgroundColor: (CONDITION_COLOR[item.condition] ?? "#6b7280") + "22" }}>
-              <Text style={{ color: CONDITION_COLOR[item.condition] ?? "#6b7280", fontSize: 10, fontWeight: "700" }}>{item.condition}</Text>
+  const renderRadio = useCallback(({ item }: { item: Radio }) => {
+    const checkout = item.checkoutId ? openCheckouts.get(item.checkoutId) : undefined;
+    const overdue = !!checkout && isOverdue(checkout);
+    return (
+      <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: overdue ? theme.danger : theme.border }]}>
+        <Pressable onPress={() => openRadioModal(item)} style={{ flex: 1 }}>
+          <View style={{ flexDirection: "row", alignItems: "center", marginBottom: 2 }}>
+            <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{item.model}</Text>
+            {item.condition ? (
+              <View style={{ marginLeft: 8, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 999, backgroundColor: (CONDITION_COLOR[item.condition] ?? "#6b7280") + "22" }}>
+                <Text style={{ color: CONDITION_COLOR[item.condition] ?? "#6b7280", fontSize: 10, fontWeight: "700" }}>{item.condition}</Text>
+              </View>
+            ) : null}
+          </View>
+          {item.serialNumber ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>S/N: {item.serialNumber}</Text> : null}
+          {item.channel ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>Ch: {item.channel}</Text> : null}
+          {item.checkoutId ? (
+            <Text style={{ color: overdue ? theme.danger : theme.warning, fontSize: 12, fontWeight: "700" }}>
+              {overdue ? "Overdue" : "Out"}: {checkout?.holder ?? item.assignedTo ?? "Unknown"}
+            </Text>
+          ) : item.assignedTo ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>Assigned: {item.assignedTo}</Text> : null}
+          {item.repairId ? <Text style={{ color: theme.warning, fontSize: 12, fontWeight: "700" }}>In repair</Text> : null}
+          {item.location ? (
+            <View style={{ flexDirection: "row", alignItems: "center", marginTop: 2 }}>
+              <Ionicons name="location-outline" size={12} color={theme.mutedText} style={{ marginRight: 3 }} />
+              <Text style={{ color: theme.mutedText, fontSize: 12 }}>{item.location}</Text>
             </View>
           ) : null}
-        </View>
-        {item.serialNumber ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>S/N: {item.serialNumber}</Text> : null}
-        {item.channel ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>Ch: {item.channel}</Text> : null}
-        {item.assignedTo ? <Text style={{ color: theme.mutedText, fontSize: 12 }}>Assigned: {item.assignedTo}</Text> : null}
-        {item.location ? (
-          <View style={{ flexDirection: "row", alignItems: "center", marginTop: 2 }}>
-            <Ionicons name="location-outline" size={12} color={theme.mutedText} style={{ marginRight: 3 }} />
-            <Text style={{ color: theme.mutedText, fontSize: 12 }}>{item.location}</Text>
-          </View>
-        ) : null}
-        {item.notes ? <Text style={{ color: theme.mutedText, fontSize: 11, fontStyle: "italic", marginTop: 3 }} numberOfLines={1}>{item.notes}</Text> : null}
-      </Pressable>
-      <Pressable onPress={() => deleteRadio(item)} hitSlop={8} style={{ padding: 6 }}>
-        <Ionicons name="trash-outline" size={20} color="#ef4444" />
-      </Pressable>
-    </View>
-  ), [theme, openRadioModal, deleteRadio]);
+          {item.notes ? <Text style={{ color: theme.mutedText, fontSize: 11, fontStyle: "italic", marginTop: 3 }} numberOfLines={1}>{item.notes}</Text> : null}
+        </Pressable>
+        <Pressable onPress={() => router.push({ pathname: "/radios/[id]" as any, params: { id: item.id } })} hitSlop={8} style={{ padding: 6 }}>
+          <Ionicons name="time-outline" size={20} color={theme.mutedText} />
+        </Pressable>
+        <Pressable onPress={() => deleteRadio(item)} hitSlop={8} style={{ padding: 6 }}>
+          <Ionicons name="trash-outline" size={20} color="#ef4444" />
+        </Pressable>
+      </View>
+    );
+  }, [theme, router, openCheckouts, openRadioModal, deleteRadio]);
 
   const renderRadioPart = useCallback(({ item }: { item: RadioPart }) => (
     <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
@@ -403,20 +343,20 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
               <View style={{ flexDirection: "row", gap: 10, marginBottom: 10 }}>
                 <Pressable
                   onPress={importRadiosFromCSV}
-                  disabled={importingRadios}
+                  disabled={importing === "radios"}
                   style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}
                 >
-                  {importingRadios
+                  {importing === "radios"
                     ? <ActivityIndicator size="small" color={theme.text} />
                     : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>
                   }
                 </Pressable>
                 <Pressable
-                  onPress={exportRadiosToCSV}
+                  onPress={exportRadios}
                   style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}
                 >
                   <Ionicons name="cloud-download-outline" size={16} color={theme.text} style={{ marginRight: 6 }} />
-                  <Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Export CSV</Text>
+                  <Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Export</Text>
                 </Pressable>
                 <Pressable
                   onPress={() => downloadRadioTemplate().catch((e) => Alert.alert("Error", e.message))}
@@ -425,6 +365,15 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
                   <Ionicons name="document-outline" size={18} color={theme.text} />
                 </Pressable>
               </View>
+              <Pressable
+                onPress={() => router.push("/radios/custody" as any)}
+                style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, marginBottom: 10 }]}
+              >
+                <Ionicons name="swap-horizontal-outline" size={16} color={theme.text} style={{ marginRight: 6 }} />
+                <Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>
+                  Custody · {radios.filter((r) => r.checkoutId).length} out
+                </Text>
+              </Pressable>
             </>
           }
           ListEmptyComponent={<Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 40 }}>No radios yet. Tap + to add one.</Text>}
@@ -452,20 +401,20 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
               <View style={{ flexDirection: "row", gap: 10, marginBottom: 10 }}>
                 <Pressable
                   onPress={importRadioPartsFromCSV}
-                  disabled={importingRadioParts}
+                  disabled={importing === "radioParts"}
                   style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}
                 >
-                  {importingRadioParts
+                  {importing === "radioParts"
                     ? <ActivityIndicator size="small" color={theme.text} />
                     : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>
                   }
                 </Pressable>
                 <Pressable
-                  onPress={exportRadioPartsToCSV}
+                  onPress={exportRadioParts}
                   style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}
                 >
                   <Ionicons name="cloud-download-outline" size={16} color={theme.text} style={{ marginRight: 6 }} />
-                  <Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Export CSV</Text>
+                  <Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Export</Text>
                 </Pressable>
                 <Pressable
                   onPress={() => downloadRadioPartTemplate().catch((e) => Alert.alert("Error", e.message))}
@@ -495,7 +444,7 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
               { label: "Assigned To", key: "assignedTo", placeholder: "e.g. John Smith" },
               { label: "Location", key: "location", placeholder: "e.g. Security Desk" },
               { label: "Barcode / SKU", key: "barcode", placeholder: "e.g. 123456789012" },
-            ].map(({ label, key, placeholder }) => (
+            ].filter(({ key }) => key !== "assignedTo" || !editingRadio?.checkoutId).map(({ label, key, placeholder }) => (
               <View key={key}>
                 <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>{label}</Text>
                 <TextInput
@@ -508,17 +457,23 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
               </View>
             ))}
             <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Condition</Text>
-            <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap", marginBottom: 16 }}>
-              {["Good", "Fair", "Poor", "Out of Service"].map((c) => (
-                <Pressable
-                  key={c}
-                  onPress={() => setRadioForm((p) => ({ ...p, condition: c }))}
-                  style={{ paddingHorizontal: 14, paddingVertical: 7, borderRadius: 999, borderWidth: 1, borderColor: radioForm.condition === c ? theme.tint : theme.border, backgroundColor: radioForm.condition === c ? theme.tint + "22" : theme.card }}
-                >
-                  <Text style={{ color: radioForm.condition === c ? theme.tint : theme.mutedText, fontWeight: "700", fontSize: 13 }}>{c}</Text>
-                </Pressable>
-              ))}
-            </View>
+            {editingRadio?.repairId ? (
+              <Text style={{ color: theme.mutedText, fontSize: 13, marginBottom: 16 }}>
+                Out of Service while the repair ticket is open. Closing the ticket sets the condition.
+              </Text>
+            ) : (
+              <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap", marginBottom: 16 }}>
+                {RADIO_CONDITIONS.map((c) => (
+                  <Pressable
+                    key={c}
+                    onPress={() => setRadioForm((p) => ({ ...p, condition: c }))}
+                    style={{ paddingHorizontal: 14, paddingVertical: 7, borderRadius: 999, borderWidth: 1, borderColor: radioForm.condition === c ? theme.tint : theme.border, backgroundColor: radioForm.condition === c ? theme.tint + "22" : theme.card }}
+                  >
+                    <Text style={{ color: radioForm.condition === c ? theme.tint : theme.mutedText, fontWeight: "700", fontSize: 13 }}>{c}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
             <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
             <TextInput
               style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 80, textAlignVertical: "top" }]}
@@ -593,6 +548,8 @@ const RadioSection = forwardRef<RadioSectionRef, RadioSectionProps>(({ siteId },
           </ScrollView>
         </View>
       </Modal>
+
+      <ImportReportModal {...reportProps} />
     </View>
   );
 });
@@ -0,0 +1,190 @@
+// components/RadioShiftScanModal.tsx
+// Shift change by scan. Pick check out (with holder and shift) or check in,
+// then scan each handset: every hit is written straight away through
+// utils/radioCustody.ts and listed, so a whole shift is handed out or taken
+// back without opening each radio.
+import { Ionicons } from "@expo/vector-icons";
+import { CameraView } from "expo-camera";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import React, { useRef, useState } from "react";
+import { FlatList, Modal, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import inventoryStyles from "../constants/inventoryStyles";
+import { useAppTheme } from "../constants/theme";
+import { db } from "../firebaseConfig";
+import { Radio } from "../types/inventory";
+import { checkinRadio, checkoutRadio } from "../utils/radioCustody";
+import { EMPTY_SHIFT_FORM, ShiftFields, ShiftForm, shiftFormDue } from "./RadioCheckoutModal";
+
+type RadioShiftScanModalProps = {
+  visible: boolean;
+  siteId: string | null;
+  by: string;
+  onClose: () => void;
+};
+
+type ScanMode = "checkout" | "checkin";
+type ScanResult = { key: string; title: string; detail: string; ok: boolean };
+
+// The same code held in frame keeps firing; handle it once per window
+const REPEAT_SCAN_MS = 2500;
+
+export function RadioShiftScanModal({ visible, siteId, by, onClose }: RadioShiftScanModalProps) {
+  const theme = useAppTheme();
+  const [mode, setMode] = useState<ScanMode>("checkout");
+  const [form, setForm] = useState<ShiftForm>(EMPTY_SHIFT_FORM);
+  const [scanning, setScanning] = useState(false);
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const busy = useRef(false);
+  const lastRef = useRef<{ data: string; at: number } | null>(null);
+
+  const close = () => {
+    setScanning(false);
+    setResults([]);
+    setForm(EMPTY_SHIFT_FORM);
+    lastRef.current = null;
+    onClose();
+  };
+
+  const push = (result: Omit<ScanResult, "key">) =>
+    setResults((prev) => [{ ...result, key: `${Date.now()}-${prev.length}` }, ...prev]);
+
+  const handleScan = async ({ data }: { data: string }) => {
+    const code = String(data).trim();
+    if (!code || !siteId || busy.current) return;
+    const now = Date.now();
+    const last = lastRef.current;
+    if (last && last.data === code && now - last.at < REPEAT_SCAN_MS) return;
+    lastRef.current = { data: code, at: now };
+
+    busy.current = true;
+    try {
+      const snap = await getDocs(query(collection(db, "radios"), where("barcode", "==", code), where("siteId", "==", siteId)));
+      if (snap.empty) { push({ title: code, detail: "No radio with this barcode", ok: false }); return; }
+      const radio = { id: snap.docs[0].id, ...snap.docs[0].data() } as Radio;
+
+      if (mode === "checkout") {
+        const checkout = await checkoutRadio({
+          radioId: radio.id,
+          holder: form.holder,
+          shift: form.shift,
+          expectedReturnAt: shiftFormDue(form),
+          by,
+          note: form.note,
+        });
+        push({ title: checkout.radioLabel, detail: `Out to ${checkout.holder}`, ok: true });
+      } else {
+        const result = await checkinRadio({ radioId: radio.id, by });
+        push({ title: result.radioLabel, detail: `Returned by ${result.holder || "unknown"}`, ok: true });
+      }
+    } catch (err: any) {
+      push({ title: code, detail: err?.message || "Could not update this radio", ok: false });
+    } finally {
+      busy.current = false;
+    }
+  };
+
+  const done = results.filter((r) => r.ok).length;
+  const canStart = mode === "checkin" || !!form.holder.trim();
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={close}>
+      <View style={{ flex: 1, backgroundColor: theme.background }}>
+        {scanning ? (
+          <>
+            <View style={styles.cameraBox}>
+              <CameraView style={StyleSheet.absoluteFill} facing="back" autofocus="on" onBarcodeScanned={handleScan} />
+              <View style={styles.cameraBar}>
+                <Text style={{ color: "#fff", fontWeight: "700", flex: 1 }} numberOfLines={1}>
+                  {mode === "checkout" ? `Checking out to ${form.holder.trim()}` : "Checking in"}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.header}>
+              <Text style={[styles.title, { color: theme.text }]}>{mode === "checkout" ? "Shift Checkout" : "Shift Check-in"}</Text>
+              <Text style={{ color: theme.mutedText, fontSize: 12 }}>
+                {done} radio{done !== 1 ? "s" : ""} {mode === "checkout" ? "checked out" : "checked in"}
+              </Text>
+            </View>
+            <FlatList
+              data={results}
+              keyExtractor={(r) => r.key}
+              contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 12 }}
+              ListEmptyComponent={
+                <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 24 }}>Scan each radio&apos;s barcode.</Text>
+              }
+              renderItem={({ item }) => (
+                <View style={[styles.row, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                  <Ionicons
+                    name={item.ok ? "checkmark-circle" : "alert-circle"}
+                    size={20}
+                    color={item.ok ? "#16a34a" : theme.warning}
+                    style={{ marginRight: 10 }}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: theme.text, fontWeight: "800" }} numberOfLines={1}>{item.title}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 12 }} numberOfLines={2}>{item.detail}</Text>
+                  </View>
+                </View>
+              )}
+            />
+            <View style={[styles.footer, { borderColor: theme.border, backgroundColor: theme.card }]}>
+              <Pressable onPress={close} style={[styles.footerBtn, { backgroundColor: theme.primary }]}>
+                <Text style={styles.footerBtnText}>Done</Text>
+              </Pressable>
+            </View>
+          </>
+        ) : (
+          <View style={[inventoryStyles.modalContainer, { paddingTop: 56 }]}>
+            <View style={inventoryStyles.modalHeader}>
+              <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Shift Scan</Text>
+              <Pressable onPress={close}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+            </View>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <View style={[styles.modeRow, { borderColor: theme.border, backgroundColor: theme.card }]}>
+                {(["checkout", "checkin"] as ScanMode[]).map((m) => (
+                  <Pressable
+                    key={m}
+                    onPress={() => setMode(m)}
+                    style={[styles.modeBtn, mode === m && { backgroundColor: theme.background, borderColor: theme.border }]}
+                  >
+                    <Text style={{ color: mode === m ? theme.text : theme.mutedText, fontWeight: "800" }}>
+                      {m === "checkout" ? "Check out" : "Check in"}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {mode === "checkout" ? (
+                <ShiftFields form={form} onChange={setForm} />
+              ) : (
+                <Text style={{ color: theme.mutedText, marginBottom: 12 }}>
+                  Each radio scanned is checked in from whoever has it.
+                </Text>
+              )}
+              <Pressable
+                onPress={() => { lastRef.current = null; setScanning(true); }}
+                disabled={!canStart}
+                style={[inventoryStyles.saveBtn, { backgroundColor: theme.primary, opacity: canStart ? 1 : 0.6 }]}
+              >
+                <Text style={inventoryStyles.saveBtnText}>Start scanning</Text>
+              </Pressable>
+            </ScrollView>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  cameraBox: { height: "38%", backgroundColor: "#000" },
+  cameraBar: { position: "absolute", left: 12, right: 12, bottom: 12, flexDirection: "row", alignItems: "center", backgroundColor: "rgba(0,0,0,0.6)", borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10 },
+  header: { paddingHorizontal: 16, paddingTop: 14, paddingBottom: 8 },
+  title: { fontSize: 20, fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", borderRadius: 14, borderWidth: 1, padding: 12, marginBottom: 8 },
+  footer: { borderTopWidth: 1, padding: 16, paddingBottom: 32 },
+  footerBtn: { paddingVertical: 12, borderRadius: 999, alignItems: "center" },
+  footerBtnText: { color: "#fff", fontWeight: "800" },
+  modeRow: { flexDirection: "row", borderWidth: 1, borderRadius: 12, padding: 4, marginBottom: 16 },
+  modeBtn: { flex: 1, paddingVertical: 9, borderRadius: 9, borderWidth: 1, borderColor: "transparent", alignItems: "center" },
+});
@@ -0,0 +1,26 @@
+import React from "react";
+import { Text, View } from "react-native";
+import inventoryStyles from "../constants/inventoryStyles";
+import { PrinterStatus } from "../types/inventory";
+import { isStatusStale, levelColor, supplyShortLabel, tonerLevels } from "../utils/printerStatus";
+
+// Live toner % from the SNMP agent, shown next to TonerStockBadge
+export default function TonerLevelBadge({ status }: { status?: PrinterStatus | null }) {
+  const levels = tonerLevels(status);
+  if (!status || !levels.length) return null;
+
+  const stale = isStatusStale(status);
+  // Stale readings use the grey "unknown" color
+  const color = levelColor(stale ? null : status.lowestTonerPercent ?? null);
+  const text = levels.length === 1
+    ? `Toner ${levels[0].percent}%`
+    : levels.map((s) => `${supplyShortLabel(s)} ${s.percent}%`).join(" · ");
+
+  return (
+    <View style={[inventoryStyles.stockBadge, { backgroundColor: color + "20", borderColor: color }]}>
+      <Text style={[inventoryStyles.stockText, { color }]}>
+        {text}{stale ? " (stale)" : ""}
+      </Text>
+    </View>
+  );
+}
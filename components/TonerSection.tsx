@@ -1,6 +1,4 @@
 import { Ionicons } from "@expo/vector-icons";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system/legacy";
 import { useRouter } from "expo-router";
 import {
   addDoc,
@@ -9,7 +7,6 @@ import {
   deleteField,
   doc,
   getDocs,
-  increment,
   onSnapshot,
   orderBy,
   query,
@@ -17,7 +14,6 @@ import {
   setDoc,
   updateDoc,
   where,
-  writeBatch,
 } from "firebase/firestore";
 import React, {
   forwardRef,
@@ -42,10 +38,20 @@ import {
 } from "react-native";
 import inventoryStyles from "../constants/inventoryStyles";
 import { useAppTheme } from "../constants/theme";
-import { db } from "../firebaseConfig";
+import { auth, db } from "../firebaseConfig";
 import {
+  CARD_SUPPLY_KINDS,
+  CardSupply,
+  CardSupplyKind,
+  CompatibleConsumable,
+  CatalogConsumable,
+  CatalogPrinterModel,
+  CONSUMABLE_SLOTS,
+  ConsumableSlot,
   DataCardPrinter,
   Printer,
+  PrinterCompatibility,
+  PrinterStatus,
   Toner,
   TonerLink,
   TonerSubTab,
@@ -54,7 +60,32 @@ import {
   UNDO_TIMEOUT_MS,
 } from "../types/inventory";
 import { getStockStatus, logActivity } from "../utils/activity";
-import { normalizeCell, parseCSV, makeColFinder, downloadTonerTemplate, downloadPrinterTemplate, downloadDatacardTemplate } from "../utils/csvHelpers";
+import { QUEUED_MESSAGE, submitStockMovement } from "../utils/outbox";
+import {
+  linkConsumable,
+  modelKey,
+  printerConsumables,
+  slotForToner,
+  slotLabel,
+  subscribeSiteCompatibility,
+  unlinkConsumable,
+} from "../utils/printerCompatibility";
+import {
+  CatalogKind,
+  catalogConsumableName,
+  catalogModelName,
+  subscribeCatalogConsumables,
+  subscribeCatalogPrinterModels,
+} from "../utils/modelCatalog";
+import { printerReference } from "../utils/printerCosts";
+import { subscribeSitePrinterStatus } from "../utils/printerStatus";
+import { downloadTonerTemplate, downloadPrinterTemplate, downloadDatacardTemplate } from "../utils/csvHelpers";
+import { ImportEntity } from "../utils/importPipeline";
+import { chooseExportFormat, shareTable } from "../utils/spreadsheet";
+import { useCsvImport } from "../hooks/useCsvImport";
+import { CatalogPickerModal } from "./CatalogPickerModal";
+import { ImportReportModal } from "./ImportReportModal";
+import TonerLevelBadge from "./TonerLevelBadge";
 import TonerStockBadge from "./TonerStockBadge";
 
 export interface TonerSectionRef {
@@ -79,7 +110,7 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
   const [showTonerLowOnly, setShowTonerLowOnly] = useState(false);
   const [showTonerModal, setShowTonerModal] = useState(false);
   const [editingToner, setEditingToner] = useState<Toner | null>(null);
-  const [tonerForm, setTonerForm] = useState({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode: "" });
+  const [tonerForm, setTonerForm] = useState({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode: "", catalogId: "" });
 
   // Toner undo state
   const [pendingTonerDelete, setPendingTonerDelete] = useState<{ toner: Toner; backup: any } | null>(null);
@@ -91,11 +122,12 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
   // Printer state
   const [printers, setPrinters] = useState<Printer[]>([]);
   const [printersLoading, setPrintersLoading] = useState(true);
-  const [importingPrinters, setImportingPrinters] = useState(false);
   const [printerSearch, setPrinterSearch] = useState("");
   const [showPrinterModal, setShowPrinterModal] = useState(false);
   const [editingPrinter, setEditingPrinter] = useState<Printer | null>(null);
-  const [printerForm, setPrinterForm] = useState({ name: "", location: "", ipAddress: "", assetNumber: "", serial: "", tonerSeries: "", barcode: "", notes: "" });
+  const [printerForm, setPrinterForm] = useState({ name: "", location: "", ipAddress: "", assetNumber: "", serial: "", model: "", tonerSeries: "", barcode: "", notes: "", catalogModelId: "" });
+  // Live SNMP readings keyed by printer id (printer-agent/)
+  const [printerStatus, setPrinterStatus] = useState<Record<string, PrinterStatus>>({});
 
   // Data Card Printer state
   const [datacardPrinters, setDatacardPrinters] = useState<DataCardPrinter[]>([]);
@@ -104,15 +136,30 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
   const [editingDatacard, setEditingDatacard] = useState<DataCardPrinter | null>(null);
   const [datacardForm, setDatacardForm] = useState({ name: "", location: "", ipAddress: "", assetNumber: "", serial: "", ribbonType: "", notes: "" });
 
+  // Card printer supplies (ribbons, cleaning kits)
+  const [cardSupplies, setCardSupplies] = useState<CardSupply[]>([]);
+  const [showSupplyModal, setShowSupplyModal] = useState(false);
+  const [supplyForm, setSupplyForm] = useState({ name: "", kind: "ribbon" as CardSupplyKind, ribbonType: "", quantity: "", minQuantity: "", barcode: "", notes: "" });
+
   // Import state
-  const [importingToners, setImportingToners] = useState(false);
-  const [importingDatacardPrinters, setImportingDatacardPrinters] = useState(false);
+  const { importing, startImport, reportProps } = useCsvImport();
 
   // Link Toner Modal state
   const [showLinkModal, setShowLinkModal] = useState(false);
   const [selectedPrinter, setSelectedPrinter] = useState<Printer | null>(null);
   const [tonerLinkSearch, setTonerLinkSearch] = useState("");
   const [tonerLinkList, setTonerLinkList] = useState<TonerLink[]>([]);
+  const [linkModel, setLinkModel] = useState("");
+  const [linkSlot, setLinkSlot] = useState<ConsumableSlot>("black");
+  // Printer model → consumables (printerCompatibility), keyed by modelKey
+  const [compatByModel, setCompatByModel] = useState<Record<string, PrinterCompatibility>>({});
+  // Printer whose DEDUCT 1 is asking which cartridge
+  const [deductPrinter, setDeductPrinter] = useState<Printer | null>(null);
+
+  // Global model catalog, for the printer and toner forms' catalog links
+  const [catalogModels, setCatalogModels] = useState<CatalogPrinterModel[]>([]);
+  const [catalogConsumables, setCatalogConsumables] = useState<CatalogConsumable[]>([]);
+  const [catalogPicker, setCatalogPicker] = useState<CatalogKind | null>(null);
 
   // Mounted tracking + cleanup
   useEffect(() => {
@@ -145,6 +192,27 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     return () => unsub();
   }, [siteId]);
 
+  useEffect(() => {
+    if (!siteId) return;
+    return subscribeSitePrinterStatus(siteId, setPrinterStatus);
+  }, [siteId]);
+
+  useEffect(() => {
+    if (!siteId) return;
+    return subscribeSiteCompatibility(siteId, setCompatByModel);
+  }, [siteId]);
+
+  // Only while a form that shows catalog links is open
+  useEffect(() => {
+    if (!showTonerModal && !showPrinterModal) return;
+    const unsubModels = subscribeCatalogPrinterModels(setCatalogModels);
+    const unsubConsumables = subscribeCatalogConsumables(setCatalogConsumables);
+    return () => {
+      unsubModels();
+      unsubConsumables();
+    };
+  }, [showTonerModal, showPrinterModal]);
+
   useEffect(() => {
     if (!siteId) return;
     const q = query(collection(db, "datacardPrinters"), where("siteId", "==", siteId));
@@ -155,13 +223,23 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     return () => unsub();
   }, [siteId]);
 
+  useEffect(() => {
+    if (!siteId) return;
+    const q = query(collection(db, "cardSupplies"), where("siteId", "==", siteId));
+    const unsub = onSnapshot(q, (snap) => {
+      const list = snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) } as CardSupply));
+      setCardSupplies(list.sort((a, b) => (a.name || "").localeCompare(b.name || "")));
+    }, (err) => { if (__DEV__) console.error("cardSupplies onSnapshot error:", err); });
+    return () => unsub();
+  }, [siteId]);
+
   useEffect(() => {
     if (!showLinkModal || !siteId) return;
     const q = query(collection(db, "toners"), where("siteId", "==", siteId), orderBy("model", "asc"));
     const unsub = onSnapshot(q, (snap) => {
       setTonerLinkList(snap.docs.map((d) => {
         const data = d.data() as any;
-        return { id: d.id, name: data.model || data.name || "Unknown", stock: data.quantity ?? data.stock ?? 0 } as TonerLink;
+        return { id: d.id, name: data.model || data.name || "Unknown", stock: data.quantity ?? data.stock ?? 0, color: data.color } as TonerLink;
       }));
     }, (err) => { if (__DEV__) console.error("tonerLinkList onSnapshot error:", err); });
     return () => unsub();
@@ -200,10 +278,24 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     );
   }, [datacardPrinters, datacardSearch]);
 
+  const tonersById = useMemo(() => Object.fromEntries(toners.map((t) => [t.id, t])) as Record<string, Toner>, [toners]);
+
+  // Toners matching the chosen slot's color first
   const filteredTonerLinkList = useMemo(() => {
-    if (!tonerLinkSearch) return tonerLinkList;
-    return tonerLinkList.filter((t) => t.name.toLowerCase().includes(tonerLinkSearch.toLowerCase()));
-  }, [tonerLinkList, tonerLinkSearch]);
+    const list = tonerLinkSearch
+      ? tonerLinkList.filter((t) => t.name.toLowerCase().includes(tonerLinkSearch.toLowerCase()))
+      : tonerLinkList;
+    const fits = (t: TonerLink) => (slotForToner(t) === linkSlot ? 0 : 1);
+    return [...list].sort((a, b) => fits(a) - fits(b));
+  }, [tonerLinkList, tonerLinkSearch, linkSlot]);
+
+  // What the Link modal's model already has (or the printer's legacy link)
+  const linkedConsumables = useMemo(() => {
+    if (!selectedPrinter) return [];
+    const key = modelKey(linkModel);
+    const tonerId = key && compatByModel[key]?.consumables?.length ? undefined : selectedPrinter.tonerId;
+    return printerConsumables({ model: linkModel, tonerId }, compatByModel, tonersById);
+  }, [selectedPrinter, linkModel, compatByModel, tonersById]);
 
   // Toner undo logic
   const dismissTonerUndoBanner = useCallback(() => {
@@ -257,7 +349,7 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
   const openAddToner = useCallback((barcode: string) => {
     setTonerSubTab("toners");
     setEditingToner(null);
-    setTonerForm({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode });
+    setTonerForm({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode, catalogId: "" });
     setShowTonerModal(true);
   }, []);
 
@@ -266,10 +358,10 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
   const openTonerModal = (toner?: Toner) => {
     if (toner) {
       setEditingToner(toner);
-      setTonerForm({ model: toner.model, color: toner.color, quantity: String(toner.quantity), minQuantity: String(toner.minQuantity), printer: toner.printer || "", notes: toner.notes || "", barcode: toner.barcode || "" });
+      setTonerForm({ model: toner.model, color: toner.color, quantity: String(toner.quantity), minQuantity: String(toner.minQuantity), printer: toner.printer || "", notes: toner.notes || "", barcode: toner.barcode || "", catalogId: toner.catalogId || "" });
     } else {
       setEditingToner(null);
-      setTonerForm({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode: "" });
+      setTonerForm({ model: "", color: "Black", quantity: "", minQuantity: "", printer: "", notes: "", barcode: "", catalogId: "" });
     }
     setShowTonerModal(true);
   };
@@ -279,7 +371,14 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
     const newQty = parseInt(tonerForm.quantity) || 0;
     const newMin = parseInt(tonerForm.minQuantity) || 0;
-    const data = { ...tonerForm, quantity: newQty, minQuantity: newMin, siteId };
+    const catalogEntry = catalogConsumables.find((c) => c.id === tonerForm.catalogId);
+    const data = {
+      ...tonerForm,
+      quantity: newQty,
+      minQuantity: newMin,
+      siteId,
+      ...(catalogEntry && !editingToner?.partNumber ? { partNumber: catalogEntry.partNumber } : {}),
+    };
     try {
       if (editingToner) {
         const prevStatus = getStockStatus(editingToner.quantity, editingToner.minQuantity);
@@ -343,183 +442,166 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     ]);
   };
 
+  const openSupplyModal = () => {
+    setSupplyForm({ name: "", kind: "ribbon", ribbonType: "", quantity: "", minQuantity: "", barcode: "", notes: "" });
+    setShowSupplyModal(true);
+  };
+
+  // New supplies only; stock and details are edited on /cardsupply/[id]
+  const saveSupply = async () => {
+    if (!supplyForm.name.trim()) { Alert.alert("Error", "Name is required."); return; }
+    if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
+    try {
+      await addDoc(collection(db, "cardSupplies"), {
+        name: supplyForm.name.trim(), kind: supplyForm.kind, ribbonType: supplyForm.ribbonType.trim(),
+        quantity: parseInt(supplyForm.quantity) || 0, minQuantity: parseInt(supplyForm.minQuantity) || 0,
+        barcode: supplyForm.barcode.trim(), notes: supplyForm.notes.trim(), location: "",
+        siteId, createdAt: serverTimestamp(),
+      });
+      setShowSupplyModal(false);
+    } catch { Alert.alert("Error", "Failed to save supply."); }
+  };
+
   // Link/Unlink/Deduct
+  // Linking a catalog model renames the printer's model to the catalog name;
+  // a catalog consumable fills the toner's color and, if blank, its name
+  const handleCatalogPick = (entry: CatalogPrinterModel | CatalogConsumable | null) => {
+    if (catalogPicker === "printerModels") {
+      setPrinterForm((p) => ({
+        ...p,
+        catalogModelId: entry?.id ?? "",
+        ...(entry && "model" in entry ? { model: catalogModelName(entry) } : {}),
+      }));
+    } else if (entry && "partNumber" in entry) {
+      setTonerForm((p) => ({
+        ...p,
+        catalogId: entry.id,
+        color: entry.color && TONER_COLORS.includes(entry.color) ? entry.color : p.color,
+        model: p.model || entry.description || entry.partNumber,
+      }));
+    } else {
+      setTonerForm((p) => ({ ...p, catalogId: "" }));
+    }
+    setCatalogPicker(null);
+  };
+
+  const catalogLinkRow = (label: string, kind: CatalogKind) => (
+    <>
+      <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Catalog</Text>
+      <Pressable onPress={() => setCatalogPicker(kind)} style={[inventoryStyles.fieldInput, { borderColor: theme.border, backgroundColor: theme.card, flexDirection: "row", alignItems: "center", gap: 8 }]}>
+        <Ionicons name="library-outline" size={16} color={label ? theme.tint : theme.mutedText} />
+        <Text style={{ color: label ? theme.text : theme.mutedText, flex: 1 }} numberOfLines={1}>{label || "Link to catalog…"}</Text>
+        <Ionicons name="chevron-forward" size={16} color={theme.mutedText} />
+      </Pressable>
+    </>
+  );
+
+  const currentUserName = () => {
+    const user = auth.currentUser;
+    return user?.displayName || user?.email || "Unknown Tech";
+  };
+
+  const openLinkModal = (printer: Printer) => {
+    setSelectedPrinter(printer);
+    setLinkModel(printer.model || "");
+    setLinkSlot("black");
+    setTonerLinkSearch("");
+    setShowLinkModal(true);
+  };
+
   const handleLinkToner = async (toner: TonerLink) => {
-    if (!selectedPrinter) return;
+    if (!selectedPrinter || !siteId) return;
+    if (!linkModel.trim()) { Alert.alert("Model required", "Enter the printer model. Every printer of that model shares its consumables."); return; }
     try {
-      await updateDoc(doc(db, "printers", selectedPrinter.id), { tonerId: toner.id });
-      await logActivity({ siteId: siteId ?? "", itemName: `${toner.name} → ${selectedPrinter.name}`, itemId: selectedPrinter.id, qty: toner.stock, min: 0, prevState: "OK", nextState: "OK", action: "linked", itemType: "printer" });
-      setShowLinkModal(false);
-      setSelectedPrinter(null);
-      Alert.alert("Linked!", `${toner.name} linked to ${selectedPrinter.name}.`);
-    } catch { Alert.alert("Error", "Failed to link toner."); }
+      await linkConsumable({
+        printer: selectedPrinter,
+        model: linkModel,
+        consumable: { slot: linkSlot, tonerId: toner.id },
+        legacySlot: selectedPrinter.tonerId ? slotForToner(tonersById[selectedPrinter.tonerId]) : undefined,
+        by: currentUserName(),
+      });
+      // The legacy link now lives in the model's list
+      setSelectedPrinter({ ...selectedPrinter, model: linkModel.trim(), tonerId: undefined });
+      await logActivity({ siteId, itemName: `${toner.name} → ${linkModel.trim()} (${slotLabel(linkSlot)})`, itemId: selectedPrinter.id, qty: toner.stock, min: 0, prevState: "OK", nextState: "OK", action: "linked", itemType: "printer" });
+    } catch (err: any) { Alert.alert("Error", err?.message || "Failed to link toner."); }
   };
 
-  const handleUnlinkToner = async (printer: Printer) => {
-    if (!printer.tonerId) return;
-    const linkedToner = toners.find((t) => t.id === printer.tonerId);
-    Alert.alert("Unlink Toner", `Remove ${linkedToner?.model || "toner"} from ${printer.name}?`, [
+  const handleUnlinkConsumable = (consumable: CompatibleConsumable) => {
+    if (!selectedPrinter || !siteId) return;
+    const toner = tonersById[consumable.tonerId];
+    const model = linkModel.trim();
+    const fromModel = !!compatByModel[modelKey(model)]?.consumables?.length;
+    Alert.alert("Unlink", `Remove ${toner?.model || "toner"} (${slotLabel(consumable.slot)}) from ${fromModel ? model : selectedPrinter.name}?`, [
       { text: "Cancel", style: "cancel" },
       { text: "Unlink", style: "destructive", onPress: async () => {
         try {
-          await updateDoc(doc(db, "printers", printer.id), { tonerId: deleteField() });
-          await logActivity({ siteId: siteId ?? "", itemName: `${linkedToner?.model || "Unknown Toner"} ✕ ${printer.name}`, itemId: printer.id, qty: linkedToner?.quantity ?? 0, min: linkedToner?.minQuantity ?? 0, prevState: "OK", nextState: "OK", action: "unlinked", itemType: "printer" });
-          Alert.alert("Unlinked!", `Toner removed from ${printer.name}.`);
+          if (fromModel) {
+            await unlinkConsumable({ siteId, model, consumable, by: currentUserName() });
+          } else {
+            await updateDoc(doc(db, "printers", selectedPrinter.id), { tonerId: deleteField() });
+            setSelectedPrinter({ ...selectedPrinter, tonerId: undefined });
+          }
+          await logActivity({ siteId, itemName: `${toner?.model || "Unknown Toner"} ✕ ${fromModel ? model : selectedPrinter.name}`, itemId: selectedPrinter.id, qty: toner?.quantity ?? 0, min: toner?.minQuantity ?? 0, prevState: "OK", nextState: "OK", action: "unlinked", itemType: "printer" });
         } catch { Alert.alert("Error", "Failed to unlink toner."); }
       }},
     ]);
   };
 
-  const handleDeductToner = async (printer: Printer) => {
-    if (!printer.tonerId) return;
-    const linkedToner = toners.find((t) => t.id === printer.tonerId);
-    Alert.alert("Deduct Toner", `Use 1 toner for ${printer.name}?`, [
+  const deductConsumable = async (printer: Printer, tonerId: string) => {
+    const toner = tonersById[tonerId];
+    try {
+      const result = await submitStockMovement(
+        { itemType: "toner", itemId: tonerId, delta: -1, by: currentUserName(), note: `Via printer: ${printer.name}`, reference: printerReference(printer) },
+        { label: `-1 ${toner?.model || "toner"} via ${printer.name}`, siteId: siteId || "" }
+      );
+      if (!result) Alert.alert("Queued", QUEUED_MESSAGE);
+    } catch (err: any) { Alert.alert("Error", err.message || "Failed to update stock."); }
+  };
+
+  const handleDeductToner = (printer: Printer) => {
+    const consumables = printerConsumables(printer, compatByModel, tonersById);
+    if (consumables.length > 1) { setDeductPrinter(printer); return; }
+    const [only] = consumables;
+    if (!only) return;
+    Alert.alert("Deduct Toner", `Use 1 ${tonersById[only.tonerId]?.model || "toner"} for ${printer.name}?`, [
       { text: "Cancel", style: "cancel" },
-      { text: "Deduct 1", onPress: async () => {
-        try {
-          const prevQty = linkedToner?.quantity ?? 1;
-          const minQty = linkedToner?.minQuantity ?? 0;
-          const newQty = Math.max(0, prevQty - 1);
-          await updateDoc(doc(db, "toners", printer.tonerId!), { quantity: increment(-1) });
-          await logActivity({ siteId: siteId ?? "", itemName: linkedToner?.model || "Unknown Toner", itemId: printer.tonerId!, qty: newQty, min: minQty, prevState: getStockStatus(prevQty, minQty), nextState: getStockStatus(newQty, minQty), action: "deducted", itemType: "toner" });
-        } catch { Alert.alert("Error", "Failed to update stock."); }
-      }},
+      { text: "Deduct 1", onPress: () => deductConsumable(printer, only.tonerId) },
     ]);
   };
 
-  // CSV Import
-  const importTonersFromCSV = async () => {
-    try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-      setImportingToners(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = makeColFinder(headers);
-      const iModel = col(["model", "name", "toner"]);
-      const iPart = col(["part", "partnumber", "sku"]);
-      const iColor = col(["color", "colour", "type"]);
-      const iQty = col(["qty", "quantity", "amount", "stock"]);
-      const iMinQty = col(["min", "minimum", "minqty"]);
-      const iPrinter = col(["printer", "compatible", "machine"]);
-      const iSupplier = col(["supplier", "vendor"]);
-      const iNotes = col(["notes", "note"]);
-      if (iModel === -1) { Alert.alert("Import Failed", "Could not find a 'Model' or 'Name' column."); return; }
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[iModel] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const model = normalizeCell(row[iModel] ?? "");
-          if (!model) continue;
-          const rawColor = normalizeCell(row[iColor] ?? "Black");
-          const color = TONER_COLORS.find((c) => c.toLowerCase() === rawColor.toLowerCase()) || "Other";
-          const stableId = `${siteId}_${model}_${color}`.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100);
-          batch.set(doc(db, "toners", stableId), { model, partNumber: normalizeCell(row[iPart] ?? ""), color, quantity: parseInt(normalizeCell(row[iQty] ?? "")) || 0, minQuantity: parseInt(normalizeCell(row[iMinQty] ?? "")) || 0, printer: normalizeCell(row[iPrinter] ?? ""), supplier: normalizeCell(row[iSupplier] ?? ""), notes: normalizeCell(row[iNotes] ?? ""), siteId, importedAt: new Date().toISOString() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} toner${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) { Alert.alert("Import Failed", err.message || "An unexpected error occurred."); } finally { setImportingToners(false); }
+  // CSV Import (validated and committed by the importRecords callable)
+  const importCSV = (entity: ImportEntity) => {
+    if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
+    startImport(entity);
   };
+  const importTonersFromCSV = () => importCSV("toners");
+  const importPrintersFromCSV = () => importCSV("printers");
+  const importDatacardPrintersFromCSV = () => importCSV("datacardPrinters");
 
-  const importPrintersFromCSV = async () => {
+  const exportToners = async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-      setImportingPrinters(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = makeColFinder(headers);
-      const iName = col(["name", "printer", "description", "desc"]);
-      const iLocation = col(["location", "loc", "dept", "department", "room"]);
-      const iIp = col(["ip", "ipaddress", "ip_address"]);
-      const iAsset = col(["asset", "assetnumber", "assetnumber", "toshiba"]);
-      const iSerial = col(["serial", "sn", "serialnumber"]);
-      const iModel = col(["model", "make"]);
-      const iTonerSeries = col(["toner", "tonerseries"]);
-      const iBarcode = col(["barcode", "sku", "upc"]);
-      const iNotes = col(["notes", "note"]);
-      if (iName === -1) { Alert.alert("Import Failed", "Could not find a 'Name', 'Description', or 'Printer' column."); return; }
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[iName] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const name = normalizeCell(row[iName] ?? "");
-          if (!name) continue;
-          const stableId = `${siteId}_${name}`.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100);
-          const model = iModel !== -1 ? normalizeCell(row[iModel] ?? "") : "";
-          batch.set(doc(db, "printers", stableId), { name, location: normalizeCell(row[iLocation] ?? ""), ipAddress: normalizeCell(row[iIp] ?? ""), assetNumber: normalizeCell(row[iAsset] ?? ""), serial: normalizeCell(row[iSerial] ?? ""), model, tonerSeries: normalizeCell(row[iTonerSeries] ?? ""), barcode: normalizeCell(row[iBarcode] ?? ""), notes: normalizeCell(row[iNotes] ?? ""), siteId, importedAt: new Date().toISOString() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} printer${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) { Alert.alert("Import Failed", err.message || "An unexpected error occurred."); } finally { setImportingPrinters(false); }
+      if (toners.length === 0) { Alert.alert("Nothing to export", "No toners to export."); return; }
+      const format = await chooseExportFormat("Export Toners");
+      if (!format) return;
+      const headers = ["Model", "Color", "Quantity", "Min Qty", "Unit Cost", "Printer", "Part Number", "Barcode", "Notes"];
+      const rows = toners.map((t) =>
+        [t.model, t.color ?? "", t.quantity ?? 0, t.minQuantity ?? 0, t.unitCost ?? "", t.printer ?? "", t.partNumber ?? "", t.barcode ?? "", t.notes ?? ""]
+      );
+      await shareTable({ headers, rows, sheetName: "Toners" }, { fileName: "toners_export", format, dialogTitle: "Export Toners" });
+    } catch (err: any) { Alert.alert("Export Failed", err.message || "An unexpected error occurred."); }
   };
 
-  const importDatacardPrintersFromCSV = async () => {
+  const exportPrinters = async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({ type: ["text/csv", "text/comma-separated-values", "text/plain"] });
-      if (result.canceled) return;
-      if (!siteId) { Alert.alert("Error", "No site assigned to your account."); return; }
-      setImportingDatacardPrinters(true);
-      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const rows = parseCSV(content);
-      if (rows.length < 2) { Alert.alert("Empty File", "No data rows found in the CSV."); return; }
-      const headers = rows[0].map((h) => h.toLowerCase().replace(/\s+/g, ""));
-      const col = makeColFinder(headers);
-      const iModel = col(["datacard", "model", "name"]);
-      const iSerial = col(["serial", "sn", "serialnumber"]);
-      const iLocation = col(["location", "loc"]);
-      const iIp = col(["printerip", "ipaddress", "ip_address", "ip"]);
-      const iAsset = col(["asset", "assetnumber"]);
-      const iRibbon = col(["ribbon", "ribbontype"]);
-      const iWarranty = col(["warranty"]);
-      const iStatus = col(["status"]);
-      const iMac = col(["mac", "macaddress"]);
-      const iNotes = col(["notes", "note"]);
-      if (iModel === -1 && iSerial === -1) { Alert.alert("Import Failed", "Could not find a model or serial number column."); return; }
-      const idCol = iModel !== -1 ? iModel : iSerial;
-      const dataRows = rows.slice(1).filter((row) => normalizeCell(row[idCol] ?? "") !== "");
-      let count = 0;
-      for (let i = 0; i < dataRows.length; i += 499) {
-        const chunk = dataRows.slice(i, i + 499);
-        const batch = writeBatch(db);
-        for (const row of chunk) {
-          const model = iModel !== -1 ? normalizeCell(row[iModel] ?? "") : "";
-          const serial = iSerial !== -1 ? normalizeCell(row[iSerial] ?? "") : "";
-          const name = model && serial ? `${model} - ${serial}` : model || serial;
-          if (!name) continue;
-          const noteParts: string[] = [];
-          const warranty = iWarranty !== -1 ? normalizeCell(row[iWarranty] ?? "") : "";
-          if (warranty) noteParts.push(`Warranty: ${warranty}`);
-          const status = iStatus !== -1 ? normalizeCell(row[iStatus] ?? "") : "";
-          if (status) noteParts.push(`Status: ${status}`);
-          const mac = iMac !== -1 ? normalizeCell(row[iMac] ?? "") : "";
-          if (mac) noteParts.push(`MAC: ${mac}`);
-          const existingNotes = iNotes !== -1 ? normalizeCell(row[iNotes] ?? "") : "";
-          if (existingNotes) noteParts.push(existingNotes);
-          const notes = noteParts.join(" | ");
-          const idBase = serial || name;
-          const stableId = `${siteId}_dc_${idBase}`.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100);
-          batch.set(doc(db, "datacardPrinters", stableId), { name, location: normalizeCell(row[iLocation] ?? ""), ipAddress: normalizeCell(row[iIp] ?? ""), assetNumber: iAsset !== -1 ? normalizeCell(row[iAsset] ?? "") : "", serial, ribbonType: iRibbon !== -1 ? normalizeCell(row[iRibbon] ?? "") : "", notes, siteId, importedAt: new Date().toISOString() }, { merge: true });
-          count++;
-        }
-        await batch.commit();
-      }
-      Alert.alert("Import Complete", `${count} data card printer${count !== 1 ? "s" : ""} imported/updated.`);
-    } catch (err: any) { Alert.alert("Import Failed", err.message || "An unexpected error occurred."); } finally { setImportingDatacardPrinters(false); }
+      if (printers.length === 0) { Alert.alert("Nothing to export", "No printers to export."); return; }
+      const format = await chooseExportFormat("Export Printers");
+      if (!format) return;
+      const headers = ["Name", "Location", "IP Address", "Asset Number", "Serial", "Model", "Toner Series", "Barcode", "Notes"];
+      const rows = printers.map((p) =>
+        [p.name, p.location ?? "", p.ipAddress ?? "", p.assetNumber ?? "", p.serial ?? "", p.model ?? "", p.tonerSeries ?? "", p.barcode ?? "", p.notes ?? ""]
+      );
+      await shareTable({ headers, rows, sheetName: "Printers" }, { fileName: "printers_export", format, dialogTitle: "Export Printers" });
+    } catch (err: any) { Alert.alert("Export Failed", err.message || "An unexpected error occurred."); }
   };
 
   // Render functions
@@ -548,50 +630,58 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
     </Pressable>
   );
 
-  const renderPrinter = ({ item }: { item: Printer }) => (
-    <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
-      <Pressable style={{ flex: 1 }} onPress={() => { setEditingPrinter(item); setPrinterForm({ name: item.name || "", location: item.location || "", ipAddress: item.ipAddress || "", assetNumber: item.assetNumber || "", serial: item.serial || "", tonerSeries: item.tonerSeries || "", barcode: item.barcode || "", notes: item.notes || "" }); setShowPrinterModal(true); }}>
-        <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{item.name}</Text>
-        <View style={{ flexDirection: "row", alignItems: "center", marginTop: 2 }}>
-          <Ionicons name="location-outline" size={14} color={theme.mutedText} style={{ marginRight: 4 }} />
-          <Text style={{ color: theme.mutedText, fontSize: 12 }}>{item.location || "No location"}</Text>
-          {item.tonerSeries && (
+  const renderPrinter = ({ item }: { item: Printer }) => {
+    const consumables = printerConsumables(item, compatByModel, tonersById);
+    return (
+      <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Pressable style={{ flex: 1 }} onPress={() => { setEditingPrinter(item); setPrinterForm({ name: item.name || "", location: item.location || "", ipAddress: item.ipAddress || "", assetNumber: item.assetNumber || "", serial: item.serial || "", model: item.model || "", tonerSeries: item.tonerSeries || "", barcode: item.barcode || "", notes: item.notes || "", catalogModelId: item.catalogModelId || "" }); setShowPrinterModal(true); }}>
+          <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{item.name}</Text>
+          <View style={{ flexDirection: "row", alignItems: "center", marginTop: 2 }}>
+            <Ionicons name="location-outline" size={14} color={theme.mutedText} style={{ marginRight: 4 }} />
+            <Text style={{ color: theme.mutedText, fontSize: 12 }}>{item.location || "No location"}</Text>
+            {item.tonerSeries && (
+              <>
+                <Ionicons name="pricetag-outline" size={12} color={theme.mutedText} style={{ marginLeft: 8, marginRight: 4 }} />
+                <Text style={{ color: theme.mutedText, fontSize: 12 }}>#{item.tonerSeries}</Text>
+              </>
+            )}
+          </View>
+          {(consumables.length > 0 || printerStatus[item.id]) && (
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 6 }}>
+              {consumables.length > 0 && <TonerStockBadge tonerIds={consumables.map((c) => c.tonerId)} theme={theme} />}
+              <TonerLevelBadge status={printerStatus[item.id]} />
+            </View>
+          )}
+        </Pressable>
+        <View style={{ alignItems: "flex-end", gap: 8 }}>
+          <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+            <Text style={{ color: theme.text, fontWeight: "700", fontSize: 14 }}>{item.ipAddress || "No IP"}</Text>
+            <Pressable onPress={() => deletePrinter(item)} hitSlop={8} style={{ padding: 4 }}>
+              <Ionicons name="trash-outline" size={18} color="#ef4444" />
+            </Pressable>
+          </View>
+          {consumables.length > 0 ? (
             <>
-              <Ionicons name="pricetag-outline" size={12} color={theme.mutedText} style={{ marginLeft: 8, marginRight: 4 }} />
-              <Text style={{ color: theme.mutedText, fontSize: 12 }}>#{item.tonerSeries}</Text>
+              <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: "#ef4444" }]} onPress={() => handleDeductToner(item)}>
+                <Text style={inventoryStyles.actionButtonText}>DEDUCT 1</Text>
+              </Pressable>
+              <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: "#f59e0b" }]} onPress={() => openLinkModal(item)}>
+                <Text style={inventoryStyles.actionButtonText}>{consumables.length > 1 ? `LINKS (${consumables.length})` : "LINKS"}</Text>
+              </Pressable>
             </>
+          ) : (
+            <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: theme.primary }]} onPress={() => openLinkModal(item)}>
+              <Text style={inventoryStyles.actionButtonText}>LINK TONER</Text>
+            </Pressable>
           )}
         </View>
-        {item.tonerId && <View style={{ marginTop: 6 }}><TonerStockBadge tonerId={item.tonerId} theme={theme} /></View>}
-      </Pressable>
-      <View style={{ alignItems: "flex-end", gap: 8 }}>
-        <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
-          <Text style={{ color: theme.text, fontWeight: "700", fontSize: 14 }}>{item.ipAddress || "No IP"}</Text>
-          <Pressable onPress={() => deletePrinter(item)} hitSlop={8} style={{ padding: 4 }}>
-            <Ionicons name="trash-outline" size={18} color="#ef4444" />
-          </Pressable>
-        </View>
-        {item.tonerId ? (
-          <>
-            <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: "#ef4444" }]} onPress={() => handleDeductToner(item)}>
-              <Text style={inventoryStyles.actionButtonText}>DEDUCT 1</Text>
-            </Pressable>
-            <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: "#f59e0b" }]} onPress={() => handleUnlinkToner(item)}>
-              <Text style={inventoryStyles.actionButtonText}>UNLINK</Text>
-            </Pressable>
-          </>
-        ) : (
-          <Pressable hitSlop={8} style={[inventoryStyles.actionButton, { backgroundColor: theme.primary }]} onPress={() => { setSelectedPrinter(item); setTonerLinkSearch(""); setShowLinkModal(true); }}>
-            <Text style={inventoryStyles.actionButtonText}>LINK TONER</Text>
-          </Pressable>
-        )}
       </View>
-    </View>
-  );
+    );
+  };
 
   const renderDatacardPrinter = ({ item }: { item: DataCardPrinter }) => (
     <View style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
-      <Pressable style={{ flex: 1 }} onPress={() => { setEditingDatacard(item); setDatacardForm({ name: item.name || "", location: item.location || "", ipAddress: item.ipAddress || "", assetNumber: item.assetNumber || "", serial: item.serial || "", ribbonType: item.ribbonType || "", notes: item.notes || "" }); setShowDatacardModal(true); }}>
+      <Pressable style={{ flex: 1 }} onPress={() => router.push({ pathname: "/datacard/[id]" as any, params: { id: item.id } })}>
         <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{item.name}</Text>
         <View style={{ flexDirection: "row", alignItems: "center", marginTop: 2 }}>
           <Ionicons name="location-outline" size={14} color={theme.mutedText} style={{ marginRight: 4 }} />
@@ -603,12 +693,20 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
             </>
           )}
         </View>
+        {cardSupplies.some((s) => item.supplyIds?.includes(s.id) && s.quantity <= s.minQuantity) && (
+          <Text style={{ color: "#ef4444", fontSize: 10, fontWeight: "700", marginTop: 4 }}>SUPPLIES LOW</Text>
+        )}
       </Pressable>
       <View style={{ alignItems: "flex-end", gap: 8 }}>
         <Text style={{ color: theme.text, fontWeight: "700", fontSize: 14 }}>{item.ipAddress || "No IP"}</Text>
-        <Pressable onPress={() => deleteDatacard(item)} hitSlop={8} style={{ padding: 4 }}>
-          <Ionicons name="trash-outline" size={18} color="#ef4444" />
-        </Pressable>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+          <Pressable onPress={() => { setEditingDatacard(item); setDatacardForm({ name: item.name || "", location: item.location || "", ipAddress: item.ipAddress || "", assetNumber: item.assetNumber || "", serial: item.serial || "", ribbonType: item.ribbonType || "", notes: item.notes || "" }); setShowDatacardModal(true); }} hitSlop={8} style={{ padding: 4 }}>
+            <Ionicons name="create-outline" size={18} color={theme.mutedText} />
+          </Pressable>
+          <Pressable onPress={() => deleteDatacard(item)} hitSlop={8} style={{ padding: 4 }}>
+            <Ionicons name="trash-outline" size={18} color="#ef4444" />
+          </Pressable>
+        </View>
       </View>
     </View>
   );
@@ -639,8 +737,11 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
           ListHeaderComponent={
             <>
               <View style={{ flexDirection: "row", gap: 10, marginBottom: 10 }}>
-                <Pressable onPress={importTonersFromCSV} disabled={importingToners} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}>
-                  {importingToners ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                <Pressable onPress={importTonersFromCSV} disabled={importing === "toners"} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1, marginBottom: 0 }]}>
+                  {importing === "toners" ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                </Pressable>
+                <Pressable onPress={exportToners} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
+                  <Ionicons name="share-outline" size={18} color={theme.text} />
                 </Pressable>
                 <Pressable onPress={() => downloadTonerTemplate().catch((e) => Alert.alert("Error", e.message))} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
                   <Ionicons name="document-outline" size={18} color={theme.text} />
@@ -667,13 +768,16 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
           ListHeaderComponent={
             <>
               <View style={{ flexDirection: "row", alignItems: "center", gap: 10, marginBottom: 10 }}>
-                <Pressable onPress={importPrintersFromCSV} disabled={importingPrinters} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1 }]}>
-                  {importingPrinters ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                <Pressable onPress={importPrintersFromCSV} disabled={importing === "printers"} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1 }]}>
+                  {importing === "printers" ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                </Pressable>
+                <Pressable onPress={exportPrinters} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12 }]}>
+                  <Ionicons name="share-outline" size={18} color={theme.text} />
                 </Pressable>
                 <Pressable onPress={() => downloadPrinterTemplate().catch((e) => Alert.alert("Error", e.message))} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12 }]}>
                   <Ionicons name="document-outline" size={18} color={theme.text} />
                 </Pressable>
-                <Pressable onPress={() => { setEditingPrinter(null); setPrinterForm({ name: "", location: "", ipAddress: "", assetNumber: "", serial: "", tonerSeries: "", barcode: "", notes: "" }); setShowPrinterModal(true); }} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12 }]}>
+                <Pressable onPress={() => { setEditingPrinter(null); setPrinterForm({ name: "", location: "", ipAddress: "", assetNumber: "", serial: "", model: "", tonerSeries: "", barcode: "", notes: "", catalogModelId: "" }); setShowPrinterModal(true); }} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12 }]}>
                   <Ionicons name="add" size={18} color={theme.text} />
                 </Pressable>
               </View>
@@ -690,8 +794,8 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
           ListHeaderComponent={
             <>
               <View style={{ flexDirection: "row", alignItems: "center", gap: 10, marginBottom: 10 }}>
-                <Pressable onPress={importDatacardPrintersFromCSV} disabled={importingDatacardPrinters} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1 }]}>
-                  {importingDatacardPrinters ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
+                <Pressable onPress={importDatacardPrintersFromCSV} disabled={importing === "datacardPrinters"} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, flex: 1 }]}>
+                  {importing === "datacardPrinters" ? <ActivityIndicator size="small" color={theme.text} /> : <><Ionicons name="cloud-upload-outline" size={16} color={theme.text} style={{ marginRight: 6 }} /><Text style={[inventoryStyles.importBtnText, { color: theme.text }]}>Import CSV</Text></>}
                 </Pressable>
                 <Pressable onPress={() => downloadDatacardTemplate().catch((e) => Alert.alert("Error", e.message))} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12 }]}>
                   <Ionicons name="document-outline" size={18} color={theme.text} />
@@ -704,6 +808,31 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
             </>
           }
           ListEmptyComponent={<Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 40 }}>{datacardSearch ? "No results match." : "No data card printers yet. Tap + to add one."}</Text>}
+          ListFooterComponent={
+            <View style={{ marginTop: 20 }}>
+              <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 }}>
+                <Text style={{ color: theme.text, fontWeight: "800", fontSize: 15 }}>Ribbons & Cleaning Kits ({cardSupplies.length})</Text>
+                <Pressable onPress={openSupplyModal} style={[inventoryStyles.importBtn, { borderColor: theme.border, backgroundColor: theme.card, paddingHorizontal: 12, marginBottom: 0 }]}>
+                  <Ionicons name="add" size={18} color={theme.text} />
+                </Pressable>
+              </View>
+              {cardSupplies.map((s) => (
+                <Pressable key={s.id} onPress={() => router.push({ pathname: "/cardsupply/[id]" as any, params: { id: s.id } })} style={[inventoryStyles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[inventoryStyles.itemName, { color: theme.text }]}>{s.name}</Text>
+                    <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>
+                      {CARD_SUPPLY_KINDS.find((k) => k.value === s.kind)?.label ?? "Other"}{s.ribbonType ? ` · ${s.ribbonType}` : ""}
+                    </Text>
+                  </View>
+                  <View style={{ alignItems: "flex-end" }}>
+                    <Text style={{ color: theme.text, fontWeight: "900", fontSize: 18 }}>{s.quantity ?? 0}</Text>
+                    {s.quantity <= s.minQuantity && <Text style={{ color: "#ef4444", fontSize: 10, fontWeight: "700" }}>{s.quantity <= 0 ? "OUT" : "LOW"}</Text>}
+                  </View>
+                </Pressable>
+              ))}
+              {cardSupplies.length === 0 && <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 8 }}>No ribbons or cleaning kits tracked yet.</Text>}
+            </View>
+          }
         />
       )}
 
@@ -728,6 +857,15 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
           <ScrollView showsVerticalScrollIndicator={false}>
             <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Model Name *</Text>
             <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]} placeholder="e.g. 202X" placeholderTextColor={theme.mutedText} value={tonerForm.model} onChangeText={(v) => setTonerForm((p) => ({ ...p, model: v }))} />
+            {catalogLinkRow(
+              tonerForm.catalogId
+                ? (() => {
+                    const entry = catalogConsumables.find((c) => c.id === tonerForm.catalogId);
+                    return entry ? catalogConsumableName(entry) : "Linked";
+                  })()
+                : "",
+              "consumables"
+            )}
             <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Color</Text>
             <View style={inventoryStyles.colorRow}>
               {TONER_COLORS.map((c) => (
@@ -761,6 +899,13 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
               </Pressable>
             )}
           </ScrollView>
+          <CatalogPickerModal
+            visible={catalogPicker === "consumables"}
+            kind="consumables"
+            selectedId={tonerForm.catalogId || undefined}
+            onPick={handleCatalogPick}
+            onClose={() => setCatalogPicker(null)}
+          />
         </View>
       </Modal>
 
@@ -778,6 +923,7 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
               { label: "IP Address", key: "ipAddress", placeholder: "192.168.x.x" },
               { label: "Asset Number", key: "assetNumber", placeholder: "Asset #" },
               { label: "Serial", key: "serial", placeholder: "Serial #" },
+              { label: "Model", key: "model", placeholder: "e.g. HP Color LaserJet M454dw" },
               { label: "Toner Series", key: "tonerSeries", placeholder: "e.g. 1234-series" },
               { label: "Barcode", key: "barcode", placeholder: "Barcode" },
             ].map(({ label, key, placeholder }) => (
@@ -786,6 +932,15 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
                 <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]} placeholder={placeholder} placeholderTextColor={theme.mutedText} value={(printerForm as any)[key]} onChangeText={(v) => setPrinterForm((p) => ({ ...p, [key]: v }))} />
               </View>
             ))}
+            {catalogLinkRow(
+              printerForm.catalogModelId
+                ? (() => {
+                    const entry = catalogModels.find((m) => m.id === printerForm.catalogModelId);
+                    return entry ? catalogModelName(entry) : "Linked";
+                  })()
+                : "",
+              "printerModels"
+            )}
             <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
             <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 100 }]} placeholder="Notes" placeholderTextColor={theme.mutedText} multiline value={printerForm.notes} onChangeText={(v) => setPrinterForm((p) => ({ ...p, notes: v }))} />
             <Pressable style={[inventoryStyles.saveBtn, { backgroundColor: theme.primary }]} onPress={savePrinter}>
@@ -797,6 +952,13 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
               </Pressable>
             )}
           </ScrollView>
+          <CatalogPickerModal
+            visible={catalogPicker === "printerModels"}
+            kind="printerModels"
+            selectedId={printerForm.catalogModelId || undefined}
+            onPick={handleCatalogPick}
+            onClose={() => setCatalogPicker(null)}
+          />
         </View>
       </Modal>
 
@@ -835,27 +997,123 @@ const TonerSection = forwardRef<TonerSectionRef, TonerSectionProps>(function Ton
         </View>
       </Modal>
 
-      {/* Link Toner Modal */}
+      {/* Card Supply Modal */}
+      <Modal visible={showSupplyModal} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowSupplyModal(false)}>
+        <View style={[inventoryStyles.modalContainer, { backgroundColor: theme.background }]}>
+          <View style={inventoryStyles.modalHeader}>
+            <Text style={[inventoryStyles.modalTitle, { color: theme.text }]}>Add Ribbon / Kit</Text>
+            <Pressable onPress={() => setShowSupplyModal(false)}><Ionicons name="close" size={24} color={theme.text} /></Pressable>
+          </View>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Kind</Text>
+            <View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+              {CARD_SUPPLY_KINDS.map((k) => (
+                <Pressable key={k.value} onPress={() => setSupplyForm((p) => ({ ...p, kind: k.value }))} style={[inventoryStyles.chipSmall, { backgroundColor: supplyForm.kind === k.value ? theme.text : "transparent", borderColor: supplyForm.kind === k.value ? theme.text : theme.border }]}>
+                  <Text style={[inventoryStyles.chipTextSmall, { color: supplyForm.kind === k.value ? theme.background : theme.mutedText }]}>{k.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            {[
+              { label: "Name *", key: "name", placeholder: "e.g. YMCKT color ribbon" },
+              { label: "Ribbon Type", key: "ribbonType", placeholder: "e.g. YMCKO, KO, Monochrome" },
+              { label: "Quantity", key: "quantity", placeholder: "0", numeric: true },
+              { label: "Min Quantity", key: "minQuantity", placeholder: "0", numeric: true },
+              { label: "Barcode", key: "barcode", placeholder: "Scan or type" },
+            ].map(({ label, key, placeholder, numeric }) => (
+              <View key={key}>
+                <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>{label}</Text>
+                <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card }]} placeholder={placeholder} placeholderTextColor={theme.mutedText} keyboardType={numeric ? "numeric" : "default"} value={(supplyForm as any)[key]} onChangeText={(v) => setSupplyForm((p) => ({ ...p, [key]: v }))} />
+              </View>
+            ))}
+            <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Notes</Text>
+            <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.card, height: 100 }]} placeholder="Notes" placeholderTextColor={theme.mutedText} multiline value={supplyForm.notes} onChangeText={(v) => setSupplyForm((p) => ({ ...p, notes: v }))} />
+            <Pressable style={[inventoryStyles.saveBtn, { backgroundColor: theme.primary }]} onPress={saveSupply}>
+              <Text style={inventoryStyles.saveBtnText}>Add Supply</Text>
+            </Pressable>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Link Toner Modal — consumables for the printer's model */}
       <Modal visible={showLinkModal} animationType="slide" transparent={true} onRequestClose={() => setShowLinkModal(false)}>
         <View style={inventoryStyles.modalOverlay}>
           <View style={[inventoryStyles.linkModalContent, { backgroundColor: theme.card }]}>
-            <Text style={[inventoryStyles.modalTitle, { color: theme.text, marginBottom: 12 }]}>Link Toner to {selectedPrinter?.name}</Text>
+            <Text style={[inventoryStyles.modalTitle, { color: theme.text, marginBottom: 12 }]}>Consumables for {selectedPrinter?.name}</Text>
+            <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Printer model (shared by every printer of this model)</Text>
+            <TextInput style={[inventoryStyles.fieldInput, { borderColor: theme.border, color: theme.text, backgroundColor: theme.background }]} placeholder="e.g. HP Color LaserJet M454dw" placeholderTextColor={theme.mutedText} value={linkModel} onChangeText={setLinkModel} />
+
+            {linkedConsumables.map((c) => {
+              const toner = tonersById[c.tonerId];
+              return (
+                <View key={`${c.slot}_${c.tonerId}`} style={{ flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 6 }}>
+                  <View style={[inventoryStyles.chipSmall, { borderColor: theme.border }]}>
+                    <Text style={[inventoryStyles.chipTextSmall, { color: theme.mutedText }]}>{slotLabel(c.slot)}</Text>
+                  </View>
+                  <Text style={{ color: theme.text, fontWeight: "700", flex: 1 }} numberOfLines={1}>{toner?.model || "Deleted toner"}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12 }}>Stock: {toner?.quantity ?? 0}</Text>
+                  <Pressable hitSlop={8} onPress={() => handleUnlinkConsumable(c)}>
+                    <Ionicons name="close-circle" size={20} color="#ef4444" />
+                  </Pressable>
+                </View>
+              );
+            })}
+
+            <Text style={[inventoryStyles.fieldLabel, { color: theme.mutedText }]}>Add to slot</Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginBottom: 10 }}>
+              {CONSUMABLE_SLOTS.map((slot) => (
+                <Pressable key={slot.value} onPress={() => setLinkSlot(slot.value)} style={[inventoryStyles.chipSmall, { backgroundColor: linkSlot === slot.value ? theme.text : "transparent", borderColor: linkSlot === slot.value ? theme.text : theme.border }]}>
+                  <Text style={[inventoryStyles.chipTextSmall, { color: linkSlot === slot.value ? theme.background : theme.mutedText }]}>{slot.label}</Text>
+                </Pressable>
+              ))}
+            </View>
             <TextInput style={[inventoryStyles.searchInput, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]} placeholder="Search toners..." placeholderTextColor={theme.mutedText} value={tonerLinkSearch} onChangeText={setTonerLinkSearch} />
-            <ScrollView style={{ maxHeight: 380 }}>
+            <ScrollView style={{ maxHeight: 260 }}>
               {filteredTonerLinkList.map((t) => (
                 <Pressable key={t.id} style={[inventoryStyles.linkItem, { borderBottomColor: theme.border }]} onPress={() => handleLinkToner(t)}>
                   <Text style={{ color: theme.text, fontWeight: "700", fontSize: 15 }}>{t.name}</Text>
-                  <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>Stock: {t.stock}</Text>
+                  <Text style={{ color: theme.mutedText, fontSize: 12, marginTop: 2 }}>{t.color ? `${t.color} • ` : ""}Stock: {t.stock}</Text>
                 </Pressable>
               ))}
               {filteredTonerLinkList.length === 0 && <Text style={{ color: theme.mutedText, textAlign: "center", marginTop: 24 }}>No toners found.</Text>}
             </ScrollView>
             <Pressable style={{ marginTop: 16, alignItems: "center" }} onPress={() => setShowLinkModal(false)}>
+              <Text style={{ color: theme.tint, fontWeight: "800", fontSize: 16 }}>Done</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Deduct picker — which cartridge went into the printer */}
+      <Modal visible={!!deductPrinter} animationType="slide" transparent={true} onRequestClose={() => setDeductPrinter(null)}>
+        <View style={inventoryStyles.modalOverlay}>
+          <View style={[inventoryStyles.linkModalContent, { backgroundColor: theme.card }]}>
+            <Text style={[inventoryStyles.modalTitle, { color: theme.text, marginBottom: 4 }]}>Deduct for {deductPrinter?.name}</Text>
+            <Text style={{ color: theme.mutedText, fontSize: 13, marginBottom: 8 }}>Which slot was replaced?</Text>
+            <ScrollView style={{ maxHeight: 380 }}>
+              {deductPrinter && printerConsumables(deductPrinter, compatByModel, tonersById).map((c) => {
+                const toner = tonersById[c.tonerId];
+                const out = (toner?.quantity ?? 0) <= 0;
+                return (
+                  <Pressable
+                    key={`${c.slot}_${c.tonerId}`}
+                    disabled={out}
+                    style={[inventoryStyles.linkItem, { borderBottomColor: theme.border, opacity: out ? 0.4 : 1 }]}
+                    onPress={() => { const printer = deductPrinter; setDeductPrinter(null); deductConsumable(printer, c.tonerId); }}
+                  >
+                    <Text style={{ color: theme.text, fontWeight: "700", fontSize: 15 }}>{slotLabel(c.slot)} — {toner?.model || "Deleted toner"}</Text>
+                    <Text style={{ color: out ? "#ef4444" : theme.mutedText, fontSize: 12, marginTop: 2 }}>Stock: {toner?.quantity ?? 0}</Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+            <Pressable style={{ marginTop: 16, alignItems: "center" }} onPress={() => setDeductPrinter(null)}>
               <Text style={{ color: theme.tint, fontWeight: "800", fontSize: 16 }}>Cancel</Text>
             </Pressable>
           </View>
         </View>
       </Modal>
+
+      <ImportReportModal {...reportProps} />
     </View>
   );
 });
@@ -4,34 +4,46 @@ import { Text, View } from "react-native";
 import inventoryStyles from "../constants/inventoryStyles";
 import { db } from "../firebaseConfig";
 
-export default function TonerStockBadge({ tonerId, theme }: { tonerId: string; theme: any }) {
-  const [stock, setStock] = useState<number | null>(null);
-  const [name, setName] = useState<string>("");
+type TonerStock = { name: string; stock: number };
+
+// Stock of a printer's consumables; with several (a color set) it shows the lowest
+export default function TonerStockBadge({ tonerIds, theme }: { tonerIds: string[]; theme: any }) {
+  const [stockById, setStockById] = useState<Record<string, TonerStock>>({});
+  const idsKey = tonerIds.join(",");
 
   useEffect(() => {
-    if (!tonerId) return;
-    const unsub = onSnapshot(
-      doc(db, "toners", tonerId),
-      (snap) => {
-        if (snap.exists()) {
+    const ids = idsKey ? idsKey.split(",") : [];
+    setStockById({});
+    const unsubs = ids.map((id) =>
+      onSnapshot(
+        doc(db, "toners", id),
+        (snap) => {
+          if (!snap.exists()) {
+            setStockById(({ [id]: _gone, ...rest }) => rest);
+            return;
+          }
           const data = snap.data() as any;
-          setStock(data.quantity ?? data.stock ?? 0);
-          setName(data.model || data.name || "Toner");
-        }
-      },
-      (err) => { if (__DEV__) console.error("TonerStockBadge error:", err); }
+          setStockById((prev) => ({
+            ...prev,
+            [id]: { name: data.model || data.name || "Toner", stock: data.quantity ?? data.stock ?? 0 },
+          }));
+        },
+        (err) => { if (__DEV__) console.error("TonerStockBadge error:", err); }
+      )
     );
-    return () => unsub();
-  }, [tonerId]);
+    return () => unsubs.forEach((u) => u());
+  }, [idsKey]);
 
-  if (stock === null) return null;
+  const loaded = Object.values(stockById);
+  if (!loaded.length) return null;
 
-  const color = stock <= 0 ? "#ef4444" : stock <= 2 ? "#f97316" : "#22c55e";
+  const lowest = loaded.reduce((min, t) => (t.stock < min.stock ? t : min));
+  const color = lowest.stock <= 0 ? "#ef4444" : lowest.stock <= 2 ? "#f97316" : "#22c55e";
 
   return (
     <View style={[inventoryStyles.stockBadge, { backgroundColor: color + "20", borderColor: color }]}>
       <Text style={[inventoryStyles.stockText, { color }]}>
-        {name}: {stock}
+        {loaded.length > 1 ? `Lowest of ${loaded.length} · ` : ""}{lowest.name}: {lowest.stock}
       </Text>
     </View>
   );
@@ -2,7 +2,13 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { initializeApp } from "firebase/app";
 import { getAuth, getReactNativePersistence, initializeAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
+import { getFunctions } from "firebase/functions";
 import { Platform } from "react-native";
 
 const firebaseConfig = {
@@ -17,8 +23,18 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
 
-// Firestore
-export const db = getFirestore(app);
+// Firestore. Web gets the persistent IndexedDB cache so reads survive reloads
+// while offline. The JS SDK has no persistent cache on React Native (it needs
+// IndexedDB and falls back to memory with a warning), so native keeps the
+// memory cache: reads made this session work offline, but not after a
+// restart. Queued writes survive either way in the AsyncStorage outbox
+// (utils/outbox.ts).
+export const db =
+  Platform.OS === "web"
+    ? initializeFirestore(app, {
+        localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+      })
+    : getFirestore(app);
 
 // Auth (platform-safe: AsyncStorage persistence on device, default on web)
 export const auth =
@@ -28,4 +44,7 @@ export const auth =
         persistence: getReactNativePersistence(AsyncStorage),
       });
 
+// Callable Cloud Functions (functions/index.js)
+export const functions = getFunctions(app);
+
 export default app;
@@ -0,0 +1,73 @@
+// functions/catalogMatch.js
+// Suggests global catalog entries (catalogPrinterModels / catalogConsumables)
+// for imported rows. Sites name the same hardware differently ("HP LaserJet
+// Pro M404" vs "HP M404n"), so besides exact matches on the name, part number
+// and aliases, names are compared token by token. Tokens with digits are the
+// model numbers and count double; "m404" matches "m404n" as a prefix. When
+// both sides have model numbers and none of them match, it is not the same
+// model, however many words they share. Used by runImport in importPipeline.js.
+
+// At or above this a suggestion is linked unless the user turns it off
+export const CONFIDENT_SCORE = 0.7;
+const MIN_SCORE = 0.45;
+const MAX_CANDIDATES = 3;
+
+const compact = (text) => String(text ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+const tokensOf = (text) => String(text ?? "").toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+const hasDigit = (token) => /\d/.test(token);
+const weightOf = (token) => (hasDigit(token) ? 2 : 1);
+
+function tokenMatch(a, b) {
+  if (a === b) return 1;
+  if (hasDigit(a) && hasDigit(b) && a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+  return 0;
+}
+
+/** 0..1 similarity of two names. */
+export function nameScore(a, b) {
+  if (!compact(a) || !compact(b)) return 0;
+  if (compact(a) === compact(b)) return 1;
+  const ta = tokensOf(a);
+  const tb = tokensOf(b);
+  const modelA = ta.filter(hasDigit);
+  const modelB = tb.filter(hasDigit);
+  if (modelA.length && modelB.length && !modelA.some((x) => modelB.some((y) => tokenMatch(x, y) > 0))) return 0;
+
+  let matched = 0;
+  for (const x of ta) {
+    const best = Math.max(0, ...tb.map((y) => tokenMatch(x, y)));
+    matched += best * weightOf(x);
+  }
+  const weightA = ta.reduce((sum, t) => sum + weightOf(t), 0);
+  const weightB = tb.reduce((sum, t) => sum + weightOf(t), 0);
+  return Math.min(1, (matched / weightA + matched / weightB) / 2);
+}
+
+/** Names an entry is known by, for matching. */
+export function catalogTerms(entry) {
+  return [
+    entry.partNumber,
+    entry.model,
+    entry.manufacturer && entry.model ? `${entry.manufacturer} ${entry.model}` : null,
+    entry.description,
+    ...(Array.isArray(entry.aliases) ? entry.aliases : []),
+  ].filter((t) => typeof t === "string" && t.trim());
+}
+
+/**
+ * Best catalog entries for the row's texts (name, model, part number…),
+ * highest score first. Entries below MIN_SCORE are left out.
+ */
+export function suggestCatalogEntries(texts, entries) {
+  const wanted = texts.filter((t) => typeof t === "string" && t.trim());
+  if (!wanted.length) return [];
+  return entries
+    .map((entry) => {
+      const terms = catalogTerms(entry);
+      const score = Math.max(0, ...wanted.flatMap((t) => terms.map((term) => nameScore(t, term))));
+      return { entry, score: Math.round(score * 100) / 100 };
+    })
+    .filter((c) => c.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
@@ -0,0 +1,103 @@
+// functions/cycleCounts.js
+// Weekly cycle count planning. Stock records are ranked by movement volume
+// (units moved over the last 90 days, from the site's alertsLog movement
+// entries) into ABC classes: the busiest 20% are A, the next 30% B, the rest
+// C. Each class has a count interval, and each week a site is assigned its
+// most overdue records, up to the number it has to count per week on average
+// to keep every record on schedule. Used by cycleCountSchedule in index.js.
+
+import admin from "firebase-admin";
+
+export const CYCLE_INTERVAL_WEEKS = { A: 4, B: 13, C: 26 };
+export const SITE_TIME_ZONE = "America/New_York";
+
+const VOLUME_WINDOW_DAYS = 90;
+const CLASS_A_SHARE = 0.2;
+const CLASS_B_SHARE = 0.3;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const STOCK_COLLECTIONS = [
+  { collection: "items", itemType: "inventory", getName: (d) => d.name || "Unnamed item" },
+  { collection: "toners", itemType: "toner", getName: (d) => d.model || "Unknown toner" },
+  { collection: "radioParts", itemType: "radioPart", getName: (d) => d.name || "Unnamed part" },
+  { collection: "cardSupplies", itemType: "cardSupply", getName: (d) => d.name || "Unnamed supply" },
+];
+
+// ---- calendar (site-local YYYY-MM-DD days) ----
+
+export function siteDay(date = new Date()) {
+  return date.toLocaleDateString("en-CA", { timeZone: SITE_TIME_ZONE });
+}
+
+export function addDays(day, n) {
+  const d = new Date(`${day}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Monday of the week containing `day`. */
+export function weekOf(day) {
+  const dow = new Date(`${day}T12:00:00Z`).getUTCDay();
+  return addDays(day, -((dow + 6) % 7));
+}
+
+// ---- planning ----
+
+/** Units moved per `${itemType}:${itemId}` over the volume window. */
+export async function loadMovementVolume(db, siteId) {
+  const cutoff = new Date(Date.now() - VOLUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const snap = await db
+    .collection("alertsLog")
+    .where("siteId", "==", siteId)
+    .where("createdAt", ">=", admin.firestore.Timestamp.fromDate(cutoff))
+    .get();
+
+  const volume = {};
+  snap.docs.forEach((d) => {
+    const { source, itemType, itemId, delta } = d.data();
+    if (source !== "movement" || !itemId || !delta) return;
+    const key = `${itemType}:${itemId}`;
+    volume[key] = (volume[key] ?? 0) + Math.abs(Number(delta));
+  });
+  return volume;
+}
+
+/**
+ * Picks this week's lines from `records` ({ itemType, itemId, itemName,
+ * lastCountedAt }). Never-counted records are the most overdue.
+ */
+export function planWeek(records, volume, now = Date.now()) {
+  const ranked = records
+    .map((r) => ({ ...r, volume: volume[`${r.itemType}:${r.itemId}`] ?? 0 }))
+    .sort((a, b) => b.volume - a.volume || a.itemName.localeCompare(b.itemName));
+
+  const aCount = Math.ceil(ranked.length * CLASS_A_SHARE);
+  const bCount = Math.ceil(ranked.length * CLASS_B_SHARE);
+  ranked.forEach((r, i) => {
+    // Records that never moved are C whatever their rank
+    r.abcClass = r.volume > 0 && i < aCount ? "A" : r.volume > 0 && i < aCount + bCount ? "B" : "C";
+  });
+
+  const quota = Math.ceil(ranked.reduce((sum, r) => sum + 1 / CYCLE_INTERVAL_WEEKS[r.abcClass], 0));
+  const due = ranked
+    .map((r) => {
+      const last = r.lastCountedAt?.toMillis?.() ?? null;
+      const overdue = last == null ? Infinity : (now - last) / WEEK_MS / CYCLE_INTERVAL_WEEKS[r.abcClass];
+      return { ...r, overdue };
+    })
+    .filter((r) => r.overdue >= 1)
+    .sort((a, b) => b.overdue - a.overdue || a.itemName.localeCompare(b.itemName))
+    .slice(0, quota);
+
+  return due.map((r) => ({
+    itemType: r.itemType,
+    itemId: r.itemId,
+    itemName: r.itemName,
+    abcClass: r.abcClass,
+    volume: r.volume,
+    countedAt: null,
+    countedBy: null,
+    recorded: null,
+    counted: null,
+  }));
+}
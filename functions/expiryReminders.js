@@ -0,0 +1,89 @@
+// functions/expiryReminders.js
+// Expiry reminders for service contracts, warranties (contracts collection)
+// and asset register warranties (assets.warrantyEnd). Each record is reminded
+// once per stage as its end date comes within 60, 30 and 7 days; the last
+// stage sent is kept on the record so a missed run catches up with one
+// reminder instead of several. Used by expiryReminderSchedule in index.js.
+
+import { siteDay } from "./cycleCounts.js";
+
+export const REMINDER_DAYS = [60, 30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days from `today` to `endDate` (both YYYY-MM-DD); null when malformed. */
+export function daysUntil(endDate, today = siteDay()) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(endDate ?? "")) return null;
+  const end = Date.parse(`${endDate}T12:00:00Z`);
+  if (Number.isNaN(end)) return null;
+  return Math.round((end - Date.parse(`${today}T12:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * The stage to remind at, or null. A record is due when it is within a stage
+ * it has not been reminded at yet; expired records are not reminded.
+ */
+export function reminderStage(daysLeft, sentStage) {
+  if (daysLeft == null || daysLeft < 0) return null;
+  const stage = [...REMINDER_DAYS].reverse().find((d) => daysLeft <= d);
+  if (stage == null) return null;
+  return sentStage == null || stage < sentStage ? stage : null;
+}
+
+/**
+ * Records due a reminder today: { ref, siteId, title, endDate, daysLeft,
+ * stage, stageField }. `stageField` is where the stage is saved.
+ */
+export async function loadDueReminders(db, today = siteDay()) {
+  const [contractsSnap, assetsSnap] = await Promise.all([
+    db.collection("contracts").get(),
+    db.collection("assets").where("status", "in", ["in_service", "in_repair", "retired"]).get(),
+  ]);
+
+  const due = [];
+  const check = (ref, data, { title, endDate, sentStage, stageField }) => {
+    if (!data.siteId) return;
+    const daysLeft = daysUntil(endDate, today);
+    const stage = reminderStage(daysLeft, sentStage);
+    if (stage != null) due.push({ ref, siteId: data.siteId, title, endDate, daysLeft, stage, stageField });
+  };
+
+  contractsSnap.docs.forEach((d) => {
+    const data = d.data();
+    check(d.ref, data, {
+      title: [data.title || (data.kind === "warranty" ? "Warranty" : "Service contract"), data.targetName || data.vendorName]
+        .filter(Boolean)
+        .join(" · "),
+      endDate: data.endDate,
+      sentStage: data.reminderStage,
+      stageField: "reminderStage",
+    });
+  });
+
+  assetsSnap.docs.forEach((d) => {
+    const data = d.data();
+    if (!data.warrantyEnd) return;
+    check(d.ref, data, {
+      title: `Warranty · ${data.name || "Asset"}`,
+      endDate: data.warrantyEnd,
+      sentStage: data.warrantyReminderStage,
+      stageField: "warrantyReminderStage",
+    });
+  });
+
+  return due;
+}
+
+/** Push title and body for one site's due reminders. */
+export function reminderMessage(reminders) {
+  const sorted = [...reminders].sort((a, b) => a.daysLeft - b.daysLeft);
+  const first = sorted[0];
+  const when = (r) => (r.daysLeft === 0 ? "today" : `in ${r.daysLeft} day${r.daysLeft === 1 ? "" : "s"}`);
+  if (sorted.length === 1) {
+    return { title: "Expiring Soon", body: `${first.title} expires ${when(first)} (${first.endDate}).` };
+  }
+  return {
+    title: "Expiring Soon",
+    body: `${sorted.length} contracts and warranties expire within ${Math.max(...sorted.map((r) => r.stage))} days. First: ${first.title}, ${when(first)}.`,
+  };
+}
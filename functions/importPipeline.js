@@ -0,0 +1,542 @@
+// functions/importPipeline.js
+// One CSV import pipeline for every importable collection. A schema per entity
+// says which columns to look for, how to build the stable doc ID and what to
+// write. runImport() maps the header row, validates each row (per-row errors
+// and warnings), diffs against the existing docs (create / update / unchanged)
+// and, unless it is a dry run, commits in chunks well under the 500-op batch
+// limit. Called by the importRecords callable in index.js.
+
+import admin from "firebase-admin";
+import { CONFIDENT_SCORE, suggestCatalogEntries } from "./catalogMatch.js";
+
+const BATCH_SIZE = 400;
+const READ_CHUNK = 300;
+const MAX_CHANGES_IN_REPORT = 300;
+
+export class ImportError extends Error {}
+
+// ---- cell helpers (same rules as utils/csvHelpers.ts) ----
+
+export function normalizeCell(val) {
+  if (!val) return "";
+  const trimmed = String(val).trim();
+  if (["nan", "none", "null", "-", "n/a"].includes(trimmed.toLowerCase())) return "";
+  return trimmed;
+}
+
+const normalizeHeader = (h) => String(h ?? "").toLowerCase().replace(/\s+/g, "");
+
+// Exact-match first, then partial — prevents e.g. "printerip" from shadowing "printer" as a name column
+function findColumn(headers, aliases) {
+  for (const n of aliases) { const idx = headers.findIndex((h) => h === n); if (idx !== -1) return idx; }
+  for (const n of aliases) { const idx = headers.findIndex((h) => h.includes(n)); if (idx !== -1) return idx; }
+  return -1;
+}
+
+const slugId = (raw) => raw.toLowerCase().replace(/[^a-z0-9]/g, "_").replace(/_+/g, "_").slice(0, 100);
+
+const TONER_COLORS = ["Black", "Cyan", "Magenta", "Yellow", "Other"];
+const RADIO_CONDITIONS = ["Good", "Fair", "Poor", "Out of Service"];
+
+function matchOption(options, raw, fallback, label, warn) {
+  if (!raw) return fallback;
+  const match = options.find((o) => o.toLowerCase() === raw.toLowerCase());
+  if (!match) warn(`${label} "${raw}" is not recognised — saved as ${fallback}`);
+  return match ?? fallback;
+}
+
+// ---- BeyondTrust device export → Nexus device template ----
+
+function prepareDeviceRows(rows) {
+  // BeyondTrust exports start with a single-cell "Jump Client" label row — skip it
+  const body = rows[0].length === 1 ? rows.slice(1) : rows;
+  if (!body.length) return body;
+  const headers = body[0].map((h) => String(h).toLowerCase().trim());
+  const isBeyondTrust = headers.some(
+    (h) => h === "operating system" || h === "console user" || h === "hostname / ip"
+  );
+  if (!isBeyondTrust) return body;
+
+  const idx = (name) => headers.indexOf(name);
+  const strip = (s) => (s.startsWith("'") ? s.slice(1) : s);
+  const cell = (row, name) => (idx(name) !== -1 ? normalizeCell(row[idx(name)] ?? "") : "");
+
+  const mapStatus = (s) => {
+    const l = s.toLowerCase();
+    if (l.includes("lost")) return "Lost";
+    if (l.includes("offline") || l === "uninstalled") return "Offline";
+    return "Active [ON]";
+  };
+
+  const out = [["Name", "FQDN", "IP", "OS", "OS Version", "Type", "Status", "User"]];
+  const seen = new Set();
+  for (const row of body.slice(1)) {
+    const name = strip(cell(row, "name"));
+    if (!name || name.toLowerCase().startsWith("tv48 jump")) continue;
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    const rawOs = cell(row, "operating system");
+    const m = rawOs.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+    const os = m ? m[1].trim() : rawOs;
+    const osVer = m ? m[2].trim() : "";
+    const type = os.toLowerCase().includes("server") ? "Server" : name.toLowerCase().includes("laptop") ? "Laptop" : "Desktop";
+    out.push([
+      name,
+      strip(cell(row, "fqdn")),
+      cell(row, "private ip"),
+      os,
+      osVer,
+      type,
+      idx("status") !== -1 ? mapStatus(cell(row, "status")) : "Active [ON]",
+      cell(row, "console user"),
+    ]);
+  }
+  return out;
+}
+
+// ---- schemas ----
+// fields[].key is the doc field unless `store: false` (input-only column).
+// toDoc(values, warn, ctx) receives parsed values (undefined = column absent)
+// and returns { id, data }.
+
+export const IMPORT_SCHEMAS = {
+  items: {
+    label: "Inventory items",
+    collection: "items",
+    fields: [
+      { key: "name", label: "Name", aliases: ["name", "item", "description"], required: true },
+      { key: "currentQuantity", label: "Quantity", aliases: ["qty", "quantity", "amount", "stock"], type: "int" },
+      { key: "minQuantity", label: "Min quantity", aliases: ["min", "minimum", "minqty", "minstock"], type: "int" },
+      { key: "location", label: "Location", aliases: ["location", "loc", "shelf", "room"] },
+      { key: "barcode", label: "Barcode", aliases: ["barcode", "sku", "upc"] },
+      { key: "notes", label: "Notes", aliases: ["notes", "note", "desc"] },
+    ],
+    toDoc: (v, warn, { siteId }) => ({
+      // ID derived from site + name keeps re-imports idempotent.
+      // If an item is renamed in the CSV a new doc is created — delete the old one manually.
+      id: slugId(`${siteId}_${v.name}`),
+      data: v,
+    }),
+  },
+
+  toners: {
+    label: "Toners",
+    collection: "toners",
+    fields: [
+      { key: "model", label: "Model", aliases: ["model", "name", "toner"], required: true },
+      { key: "partNumber", label: "Part number", aliases: ["part", "partnumber", "sku"] },
+      { key: "color", label: "Color", aliases: ["color", "colour", "type"], default: "Black" },
+      { key: "quantity", label: "Quantity", aliases: ["qty", "quantity", "amount", "stock"], type: "int" },
+      { key: "minQuantity", label: "Min quantity", aliases: ["min", "minimum", "minqty"], type: "int" },
+      { key: "printer", label: "Printer", aliases: ["printer", "compatible", "machine"] },
+      { key: "supplier", label: "Supplier", aliases: ["supplier", "vendor"] },
+      { key: "notes", label: "Notes", aliases: ["notes", "note"] },
+    ],
+    toDoc: (v, warn, { siteId }) => {
+      const color = matchOption(TONER_COLORS, v.color ?? "Black", "Other", "Color", warn);
+      return { id: slugId(`${siteId}_${v.model}_${color}`), data: { ...v, color } };
+    },
+    catalog: {
+      collection: "catalogConsumables",
+      field: "catalogId",
+      texts: (v) => [v.partNumber, v.model],
+      label: (e) => [e.partNumber, e.description].filter(Boolean).join(" · "),
+      detail: (e) => [
+        e.color,
+        e.yieldPages ? `${e.yieldPages.toLocaleString("en-US")} pages` : null,
+        typeof e.typicalPrice === "number" ? `$${e.typicalPrice.toFixed(2)}` : null,
+      ].filter(Boolean).join(" · "),
+      apply: (e, v, current) => ({
+        catalogId: e.id,
+        ...(v.partNumber || current?.partNumber ? {} : { partNumber: e.partNumber }),
+      }),
+      // A typed unit cost is never overwritten; new toners start at the catalog price
+      applyOnCreate: (e) => (typeof e.typicalPrice === "number" ? { unitCost: e.typicalPrice } : {}),
+    },
+  },
+
+  printers: {
+    label: "Printers",
+    collection: "printers",
+    fields: [
+      { key: "name", label: "Name", aliases: ["name", "printer", "description", "desc"], required: true },
+      { key: "location", label: "Location", aliases: ["location", "loc", "dept", "department", "room"] },
+      { key: "ipAddress", label: "IP address", aliases: ["ip", "ipaddress", "ip_address"] },
+      { key: "assetNumber", label: "Asset number", aliases: ["asset", "assetnumber", "toshiba"] },
+      { key: "serial", label: "Serial", aliases: ["serial", "sn", "serialnumber"] },
+      { key: "model", label: "Model", aliases: ["model", "make"] },
+      { key: "tonerSeries", label: "Toner series", aliases: ["toner", "tonerseries"] },
+      { key: "barcode", label: "Barcode", aliases: ["barcode", "sku", "upc"] },
+      { key: "notes", label: "Notes", aliases: ["notes", "note"] },
+    ],
+    toDoc: (v, warn, { siteId }) => ({ id: slugId(`${siteId}_${v.name}`), data: v }),
+    catalog: {
+      collection: "catalogPrinterModels",
+      field: "catalogModelId",
+      texts: (v) => [v.model, v.name],
+      label: (e) => [e.manufacturer, e.model].filter(Boolean).join(" "),
+      detail: (e) => (Array.isArray(e.aliases) && e.aliases.length ? `Also: ${e.aliases.join(", ")}` : ""),
+      // A new printer takes the catalog name, so every site's printers of this
+      // model share one printerCompatibility key. An existing one keeps its
+      // model: the compatibility list is keyed by it and would be left behind.
+      apply: (e, v, current) => ({
+        catalogModelId: e.id,
+        ...(current ? {} : { model: [e.manufacturer, e.model].filter(Boolean).join(" ") }),
+      }),
+    },
+  },
+
+  datacardPrinters: {
+    label: "Data card printers",
+    collection: "datacardPrinters",
+    fields: [
+      { key: "model", label: "Model", aliases: ["datacard", "model", "name"], store: false },
+      { key: "serial", label: "Serial", aliases: ["serial", "sn", "serialnumber"] },
+      { key: "location", label: "Location", aliases: ["location", "loc"] },
+      { key: "ipAddress", label: "IP address", aliases: ["printerip", "ipaddress", "ip_address", "ip"] },
+      { key: "assetNumber", label: "Asset number", aliases: ["asset", "assetnumber"] },
+      { key: "ribbonType", label: "Ribbon type", aliases: ["ribbon", "ribbontype"] },
+      { key: "warranty", label: "Warranty", aliases: ["warranty"], store: false },
+      { key: "status", label: "Status", aliases: ["status"], store: false },
+      { key: "mac", label: "MAC address", aliases: ["mac", "macaddress"], store: false },
+      { key: "notes", label: "Notes", aliases: ["notes", "note"] },
+    ],
+    requireOneOf: ["model", "serial"],
+    toDoc: (v, warn, { siteId }) => {
+      const { model = "", warranty, status, mac, notes: rawNotes, ...rest } = v;
+      const serial = v.serial ?? "";
+      const name = model && serial ? `${model} - ${serial}` : model || serial;
+      const noteParts = [];
+      if (warranty) noteParts.push(`Warranty: ${warranty}`);
+      if (status) noteParts.push(`Status: ${status}`);
+      if (mac) noteParts.push(`MAC: ${mac}`);
+      if (rawNotes) noteParts.push(rawNotes);
+      return {
+        id: slugId(`${siteId}_dc_${serial || name}`),
+        data: { ...rest, name, notes: noteParts.join(" | ") },
+      };
+    },
+  },
+
+  radios: {
+    label: "Radios",
+    collection: "radios",
+    fields: [
+      { key: "model", label: "Model", aliases: ["model", "name", "radio"], required: true },
+      { key: "serialNumber", label: "Serial number", aliases: ["serial", "serialnumber", "sn"] },
+      { key: "channel", label: "Channel", aliases: ["channel", "chan"] },
+      { key: "assignedTo", label: "Assigned to", aliases: ["assigned", "assignedto", "user", "person"] },
+      { key: "location", label: "Location", aliases: ["location", "loc"] },
+      { key: "condition", label: "Condition", aliases: ["condition", "status", "state"], default: "Good" },
+      { key: "notes", label: "Notes", aliases: ["notes", "note"] },
+    ],
+    toDoc: (v, warn, { siteId, rowNumber }) => {
+      const data = { ...v };
+      if (v.condition !== undefined) data.condition = matchOption(RADIO_CONDITIONS, v.condition, "Good", "Condition", warn);
+      // Radios without a serial fall back to the row number, so re-importing
+      // the same file updates rather than duplicates them.
+      return { id: slugId(`${siteId}_${v.model}_${v.serialNumber || rowNumber}`), data };
+    },
+  },
+
+  radioParts: {
+    label: "Radio parts",
+    collection: "radioParts",
+    fields: [
+      { key: "name", label: "Name", aliases: ["name", "part", "item"], required: true },
+      { key: "compatibleModel", label: "Compatible model", aliases: ["compatible", "model", "compatiblemodel"] },
+      { key: "quantity", label: "Quantity", aliases: ["qty", "quantity", "amount", "stock"], type: "int" },
+      { key: "minQuantity", label: "Min quantity", aliases: ["min", "minimum", "minqty"], type: "int" },
+      { key: "location", label: "Location", aliases: ["location", "loc"] },
+      { key: "barcode", label: "Barcode", aliases: ["barcode", "sku", "upc"] },
+      { key: "notes", label: "Notes", aliases: ["notes", "note"] },
+    ],
+    toDoc: (v, warn, { siteId }) => ({ id: slugId(`${siteId}_${v.name}`), data: v }),
+  },
+
+  pmDevices: {
+    label: "PM devices",
+    collection: "pmDevices",
+    adminOnly: true, // matches the pmDevices rules: staff cannot add devices
+    prepare: prepareDeviceRows,
+    fields: [
+      { key: "name", label: "Name", aliases: ["name"], required: true },
+      { key: "fqdn", label: "FQDN", aliases: ["fqdn", "hostname", "host"] },
+      { key: "ip", label: "IP", aliases: ["ip"] },
+      { key: "os", label: "OS", aliases: ["os"] },
+      { key: "osVer", label: "OS version", aliases: ["osversion", "osver", "version", "ver"] },
+      { key: "type", label: "Type", aliases: ["type"], default: "Desktop" },
+      { key: "status", label: "Status", aliases: ["status"], default: "Active [ON]" },
+      { key: "user", label: "User", aliases: ["user"] },
+    ],
+    toDoc: (v, warn, { siteId }) => ({
+      id: `${siteId}_${v.name.toLowerCase().replace(/[^a-z0-9]/g, "_")}`,
+      data: v,
+    }),
+  },
+
+  disposals: {
+    label: "Disposals",
+    collection: "disposals",
+    fields: [
+      { key: "itemName", label: "Item name", aliases: ["item", "name", "description"], required: true },
+      { key: "model", label: "Model", aliases: ["model"] },
+      { key: "quantity", label: "Quantity", aliases: ["amount", "qty", "quantity"], type: "int", default: 1 },
+      { key: "vendor", label: "Vendor", aliases: ["vendor", "supplier"] },
+      { key: "totalValue", label: "Total value", aliases: ["multipleamount", "totalvalue", "total"] },
+      { key: "approxValue", label: "Unit value", aliases: ["approxamount", "approxprice", "unitprice"] },
+      { key: "approxAge", label: "Approx age", aliases: ["approxage", "age"] },
+      { key: "notes", label: "Notes", aliases: ["notes", "desc"] },
+    ],
+    // Repeated header rows and "---" separators from pasted spreadsheets
+    skipRow: (v, header) => {
+      const name = (v.itemName ?? "").toLowerCase();
+      return name === header.toLowerCase() || name.startsWith("---");
+    },
+    toDoc: (v, warn) => {
+      const data = { ...v };
+      if (v.quantity === 0) {
+        warn("Quantity is 0 — saved as 1");
+        data.quantity = 1;
+      }
+      return { id: slugId(`${v.itemName}_${v.model ?? ""}_${v.vendor ?? ""}`), data };
+    },
+    onCreate: ({ by, uid }) => ({
+      reason: "obsolete",
+      disposedBy: by,
+      disposedByUid: uid,
+      disposedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }),
+  },
+};
+
+// ---- pipeline ----
+
+function parseRow(schema, columns, row, issue) {
+  const values = {};
+  for (const field of schema.fields) {
+    const idx = columns[field.key];
+    if (idx === -1) continue;
+    const raw = normalizeCell(row[idx] ?? "");
+    if (field.type === "int") {
+      if (raw === "") { values[field.key] = field.default ?? 0; continue; }
+      const n = Number(raw.replace(/,/g, ""));
+      if (!Number.isFinite(n)) { issue("error", `${field.label} "${raw}" is not a number`); continue; }
+      if (n < 0 || !Number.isInteger(n)) issue("warning", `${field.label} "${raw}" rounded to ${Math.max(0, Math.round(n))}`);
+      values[field.key] = Math.max(0, Math.round(n));
+    } else {
+      values[field.key] = raw === "" && field.default !== undefined ? field.default : raw;
+    }
+  }
+  for (const field of schema.fields) {
+    if (field.required && !values[field.key]) issue("error", `${field.label} is empty`);
+  }
+  if (schema.requireOneOf && schema.requireOneOf.every((k) => !values[k])) {
+    const labels = schema.requireOneOf.map((k) => schema.fields.find((f) => f.key === k).label);
+    issue("error", `${labels.join(" and ")} are both empty`);
+  }
+  return values;
+}
+
+function storedDefaults(schema) {
+  const defaults = {};
+  for (const field of schema.fields) {
+    if (field.store === false) continue;
+    defaults[field.key] = field.default ?? (field.type === "int" ? 0 : "");
+  }
+  return defaults;
+}
+
+const stripUndefined = (obj) => Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+
+async function loadExisting(db, collection, ids) {
+  const existing = new Map();
+  for (let i = 0; i < ids.length; i += READ_CHUNK) {
+    const refs = ids.slice(i, i + READ_CHUNK).map((id) => db.collection(collection).doc(id));
+    if (!refs.length) continue;
+    const snaps = await db.getAll(...refs);
+    snaps.forEach((s) => { if (s.exists) existing.set(s.id, s.data()); });
+  }
+  return existing;
+}
+
+// Column per field: an explicit mapping (field key → header text, null = not
+// imported) wins; fields it leaves out are auto-detected from the aliases.
+function resolveColumns(schema, headerRow, mapping) {
+  const headers = headerRow.map(normalizeHeader);
+  const columns = {};
+  for (const field of schema.fields) {
+    if (mapping && Object.prototype.hasOwnProperty.call(mapping, field.key)) {
+      const header = mapping[field.key];
+      columns[field.key] = header == null ? -1 : headerRow.indexOf(header);
+    } else {
+      columns[field.key] = findColumn(headers, field.aliases);
+    }
+  }
+  return columns;
+}
+
+// Catalog matching assistant for schemas with a `catalog`: rows not yet linked
+// to a catalog entry get up to three suggestions, and the best one is linked
+// when it is confident. `catalogLinks` (spreadsheet row → catalog ID, "" for
+// none) records the user's choices and wins over the automatic pick.
+async function applyCatalog(db, schema, records, existing, catalogLinks) {
+  const { catalog } = schema;
+  const snap = await db.collection(catalog.collection).get();
+  const entries = snap.docs.map((d) => ({ id: d.id, ...d.data() }));
+  if (!entries.length) return [];
+  const byId = new Map(entries.map((e) => [e.id, e]));
+
+  const suggestions = [];
+  for (const rec of records) {
+    const current = existing.get(rec.id);
+    const chosen = catalogLinks?.[rec.rowNumber];
+    if (current?.[catalog.field] && chosen === undefined) continue;
+    const candidates = suggestCatalogEntries(catalog.texts(rec.data), entries);
+    if (!candidates.length && !chosen) continue;
+
+    const auto = candidates[0]?.score >= CONFIDENT_SCORE ? candidates[0].entry : null;
+    const applied = chosen === undefined ? auto : byId.get(chosen) ?? null;
+    const typedModel = rec.data.model;
+    if (applied) {
+      rec.data = { ...rec.data, ...catalog.apply(applied, rec.data, current) };
+      if (!current && catalog.applyOnCreate) rec.createData = catalog.applyOnCreate(applied);
+    }
+    const modelRename = rec.data.model !== typedModel ? { from: typedModel ?? "", to: rec.data.model } : null;
+    const options = candidates.map((c) => c.entry);
+    if (applied && !options.some((e) => e.id === applied.id)) options.unshift(applied);
+    suggestions.push({
+      row: rec.rowNumber,
+      name: rec.data.name ?? rec.data.model ?? "",
+      candidates: options.map((e) => ({
+        id: e.id,
+        label: catalog.label(e),
+        detail: catalog.detail(e),
+        score: candidates.find((c) => c.entry.id === e.id)?.score ?? 1,
+      })),
+      appliedId: applied?.id ?? null,
+      modelRename,
+    });
+  }
+  return suggestions;
+}
+
+/**
+ * Runs one import. `rows` is the parsed CSV including its header row;
+ * `mapping` optionally pins fields to header names (see resolveColumns);
+ * `catalogLinks` overrides the catalog assistant's picks (see applyCatalog).
+ * Returns the validation report; writes nothing when `dryRun` is true.
+ */
+export async function runImport({ db, entity, siteId, rows, mapping, catalogLinks, dryRun, by, uid, isAdmin }) {
+  const schema = IMPORT_SCHEMAS[entity];
+  if (!schema) throw new ImportError(`Unknown import type "${entity}".`);
+  if (schema.adminOnly && !isAdmin) throw new ImportError(`Only admins can import ${schema.label}.`);
+  if (!Array.isArray(rows) || rows.length < 2) throw new ImportError("No data rows found in the CSV.");
+
+  const prepared = schema.prepare ? schema.prepare(rows) : rows;
+  if (prepared.length < 2) throw new ImportError("No data rows found in the CSV.");
+  const headerRow = prepared[0].map((h) => String(h ?? ""));
+  const columns = resolveColumns(schema, headerRow, mapping);
+
+  // A dry run with unmapped required fields still returns a report so the
+  // user can assign the columns; committing one is refused.
+  const missingColumns = schema.fields.filter((f) => f.required && columns[f.key] === -1).map((f) => f.label);
+  if (schema.requireOneOf && schema.requireOneOf.every((k) => columns[k] === -1)) {
+    missingColumns.push(schema.requireOneOf.map((k) => schema.fields.find((f) => f.key === k).label).join(" or "));
+  }
+  if (missingColumns.length && !dryRun) {
+    throw new ImportError(`Could not find a column for: ${missingColumns.join(", ")}.`);
+  }
+
+  const issues = [];
+  const records = [];
+  const seenIds = new Map();
+  const dataRows = missingColumns.length ? [] : prepared.slice(1);
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = i + 2; // spreadsheet row (header is row 1)
+    if (!row.some((c) => normalizeCell(c) !== "")) return;
+    const rowIssues = [];
+    const issue = (severity, message) => rowIssues.push({ row: rowNumber, severity, message });
+
+    const values = parseRow(schema, columns, row, issue);
+    const firstKey = schema.fields[0].key;
+    if (schema.skipRow && columns[firstKey] !== -1 && schema.skipRow(values, headerRow[columns[firstKey]])) return;
+
+    if (!rowIssues.some((x) => x.severity === "error")) {
+      const { id, data } = schema.toDoc(values, (message) => issue("warning", message), { siteId, rowNumber });
+      if (seenIds.has(id)) {
+        issue("error", `Same record as row ${seenIds.get(id)} — only the first is imported`);
+      } else {
+        seenIds.set(id, rowNumber);
+        records.push({ rowNumber, id, data: stripUndefined(data) });
+      }
+    }
+    issues.push(...rowIssues);
+  });
+
+  const existing = await loadExisting(db, schema.collection, records.map((r) => r.id));
+  const catalogSuggestions = schema.catalog ? await applyCatalog(db, schema, records, existing, catalogLinks) : [];
+  const defaults = storedDefaults(schema);
+  const creates = [];
+  const updates = [];
+  let unchanged = 0;
+
+  for (const rec of records) {
+    const current = existing.get(rec.id);
+    if (!current) {
+      creates.push({ ...rec, data: { ...defaults, ...rec.createData, ...rec.data } });
+      continue;
+    }
+    if (current.siteId && current.siteId !== siteId) {
+      issues.push({ row: rec.rowNumber, severity: "error", message: "Matches a record that belongs to another site" });
+      continue;
+    }
+    const changed = Object.keys(rec.data).filter((k) => current[k] !== rec.data[k]);
+    if (changed.length === 0) unchanged++;
+    else updates.push({ ...rec, changed, data: Object.fromEntries(changed.map((k) => [k, rec.data[k]])) });
+  }
+
+  let committed = 0;
+  if (!dryRun) {
+    const importedAt = new Date().toISOString();
+    const writes = [
+      ...creates.map((r) => ({ ref: db.collection(schema.collection).doc(r.id), data: { ...r.data, ...(schema.onCreate?.({ by, uid }) ?? {}), siteId, importedAt } })),
+      ...updates.map((r) => ({ ref: db.collection(schema.collection).doc(r.id), data: { ...r.data, importedAt } })),
+    ];
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      writes.slice(i, i + BATCH_SIZE).forEach((w) => batch.set(w.ref, w.data, { merge: true }));
+      await batch.commit();
+      committed += Math.min(BATCH_SIZE, writes.length - i);
+    }
+  }
+
+  const nameOf = (data) => data.name ?? data.model ?? data.itemName ?? "";
+  const changes = [
+    ...creates.map((r) => ({ row: r.rowNumber, id: r.id, kind: "create", name: nameOf(r.data) })),
+    ...updates.map((r) => ({ row: r.rowNumber, id: r.id, kind: "update", name: nameOf({ ...existing.get(r.id), ...r.data }), fields: r.changed })),
+  ].sort((a, b) => a.row - b.row);
+
+  return {
+    entity,
+    label: schema.label,
+    dryRun: !!dryRun,
+    columns: Object.fromEntries(
+      schema.fields.map((f) => [f.key, columns[f.key] === -1 ? null : headerRow[columns[f.key]]])
+    ),
+    fields: schema.fields.map((f) => ({ key: f.key, label: f.label, required: !!f.required })),
+    headers: headerRow,
+    sample: prepared.slice(1).find((row) => row.some((c) => normalizeCell(c) !== "")) ?? [],
+    missingColumns,
+    rowCount: prepared.length - 1,
+    creates: creates.length,
+    updates: updates.length,
+    unchanged,
+    errorRows: new Set(issues.filter((x) => x.severity === "error").map((x) => x.row)).size,
+    issues: issues.sort((a, b) => a.row - b.row),
+    changes: changes.slice(0, MAX_CHANGES_IN_REPORT),
+    catalogSuggestions: catalogSuggestions.slice(0, MAX_CHANGES_IN_REPORT),
+    committed,
+  };
+}
@@ -1,7 +1,11 @@
-import { onDocumentUpdated, onDocumentDeleted } from "firebase-functions/v2/firestore";
+import { onDocumentDeleted, onDocumentUpdated, onDocumentWritten } from "firebase-functions/v2/firestore";
 import { onSchedule } from "firebase-functions/v2/scheduler";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import admin from "firebase-admin";
+import { ImportError, runImport } from "./importPipeline.js";
+import { addDays, loadMovementVolume, planWeek, siteDay, STOCK_COLLECTIONS, weekOf } from "./cycleCounts.js";
+import { loadDueReminders, reminderMessage } from "./expiryReminders.js";
 
 admin.initializeApp();
 const db = admin.firestore();
@@ -257,3 +261,268 @@ export const notifyLowRadioPart = onDocumentUpdated("radioParts/{partId}", async
     getName: (d) => d.name ?? "Unnamed part",
   });
 });
+
+// Data card printer ribbons and cleaning kits
+export const notifyLowCardSupply = onDocumentUpdated("cardSupplies/{supplyId}", async (event) => {
+  await handleLowStockUpdate({
+    event,
+    itemId: event.params.supplyId,
+    itemType: "cardSupply",
+    getQty: (d) => d.quantity ?? 0,
+    getMin: (d) => d.minQuantity ?? 0,
+    getName: (d) => d.name ?? "Unnamed supply",
+  });
+});
+
+// ─── Printer toner levels — "nearly empty" from the SNMP agent ────────────
+
+// Keep in step with utils/printerStatus.ts
+const NEARLY_EMPTY_PERCENT = 10;
+// A supply reading above this again has been replaced; its alert re-arms
+const REPLACED_PERCENT = 50;
+const TONER_SUPPLY_TYPES = ["toner", "tonerCartridge", "ink", "inkCartridge"];
+
+// printerStatus/{printerId} is written by the on-prem agent (printer-agent/).
+// Each toner supply alerts once when it drops to NEARLY_EMPTY_PERCENT; the
+// supplies already alerted are kept in `alertedSupplies` (supply index →
+// percent) so later polls at the same low level stay quiet.
+export const notifyTonerNearlyEmpty = onDocumentWritten("printerStatus/{printerId}", async (event) => {
+  const after = event.data?.after?.data();
+  if (!after?.reachable || !after.siteId) return;
+
+  const alerted = after.alertedSupplies ?? {};
+  const next = { ...alerted };
+  const newlyLow = [];
+  for (const s of after.supplies ?? []) {
+    if (!TONER_SUPPLY_TYPES.includes(s.type) || typeof s.percent !== "number") continue;
+    if (s.percent <= NEARLY_EMPTY_PERCENT && !(s.index in alerted)) {
+      next[s.index] = s.percent;
+      newlyLow.push(s);
+    } else if (s.percent > REPLACED_PERCENT && s.index in alerted) {
+      delete next[s.index];
+    }
+  }
+  const rearmed = Object.keys(alerted).some((k) => !(k in next));
+  if (!newlyLow.length && !rearmed) return;
+
+  // update() replaces the map, so re-armed supplies are dropped
+  await event.data.after.ref.update({ alertedSupplies: next });
+  if (!newlyLow.length) return;
+
+  const printerId = event.params.printerId;
+  const printerName = after.printerName || "Printer";
+  const levels = newlyLow.map((s) => `${s.color || s.description} ${s.percent}%`).join(", ");
+  const title = "Toner nearly empty";
+  const body = `${printerName}: ${levels}.`;
+  logger.info(`[printer] ${printerName} nearly empty: ${levels}`);
+
+  await db.collection("alerts").add({
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    type: "toner_level", title, body, itemId: printerId, itemName: printerName,
+    siteId: after.siteId, readBy: {},
+  });
+
+  const tokens = await getEnabledTokens(after.siteId);
+  if (!tokens.length) return;
+
+  const messages = tokens.map((to) => ({
+    to, sound: "default", title, body, priority: "high", channelId: "default",
+    data: { type: "toner_level", printerId, siteId: after.siteId },
+  }));
+
+  try {
+    const result = await sendExpoPush(messages);
+    const tickets = result?.data ?? [];
+    for (let i = 0; i < tickets.length; i++) {
+      const t = tickets[i];
+      if (t?.status === "error" && (t?.details?.error || t?.message) === "DeviceNotRegistered") {
+        await disableToken(messages[i]?.to, "DeviceNotRegistered");
+      }
+    }
+  } catch (err) {
+    logger.error(`Toner level notification failed — printer ${printerId}`, { error: String(err) });
+  }
+});
+
+// ─── Cycle counts — weekly ABC assignment and due reminder ────────────────
+
+async function notifyCycleCount(siteId, title, body, count) {
+  const tokens = await getEnabledTokens(siteId);
+  if (!tokens.length) return;
+
+  const messages = tokens.map((to) => ({
+    to, sound: "default", title, body, priority: "high", channelId: "default",
+    data: { type: "cycle_count", siteId, count },
+  }));
+
+  try {
+    await sendExpoPush(messages);
+    logger.info(`Cycle count notification sent — site ${siteId}: ${title}`);
+  } catch (err) {
+    logger.error(`Cycle count notification failed — site ${siteId}`, { error: String(err) });
+  }
+}
+
+// Runs daily. The first run of a week (Monday) creates each site's
+// cycleCounts/{siteId}_{weekOf} assignment and closes last week's as missed;
+// on Friday, sites with lines still uncounted get a due reminder.
+export const cycleCountSchedule = onSchedule(
+  { schedule: "0 8 * * *", timeZone: "America/New_York" },
+  async () => {
+    const today = siteDay();
+    const week = weekOf(today);
+    const dueDate = addDays(week, 4);
+
+    // Group every stock record by site
+    const recordsBySite = {};
+    const snaps = await Promise.all(STOCK_COLLECTIONS.map((c) => db.collection(c.collection).get()));
+    snaps.forEach((snap, i) => {
+      const source = STOCK_COLLECTIONS[i];
+      snap.docs.forEach((d) => {
+        const data = d.data();
+        if (!data.siteId) return;
+        (recordsBySite[data.siteId] ??= []).push({
+          itemType: source.itemType,
+          itemId: d.id,
+          itemName: source.getName(data),
+          lastCountedAt: data.lastCountedAt ?? null,
+        });
+      });
+    });
+
+    for (const [siteId, records] of Object.entries(recordsBySite)) {
+      try {
+        const ref = db.collection("cycleCounts").doc(`${siteId}_${week}`);
+        const snap = await ref.get();
+
+        if (!snap.exists) {
+          const openSnap = await db
+            .collection("cycleCounts")
+            .where("siteId", "==", siteId)
+            .where("status", "==", "open")
+            .get();
+          const batch = db.batch();
+          openSnap.docs.forEach((d) => batch.update(d.ref, { status: "missed" }));
+
+          const volume = await loadMovementVolume(db, siteId);
+          const lines = planWeek(records, volume);
+          if (lines.length) {
+            batch.set(ref, {
+              siteId,
+              weekOf: week,
+              dueDate,
+              status: "open",
+              lines,
+              total: lines.length,
+              assignedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+          }
+          await batch.commit();
+          if (!lines.length) continue;
+
+          await notifyCycleCount(
+            siteId,
+            "Cycle Count Assigned",
+            `${lines.length} record${lines.length === 1 ? "" : "s"} to count this week, due ${dueDate}.`,
+            lines.length
+          );
+          continue;
+        }
+
+        const assignment = snap.data();
+        if (assignment.status !== "open" || today < assignment.dueDate || assignment.dueReminderAt) continue;
+
+        const remaining = (assignment.lines ?? []).filter((l) => !l.countedAt).length;
+        await ref.update({ dueReminderAt: admin.firestore.FieldValue.serverTimestamp() });
+        if (!remaining) continue;
+
+        await notifyCycleCount(
+          siteId,
+          "Cycle Count Due",
+          `${remaining} of ${assignment.lines.length} assigned record${assignment.lines.length === 1 ? "" : "s"} still to count.`,
+          remaining
+        );
+      } catch (err) {
+        logger.error(`Cycle count schedule failed — site ${siteId}`, { error: String(err) });
+      }
+    }
+  }
+);
+
+// ─── Contracts & warranties — 60/30/7-day expiry reminders ─────────────────
+
+// Runs daily. Records newly within 60, 30 or 7 days of their end date get
+// their stage saved first (so a failed push is not repeated daily), then each
+// site gets one push listing them.
+export const expiryReminderSchedule = onSchedule(
+  { schedule: "30 8 * * *", timeZone: "America/New_York" },
+  async () => {
+    const due = await loadDueReminders(db);
+
+    const bySite = {};
+    due.forEach((r) => (bySite[r.siteId] ??= []).push(r));
+
+    for (const [siteId, reminders] of Object.entries(bySite)) {
+      try {
+        for (let i = 0; i < reminders.length; i += 400) {
+          const batch = db.batch();
+          reminders.slice(i, i + 400).forEach((r) => batch.update(r.ref, { [r.stageField]: r.stage }));
+          await batch.commit();
+        }
+
+        const tokens = await getEnabledTokens(siteId);
+        if (!tokens.length) continue;
+
+        const { title, body } = reminderMessage(reminders);
+        const messages = tokens.map((to) => ({
+          to, sound: "default", title, body, priority: "high", channelId: "default",
+          data: { type: "expiry", siteId, count: reminders.length },
+        }));
+
+        await sendExpoPush(messages);
+        logger.info(`Expiry reminder sent — site ${siteId}, ${reminders.length} record(s)`);
+      } catch (err) {
+        logger.error(`Expiry reminder failed — site ${siteId}`, { error: String(err) });
+      }
+    }
+  }
+);
+
+// ─── CSV import — validate, diff and commit in chunks ─────────────────────
+
+// Callable used by every import screen: { entity, rows, mapping?, dryRun, siteId? }.
+// Staff import into their own site; admins may pass another siteId.
+export const importRecords = onCall({ memory: "512MiB", timeoutSeconds: 300 }, async (request) => {
+  if (!request.auth) throw new HttpsError("unauthenticated", "Sign in to import.");
+
+  const userSnap = await db.collection("users").doc(request.auth.uid).get();
+  const user = userSnap.data();
+  if (!user) throw new HttpsError("permission-denied", "No user profile.");
+
+  const { entity, rows, mapping, catalogLinks, dryRun } = request.data ?? {};
+  const siteId = user.role === "admin" && request.data?.siteId ? request.data.siteId : user.siteId;
+  if (!siteId) throw new HttpsError("failed-precondition", "No site assigned to your account.");
+
+  try {
+    const report = await runImport({
+      db,
+      entity,
+      siteId,
+      rows,
+      mapping: mapping && typeof mapping === "object" ? mapping : undefined,
+      catalogLinks: catalogLinks && typeof catalogLinks === "object" ? catalogLinks : undefined,
+      dryRun: dryRun !== false,
+      by: user.name || request.auth.token.email || "Unknown",
+      uid: request.auth.uid,
+      isAdmin: user.role === "admin",
+    });
+    if (!report.dryRun) {
+      logger.info(`Import ${entity} → ${siteId}: ${report.creates} new, ${report.updates} updated, ${report.errorRows} rejected`);
+    }
+    return report;
+  } catch (err) {
+    if (err instanceof ImportError) throw new HttpsError("invalid-argument", err.message);
+    logger.error("Import failed", { entity, siteId, error: String(err) });
+    throw new HttpsError("internal", "Import failed. Nothing after the last committed chunk was written.");
+  }
+});
@@ -0,0 +1,116 @@
+// hooks/useConsumptionForecast.ts
+// Consumption forecast for one stocked item (utils/forecast.ts).
+//
+// Usage since the item's first ledger movement comes from its movements
+// subcollection (live). Anything older in the window comes from alertsLog,
+// which is all we have for stock changed before the ledgers existed.
+
+import {
+  collection,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { useEffect, useMemo, useState } from "react";
+import { db } from "../firebaseConfig";
+import {
+  computeForecast,
+  FORECAST_WINDOW_DAYS,
+  Forecast,
+  UsageEvent,
+  usageFromAlertsLog,
+  usageFromMovements,
+} from "../utils/forecast";
+import { STOCK_SOURCES, StockItemType } from "../utils/stockMovements";
+
+const windowCutoff = () => Timestamp.fromMillis(Date.now() - FORECAST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+type Params = {
+  itemType: StockItemType;
+  itemId: string | undefined;
+  siteId: string | null | undefined;
+  currentQuantity: number;
+  leadTimeDays?: number;
+};
+
+export function useConsumptionForecast({ itemType, itemId, siteId, currentQuantity, leadTimeDays }: Params) {
+  const [ledgerEvents, setLedgerEvents] = useState<UsageEvent[]>([]);
+  const [ledgerStart, setLedgerStart] = useState<Date | null>(null);
+  const [logEvents, setLogEvents] = useState<UsageEvent[]>([]);
+  const [logStart, setLogStart] = useState<Date | null>(null);
+  const [loadingLedger, setLoadingLedger] = useState(true);
+  const [loadingLog, setLoadingLog] = useState(true);
+
+  // Ledger: first movement ever (to know where alertsLog history stops) and
+  // a live view of the movements inside the window.
+  useEffect(() => {
+    if (!itemId) return;
+    const cutoff = windowCutoff();
+    const movementsRef = collection(db, STOCK_SOURCES[itemType].collection, itemId, "movements");
+
+    getDocs(query(movementsRef, orderBy("createdAt", "asc"), limit(1)))
+      .then((snap) => setLedgerStart(snap.docs[0]?.data().createdAt?.toDate?.() ?? null))
+      .catch((err) => {
+        if (__DEV__) console.error("Error loading first movement:", err);
+      });
+
+    const unsub = onSnapshot(
+      query(movementsRef, where("createdAt", ">=", cutoff), orderBy("createdAt", "asc")),
+      (snap) => {
+        setLedgerEvents(usageFromMovements(snap.docs.map((d) => d.data())));
+        setLoadingLedger(false);
+      },
+      (err) => {
+        if (__DEV__) console.error("Error loading movements for forecast:", err);
+        setLoadingLedger(false);
+      }
+    );
+    return () => unsub();
+  }, [itemType, itemId]);
+
+  // Legacy history from alertsLog
+  useEffect(() => {
+    if (!itemId || !siteId) return;
+    const cutoff = windowCutoff();
+    let cancelled = false;
+
+    getDocs(
+      query(
+        collection(db, "alertsLog"),
+        where("siteId", "==", siteId),
+        where("itemId", "==", itemId),
+        where("createdAt", ">=", cutoff),
+        orderBy("createdAt", "asc")
+      )
+    )
+      .then((snap) => {
+        if (cancelled) return;
+        const entries = snap.docs.map((d) => d.data());
+        setLogEvents(usageFromAlertsLog(entries));
+        setLogStart(entries[0]?.createdAt?.toDate?.() ?? null);
+      })
+      .catch((err) => {
+        if (__DEV__) console.error("Error loading alertsLog for forecast:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingLog(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, siteId]);
+
+  const forecast: Forecast = useMemo(() => {
+    const legacy = ledgerStart ? logEvents.filter((e) => e.at < ledgerStart) : logEvents;
+    const starts = [ledgerStart, logStart].filter((d): d is Date => d !== null);
+    const trackedSince = starts.length ? new Date(Math.min(...starts.map((d) => d.getTime()))) : null;
+    return computeForecast([...legacy, ...ledgerEvents], currentQuantity, { leadTimeDays, trackedSince });
+  }, [ledgerEvents, ledgerStart, logEvents, logStart, currentQuantity, leadTimeDays]);
+
+  return { forecast, loading: loadingLedger || loadingLog };
+}
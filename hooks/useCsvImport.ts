@@ -0,0 +1,231 @@
+// hooks/useCsvImport.ts
+// Drives the shared import flow for a screen: pick CSV/XLSX → dry run → review in
+// <ImportReportModal> → commit. `importing` names the entity whose dry run is
+// in flight so each screen can show a spinner on the right button.
+// Column reassignments re-run the dry run with an explicit mapping; a saved
+// mapping profile whose header set matches the file is applied up front.
+// Workbooks open on their first sheet with data; the report can switch sheets.
+// Catalog picks in the report re-run the dry run with the chosen links.
+
+import { useState } from "react";
+import { Alert } from "react-native";
+import { auth } from "../firebaseConfig";
+import {
+  headerSignature,
+  ImportCatalogLinks,
+  ImportEntity,
+  ImportMapping,
+  ImportMappingProfile,
+  ImportReport,
+  loadMappingProfiles,
+  runImport,
+  saveMappingProfile,
+  touchMappingProfile,
+} from "../utils/importPipeline";
+import { pickSpreadsheet, SheetRows } from "../utils/spreadsheet";
+import { useUserProfile } from "./useUserProfile";
+
+export function useCsvImport() {
+  const { siteId, profile } = useUserProfile();
+  const [importing, setImporting] = useState<ImportEntity | null>(null);
+  const [sheets, setSheets] = useState<SheetRows[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | undefined>(undefined);
+  const [catalogLinks, setCatalogLinks] = useState<ImportCatalogLinks | undefined>(undefined);
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>([]);
+  const [appliedProfile, setAppliedProfile] = useState<ImportMappingProfile | null>(null);
+  const [remapping, setRemapping] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  // Dry-runs one sheet, applying a saved profile if its header set matches.
+  const loadSheet = async (entity: ImportEntity, sheetRows: string[][], saved: ImportMappingProfile[]) => {
+    let dryRun = await runImport({ entity, rows: sheetRows, dryRun: true });
+    const match = saved.find((p) => p.headerKey === headerSignature(dryRun.headers)) ?? null;
+    if (match) {
+      dryRun = await runImport({ entity, rows: sheetRows, mapping: match.mapping, dryRun: true });
+      touchMappingProfile(match.id).catch(() => {});
+    }
+    setRows(sheetRows);
+    setAppliedProfile(match);
+    setMapping(match?.mapping);
+    setCatalogLinks(undefined);
+    setReport(dryRun);
+  };
+
+  const startImport = async (entity: ImportEntity) => {
+    try {
+      const picked = await pickSpreadsheet();
+      if (!picked) return;
+      const first = picked.sheets.findIndex((sh) => sh.rows.length >= 2);
+      if (first === -1) { Alert.alert("Empty File", "No data rows found in the file."); return; }
+      setImporting(entity);
+
+      // Profiles are a convenience: if they can't be read, fall back to auto-detect.
+      let saved: ImportMappingProfile[] = [];
+      if (siteId) {
+        try {
+          saved = await loadMappingProfiles(siteId, entity);
+        } catch (err) {
+          if (__DEV__) console.warn("Could not load import mappings:", err);
+        }
+      }
+
+      await loadSheet(entity, picked.sheets[first].rows, saved);
+      setSheets(picked.sheets);
+      setSheetIndex(first);
+      setProfiles(saved);
+    } catch (err: any) {
+      if (__DEV__) console.error("Import dry run failed:", err);
+      Alert.alert("Import Failed", err?.message || "An unexpected error occurred.");
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const rerun = async (
+    next: ImportMapping | undefined,
+    fromProfile: ImportMappingProfile | null,
+    links: ImportCatalogLinks | undefined = catalogLinks
+  ) => {
+    if (!report || !rows) return;
+    setRemapping(true);
+    try {
+      const dryRun = await runImport({ entity: report.entity, rows, mapping: next, catalogLinks: links, dryRun: true });
+      setMapping(next);
+      setAppliedProfile(fromProfile);
+      setCatalogLinks(links);
+      setReport(dryRun);
+    } catch (err: any) {
+      if (__DEV__) console.error("Import remap failed:", err);
+      Alert.alert("Import Failed", err?.message || "An unexpected error occurred.");
+    } finally {
+      setRemapping(false);
+    }
+  };
+
+  // Pins every field to what the report currently shows, then changes one,
+  // so auto-detected columns don't shift under the user as they edit.
+  const setFieldColumn = (fieldKey: string, header: string | null) => {
+    if (!report) return;
+    rerun({ ...report.columns, [fieldKey]: header }, null);
+  };
+
+  const selectSheet = async (index: number) => {
+    const sheet = sheets[index];
+    if (!report || !sheet || index === sheetIndex) return;
+    if (sheet.rows.length < 2) { Alert.alert("Empty Sheet", `"${sheet.name}" has no data rows.`); return; }
+    setRemapping(true);
+    try {
+      await loadSheet(report.entity, sheet.rows, profiles);
+      setSheetIndex(index);
+    } catch (err: any) {
+      if (__DEV__) console.error("Import sheet switch failed:", err);
+      Alert.alert("Import Failed", err?.message || "An unexpected error occurred.");
+    } finally {
+      setRemapping(false);
+    }
+  };
+
+  // Links a row to a catalog entry ("" for none) instead of the automatic pick.
+  const setCatalogLink = (row: number, catalogId: string) => {
+    rerun(mapping, appliedProfile, { ...catalogLinks, [row]: catalogId });
+  };
+
+  const applyProfile = (p: ImportMappingProfile) => {
+    rerun(p.mapping, p);
+    touchMappingProfile(p.id).catch(() => {});
+  };
+
+  const saveProfile = async (name: string) => {
+    const trimmed = name.trim();
+    if (!report || !siteId || !trimmed) return;
+    const user = auth.currentUser;
+    const current: ImportMapping = { ...report.columns };
+    const existing = profiles.find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+    try {
+      const id = await saveMappingProfile({
+        siteId,
+        entity: report.entity,
+        name: trimmed,
+        headers: report.headers,
+        mapping: current,
+        createdBy: profile?.name || user?.displayName || user?.email || "Unknown",
+        existing,
+      });
+      const saved: ImportMappingProfile = {
+        ...(existing ?? { id, siteId, entity: report.entity }),
+        id,
+        name: trimmed,
+        headerKey: headerSignature(report.headers),
+        headers: report.headers,
+        mapping: current,
+      };
+      setProfiles((prev) => [saved, ...prev.filter((p) => p.id !== id)]);
+      setAppliedProfile(saved);
+      setMapping(current);
+    } catch (err: any) {
+      if (__DEV__) console.error("Save import mapping failed:", err);
+      Alert.alert("Save Failed", err?.message || "Could not save the column mapping.");
+    }
+  };
+
+  const closeReport = () => {
+    if (committing) return;
+    setReport(null);
+    setRows(null);
+    setSheets([]);
+    setSheetIndex(0);
+    setMapping(undefined);
+    setCatalogLinks(undefined);
+    setProfiles([]);
+    setAppliedProfile(null);
+  };
+
+  const commitImport = async () => {
+    if (!report || !rows) return;
+    setCommitting(true);
+    try {
+      const result = await runImport({ entity: report.entity, rows, mapping, catalogLinks, dryRun: false });
+      setReport(null);
+      setRows(null);
+      setSheets([]);
+      setSheetIndex(0);
+      setMapping(undefined);
+      setCatalogLinks(undefined);
+      setAppliedProfile(null);
+      const skipped = result.errorRows > 0 ? `\n${result.errorRows} row${result.errorRows !== 1 ? "s" : ""} skipped with errors.` : "";
+      Alert.alert(
+        "Import Complete",
+        `${result.creates} new, ${result.updates} updated, ${result.unchanged} unchanged.${skipped}`
+      );
+    } catch (err: any) {
+      if (__DEV__) console.error("Import commit failed:", err);
+      Alert.alert("Import Failed", err?.message || "An unexpected error occurred.");
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return {
+    importing,
+    startImport,
+    reportProps: {
+      report,
+      committing,
+      remapping,
+      profiles,
+      appliedProfile,
+      sheetNames: sheets.map((sh) => sh.name),
+      sheetIndex,
+      onCommit: commitImport,
+      onClose: closeReport,
+      onSetColumn: setFieldColumn,
+      onApplyProfile: applyProfile,
+      onSelectSheet: selectSheet,
+      onSaveProfile: saveProfile,
+      onSetCatalogLink: setCatalogLink,
+    },
+  };
+}
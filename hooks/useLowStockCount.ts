@@ -24,11 +24,12 @@ const COLLECTIONS: { name: string; qtyField: string }[] = [
   { name: "items",      qtyField: "currentQuantity" },
   { name: "toners",     qtyField: "quantity" },
   { name: "radioParts", qtyField: "quantity" },
+  { name: "cardSupplies", qtyField: "quantity" },
 ];
 
 /**
  * Returns the live count of items that have visible low-stock alerts,
- * across inventory items, toners, and radio parts.
+ * across inventory items, toners, radio parts and card printer supplies.
  *
  * An item is counted when:
  *   1. qty <= minQuantity  AND  minQuantity > 0
@@ -59,6 +60,7 @@ export function useLowStockCount(siteId?: string | null): number {
       items: 0,
       toners: 0,
       radioParts: 0,
+      cardSupplies: 0,
     };
 
     const unsubs = COLLECTIONS.map(({ name, qtyField }) => {
@@ -0,0 +1,52 @@
+// hooks/useOutbox.ts
+// Live view of the offline outbox (utils/outbox.ts) plus the sync driver.
+//
+// useOutbox()      — entries, counts and syncing flag for badges and the
+//                    outbox screen.
+// useOutboxSync()  — mount once (tab layout). Replays on mount, whenever the
+//                    app returns to the foreground, and every
+//                    OUTBOX_RETRY_MS while anything is still pending.
+
+import { useEffect, useState } from "react";
+import { AppState } from "react-native";
+import {
+  getOutboxState,
+  OutboxState,
+  replayOutbox,
+  subscribeOutbox,
+} from "../utils/outbox";
+
+const OUTBOX_RETRY_MS = 30000;
+
+export function useOutbox() {
+  const [state, setState] = useState<OutboxState>(getOutboxState());
+
+  useEffect(() => subscribeOutbox(setState), []);
+
+  const pendingCount = state.entries.filter((e) => e.status === "pending").length;
+  const conflictCount = state.entries.filter((e) => e.status === "conflict").length;
+
+  return { ...state, pendingCount, conflictCount };
+}
+
+export function useOutboxSync() {
+  const { pendingCount } = useOutbox();
+
+  useEffect(() => {
+    replayOutbox();
+    const sub = AppState.addEventListener("change", (next) => {
+      if (next === "active") replayOutbox();
+    });
+    return () => sub.remove();
+  }, []);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(() => {
+      replayOutbox();
+    }, OUTBOX_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount]);
+
+  return pendingCount;
+}
@@ -0,0 +1,90 @@
+// One poll of one printer: walks the supplies, marker and printer tables and
+// returns a plain reading. `statusFields` shapes it for printerStatus/{id}.
+
+import {
+  DEVICE_STATUS,
+  lowestTonerPercent,
+  OIDS,
+  parseErrorState,
+  parseSupplies,
+  PRINTER_STATUS,
+} from "./printerMib.js";
+import { createSnmpReader } from "./snmpReader.js";
+
+/** Parses "host" or "host:port". */
+export function parseTarget(address, defaultPort = 161) {
+  const [host, port] = String(address).trim().split(":");
+  return { host, port: port ? Number(port) : defaultPort };
+}
+
+/**
+ * Polls one printer. Never throws: an unreachable printer or a failed walk
+ * comes back as `{ reachable: false, error }` so one bad device does not stop
+ * the rest of the run.
+ */
+export async function pollPrinter({ host, port, community, version, timeoutMs, retries }) {
+  const reader = createSnmpReader({ host, port, community, version, timeoutMs, retries });
+  try {
+    const supplyVarbinds = await reader.subtree(OIDS.prtMarkerSuppliesEntry);
+    const colorantVarbinds = await reader.subtree(OIDS.prtMarkerColorantEntry);
+    const lifeCounts = await reader.subtree(OIDS.prtMarkerLifeCount);
+    const printerRows = await reader.subtree(OIDS.hrPrinterStatus);
+
+    // hrDeviceTable lists every device on the box; use the printer's row
+    const deviceIndex = printerRows.length ? printerRows[0].oid.slice(OIDS.hrPrinterStatus.length + 1) : null;
+    const scalars = await reader.get([
+      OIDS.sysDescr,
+      ...(deviceIndex ? [`${OIDS.hrDeviceStatus}.${deviceIndex}`, `${OIDS.hrPrinterDetectedErrorState}.${deviceIndex}`] : []),
+    ]);
+
+    if (!supplyVarbinds.length && !printerRows.length && !(OIDS.sysDescr in scalars)) {
+      return { reachable: false, error: "No Printer-MIB data (check the SNMP community and that SNMP is enabled)" };
+    }
+
+    const supplies = parseSupplies(supplyVarbinds, colorantVarbinds);
+    const pageCount = lifeCounts.length ? Number(lifeCounts[0].value) : null;
+    return {
+      reachable: true,
+      model: scalars[OIDS.sysDescr] ? String(scalars[OIDS.sysDescr]).trim() : null,
+      deviceStatus: DEVICE_STATUS[scalars[`${OIDS.hrDeviceStatus}.${deviceIndex}`]] ?? "unknown",
+      printerState: PRINTER_STATUS[printerRows[0]?.value] ?? "unknown",
+      errorStates: parseErrorState(scalars[`${OIDS.hrPrinterDetectedErrorState}.${deviceIndex}`]),
+      pageCount: Number.isFinite(pageCount) ? pageCount : null,
+      supplies,
+      lowestTonerPercent: lowestTonerPercent(supplies),
+    };
+  } catch (err) {
+    return { reachable: false, error: err?.message || String(err) };
+  } finally {
+    reader.close();
+  }
+}
+
+/**
+ * Fields written to printerStatus/{printerId}. An unreachable poll keeps the
+ * last good levels (merge) and only updates reachability, so the app shows
+ * stale-but-known levels with a "not responding" note.
+ */
+export function statusFields(printer, reading, now) {
+  const base = {
+    siteId: printer.siteId,
+    printerId: printer.id,
+    printerName: printer.name || "",
+    ipAddress: printer.ipAddress || "",
+    reachable: reading.reachable,
+    polledAt: now,
+    error: reading.reachable ? null : reading.error,
+  };
+  if (!reading.reachable) return base;
+  return {
+    ...base,
+    lastSeenAt: now,
+    model: reading.model,
+    deviceStatus: reading.deviceStatus,
+    printerState: reading.printerState,
+    errorStates: reading.errorStates,
+    pageCount: reading.pageCount,
+    supplies: reading.supplies,
+    lowestTonerPercent: reading.lowestTonerPercent,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Printer Agent — on-prem SNMP collector
+ *
+ * Polls a site's printers (printers/{id}.ipAddress) over SNMP for toner
+ * levels, page count and error state (Printer-MIB, RFC 3805) and writes the
+ * latest reading to printerStatus/{printerId}. Runs on a machine inside the
+ * site network, since printers are not reachable from Cloud Functions.
+ * Once a day per printer it also appends the page counter to
+ * printerPageCounts, which the app uses for cost per page.
+ *
+ * SETUP:
+ *   1. Save a Firebase service account key as serviceAccount.json in the
+ *      project root (it is .gitignored — do NOT commit it)
+ *   2. Copy agent.config.example.json to agent.config.json and set siteId
+ *   3. From this folder:
+ *        npm install
+ *        npm start                  poll every intervalMinutes
+ *        npm run once               one pass, then exit
+ *
+ * OPTIONS:
+ *   --config <path>        config file (default ./agent.config.json)
+ *   --once                 one pass, then exit
+ *   --dry-run              read printers but print readings instead of writing
+ *   --target <host[:port]> poll one address and print it; no Firestore at all
+ *
+ * Try it without hardware against the simulated printer (simulator.js):
+ *   node simulator.js --profile low &
+ *   node index.js --once --target 127.0.0.1:1161
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { parseTarget, pollPrinter, statusFields } from "./collector.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DEFAULTS = {
+  serviceAccount: "../serviceAccount.json",
+  community: "public",
+  version: "2c",
+  port: 161,
+  intervalMinutes: 10,
+  timeoutMs: 5000,
+  retries: 1,
+  printers: {},
+};
+
+function arg(name) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+const flag = (name) => process.argv.includes(`--${name}`);
+
+function loadConfig() {
+  const path = resolve(process.cwd(), arg("config") ?? resolve(__dirname, "agent.config.json"));
+  if (!existsSync(path)) {
+    if (arg("target")) return { ...DEFAULTS };
+    console.error(`\n❌  ${path} not found.\n   Copy agent.config.example.json to agent.config.json and set siteId.\n`);
+    process.exit(1);
+  }
+  const config = { ...DEFAULTS, ...JSON.parse(readFileSync(path, "utf8")) };
+  if (!config.siteId && !arg("target")) {
+    console.error("\n❌  agent.config.json has no siteId.\n");
+    process.exit(1);
+  }
+  return config;
+}
+
+function describe(reading) {
+  if (!reading.reachable) return `not responding (${reading.error})`;
+  const levels = reading.supplies
+    .map((s) => `${s.color ?? s.description}: ${s.percent != null ? `${s.percent}%` : s.someRemaining ? "some left" : "?"}`)
+    .join(", ");
+  const errors = reading.errorStates.length ? ` ⚠ ${reading.errorStates.join(", ")}` : "";
+  return `${reading.pageCount ?? "?"} pages · ${levels || "no supplies reported"}${errors}`;
+}
+
+function snmpOptions(config, address) {
+  const { host, port } = parseTarget(address, config.port);
+  return { host, port, community: config.community, version: config.version, timeoutMs: config.timeoutMs, retries: config.retries };
+}
+
+// ── --target: one address, nothing written ─────────────────────────────────
+async function pollTarget(config) {
+  const address = arg("target");
+  const reading = await pollPrinter(snmpOptions(config, address));
+  console.log(`${address}: ${describe(reading)}`);
+  if (reading.reachable) console.log(JSON.stringify(reading, null, 2));
+  process.exit(reading.reachable ? 0 : 1);
+}
+
+// ── Site run ───────────────────────────────────────────────────────────────
+async function connect(config) {
+  const { default: admin } = await import("firebase-admin");
+  const saPath = resolve(__dirname, config.serviceAccount);
+  if (!existsSync(saPath)) {
+    console.error(
+      "\n❌  serviceAccount.json not found.\n" +
+      "   Download it from Firebase Console → Project Settings → Service Accounts.\n"
+    );
+    process.exit(1);
+  }
+  admin.initializeApp({ credential: admin.credential.cert(JSON.parse(readFileSync(saPath, "utf8"))) });
+  return admin;
+}
+
+async function runPass(admin, config, dryRun) {
+  const db = admin.firestore();
+  const snap = await db.collection("printers").where("siteId", "==", config.siteId).get();
+  const printers = snap.docs
+    .map((d) => ({ id: d.id, ...d.data() }))
+    .map((p) => ({ ...p, address: config.printers[p.id] || p.ipAddress }))
+    .filter((p) => p.address);
+
+  // Day of the last page count reading per printer, kept on printerStatus so
+  // `--once` from a scheduler does not record one every pass
+  const statusSnap = await db.collection("printerStatus").where("siteId", "==", config.siteId).get();
+  const recordedOn = Object.fromEntries(statusSnap.docs.map((d) => [d.id, d.data().pageCountRecordedOn]));
+  const today = new Date().toISOString().slice(0, 10);
+
+  let ok = 0;
+  for (const printer of printers) {
+    const reading = await pollPrinter(snmpOptions(config, printer.address));
+    if (reading.reachable) ok++;
+    console.log(`  ${printer.name || printer.id} (${printer.address}): ${describe(reading)}`);
+    if (dryRun) continue;
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const fields = statusFields(printer, reading, now);
+    if (reading.reachable && reading.pageCount != null && recordedOn[printer.id] !== today) {
+      await db.collection("printerPageCounts").add({
+        siteId: printer.siteId,
+        printerId: printer.id,
+        pageCount: reading.pageCount,
+        source: "agent",
+        by: "Printer agent",
+        recordedAt: now,
+      });
+      fields.pageCountRecordedOn = today;
+    }
+    await db.collection("printerStatus").doc(printer.id).set(fields, { merge: true });
+  }
+  console.log(`${new Date().toLocaleString()} — ${ok}/${printers.length} printer(s) responded${dryRun ? " (dry run, nothing written)" : ""}`);
+}
+
+const config = loadConfig();
+if (arg("target")) await pollTarget(config);
+
+const admin = await connect(config);
+const dryRun = flag("dry-run");
+const intervalMs = Math.max(1, Number(config.intervalMinutes)) * 60_000;
+
+console.log(`🖨️  Printer agent for site ${config.siteId}`);
+do {
+  try {
+    await runPass(admin, config, dryRun);
+  } catch (err) {
+    console.error("Poll pass failed:", err?.message || err);
+  }
+  if (flag("once")) break;
+  await new Promise((r) => setTimeout(r, intervalMs));
+} while (true);
+process.exit(0);
@@ -0,0 +1,148 @@
+// Printer-MIB (RFC 3805) and Host Resources MIB (RFC 2790) objects the agent
+// reads, and the pure functions that turn raw varbinds into a reading. Kept
+// free of SNMP I/O so the simulator and the collector share one definition.
+
+export const OIDS = {
+  sysDescr: "1.3.6.1.2.1.1.1.0",
+  // hrDeviceTable / hrPrinterTable, indexed by hrDeviceIndex
+  hrDeviceStatus: "1.3.6.1.2.1.25.3.2.1.5",
+  hrPrinterStatus: "1.3.6.1.2.1.25.3.5.1.1",
+  hrPrinterDetectedErrorState: "1.3.6.1.2.1.25.3.5.1.2",
+  // prtMarkerTable, indexed by hrDeviceIndex.prtMarkerIndex
+  prtMarkerLifeCount: "1.3.6.1.2.1.43.10.2.1.4",
+  // prtMarkerSuppliesEntry, indexed by hrDeviceIndex.prtMarkerSuppliesIndex
+  prtMarkerSuppliesEntry: "1.3.6.1.2.1.43.11.1.1",
+  // prtMarkerColorantEntry, indexed by hrDeviceIndex.prtMarkerColorantIndex
+  prtMarkerColorantEntry: "1.3.6.1.2.1.43.12.1.1",
+};
+
+// prtMarkerSuppliesEntry columns
+export const SUPPLY_COLUMNS = {
+  colorantIndex: 3,
+  supplyClass: 4,
+  type: 5,
+  description: 6,
+  unit: 7,
+  maxCapacity: 8,
+  level: 9,
+};
+
+// prtMarkerColorantEntry column holding the colorant name ("black", "cyan", ...)
+export const COLORANT_VALUE_COLUMN = 4;
+
+// PrtMarkerSuppliesTypeTC
+export const SUPPLY_TYPES = {
+  1: "other", 2: "unknown", 3: "toner", 4: "wasteToner", 5: "ink", 6: "inkCartridge",
+  7: "inkRibbon", 8: "wasteInk", 9: "opc", 10: "developer", 11: "fuserOil", 12: "solidWax",
+  13: "ribbonWax", 14: "wasteWax", 15: "fuser", 16: "coronaWire", 17: "fuserOilWick",
+  18: "cleanerUnit", 19: "fuserCleaningPad", 20: "transferUnit", 21: "tonerCartridge",
+  22: "fuserOiler", 23: "water", 24: "wasteWater", 25: "glueWaterAdditive", 26: "wastePaper",
+  27: "bindingSupply", 28: "bandingSupply", 29: "stitchingWire", 30: "shrinkWrap",
+  31: "paperWrap", 32: "staples", 33: "inserts", 34: "covers",
+};
+
+// Types counted as toner for live levels and "nearly empty" alerts
+export const TONER_TYPES = new Set(["toner", "tonerCartridge", "ink", "inkCartridge"]);
+
+export const DEVICE_STATUS = { 1: "unknown", 2: "running", 3: "warning", 4: "testing", 5: "down" };
+export const PRINTER_STATUS = { 1: "other", 2: "unknown", 3: "idle", 4: "printing", 5: "warmup" };
+
+// hrPrinterDetectedErrorState bits, most significant bit of the first octet first
+export const ERROR_STATE_BITS = [
+  "lowPaper", "noPaper", "lowToner", "noToner", "doorOpen", "jammed", "offline", "serviceRequested",
+  "inputTrayMissing", "outputTrayMissing", "markerSupplyMissing", "outputNearFull", "outputFull",
+  "inputTrayEmpty", "overduePreventMaint",
+];
+
+// Level / max capacity sentinels from the MIB
+const LEVEL_OTHER = -1;
+const LEVEL_UNKNOWN = -2;
+const LEVEL_SOME_REMAINING = -3;
+
+const COLOR_WORDS = ["black", "cyan", "magenta", "yellow"];
+
+/** Splits `<column>.<index…>` off an instance OID under `entryOid`. */
+export function splitColumnOid(entryOid, oid) {
+  if (!oid.startsWith(`${entryOid}.`)) return null;
+  const [column, ...index] = oid.slice(entryOid.length + 1).split(".");
+  return { column: Number(column), index: index.join(".") };
+}
+
+/** Groups a table walk into rows keyed by instance index. */
+export function tableRows(entryOid, varbinds) {
+  const rows = new Map();
+  for (const vb of varbinds) {
+    const cell = splitColumnOid(entryOid, vb.oid);
+    if (!cell) continue;
+    const row = rows.get(cell.index) ?? {};
+    row[cell.column] = vb.value;
+    rows.set(cell.index, row);
+  }
+  return rows;
+}
+
+function text(value) {
+  if (value == null) return "";
+  return (Buffer.isBuffer(value) ? value.toString("utf8") : String(value)).replace(/\0/g, "").trim();
+}
+
+function colorFrom(colorant, description) {
+  const name = text(colorant).toLowerCase();
+  if (name && name !== "unknown") return name;
+  const desc = description.toLowerCase();
+  return COLOR_WORDS.find((c) => desc.includes(c)) ?? null;
+}
+
+/**
+ * Percent remaining for one supply, or null when the device does not say.
+ * "Some remaining" (-3) is reported as null with `someRemaining` set instead
+ * of guessing a number.
+ */
+export function supplyPercent(level, maxCapacity) {
+  if (typeof level !== "number" || typeof maxCapacity !== "number") return null;
+  if (level < 0 || maxCapacity <= 0) return null;
+  return Math.max(0, Math.min(100, Math.round((level / maxCapacity) * 100)));
+}
+
+/** Supplies from prtMarkerSuppliesTable (+ colorant names), in supply index order. */
+export function parseSupplies(supplyVarbinds, colorantVarbinds = []) {
+  const colorants = tableRows(OIDS.prtMarkerColorantEntry, colorantVarbinds);
+  const rows = tableRows(OIDS.prtMarkerSuppliesEntry, supplyVarbinds);
+  const supplies = [];
+  for (const [index, row] of rows) {
+    const device = index.split(".")[0];
+    const description = text(row[SUPPLY_COLUMNS.description]) || `Supply ${index}`;
+    const level = typeof row[SUPPLY_COLUMNS.level] === "number" ? row[SUPPLY_COLUMNS.level] : null;
+    const maxCapacity = typeof row[SUPPLY_COLUMNS.maxCapacity] === "number" ? row[SUPPLY_COLUMNS.maxCapacity] : null;
+    const colorant = colorants.get(`${device}.${row[SUPPLY_COLUMNS.colorantIndex]}`)?.[COLORANT_VALUE_COLUMN];
+    supplies.push({
+      index,
+      description,
+      type: SUPPLY_TYPES[row[SUPPLY_COLUMNS.type]] ?? "unknown",
+      color: colorFrom(colorant, description),
+      level: level != null && level >= 0 ? level : null,
+      maxCapacity: maxCapacity != null && maxCapacity > 0 ? maxCapacity : null,
+      percent: supplyPercent(level, maxCapacity),
+      someRemaining: level === LEVEL_SOME_REMAINING || level === LEVEL_OTHER,
+      levelUnknown: level == null || level === LEVEL_UNKNOWN,
+    });
+  }
+  return supplies.sort((a, b) => a.index.localeCompare(b.index, undefined, { numeric: true }));
+}
+
+/** Names of the bits set in hrPrinterDetectedErrorState. */
+export function parseErrorState(value) {
+  if (!Buffer.isBuffer(value)) return [];
+  const errors = [];
+  ERROR_STATE_BITS.forEach((name, bit) => {
+    const octet = value[Math.floor(bit / 8)];
+    if (octet != null && octet & (0x80 >> bit % 8)) errors.push(name);
+  });
+  return errors;
+}
+
+/** Lowest percent across toner/ink supplies that report one. */
+export function lowestTonerPercent(supplies) {
+  const levels = supplies.filter((s) => TONER_TYPES.has(s.type) && s.percent != null).map((s) => s.percent);
+  return levels.length ? Math.min(...levels) : null;
+}
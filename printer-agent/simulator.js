@@ -0,0 +1,197 @@
+/**
+ * Simulated SNMP printer for trying the collector without real hardware.
+ *
+ * Serves the same Printer-MIB / Host Resources objects a network printer does
+ * (supplies, colorants, page count, printer status and error bits) from a
+ * net-snmp agent on a local port. Levels drain as "pages" are printed.
+ *
+ *   node simulator.js                          mono printer on 127.0.0.1:1161
+ *   node simulator.js --profile color --port 1162 --pages-per-minute 120
+ *   node simulator.js --profile low            black toner at 9%, lowToner set
+ *
+ * Point a printer at it with "printers": { "<printerId>": "127.0.0.1:1161" }
+ * in agent.config.json, or poll it directly:
+ *
+ *   node index.js --once --dry-run --target 127.0.0.1:1161
+ *
+ * `startSimulatedPrinter()` is exported for scripted checks.
+ */
+
+import snmp from "net-snmp";
+import { fileURLToPath } from "url";
+import { ERROR_STATE_BITS, OIDS } from "./printerMib.js";
+
+const RO = snmp.MaxAccess["read-only"];
+const NA = snmp.MaxAccess["not-accessible"];
+const DEVICE_INDEX = 1;
+const MARKER_INDEX = 1;
+
+// PrtMarkerSuppliesTypeTC / PrtMarkerSuppliesSupplyUnitTC values used below
+const TYPE_TONER = 3;
+const TYPE_WASTE_TONER = 4;
+const TYPE_OPC = 9;
+const UNIT_PERCENT = 19;
+const CLASS_CONSUMED = 3;
+const CLASS_FILLED = 4;
+
+export const PROFILES = {
+  mono: {
+    model: "Simulated LaserJet M404dn",
+    supplies: [
+      { description: "Black Toner Cartridge CF258A", type: TYPE_TONER, color: "black", max: 100, level: 64, pagesPerUnit: 30 },
+      { description: "Imaging Drum", type: TYPE_OPC, color: null, max: 100, level: 81, pagesPerUnit: 230 },
+    ],
+    pageCount: 18234,
+  },
+  color: {
+    model: "Simulated Color LaserJet M454dw",
+    supplies: [
+      { description: "Black Cartridge W2020A", type: TYPE_TONER, color: "black", max: 100, level: 48, pagesPerUnit: 24 },
+      { description: "Cyan Cartridge W2021A", type: TYPE_TONER, color: "cyan", max: 100, level: 22, pagesPerUnit: 18 },
+      { description: "Magenta Cartridge W2023A", type: TYPE_TONER, color: "magenta", max: 100, level: 57, pagesPerUnit: 18 },
+      { description: "Yellow Cartridge W2022A", type: TYPE_TONER, color: "yellow", max: 100, level: 35, pagesPerUnit: 18 },
+      { description: "Toner Collection Unit", type: TYPE_WASTE_TONER, color: null, max: 100, level: 70, pagesPerUnit: 90 },
+    ],
+    pageCount: 40512,
+  },
+  low: {
+    model: "Simulated LaserJet M404dn",
+    supplies: [
+      { description: "Black Toner Cartridge CF258A", type: TYPE_TONER, color: "black", max: 100, level: 9, pagesPerUnit: 30 },
+    ],
+    pageCount: 52977,
+    errorStates: ["lowToner"],
+  },
+};
+
+function errorStateBuffer(names) {
+  const buf = Buffer.alloc(2);
+  for (const name of names) {
+    const bit = ERROR_STATE_BITS.indexOf(name);
+    if (bit >= 0) buf[Math.floor(bit / 8)] |= 0x80 >> bit % 8;
+  }
+  return buf;
+}
+
+function table(name, oid, columns, index) {
+  return {
+    name, oid, type: snmp.MibProviderType.Table, maxAccess: NA,
+    tableColumns: columns.map(([number, colName, type, maxAccess = RO]) => ({ number, name: colName, type, maxAccess })),
+    tableIndex: index,
+  };
+}
+
+/**
+ * Starts a simulated printer listening on 127.0.0.1:`port`.
+ * `printPages(n)` drains supplies and advances the page counter; `setLevel`
+ * and `setErrorStates` set them directly.
+ */
+export function startSimulatedPrinter({ port = 1161, community = "public", profile = "mono" } = {}) {
+  const spec = PROFILES[profile];
+  if (!spec) throw new Error(`Unknown profile "${profile}" (${Object.keys(PROFILES).join(", ")})`);
+  const supplies = spec.supplies.map((s) => ({ ...s, used: 0 }));
+  let pageCount = spec.pageCount;
+
+  const agent = snmp.createAgent({ port, address: "127.0.0.1" }, (err) => {
+    if (err) console.error("Simulator request error:", err.message);
+  });
+  agent.getAuthorizer().addCommunity(community);
+  const mib = agent.getMib();
+  const { Integer, OctetString, Counter } = snmp.ObjectType;
+
+  mib.registerProviders([
+    { name: "sysDescr", type: snmp.MibProviderType.Scalar, oid: OIDS.sysDescr.replace(/\.0$/, ""), scalarType: OctetString, maxAccess: RO },
+    table("hrDeviceEntry", "1.3.6.1.2.1.25.3.2.1", [[1, "hrDeviceIndex", Integer], [5, "hrDeviceStatus", Integer]], [{ columnName: "hrDeviceIndex" }]),
+    table("hrPrinterEntry", "1.3.6.1.2.1.25.3.5.1", [[1, "hrPrinterStatus", Integer], [2, "hrPrinterDetectedErrorState", OctetString]],
+      [{ columnName: "hrDeviceIndex", foreign: "hrDeviceEntry" }]),
+    table("prtMarkerEntry", "1.3.6.1.2.1.43.10.2.1", [[1, "prtMarkerIndex", Integer, NA], [4, "prtMarkerLifeCount", Counter]],
+      [{ columnName: "hrDeviceIndex", foreign: "hrDeviceEntry" }, { columnName: "prtMarkerIndex" }]),
+    table("prtMarkerSuppliesEntry", OIDS.prtMarkerSuppliesEntry, [
+      [1, "prtMarkerSuppliesIndex", Integer, NA], [2, "prtMarkerSuppliesMarkerIndex", Integer],
+      [3, "prtMarkerSuppliesColorantIndex", Integer], [4, "prtMarkerSuppliesClass", Integer],
+      [5, "prtMarkerSuppliesType", Integer], [6, "prtMarkerSuppliesDescription", OctetString],
+      [7, "prtMarkerSuppliesSupplyUnit", Integer], [8, "prtMarkerSuppliesMaxCapacity", Integer],
+      [9, "prtMarkerSuppliesLevel", Integer],
+    ], [{ columnName: "hrDeviceIndex", foreign: "hrDeviceEntry" }, { columnName: "prtMarkerSuppliesIndex" }]),
+    table("prtMarkerColorantEntry", OIDS.prtMarkerColorantEntry, [[1, "prtMarkerColorantIndex", Integer, NA], [4, "prtMarkerColorantValue", OctetString]],
+      [{ columnName: "hrDeviceIndex", foreign: "hrDeviceEntry" }, { columnName: "prtMarkerColorantIndex" }]),
+  ]);
+
+  mib.setScalarValue("sysDescr", spec.model);
+  mib.addTableRow("hrDeviceEntry", [DEVICE_INDEX, 2]);
+  mib.addTableRow("hrPrinterEntry", [DEVICE_INDEX, 3, errorStateBuffer(spec.errorStates ?? [])]);
+  mib.addTableRow("prtMarkerEntry", [DEVICE_INDEX, MARKER_INDEX, pageCount]);
+
+  const colorants = [...new Set(supplies.map((s) => s.color).filter(Boolean))];
+  colorants.forEach((color, i) => mib.addTableRow("prtMarkerColorantEntry", [DEVICE_INDEX, i + 1, color]));
+  supplies.forEach((s, i) => {
+    const colorantIndex = s.color ? colorants.indexOf(s.color) + 1 : 0;
+    const supplyClass = s.type === TYPE_WASTE_TONER ? CLASS_FILLED : CLASS_CONSUMED;
+    mib.addTableRow("prtMarkerSuppliesEntry", [
+      DEVICE_INDEX, i + 1, MARKER_INDEX, colorantIndex, supplyClass, s.type, s.description, UNIT_PERCENT, s.max, s.level,
+    ]);
+  });
+
+  const setLevel = (supplyIndex, level) => {
+    const s = supplies[supplyIndex - 1];
+    if (!s) throw new Error(`No supply ${supplyIndex}`);
+    s.level = Math.max(0, Math.min(s.max, Math.round(level)));
+    mib.setTableSingleCell("prtMarkerSuppliesEntry", 9, [DEVICE_INDEX, supplyIndex], s.level);
+  };
+
+  const setErrorStates = (names) => {
+    mib.setTableSingleCell("hrPrinterEntry", 2, [DEVICE_INDEX], errorStateBuffer(names));
+  };
+
+  const printPages = (n) => {
+    pageCount += n;
+    mib.setTableSingleCell("prtMarkerEntry", 4, [DEVICE_INDEX, MARKER_INDEX], pageCount);
+    supplies.forEach((s, i) => {
+      s.used += n;
+      const units = Math.floor(s.used / s.pagesPerUnit);
+      if (!units) return;
+      s.used -= units * s.pagesPerUnit;
+      // Waste receptacles fill up, consumables run down
+      setLevel(i + 1, s.type === TYPE_WASTE_TONER ? s.level + units : s.level - units);
+    });
+    const black = supplies.find((s) => s.type === TYPE_TONER);
+    if (black) setErrorStates(black.level <= 0 ? ["noToner"] : black.level <= 10 ? ["lowToner"] : []);
+  };
+
+  return {
+    port,
+    printPages,
+    setLevel,
+    setErrorStates,
+    levels: () => supplies.map((s) => ({ description: s.description, level: s.level })),
+    pageCount: () => pageCount,
+    close: () => new Promise((resolve) => agent.close(resolve)),
+  };
+}
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+// ── CLI ───────────────────────────────────────────────────────────────────
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(arg("port", 1161));
+  const profile = arg("profile", "mono");
+  const pagesPerMinute = Number(arg("pages-per-minute", 60));
+
+  const printer = startSimulatedPrinter({ port, community: arg("community", "public"), profile });
+  console.log(`🖨️  Simulated ${profile} printer on 127.0.0.1:${port} (Ctrl+C to stop)`);
+
+  const timer = setInterval(() => {
+    printer.printPages(Math.max(1, Math.round(pagesPerMinute / 6)));
+    const levels = printer.levels().map((l) => `${l.description}: ${l.level}%`).join(" · ");
+    console.log(`  ${printer.pageCount()} pages · ${levels}`);
+  }, 10_000);
+
+  process.on("SIGINT", async () => {
+    clearInterval(timer);
+    await printer.close();
+    process.exit(0);
+  });
+}
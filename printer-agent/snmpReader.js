@@ -0,0 +1,46 @@
+// Promise wrapper around one net-snmp session. Missing objects (noSuchObject,
+// noSuchInstance, endOfMibView) come back as absent rather than as errors,
+// since printers implement different parts of the MIBs.
+
+import snmp from "net-snmp";
+
+export function createSnmpReader({ host, port = 161, community = "public", version = "2c", timeoutMs = 5000, retries = 1 }) {
+  const session = snmp.createSession(host, community, {
+    port,
+    version: version === "1" ? snmp.Version1 : snmp.Version2c,
+    timeout: timeoutMs,
+    retries,
+  });
+
+  /** Values for `oids`, keyed by OID; objects the device lacks are left out. */
+  function get(oids) {
+    return new Promise((resolve, reject) => {
+      session.get(oids, (err, varbinds) => {
+        if (err) {
+          // SNMPv1 fails the whole request when one OID is missing
+          if (err instanceof snmp.RequestFailedError) return resolve({});
+          return reject(err);
+        }
+        const values = {};
+        for (const vb of varbinds) if (!snmp.isVarbindError(vb)) values[vb.oid] = vb.value;
+        resolve(values);
+      });
+    });
+  }
+
+  /** Every varbind under `oid`. */
+  function subtree(oid) {
+    return new Promise((resolve, reject) => {
+      const varbinds = [];
+      const feed = (vbs) => { for (const vb of vbs) if (!snmp.isVarbindError(vb)) varbinds.push(vb); };
+      const done = (err) => {
+        if (err && !(err instanceof snmp.RequestFailedError)) return reject(err);
+        resolve(varbinds);
+      };
+      // getBulk on v2c, repeated getNext on v1
+      session.subtree(oid, 20, feed, done);
+    });
+  }
+
+  return { get, subtree, close: () => session.close() };
+}
@@ -3,6 +3,10 @@ export type Item = {
   name: string;
   currentQuantity: number;
   minQuantity: number;
+  // Reorder lead time used by the consumption forecast (utils/forecast.ts)
+  leadTimeDays?: number;
+  // Per-location stock; sums to the quantity field (see getLocationStock)
+  locations?: Record<string, number>;
   location?: string;
   barcode?: string;
   notes?: string;
@@ -14,10 +18,16 @@ export type Toner = {
   color: string;
   quantity: number;
   minQuantity: number;
+  leadTimeDays?: number;
+  locations?: Record<string, number>;
   printer?: string;
   notes?: string;
   barcode?: string;
   partNumber?: string;
+  // Price of one cartridge, for printer cost per page
+  unitCost?: number;
+  // catalogConsumables/{id} this toner is
+  catalogId?: string;
   siteId: string;
 };
 
@@ -28,14 +38,128 @@ export type Printer = {
   ipAddress?: string;
   assetNumber?: string;
   serial?: string;
+  // Printer model, e.g. "HP Color LaserJet M454dw"; picks its printerCompatibility entry
+  model?: string;
   tonerSeries?: string;
   barcode?: string;
   notes?: string;
   siteId: string;
+  // Legacy single toner link, used until the printer's model has a compatibility entry
   tonerId?: string;
+  // catalogPrinterModels/{id}; linking also sets `model` to the catalog name
+  catalogModelId?: string;
   importedAt?: string;
 };
 
+// Position a consumable fills in a printer
+export type ConsumableSlot = "black" | "cyan" | "magenta" | "yellow" | "drum" | "fuser" | "waste" | "other";
+
+export const CONSUMABLE_SLOTS: { value: ConsumableSlot; label: string }[] = [
+  { value: "black", label: "Black" },
+  { value: "cyan", label: "Cyan" },
+  { value: "magenta", label: "Magenta" },
+  { value: "yellow", label: "Yellow" },
+  { value: "drum", label: "Drum" },
+  { value: "fuser", label: "Fuser" },
+  { value: "waste", label: "Waste" },
+  { value: "other", label: "Other" },
+];
+
+export type CompatibleConsumable = {
+  slot: ConsumableSlot;
+  tonerId: string;
+};
+
+// Consumables that fit one printer model at a site. Every printer of that
+// model shares the list; a slot may have more than one SKU (e.g. standard
+// and high-yield black).
+export type PrinterCompatibility = {
+  id: string;
+  siteId: string;
+  model: string;
+  modelKey: string;
+  consumables: CompatibleConsumable[];
+  updatedAt?: any;
+  updatedBy?: string;
+};
+
+// catalogPrinterModels/{id}: admin-managed, shared by every site
+export type CatalogPrinterModel = {
+  id: string;
+  manufacturer?: string;
+  model: string;
+  // Other names sites use for it ("HP M404n"), matched on import
+  aliases?: string[];
+  color?: boolean;
+  notes?: string;
+  updatedAt?: any;
+  updatedBy?: string;
+};
+
+// catalogConsumables/{id}: admin-managed, shared by every site
+export type CatalogConsumable = {
+  id: string;
+  manufacturer?: string;
+  partNumber: string;
+  description?: string;
+  color?: string;
+  slot?: ConsumableSlot;
+  yieldPages?: number;
+  typicalPrice?: number;
+  aliases?: string[];
+  // catalogPrinterModels it fits
+  printerModelIds?: string[];
+  updatedAt?: any;
+  updatedBy?: string;
+};
+
+// One marker supply as reported over SNMP (printer-agent/printerMib.js)
+export type PrinterSupplyLevel = {
+  index: string;
+  description: string;
+  type: string;
+  color: string | null;
+  level: number | null;
+  maxCapacity: number | null;
+  percent: number | null;
+  // Device only says "some remaining" / "no limit" instead of a level
+  someRemaining: boolean;
+  levelUnknown: boolean;
+};
+
+// printerStatus/{printerId}: latest SNMP reading, written by the on-prem agent
+export type PrinterStatus = {
+  id: string;
+  siteId: string;
+  printerId: string;
+  printerName: string;
+  ipAddress: string;
+  reachable: boolean;
+  polledAt?: any;
+  // Last poll that answered; levels below are from then
+  lastSeenAt?: any;
+  error?: string | null;
+  model?: string | null;
+  deviceStatus?: "unknown" | "running" | "warning" | "testing" | "down";
+  printerState?: "other" | "unknown" | "idle" | "printing" | "warmup";
+  errorStates?: string[];
+  pageCount?: number | null;
+  supplies?: PrinterSupplyLevel[];
+  lowestTonerPercent?: number | null;
+};
+
+// A printer's lifetime page counter at one point in time, typed in from the
+// printer's config page or recorded daily by the printer agent
+export type PrinterPageCount = {
+  id: string;
+  siteId: string;
+  printerId: string;
+  pageCount: number;
+  source: "manual" | "agent";
+  by: string;
+  recordedAt?: any;
+};
+
 export type DataCardPrinter = {
   id: string;
   name: string;
@@ -44,18 +168,53 @@ export type DataCardPrinter = {
   assetNumber?: string;
   serial?: string;
   ribbonType?: string;
+  // cardSupplies this printer uses (ribbons, cleaning kits)
+  supplyIds?: string[];
+  notes?: string;
+  siteId: string;
+};
+
+export type CardSupplyKind = "ribbon" | "cleaning" | "other";
+
+export const CARD_SUPPLY_KINDS: { value: CardSupplyKind; label: string }[] = [
+  { value: "ribbon", label: "Ribbon" },
+  { value: "cleaning", label: "Cleaning kit" },
+  { value: "other", label: "Other" },
+];
+
+// Stocked consumable for data card printers
+export type CardSupply = {
+  id: string;
+  name: string;
+  kind: CardSupplyKind;
+  ribbonType?: string;
+  quantity: number;
+  minQuantity: number;
+  leadTimeDays?: number;
+  locations?: Record<string, number>;
+  location?: string;
+  barcode?: string;
+  partNumber?: string;
   notes?: string;
   siteId: string;
 };
 
+export const RADIO_CONDITIONS = ["Good", "Fair", "Poor", "Out of Service"] as const;
+export type RadioCondition = (typeof RADIO_CONDITIONS)[number];
+
 export type Radio = {
   id: string;
   model: string;
   serialNumber?: string;
   channel?: string;
+  // Current holder while checked out (kept in step with the open checkout)
   assignedTo?: string;
+  // Open radioCheckouts doc, null when the radio is in
+  checkoutId?: string | null;
+  // Open radioRepairs ticket, null when the radio is not under repair
+  repairId?: string | null;
   location?: string;
-  condition?: string;
+  condition?: RadioCondition;
   barcode?: string;
   notes?: string;
   siteId: string;
@@ -67,6 +226,8 @@ export type RadioPart = {
   compatibleModel?: string;
   quantity: number;
   minQuantity: number;
+  leadTimeDays?: number;
+  locations?: Record<string, number>;
   location?: string;
   barcode?: string;
   notes?: string;
@@ -77,6 +238,185 @@ export type TonerLink = {
   id: string;
   name: string;
   stock: number;
+  color?: string;
+};
+
+export type PurchaseOrderStatus = "draft" | "ordered" | "partial" | "received";
+
+export type PurchaseOrderLine = {
+  itemType: "inventory" | "toner" | "radioPart" | "cardSupply";
+  itemId: string;
+  itemName: string;
+  qtyOrdered: number;
+  qtyReceived: number;
+};
+
+export type PurchaseOrder = {
+  id: string;
+  poNumber: string;
+  siteId: string;
+  vendorId: string;
+  vendorName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  notes?: string;
+  createdBy: string;
+  createdAt?: any;
+  orderedAt?: any;
+  receivedAt?: any;
+};
+
+export type SiteTransferStatus = "requested" | "shipped" | "received" | "cancelled";
+
+// What is being moved, copied from whichever side's record was known at the
+// time. Used to match (barcode, then part number) or create the record at
+// the destination site.
+export type SiteTransferItem = {
+  name: string;
+  barcode?: string;
+  partNumber?: string;
+  color?: string;
+  compatibleModel?: string;
+  kind?: CardSupplyKind;
+  ribbonType?: string;
+};
+
+export type SiteTransfer = {
+  id: string;
+  fromSiteId: string;
+  toSiteId: string;
+  itemType: "inventory" | "toner" | "radioPart" | "cardSupply";
+  item: SiteTransferItem;
+  qty: number;
+  status: SiteTransferStatus;
+  note?: string;
+  // Stock doc at each site, once known
+  sourceItemId?: string | null;
+  destItemId?: string | null;
+  requestedBy: string;
+  requestedAt?: any;
+  shippedBy?: string;
+  shippedAt?: any;
+  receivedBy?: string;
+  receivedAt?: any;
+  cancelledBy?: string;
+  cancelledAt?: any;
+};
+
+export type RadioShift = "day" | "swing" | "night" | "custom";
+
+// One custody period: opened on checkout, closed on check-in
+export type RadioCheckout = {
+  id: string;
+  siteId: string;
+  radioId: string;
+  radioLabel: string;
+  holder: string;
+  shift: RadioShift;
+  checkedOutBy: string;
+  checkedOutAt?: any;
+  expectedReturnAt?: any;
+  note?: string;
+  returnedAt?: any | null;
+  returnedBy?: string | null;
+};
+
+export type RadioRepairStatus = "open" | "in_progress" | "waiting_parts" | "repaired" | "unrepairable";
+
+export type RadioRepairPart = {
+  partId: string;
+  name: string;
+  qty: number;
+  movementId: string;
+  by: string;
+};
+
+export type RadioRepair = {
+  id: string;
+  siteId: string;
+  radioId: string;
+  radioLabel: string;
+  model: string;
+  issue: string;
+  status: RadioRepairStatus;
+  tech: string;
+  parts: RadioRepairPart[];
+  conditionBefore?: RadioCondition | null;
+  reportedBy: string;
+  reportedAt?: any;
+  updatedAt?: any;
+  // Set once the ticket is closed as repaired or unrepairable
+  resolution?: string;
+  closedAt?: any | null;
+  closedBy?: string | null;
+};
+
+export type AssetStatus = "in_service" | "in_repair" | "retired" | "disposed";
+
+export type AssetCategory = "computer" | "printer" | "radio" | "network" | "phone" | "pmDevice" | "other";
+
+export type AssetStatusChange = {
+  status: AssetStatus;
+  at: string; // ISO time
+  by: string;
+  note?: string;
+};
+
+// assets/{assetId}: one piece of IT hardware from purchase to disposal
+export type Asset = {
+  id: string;
+  siteId: string;
+  name: string;
+  category: AssetCategory;
+  assetTag?: string;
+  serial?: string;
+  manufacturer?: string;
+  model?: string;
+  purchaseDate?: string; // YYYY-MM-DD
+  cost?: number;
+  vendor?: string;
+  warrantyEnd?: string; // YYYY-MM-DD
+  assignedTo?: string;
+  location?: string;
+  notes?: string;
+  status: AssetStatus;
+  history?: AssetStatusChange[];
+  // Set when disposed from the Disposal tab
+  disposalId?: string;
+  disposedAt?: any;
+  // Last expiry reminder stage sent for warrantyEnd (60, 30 or 7 days)
+  warrantyReminderStage?: number;
+  createdBy?: string;
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+export type ContractKind = "service" | "warranty";
+
+export type ContractTargetType = "asset" | "printer" | "pmDevice";
+
+// contracts/{contractId}: a service contract or warranty, from a vendor and/or
+// for one asset, printer or PM device
+export type Contract = {
+  id: string;
+  siteId: string;
+  kind: ContractKind;
+  title: string;
+  vendorId?: string;
+  vendorName?: string;
+  targetType?: ContractTargetType;
+  targetId?: string;
+  targetName?: string;
+  reference?: string; // contract or warranty number
+  startDate?: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  cost?: number;
+  notes?: string;
+  // Last expiry reminder stage sent (60, 30 or 7 days); cleared when endDate changes
+  reminderStage?: number;
+  createdBy?: string;
+  createdAt?: any;
+  updatedAt?: any;
 };
 
 export type SortMode = "name" | "stock";
@@ -0,0 +1,258 @@
+// utils/assetLabels.ts
+// Asset codes and printable label sheets. Records created in-app often have
+// no `barcode`; printing a label assigns an internal code (e.g. ITM-7K3F9QXD)
+// so the scanner on the Inventory tab finds it. Each label carries a Code128
+// of that code and/or a QR deep link to the record's detail screen, laid out
+// on common Avery sheets and shared as PDF.
+
+import Constants from "expo-constants";
+import { collection, doc, getDocs, query, where, writeBatch } from "firebase/firestore";
+import qrcode from "qrcode-generator";
+import { db } from "../firebaseConfig";
+import { sharePdf } from "./pdfReports";
+
+export type LabelEntity = "items" | "toners" | "printers" | "radios" | "radioParts" | "cardSupplies" | "pmDevices";
+
+export type LabelRecord = {
+  entity: LabelEntity;
+  id: string;
+  title: string;
+  subtitle: string;
+  code: string; // "" until assigned
+};
+
+export type LabelSymbology = "both" | "qr" | "code128";
+
+type EntityConfig = {
+  label: string;
+  prefix: string;
+  route: string | null; // detail route the QR opens; without one the QR holds the code
+  title: (d: any) => string;
+  subtitle: (d: any) => string;
+};
+
+const join = (...parts: (string | undefined)[]) => parts.filter(Boolean).join(" · ");
+
+export const LABEL_ENTITIES: Record<LabelEntity, EntityConfig> = {
+  items: { label: "Inventory", prefix: "ITM", route: "item", title: (d) => d.name, subtitle: (d) => join(d.location) },
+  toners: { label: "Toners", prefix: "TNR", route: "toners", title: (d) => join(d.model, d.color), subtitle: (d) => join(d.printer) },
+  printers: { label: "Printers", prefix: "PRN", route: "Printers", title: (d) => d.name, subtitle: (d) => join(d.location, d.assetNumber) },
+  radios: { label: "Radios", prefix: "RAD", route: "radios", title: (d) => d.model, subtitle: (d) => join(d.serialNumber, d.channel && `Ch ${d.channel}`) },
+  radioParts: { label: "Radio Parts", prefix: "RPT", route: "radiopart", title: (d) => d.name, subtitle: (d) => join(d.compatibleModel, d.location) },
+  cardSupplies: { label: "Card Supplies", prefix: "CSP", route: "cardsupply", title: (d) => d.name, subtitle: (d) => join(d.ribbonType, d.location) },
+  pmDevices: { label: "PM Devices", prefix: "PMD", route: "pm", title: (d) => d.name, subtitle: (d) => join(d.ip, d.user) },
+};
+
+export const LABEL_ENTITY_ORDER: LabelEntity[] = ["items", "toners", "printers", "radios", "radioParts", "cardSupplies", "pmDevices"];
+
+// ─── Asset codes and deep links ───────────────────────────────────────────
+
+// No 0/O, 1/I/L: codes get read aloud and typed by hand
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export function newAssetCode(entity: LabelEntity): string {
+  let body = "";
+  for (let i = 0; i < 8; i++) body += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  return `${LABEL_ENTITIES[entity].prefix}-${body}`;
+}
+
+const scheme = Constants.expoConfig?.scheme;
+const APP_SCHEME = (Array.isArray(scheme) ? scheme[0] : scheme) || "nexus";
+
+const ROUTES = LABEL_ENTITY_ORDER.map((e) => LABEL_ENTITIES[e].route).filter(Boolean) as string[];
+
+/** `nexus://item/<id>`; null for records without a detail screen. */
+export function assetLink(entity: LabelEntity, id: string): string | null {
+  const route = LABEL_ENTITIES[entity].route;
+  return route ? `${APP_SCHEME}://${route}/${id}` : null;
+}
+
+/** Parses a scanned deep link back into a router pathname and id. */
+export function parseAssetLink(data: string): { pathname: string; id: string } | null {
+  const match = /^[a-z][\w+.-]*:\/\/(?:.*\/--\/)?\/?([^/?#]+)\/([^/?#\s]+)\/?$/i.exec(data.trim());
+  if (!match || !ROUTES.includes(match[1])) return null;
+  return { pathname: `/${match[1]}/[id]`, id: decodeURIComponent(match[2]) };
+}
+
+export async function loadLabelRecords(siteId: string, entity: LabelEntity): Promise<LabelRecord[]> {
+  const config = LABEL_ENTITIES[entity];
+  const snap = await getDocs(query(collection(db, entity), where("siteId", "==", siteId)));
+  return snap.docs
+    .map((d) => {
+      const data = d.data();
+      return {
+        entity,
+        id: d.id,
+        title: config.title(data) || "Unnamed",
+        subtitle: config.subtitle(data),
+        code: String(data.barcode ?? "").trim(),
+      };
+    })
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/** Gives every record without a code a new one (saved as `barcode`) and returns the updated list. */
+export async function assignAssetCodes(records: LabelRecord[]): Promise<LabelRecord[]> {
+  const updated = records.map((r) => (r.code ? r : { ...r, code: newAssetCode(r.entity) }));
+  const missing = updated.filter((r, i) => !records[i].code);
+  for (let i = 0; i < missing.length; i += 400) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + 400).forEach((r) => batch.update(doc(db, r.entity, r.id), { barcode: r.code }));
+    await batch.commit();
+  }
+  return updated;
+}
+
+// ─── Symbols ──────────────────────────────────────────────────────────────
+
+// Code 128 symbol patterns (1 = bar module), indexed by symbol value. 106 is STOP.
+const CODE128_PATTERNS = [
+  "11011001100", "11001101100", "11001100110", "10010011000", "10010001100", "10001001100", "10011001000", "10011000100",
+  "10001100100", "11001001000", "11001000100", "11000100100", "10110011100", "10011011100", "10011001110", "10111001100",
+  "10011101100", "10011100110", "11001110010", "11001011100", "11001001110", "11011100100", "11001110100", "11101101110",
+  "11101001100", "11100101100", "11100100110", "11101100100", "11100110100", "11100110010", "11011011000", "11011000110",
+  "11000110110", "10100011000", "10001011000", "10001000110", "10110001000", "10001101000", "10001100010", "11010001000",
+  "11000101000", "11000100010", "10110111000", "10110001110", "10001101110", "10111011000", "10111000110", "10001110110",
+  "11101110110", "11010001110", "11000101110", "11011101000", "11011100010", "11011101110", "11101011000", "11101000110",
+  "11100010110", "11101101000", "11101100010", "11100011010", "11101111010", "11001000010", "11110001010", "10100110000",
+  "10100001100", "10010110000", "10010000110", "10000101100", "10000100110", "10110010000", "10110000100", "10011010000",
+  "10011000010", "10000110100", "10000110010", "11000010010", "11001010000", "11110111010", "11000010100", "10001111010",
+  "10100111100", "10010111100", "10010011110", "10111100100", "10011110100", "10011110010", "11110100100", "11110010100",
+  "11110010010", "11011011110", "11011110110", "11110110110", "10101111000", "10100011110", "10001011110", "10111101000",
+  "10111100010", "11110101000", "11110100010", "10111011110", "10111101110", "11101011110", "11110101110", "11010000100",
+  "11010010000", "11010011100", "1100011101011",
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/** Code 128 (set B) as an SVG that stretches to its container. Printable ASCII only. */
+export function code128Svg(text: string): string {
+  const values = Array.from(text).map((ch) => {
+    const code = ch.charCodeAt(0);
+    if (code < 32 || code > 127) throw new Error(`"${ch}" cannot be encoded in Code 128.`);
+    return code - 32;
+  });
+  const checksum = values.reduce((sum, v, i) => sum + v * (i + 1), CODE128_START_B) % 103;
+  const modules = [CODE128_START_B, ...values, checksum, CODE128_STOP].map((v) => CODE128_PATTERNS[v]).join("");
+
+  const quiet = 10;
+  let bars = "";
+  for (let i = 0; i < modules.length; ) {
+    if (modules[i] !== "1") { i++; continue; }
+    let end = i;
+    while (modules[end] === "1") end++;
+    bars += `M${i + quiet} 0h${end - i}v1h-${end - i}z`;
+    i = end;
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${modules.length + quiet * 2} 1" preserveAspectRatio="none" width="100%" height="100%"><path d="${bars}" fill="#000"/></svg>`;
+}
+
+export function qrSvg(text: string): string {
+  const qr = qrcode(0, "M");
+  qr.addData(text);
+  qr.make();
+  return qr.createSvgTag({ margin: 0, scalable: true });
+}
+
+// ─── Avery sheets ─────────────────────────────────────────────────────────
+
+export type LabelLayout = {
+  id: string;
+  name: string;
+  paper: "letter" | "a4";
+  unit: "in" | "mm";
+  cols: number;
+  rows: number;
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+  colGap: number;
+  rowGap: number;
+  symbology: LabelSymbology; // default for this size
+};
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: "5160", name: "Avery 5160 · 30 per sheet", paper: "letter", unit: "in", cols: 3, rows: 10, width: 2.625, height: 1, top: 0.5, left: 0.1875, colGap: 0.125, rowGap: 0, symbology: "both" },
+  { id: "5163", name: "Avery 5163 · 10 per sheet", paper: "letter", unit: "in", cols: 2, rows: 5, width: 4, height: 2, top: 0.5, left: 0.15625, colGap: 0.1875, rowGap: 0, symbology: "both" },
+  { id: "5167", name: "Avery 5167 · 80 per sheet", paper: "letter", unit: "in", cols: 4, rows: 20, width: 1.75, height: 0.5, top: 0.5, left: 0.28125, colGap: 0.3125, rowGap: 0, symbology: "code128" },
+  { id: "L7160", name: "Avery L7160 · 21 per sheet (A4)", paper: "a4", unit: "mm", cols: 3, rows: 7, width: 63.5, height: 38.1, top: 15.15, left: 7.25, colGap: 2.5, rowGap: 0, symbology: "both" },
+  { id: "L7651", name: "Avery L7651 · 65 per sheet (A4)", paper: "a4", unit: "mm", cols: 5, rows: 13, width: 38.1, height: 21.2, top: 10.7, left: 4.75, colGap: 2.5, rowGap: 0, symbology: "code128" },
+];
+
+const PAPER = {
+  letter: { css: "8.5in 11in", points: { width: 612, height: 792 } },
+  a4: { css: "210mm 297mm", points: { width: 595, height: 842 } },
+};
+
+const esc = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function labelHtml(record: LabelRecord, symbology: LabelSymbology): string {
+  const link = assetLink(record.entity, record.id) ?? record.code;
+  const qr = symbology !== "code128" ? `<div class="qr">${qrSvg(link)}</div>` : "";
+  const bars = symbology !== "qr" ? `<div class="bars">${code128Svg(record.code)}</div>` : "";
+  return `${qr}<div class="text">
+    <div class="title">${esc(record.title)}</div>
+    ${symbology === "qr" && record.subtitle ? `<div class="sub">${esc(record.subtitle)}</div>` : ""}
+    ${bars}
+    <div class="code">${esc(record.code)}</div>
+  </div>`;
+}
+
+/**
+ * One label per record, filling sheets left-to-right, top-to-bottom.
+ * `skip` leaves that many positions blank on the first sheet so a
+ * partly used sheet can go back through the printer.
+ */
+export async function shareLabelSheetPdf(
+  records: LabelRecord[],
+  layout: LabelLayout,
+  symbology: LabelSymbology,
+  skip = 0
+): Promise<void> {
+  if (records.length === 0) throw new Error("Select at least one record.");
+  const unlabelled = records.find((r) => !r.code);
+  if (unlabelled) throw new Error(`"${unlabelled.title}" has no asset code.`);
+
+  const u = layout.unit;
+  const perSheet = layout.cols * layout.rows;
+  const slots: (LabelRecord | null)[] = [...Array(skip % perSheet).fill(null), ...records];
+  const sheets: string[] = [];
+  for (let s = 0; s < slots.length; s += perSheet) {
+    const cells = slots.slice(s, s + perSheet).map((record, i) => {
+      if (!record) return "";
+      const x = layout.left + (i % layout.cols) * (layout.width + layout.colGap);
+      const y = layout.top + Math.floor(i / layout.cols) * (layout.height + layout.rowGap);
+      return `<div class="label" style="left:${x}${u};top:${y}${u}">${labelHtml(record, symbology)}</div>`;
+    });
+    sheets.push(`<div class="sheet">${cells.join("")}</div>`);
+  }
+
+  // Type scales with label height so small sheets stay legible
+  const h = layout.height * (u === "in" ? 25.4 : 1);
+  const titlePt = Math.max(5, Math.min(11, h / 2.6));
+  const paper = PAPER[layout.paper];
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8" />
+<style>
+  @page { size: ${paper.css}; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, Helvetica, Arial, sans-serif; color: #000; }
+  .sheet { position: relative; width: ${paper.css.split(" ")[0]}; height: ${paper.css.split(" ")[1]}; page-break-after: always; overflow: hidden; }
+  .sheet:last-child { page-break-after: auto; }
+  .label { position: absolute; width: ${layout.width}${u}; height: ${layout.height}${u}; padding: ${h * 0.08}mm ${h * 0.1}mm; display: flex; align-items: center; gap: ${h * 0.08}mm; overflow: hidden; }
+  .qr { height: 100%; aspect-ratio: 1; flex-shrink: 0; }
+  .qr svg { width: 100%; height: 100%; display: block; }
+  .text { flex: 1; min-width: 0; height: 100%; display: flex; flex-direction: column; justify-content: center; }
+  .title { font-size: ${titlePt}pt; font-weight: 700; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .sub { font-size: ${titlePt * 0.8}pt; color: #333; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .bars { height: 45%; margin: 2% 0; }
+  .code { font-family: Menlo, Courier, monospace; font-size: ${titlePt * 0.8}pt; letter-spacing: .5px; }
+</style></head>
+<body>${sheets.join("")}</body></html>`;
+
+  const stamp = new Date().toISOString().split("T")[0];
+  await sharePdf(html, `Labels_${layout.id}_${stamp}`, "Asset Labels", paper.points);
+}
@@ -0,0 +1,173 @@
+// utils/assets.ts
+// Asset register (assets): IT hardware from purchase to disposal. An asset
+// moves between in service, in repair and retired; disposing it from the
+// Disposal tab writes the disposal record and marks the asset disposed in one
+// batch (the "disposal" outbox entry in utils/outbox.ts), carrying its cost
+// and age into the record. Disposed assets are read-only.
+
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  deleteField,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { Asset, AssetCategory, AssetStatus, AssetStatusChange } from "../types/inventory";
+
+export const ASSET_STATUS_LABELS: Record<AssetStatus, string> = {
+  in_service: "In service",
+  in_repair: "In repair",
+  retired: "Retired",
+  disposed: "Disposed",
+};
+
+export const ASSET_STATUS_COLORS: Record<AssetStatus, string> = {
+  in_service: "#22c55e",
+  in_repair: "#f97316",
+  retired: "#6b7280",
+  disposed: "#ef4444",
+};
+
+export const ASSET_CATEGORIES: { value: AssetCategory; label: string }[] = [
+  { value: "computer", label: "Computer" },
+  { value: "printer", label: "Printer" },
+  { value: "radio", label: "Radio" },
+  { value: "network", label: "Network" },
+  { value: "phone", label: "Phone" },
+  { value: "pmDevice", label: "PM device" },
+  { value: "other", label: "Other" },
+];
+
+export function categoryLabel(category: AssetCategory): string {
+  return ASSET_CATEGORIES.find((c) => c.value === category)?.label ?? "Other";
+}
+
+/** Local date for a YYYY-MM-DD string; null when blank or not a real date. */
+export function parseDay(text: string | undefined): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec((text ?? "").trim());
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return d.getMonth() === Number(m[2]) - 1 ? d : null;
+}
+
+/** Age since purchase, e.g. "2 yr 3 mo" or "5 mo"; null without a purchase date. */
+export function assetAge(purchaseDate: string | undefined, at: Date = new Date()): string | null {
+  const bought = parseDay(purchaseDate);
+  if (!bought) return null;
+  let months = (at.getFullYear() - bought.getFullYear()) * 12 + (at.getMonth() - bought.getMonth());
+  if (at.getDate() < bought.getDate()) months--;
+  if (months < 1) return "Under 1 mo";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (!years) return `${rest} mo`;
+  return rest ? `${years} yr ${rest} mo` : `${years} yr`;
+}
+
+/** Whether the warranty has run out; null without a warranty end date. */
+export function warrantyExpired(warrantyEnd: string | undefined, at: Date = new Date()): boolean | null {
+  const end = parseDay(warrantyEnd);
+  if (!end) return null;
+  return end.getTime() < new Date(at.getFullYear(), at.getMonth(), at.getDate()).getTime();
+}
+
+export function subscribeSiteAssets(siteId: string, onChange: (assets: Asset[]) => void): () => void {
+  return onSnapshot(
+    query(collection(db, "assets"), where("siteId", "==", siteId)),
+    (snap) => {
+      const assets = snap.docs.map((d) => ({ id: d.id, ...d.data() } as Asset));
+      onChange(assets.sort((a, b) => a.name.localeCompare(b.name)));
+    },
+    (err) => { if (__DEV__) console.error("assets onSnapshot error:", err); }
+  );
+}
+
+export type AssetFields = Omit<
+  Asset,
+  "id" | "siteId" | "status" | "history" | "disposalId" | "disposedAt" | "warrantyReminderStage" | "createdBy" | "createdAt" | "updatedAt"
+>;
+
+const statusChange = (status: AssetStatus, by: string, note?: string): AssetStatusChange => ({
+  status,
+  at: new Date().toISOString(),
+  by,
+  ...(note ? { note } : {}),
+});
+
+/** Adds an asset in service. Undefined fields are left out. */
+export async function createAsset(siteId: string, fields: AssetFields, by: string): Promise<string> {
+  const ref = await addDoc(collection(db, "assets"), {
+    ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)),
+    siteId,
+    status: "in_service",
+    history: [statusChange("in_service", by)],
+    createdBy: by,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * Saves edited details; undefined fields are cleared. A new warranty end
+ * restarts its expiry reminders (utils/contracts.ts).
+ */
+export async function updateAsset(asset: Pick<Asset, "id" | "warrantyEnd">, fields: AssetFields): Promise<void> {
+  await updateDoc(doc(db, "assets", asset.id), {
+    ...Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, v === undefined ? deleteField() : v])),
+    ...(fields.warrantyEnd !== asset.warrantyEnd ? { warrantyReminderStage: deleteField() } : {}),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/** Moves an asset between in service, in repair and retired. */
+export async function setAssetStatus(
+  asset: Pick<Asset, "id" | "status">,
+  status: Exclude<AssetStatus, "disposed">,
+  by: string,
+  note?: string
+): Promise<void> {
+  if (asset.status === "disposed") throw new Error("This asset has been disposed.");
+  if (asset.status === status) return;
+  await updateDoc(doc(db, "assets", asset.id), {
+    status,
+    history: arrayUnion(statusChange(status, by, note)),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Disposal record for an asset, for submitDisposal(). The cost is both the
+ * unit and total value (one asset), and the age is worked out from the
+ * purchase date. `assetId` makes the write mark the asset disposed too.
+ */
+export function assetDisposalData(
+  asset: Asset,
+  params: { reason: string; notes: string; disposedBy: string; disposedByUid: string }
+): Record<string, any> {
+  const value = typeof asset.cost === "number" ? asset.cost.toFixed(2) : "";
+  return {
+    assetId: asset.id,
+    itemId: asset.id,
+    itemName: asset.name,
+    model: [asset.manufacturer, asset.model].filter(Boolean).join(" "),
+    quantity: 1,
+    vendor: asset.vendor ?? "",
+    approxValue: value,
+    totalValue: value,
+    approxAge: assetAge(asset.purchaseDate) ?? "",
+    purchaseDate: asset.purchaseDate ?? "",
+    assetTag: asset.assetTag ?? "",
+    serial: asset.serial ?? "",
+    reason: params.reason,
+    notes: params.notes,
+    disposedBy: params.disposedBy,
+    disposedByUid: params.disposedByUid,
+    siteId: asset.siteId,
+  };
+}
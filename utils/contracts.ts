@@ -0,0 +1,177 @@
+// utils/contracts.ts
+// Service contracts and warranties (contracts). A contract can name a vendor
+// from the Directory and/or the asset, printer or PM device it covers.
+// Together with warranty ends in the asset register they make up the
+// "Expiring soon" list on /contracts. expiryReminderSchedule
+// (functions/expiryReminders.js) pushes reminders 60, 30 and 7 days out and
+// saves the stage sent on the record; changing the end date clears it.
+
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { Asset, Contract, ContractKind, ContractTargetType } from "../types/inventory";
+import { parseDay } from "./assets";
+
+export const EXPIRING_WINDOW_DAYS = 60;
+
+export const CONTRACT_KIND_LABELS: Record<ContractKind, string> = {
+  service: "Service contract",
+  warranty: "Warranty",
+};
+
+export const CONTRACT_TARGET_LABELS: Record<ContractTargetType, string> = {
+  asset: "Asset",
+  printer: "Printer",
+  pmDevice: "PM device",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days from today to a YYYY-MM-DD date (negative once past); null when not a date. */
+export function daysUntil(day: string | undefined, at: Date = new Date()): number | null {
+  const end = parseDay(day);
+  if (!end) return null;
+  const today = new Date(at.getFullYear(), at.getMonth(), at.getDate());
+  return Math.round((end.getTime() - today.getTime()) / DAY_MS);
+}
+
+export function formatDaysLeft(daysLeft: number): string {
+  if (daysLeft < 0) return `Expired ${-daysLeft} day${daysLeft === -1 ? "" : "s"} ago`;
+  if (daysLeft === 0) return "Expires today";
+  return `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`;
+}
+
+/** Red within a week or once expired, orange within 30 days, amber within 60. */
+export function expiryColor(daysLeft: number): string {
+  if (daysLeft <= 7) return "#ef4444";
+  if (daysLeft <= 30) return "#f97316";
+  if (daysLeft <= EXPIRING_WINDOW_DAYS) return "#eab308";
+  return "#22c55e";
+}
+
+export function subscribeSiteContracts(siteId: string, onChange: (contracts: Contract[]) => void): () => void {
+  return onSnapshot(
+    query(collection(db, "contracts"), where("siteId", "==", siteId)),
+    (snap) => {
+      const contracts = snap.docs.map((d) => ({ id: d.id, ...d.data() } as Contract));
+      onChange(contracts.sort((a, b) => a.endDate.localeCompare(b.endDate)));
+    },
+    (err) => { if (__DEV__) console.error("contracts onSnapshot error:", err); }
+  );
+}
+
+export type ContractFields = Omit<Contract, "id" | "siteId" | "reminderStage" | "createdBy" | "createdAt" | "updatedAt">;
+
+/**
+ * Creates the contract, or updates `existing`. Fields left undefined are
+ * omitted on create and cleared on update; a new end date restarts reminders.
+ */
+export async function saveContract(
+  siteId: string,
+  fields: ContractFields,
+  by: string,
+  existing?: Pick<Contract, "id" | "endDate"> | null
+): Promise<string> {
+  const entries = Object.entries(fields);
+  if (existing) {
+    await updateDoc(doc(db, "contracts", existing.id), {
+      ...Object.fromEntries(entries.map(([k, v]) => [k, v === undefined ? deleteField() : v])),
+      ...(fields.endDate !== existing.endDate ? { reminderStage: deleteField() } : {}),
+      updatedAt: serverTimestamp(),
+    });
+    return existing.id;
+  }
+  const ref = await addDoc(collection(db, "contracts"), {
+    ...Object.fromEntries(entries.filter(([, v]) => v !== undefined)),
+    siteId,
+    createdBy: by,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export type ContractOption = { id: string; name: string };
+
+const OPTION_SOURCES: Record<"vendor" | ContractTargetType, { collection: string; name: (d: any) => string }> = {
+  vendor: { collection: "vendors", name: (d) => d.company || "Unnamed vendor" },
+  asset: { collection: "assets", name: (d) => d.name || "Unnamed asset" },
+  printer: { collection: "printers", name: (d) => d.name || "Unnamed printer" },
+  pmDevice: { collection: "pmDevices", name: (d) => d.name || "Unnamed device" },
+};
+
+/** The site's vendors, or the records a contract can cover, by name. Disposed assets are left out. */
+export async function loadContractOptions(siteId: string, source: "vendor" | ContractTargetType): Promise<ContractOption[]> {
+  const { collection: name, name: label } = OPTION_SOURCES[source];
+  const snap = await getDocs(query(collection(db, name), where("siteId", "==", siteId)));
+  return snap.docs
+    .filter((d) => source !== "asset" || d.data().status !== "disposed")
+    .map((d) => ({ id: d.id, name: label(d.data()) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteContract(contractId: string): Promise<void> {
+  await deleteDoc(doc(db, "contracts", contractId));
+}
+
+export type ExpiryEntry = {
+  key: string;
+  kind: ContractKind;
+  title: string;
+  subtitle: string;
+  endDate: string;
+  daysLeft: number;
+  contract?: Contract;
+  assetId?: string;
+};
+
+/**
+ * Contracts plus asset register warranties, soonest first. Disposed assets
+ * are left out; so are records whose end date is not a valid date.
+ */
+export function expiryEntries(contracts: Contract[], assets: Asset[], at: Date = new Date()): ExpiryEntry[] {
+  const entries: ExpiryEntry[] = [];
+  contracts.forEach((c) => {
+    const daysLeft = daysUntil(c.endDate, at);
+    if (daysLeft == null) return;
+    entries.push({
+      key: `contract:${c.id}`,
+      kind: c.kind,
+      title: c.title,
+      subtitle: [
+        CONTRACT_KIND_LABELS[c.kind],
+        c.vendorName,
+        c.targetType && c.targetName ? `${CONTRACT_TARGET_LABELS[c.targetType]}: ${c.targetName}` : null,
+      ].filter(Boolean).join(" • "),
+      endDate: c.endDate,
+      daysLeft,
+      contract: c,
+    });
+  });
+  assets.forEach((a) => {
+    if (a.status === "disposed" || !a.warrantyEnd) return;
+    const daysLeft = daysUntil(a.warrantyEnd, at);
+    if (daysLeft == null) return;
+    entries.push({
+      key: `asset:${a.id}`,
+      kind: "warranty",
+      title: a.name,
+      subtitle: ["Warranty • Asset register", a.vendor].filter(Boolean).join(" • "),
+      endDate: a.warrantyEnd,
+      daysLeft,
+      assetId: a.id,
+    });
+  });
+  return entries.sort((a, b) => a.daysLeft - b.daysLeft);
+}
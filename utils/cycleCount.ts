@@ -0,0 +1,333 @@
+// utils/cycleCount.ts
+// Batch-scan cycle counts. A session tallies scans per barcode across items,
+// toners, radios and radio parts, then commits every counted stock line as a
+// "count" movement (the count replaces the on-hand quantity) plus one
+// summary entry in alertsLog. Radios have no quantity, so a scan marks them
+// as seen and the summary lists the site's radios nobody scanned.
+//
+// Weekly assignments (cycleCounts, created by cycleCountSchedule in
+// functions/) are ticked off by whichever session counts their lines, and
+// accuracy is read back from the summary entries.
+
+import {
+  collection,
+  doc,
+  DocumentSnapshot,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { STOCK_SOURCES, StockItemType, stageStockMovement, stockDocRef } from "./stockMovements";
+
+export type CountKind = StockItemType | "radio";
+
+export type CountLine = {
+  key: string; // `${kind}:${id}`
+  kind: CountKind;
+  id: string;
+  name: string;
+  barcode: string;
+  recorded: number; // on-hand when first scanned; 1 for a radio
+  counted: number;
+};
+
+export type CycleCountSummary = {
+  sessionId: string;
+  counted: number;
+  adjusted: number;
+  unitsOver: number;
+  unitsShort: number;
+  radiosFound: number;
+  radiosMissing: string[];
+  lines: { itemType: StockItemType; itemId: string; itemName: string; recorded: number; counted: number; delta: number }[];
+};
+
+export type AbcClass = "A" | "B" | "C";
+
+export type CycleCountAssignmentLine = {
+  itemType: StockItemType;
+  itemId: string;
+  itemName: string;
+  abcClass: AbcClass;
+  volume: number; // units moved over the last 90 days
+  countedAt: Timestamp | null;
+  countedBy: string | null;
+  recorded: number | null;
+  counted: number | null;
+};
+
+export type CycleCountAssignment = {
+  id: string;
+  siteId: string;
+  weekOf: string; // YYYY-MM-DD, Monday
+  dueDate: string; // YYYY-MM-DD, Friday
+  status: "open" | "completed" | "missed";
+  lines: CycleCountAssignmentLine[];
+  total: number;
+};
+
+export type CountAccuracy = { name: string; lines: number; exact: number; unitsOff: number };
+
+export type CycleCountAccuracy = {
+  sessions: number;
+  overall: CountAccuracy;
+  byCounter: CountAccuracy[];
+  byItem: CountAccuracy[];
+};
+
+export const COUNT_KIND_LABELS: Record<CountKind, string> = {
+  inventory: "Inventory",
+  toner: "Toner",
+  radioPart: "Radio part",
+  cardSupply: "Card supply",
+  radio: "Radio",
+};
+
+// Firestore caps a transaction at 500 writes; each line is a stock update and
+// a movement
+const LINES_PER_TRANSACTION = 200;
+
+export const countVariance = (line: CountLine) => line.counted - line.recorded;
+
+/** Finds a barcode in the same order as the Inventory scanner. Null when unknown. */
+export async function lookupCountBarcode(siteId: string, barcode: string): Promise<CountLine | null> {
+  const targets: { kind: CountKind; collection: string }[] = [
+    { kind: "inventory", collection: STOCK_SOURCES.inventory.collection },
+    { kind: "toner", collection: STOCK_SOURCES.toner.collection },
+    { kind: "radio", collection: "radios" },
+    { kind: "radioPart", collection: STOCK_SOURCES.radioPart.collection },
+    { kind: "cardSupply", collection: STOCK_SOURCES.cardSupply.collection },
+  ];
+  for (const target of targets) {
+    const snap = await getDocs(
+      query(collection(db, target.collection), where("barcode", "==", barcode), where("siteId", "==", siteId))
+    );
+    if (snap.empty) continue;
+    const d = snap.docs[0];
+    const data = d.data();
+    const isRadio = target.kind === "radio";
+    const source = isRadio ? null : STOCK_SOURCES[target.kind as StockItemType];
+    return {
+      key: `${target.kind}:${d.id}`,
+      kind: target.kind,
+      id: d.id,
+      name: source ? source.getName(data) : [data.model, data.serialNumber].filter(Boolean).join(" · ") || "Radio",
+      barcode,
+      recorded: source ? Number(data[source.qtyField] ?? 0) : 1,
+      counted: 0,
+    };
+  }
+  return null;
+}
+
+/**
+ * Commits a session. Every counted stock line becomes its own "count"
+ * movement, with the variance taken against the quantity read when that
+ * movement is written, so stock used while the count was running is not
+ * counted twice, and records deleted meanwhile are skipped. The session is
+ * not atomic: lines go out in transactions of LINES_PER_TRANSACTION, then
+ * radios, the assignment and the summary are written separately, so a
+ * failure part-way leaves the earlier lines applied with no summary.
+ */
+export async function commitCycleCount(params: {
+  siteId: string;
+  lines: CountLine[];
+  by: string;
+  note?: string;
+  unknownBarcodes?: string[];
+}): Promise<CycleCountSummary> {
+  const { siteId, by } = params;
+  const note = params.note?.trim() || null;
+  const stockLines = params.lines.filter((l) => l.kind !== "radio");
+  const radioLines = params.lines.filter((l) => l.kind === "radio");
+  if (stockLines.length + radioLines.length === 0) throw new Error("Nothing has been counted yet.");
+
+  const sessionRef = doc(collection(db, "alertsLog"));
+  const reference = { type: "cycleCount" as const, id: sessionRef.id, label: "Cycle count" };
+  const lines: CycleCountSummary["lines"] = [];
+
+  for (let i = 0; i < stockLines.length; i += LINES_PER_TRANSACTION) {
+    const chunk = stockLines.slice(i, i + LINES_PER_TRANSACTION);
+    const results = await runTransaction(db, async (tx) => {
+      const snaps: DocumentSnapshot[] = [];
+      for (const line of chunk) snaps.push(await tx.get(stockDocRef(line.kind as StockItemType, line.id)));
+      return chunk.map((line, j) => {
+        if (!snaps[j].exists()) return null; // deleted while the count was running
+        const itemType = line.kind as StockItemType;
+        const current = Number(snaps[j].data()?.[STOCK_SOURCES[itemType].qtyField] ?? 0);
+        const result = stageStockMovement(tx, snaps[j], {
+          itemType,
+          itemId: line.id,
+          delta: line.counted - current,
+          by,
+          type: "count",
+          note: `Counted ${line.counted}${note ? ` (${note})` : ""}`,
+          reference,
+          skipActivityLog: true,
+        });
+        return { itemType, itemId: line.id, itemName: result.itemName, recorded: current, counted: line.counted, delta: result.delta };
+      });
+    });
+    results.forEach((r) => { if (r) lines.push(r); });
+  }
+
+  let radiosMissing: string[] = [];
+  if (radioLines.length > 0) {
+    const batch = writeBatch(db);
+    radioLines.forEach((l) => batch.update(doc(db, "radios", l.id), { lastCountedAt: serverTimestamp() }));
+    await batch.commit();
+    const seen = new Set(radioLines.map((l) => l.id));
+    const all = await getDocs(query(collection(db, "radios"), where("siteId", "==", siteId)));
+    radiosMissing = all.docs
+      .filter((d) => !seen.has(d.id))
+      .map((d) => [d.data().model, d.data().serialNumber].filter(Boolean).join(" · ") || d.id);
+  }
+
+  const adjusted = lines.filter((l) => l.delta !== 0);
+  const unitsOver = adjusted.reduce((sum, l) => sum + Math.max(0, l.delta), 0);
+  const unitsShort = adjusted.reduce((sum, l) => sum + Math.max(0, -l.delta), 0);
+  const unknown = params.unknownBarcodes ?? [];
+
+  const parts = [
+    `${lines.length} counted, ${adjusted.length} adjusted (+${unitsOver} / -${unitsShort})`,
+    radioLines.length ? `${radioLines.length} radio${radioLines.length !== 1 ? "s" : ""} seen, ${radiosMissing.length} not scanned` : "",
+    unknown.length ? `${unknown.length} unknown barcode${unknown.length !== 1 ? "s" : ""}` : "",
+    note ?? "",
+  ].filter(Boolean);
+
+  await markAssignmentsCounted(siteId, lines, by).catch((err) => {
+    // The count itself is saved; the assignment just stays open
+    if (__DEV__) console.warn("Could not update cycle count assignment:", err);
+  });
+
+  await setDoc(sessionRef, {
+    createdAt: serverTimestamp(),
+    siteId,
+    itemId: "",
+    itemName: `Cycle count · ${lines.length + radioLines.length} records`,
+    action: "counted",
+    qty: lines.reduce((sum, l) => sum + l.counted, 0),
+    delta: unitsOver - unitsShort,
+    itemType: "count",
+    by,
+    note: parts.join(" · "),
+    source: "cycleCount",
+    summary: {
+      counted: lines.length,
+      adjusted: adjusted.length,
+      unitsOver,
+      unitsShort,
+      radiosFound: radioLines.length,
+      radiosMissing,
+      unknownBarcodes: unknown,
+    },
+    lines,
+  });
+
+  return {
+    sessionId: sessionRef.id,
+    counted: lines.length,
+    adjusted: adjusted.length,
+    unitsOver,
+    unitsShort,
+    radiosFound: radioLines.length,
+    radiosMissing,
+    lines,
+  };
+}
+
+/** Ticks off every open assignment line for the site that this session counted. */
+async function markAssignmentsCounted(siteId: string, lines: CycleCountSummary["lines"], by: string) {
+  if (lines.length === 0) return;
+  const counted = new Map(lines.map((l) => [`${l.itemType}:${l.itemId}`, l]));
+  const open = await getDocs(
+    query(collection(db, "cycleCounts"), where("siteId", "==", siteId), where("status", "==", "open"))
+  );
+  const now = Timestamp.now();
+  for (const d of open.docs) {
+    const current: CycleCountAssignmentLine[] = d.data().lines ?? [];
+    let changed = false;
+    const next = current.map((l) => {
+      const hit = counted.get(`${l.itemType}:${l.itemId}`);
+      if (!hit) return l;
+      changed = true;
+      return { ...l, countedAt: now, countedBy: by, recorded: hit.recorded, counted: hit.counted };
+    });
+    if (!changed) continue;
+    const done = next.every((l) => l.countedAt);
+    await updateDoc(d.ref, {
+      lines: next,
+      ...(done ? { status: "completed", completedAt: serverTimestamp() } : {}),
+    });
+  }
+}
+
+/** The site's most recent weekly assignment, or null before the first one. */
+export async function loadLatestAssignment(siteId: string): Promise<CycleCountAssignment | null> {
+  const snap = await getDocs(
+    query(collection(db, "cycleCounts"), where("siteId", "==", siteId), orderBy("weekOf", "desc"), limit(1))
+  );
+  if (snap.empty) return null;
+  const d = snap.docs[0];
+  return { id: d.id, ...(d.data() as Omit<CycleCountAssignment, "id">) };
+}
+
+/**
+ * Count accuracy over the site's recent sessions. A line is exact when the
+ * counted quantity matched the recorded one; units off is the absolute
+ * variance. Items are sorted least accurate first.
+ */
+export async function loadCountAccuracy(siteId: string, sessionLimit = 100): Promise<CycleCountAccuracy> {
+  const snap = await getDocs(
+    query(
+      collection(db, "alertsLog"),
+      where("siteId", "==", siteId),
+      where("source", "==", "cycleCount"),
+      orderBy("createdAt", "desc"),
+      limit(sessionLimit)
+    )
+  );
+
+  const overall: CountAccuracy = { name: "All counts", lines: 0, exact: 0, unitsOff: 0 };
+  const counters = new Map<string, CountAccuracy>();
+  const items = new Map<string, CountAccuracy>();
+  const add = (map: Map<string, CountAccuracy>, key: string, name: string, delta: number) => {
+    const entry = map.get(key) ?? { name, lines: 0, exact: 0, unitsOff: 0 };
+    entry.lines += 1;
+    if (delta === 0) entry.exact += 1;
+    entry.unitsOff += Math.abs(delta);
+    map.set(key, entry);
+  };
+
+  snap.docs.forEach((d) => {
+    const data = d.data();
+    const by = data.by || "Unknown";
+    (data.lines ?? []).forEach((l: CycleCountSummary["lines"][number]) => {
+      const delta = Number(l.delta ?? 0);
+      overall.lines += 1;
+      if (delta === 0) overall.exact += 1;
+      overall.unitsOff += Math.abs(delta);
+      add(counters, by, by, delta);
+      add(items, `${l.itemType}:${l.itemId}`, l.itemName, delta);
+    });
+  });
+
+  const rate = (a: CountAccuracy) => (a.lines ? a.exact / a.lines : 1);
+  return {
+    sessions: snap.size,
+    overall,
+    byCounter: [...counters.values()].sort((a, b) => b.lines - a.lines),
+    byItem: [...items.values()].sort((a, b) => rate(a) - rate(b) || b.unitsOff - a.unitsOff),
+  };
+}
+
+export const accuracyPercent = (a: CountAccuracy) => (a.lines ? Math.round((a.exact / a.lines) * 100) : 100);
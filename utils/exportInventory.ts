@@ -1,9 +1,9 @@
 // utils/exportInventory.ts
 import * as FileSystem from 'expo-file-system/legacy';
-import * as Sharing from 'expo-sharing';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 
 import { db } from '../firebaseConfig';
+import { ExportFormat, shareTable } from './spreadsheet';
 
 type Item = {
   id: string;
@@ -16,7 +16,7 @@ type Item = {
   siteId?: string;
 };
 
-export async function exportInventoryToCSV(siteId: string): Promise<void> {
+export async function exportInventory(siteId: string, format: ExportFormat): Promise<void> {
   try {
     // Fetch all items for this site
     const q = query(collection(db, 'items'), where('siteId', '==', siteId));
@@ -43,56 +43,33 @@ export async function exportInventoryToCSV(siteId: string): Promise<void> {
     // Sort by name
     items.sort((a, b) => a.name.localeCompare(b.name));
 
-    // Create CSV content
+    // Quantities stay numeric so they sum and sort in Excel
     const headers = ['Name', 'Current Qty', 'Min Qty', 'Location', 'Barcode', 'Notes', 'Status'];
-    const rows = items.map((item) => {
-      const status = item.currentQuantity <= item.minQuantity ? 'Low Stock' : 'OK';
-      return [
-        escapeCSV(item.name),
-        item.currentQuantity,
-        item.minQuantity,
-        escapeCSV(item.location || ''),
-        escapeCSV(item.barcode || ''),
-        escapeCSV(item.notes || ''),
-        status,
-      ].join(',');
-    });
-
-    const csv = [headers.join(','), ...rows].join('\n');
+    const rows = items.map((item) => [
+      item.name,
+      item.currentQuantity,
+      item.minQuantity,
+      item.location || '',
+      item.barcode || '',
+      item.notes || '',
+      item.currentQuantity <= item.minQuantity ? 'Low Stock' : 'OK',
+    ]);
 
     const date = new Date().toISOString().split('T')[0];
     const siteName = siteId.replace('ballys_', '');
-    const filename = `Inventory_${siteName}_${date}.csv`;
-
-    if (!FileSystem.documentDirectory) {
-      throw new Error('Unable to access device storage.');
-    }
-
-    const fileUri = FileSystem.documentDirectory + filename;
-
-    await FileSystem.writeAsStringAsync(fileUri, csv, {
-      encoding: 'utf8',
-    });
 
-    await Sharing.shareAsync(fileUri, {
-      mimeType: 'text/csv',
-      dialogTitle: `Inventory Export - ${siteName}`,
-      UTI: 'public.comma-separated-values-text', // iOS
-    });
+    await shareTable(
+      { headers, rows, sheetName: 'Inventory' },
+      {
+        fileName: `Inventory_${siteName}_${date}`,
+        format,
+        dialogTitle: `Inventory Export - ${siteName}`,
+        directory: FileSystem.documentDirectory,
+      }
+    );
 
   } catch (error: any) {
     console.error('Export failed:', error);
     throw error;
   }
 }
-
-// Helper to escape CSV values
-function escapeCSV(value: string): string {
-  if (!value) return '';
-
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-
-  return value;
-}
\ No newline at end of file
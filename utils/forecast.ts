@@ -0,0 +1,140 @@
+// utils/forecast.ts
+// Consumption forecasting. Average daily usage comes from stock removals in
+// the movement ledgers, with alertsLog "deducted" entries covering history
+// from before the ledgers existed. From that we project how many days of
+// stock are left and suggest a min quantity that still covers the reorder
+// lead time, instead of relying on the hand-entered minQuantity.
+
+export const FORECAST_WINDOW_DAYS = 60;
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// Never average over less than a week, so one busy afternoon on a new item
+// does not look like a permanent burn rate.
+const MIN_SPAN_DAYS = 7;
+// Safety stock on top of lead-time demand, as a fraction of that demand
+const SAFETY_FACTOR = 0.5;
+// A reorder should bring stock back to min plus this many days of usage
+const REORDER_COVER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageEvent = { at: Date; qty: number };
+
+export type Forecast = {
+  avgDailyUsage: number;
+  usageInWindow: number;
+  spanDays: number;
+  // null when there is no usage in the window (stock is not going anywhere)
+  daysUntilOut: number | null;
+  // Days left before an order has to go out to arrive before stock runs out
+  orderInDays: number | null;
+  suggestedMin: number;
+  suggestedReorderQty: number;
+  leadTimeDays: number;
+};
+
+const toDate = (ts: any): Date | null => (ts?.toDate ? ts.toDate() : ts instanceof Date ? ts : null);
+
+/**
+ * Usage events from a movements subcollection. Disposals and stock shipped to
+ * another site are not consumption.
+ */
+export function usageFromMovements(
+  movements: { type?: string; delta?: number; createdAt?: any; reference?: { type?: string } }[]
+): UsageEvent[] {
+  const events: UsageEvent[] = [];
+  for (const m of movements) {
+    const at = toDate(m.createdAt);
+    const delta = Number(m.delta ?? 0);
+    if (!at || m.type !== "out" || delta >= 0 || m.reference?.type === "siteTransfer") continue;
+    events.push({ at, qty: -delta });
+  }
+  return events;
+}
+
+/**
+ * Usage events from one item's alertsLog entries (any order). Newer entries
+ * carry the movement delta; older ones only the resulting quantity, so usage
+ * is the drop from the previous entry's quantity.
+ */
+export function usageFromAlertsLog(
+  entries: { action?: string; qty?: number; delta?: number; createdAt?: any }[]
+): UsageEvent[] {
+  const sorted = entries
+    .map((e) => ({ ...e, at: toDate(e.createdAt) }))
+    .filter((e): e is typeof e & { at: Date } => e.at !== null)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const events: UsageEvent[] = [];
+  let prevQty: number | null = null;
+  for (const e of sorted) {
+    const qty = typeof e.qty === "number" ? e.qty : null;
+    if (e.action === "deducted") {
+      if (typeof e.delta === "number") {
+        if (e.delta < 0) events.push({ at: e.at, qty: -e.delta });
+      } else if (prevQty !== null && qty !== null && qty < prevQty) {
+        events.push({ at: e.at, qty: prevQty - qty });
+      }
+    }
+    if (qty !== null) prevQty = qty;
+  }
+  return events;
+}
+
+/**
+ * Projects usage forward from the events inside the window. `trackedSince`
+ * is the oldest data point we have for the item (usage or not); a shorter
+ * history averages over that span instead of the full window.
+ */
+export function computeForecast(
+  events: UsageEvent[],
+  currentQuantity: number,
+  opts: { leadTimeDays?: number; trackedSince?: Date | null; windowDays?: number; now?: Date } = {}
+): Forecast {
+  const now = opts.now ?? new Date();
+  const windowDays = opts.windowDays ?? FORECAST_WINDOW_DAYS;
+  const leadTimeDays = opts.leadTimeDays && opts.leadTimeDays > 0 ? opts.leadTimeDays : DEFAULT_LEAD_TIME_DAYS;
+  const cutoff = now.getTime() - windowDays * DAY_MS;
+
+  const inWindow = events.filter((e) => e.at.getTime() >= cutoff);
+  const usageInWindow = inWindow.reduce((sum, e) => sum + e.qty, 0);
+
+  const firstSeen = Math.min(
+    opts.trackedSince?.getTime() ?? now.getTime(),
+    ...inWindow.map((e) => e.at.getTime())
+  );
+  const trackedDays = (now.getTime() - Math.max(firstSeen, cutoff)) / DAY_MS;
+  const spanDays = Math.min(windowDays, Math.max(MIN_SPAN_DAYS, trackedDays));
+
+  const avgDailyUsage = usageInWindow / spanDays;
+  const daysUntilOut = avgDailyUsage > 0 ? Math.max(0, currentQuantity) / avgDailyUsage : null;
+  const orderInDays = daysUntilOut !== null ? daysUntilOut - leadTimeDays : null;
+
+  const suggestedMin = Math.ceil(avgDailyUsage * leadTimeDays * (1 + SAFETY_FACTOR));
+  const target = suggestedMin + Math.ceil(avgDailyUsage * REORDER_COVER_DAYS);
+  const suggestedReorderQty = Math.max(0, target - Math.max(0, currentQuantity));
+
+  return {
+    avgDailyUsage,
+    usageInWindow,
+    spanDays,
+    daysUntilOut,
+    orderInDays,
+    suggestedMin,
+    suggestedReorderQty,
+    leadTimeDays,
+  };
+}
+
+export function formatDailyUsage(avg: number): string {
+  if (avg <= 0) return "0/day";
+  if (avg < 1) return `${(avg * 7).toFixed(1)}/week`;
+  return `${avg.toFixed(1)}/day`;
+}
+
+export function formatDaysLeft(days: number | null): string {
+  if (days === null) return "No recent usage";
+  if (days < 1) return "Out today";
+  if (days > 365) return "1 year+";
+  return `${Math.floor(days)} day${Math.floor(days) === 1 ? "" : "s"}`;
+}
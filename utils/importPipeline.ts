@@ -0,0 +1,166 @@
+// utils/importPipeline.ts
+// Client side of the CSV / Excel import pipeline. Screens pick and parse the
+// file (utils/spreadsheet.ts), then hand one sheet's rows to the importRecords callable
+// (functions/importPipeline.js), which owns the per-entity schemas: a dry run
+// returns the validation report, the confirmed run commits it in chunks.
+// Toner and printer imports also suggest global catalog entries for each row
+// (functions/catalogMatch.js); confident matches are linked unless the user
+// picks another entry or none.
+// Column assignments the user confirms can be saved as named per-site
+// mapping profiles (importMappings) and are reapplied automatically when a
+// file with the same header set is imported again.
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "../firebaseConfig";
+
+export type ImportEntity =
+  | "items"
+  | "toners"
+  | "printers"
+  | "datacardPrinters"
+  | "radios"
+  | "radioParts"
+  | "pmDevices"
+  | "disposals";
+
+export type ImportIssue = {
+  row: number; // spreadsheet row, header = 1
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ImportChange = {
+  row: number;
+  id: string;
+  kind: "create" | "update";
+  name: string;
+  fields?: string[]; // changed fields (updates only)
+};
+
+export type ImportCatalogCandidate = {
+  id: string;
+  label: string;
+  detail: string;
+  score: number; // 0..1
+};
+
+export type ImportCatalogSuggestion = {
+  row: number;
+  name: string;
+  candidates: ImportCatalogCandidate[];
+  appliedId: string | null; // entry the row will be linked to
+  modelRename: { from: string; to: string } | null; // model the row will be saved under instead of its own
+};
+
+export type ImportReport = {
+  entity: ImportEntity;
+  label: string;
+  dryRun: boolean;
+  columns: Record<string, string | null>; // field key → matched CSV header
+  fields: { key: string; label: string; required: boolean }[];
+  headers: string[]; // header row as read (after any entity-specific prep)
+  sample: string[]; // first non-empty data row, for previewing columns
+  missingColumns: string[]; // required fields with no column; rows not processed
+  rowCount: number;
+  creates: number;
+  updates: number;
+  unchanged: number;
+  errorRows: number;
+  issues: ImportIssue[];
+  changes: ImportChange[]; // capped server-side
+  catalogSuggestions?: ImportCatalogSuggestion[]; // toners and printers only; capped server-side
+  committed: number;
+};
+
+// Field key → CSV header text, or null for "don't import". Fields left out
+// are auto-detected server-side.
+export type ImportMapping = Record<string, string | null>;
+
+// Spreadsheet row → catalog entry ID, or "" to link none. Rows left out get
+// the assistant's automatic pick.
+export type ImportCatalogLinks = Record<string, string>;
+
+export type ImportMappingProfile = {
+  id: string;
+  siteId: string;
+  entity: ImportEntity;
+  name: string;
+  headerKey: string;
+  headers: string[];
+  mapping: ImportMapping;
+  createdBy?: string;
+  createdAt?: any;
+  updatedAt?: any;
+  lastUsedAt?: any;
+};
+
+export async function runImport(params: {
+  entity: ImportEntity;
+  rows: string[][];
+  mapping?: ImportMapping;
+  catalogLinks?: ImportCatalogLinks;
+  dryRun: boolean;
+}): Promise<ImportReport> {
+  const call = httpsCallable<typeof params, ImportReport>(functions, "importRecords");
+  const res = await call(params);
+  return res.data;
+}
+
+/** Order-insensitive key for a header set, so re-exports with shuffled columns still match. */
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map((h) => h.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter(Boolean)
+    .sort()
+    .join("|");
+}
+
+/** Saved mapping profiles for an entity at a site, most recently used first. */
+export async function loadMappingProfiles(siteId: string, entity: ImportEntity): Promise<ImportMappingProfile[]> {
+  const snap = await getDocs(
+    query(collection(db, "importMappings"), where("siteId", "==", siteId), where("entity", "==", entity))
+  );
+  const millis = (t: any) => t?.toMillis?.() ?? 0;
+  return snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as Omit<ImportMappingProfile, "id">) }))
+    .sort((a, b) => millis(b.lastUsedAt ?? b.updatedAt) - millis(a.lastUsedAt ?? a.updatedAt));
+}
+
+/** Saves (or overwrites, by name) the mapping used for this header set. */
+export async function saveMappingProfile(params: {
+  siteId: string;
+  entity: ImportEntity;
+  name: string;
+  headers: string[];
+  mapping: ImportMapping;
+  createdBy: string;
+  existing?: ImportMappingProfile;
+}): Promise<string> {
+  const { existing, createdBy, ...rest } = params;
+  const data = {
+    ...rest,
+    headerKey: headerSignature(rest.headers),
+    updatedAt: serverTimestamp(),
+    lastUsedAt: serverTimestamp(),
+  };
+  if (existing) {
+    await updateDoc(doc(db, "importMappings", existing.id), data);
+    return existing.id;
+  }
+  const ref = await addDoc(collection(db, "importMappings"), { ...data, createdBy, createdAt: serverTimestamp() });
+  return ref.id;
+}
+
+export async function touchMappingProfile(id: string): Promise<void> {
+  await updateDoc(doc(db, "importMappings", id), { lastUsedAt: serverTimestamp() });
+}
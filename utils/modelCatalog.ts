@@ -0,0 +1,106 @@
+// utils/modelCatalog.ts
+// Global printer model and consumable catalog (catalogPrinterModels,
+// catalogConsumables). Admins manage it on /catalog; every site reads it.
+// Site printers reference a model through `catalogModelId` and toners a
+// consumable through `catalogId`, so "HP LaserJet Pro M404" at one site and
+// "HP M404n" at another are the same printer. CSV imports suggest entries
+// (functions/catalogMatch.js).
+
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { CatalogConsumable, CatalogPrinterModel } from "../types/inventory";
+
+export type CatalogKind = "printerModels" | "consumables";
+
+const COLLECTIONS: Record<CatalogKind, string> = {
+  printerModels: "catalogPrinterModels",
+  consumables: "catalogConsumables",
+};
+
+export function catalogModelName(entry: Pick<CatalogPrinterModel, "manufacturer" | "model">): string {
+  return [entry.manufacturer, entry.model].filter(Boolean).join(" ");
+}
+
+export function catalogConsumableName(entry: Pick<CatalogConsumable, "partNumber" | "description">): string {
+  return [entry.partNumber, entry.description].filter(Boolean).join(" · ");
+}
+
+/** "CF258A, 58A" → ["CF258A", "58A"], trimmed and de-duplicated. */
+export function parseAliases(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map((a) => a.trim())
+    .filter((a) => a && !seen.has(a.toLowerCase()) && seen.add(a.toLowerCase()));
+}
+
+/** Substring search over names, part numbers and aliases. */
+export function matchesCatalogSearch(entry: CatalogPrinterModel | CatalogConsumable, search: string): boolean {
+  const q = search.trim().toLowerCase();
+  if (!q) return true;
+  const names = "partNumber" in entry ? [entry.partNumber, entry.description] : [entry.model];
+  return [entry.manufacturer, ...names, ...(entry.aliases ?? [])].some((t) => t?.toLowerCase().includes(q));
+}
+
+export function subscribeCatalogPrinterModels(onChange: (models: CatalogPrinterModel[]) => void): () => void {
+  return onSnapshot(
+    collection(db, COLLECTIONS.printerModels),
+    (snap) => {
+      const models = snap.docs.map((d) => ({ id: d.id, ...d.data() } as CatalogPrinterModel));
+      onChange(models.sort((a, b) => catalogModelName(a).localeCompare(catalogModelName(b))));
+    },
+    (err) => { if (__DEV__) console.error("catalogPrinterModels onSnapshot error:", err); }
+  );
+}
+
+export function subscribeCatalogConsumables(onChange: (consumables: CatalogConsumable[]) => void): () => void {
+  return onSnapshot(
+    collection(db, COLLECTIONS.consumables),
+    (snap) => {
+      const consumables = snap.docs.map((d) => ({ id: d.id, ...d.data() } as CatalogConsumable));
+      onChange(consumables.sort((a, b) => a.partNumber.localeCompare(b.partNumber)));
+    },
+    (err) => { if (__DEV__) console.error("catalogConsumables onSnapshot error:", err); }
+  );
+}
+
+/**
+ * Creates the entry, or updates it when `id` is given. Returns its ID.
+ * Fields left undefined are omitted on create and cleared on update.
+ */
+export async function saveCatalogEntry<K extends CatalogKind>(
+  kind: K,
+  data: Omit<K extends "printerModels" ? CatalogPrinterModel : CatalogConsumable, "id" | "updatedAt" | "updatedBy">,
+  by: string,
+  id?: string
+): Promise<string> {
+  const fields = Object.entries(data);
+  if (id) {
+    await updateDoc(doc(db, COLLECTIONS[kind], id), {
+      ...Object.fromEntries(fields.map(([k, v]) => [k, v === undefined ? deleteField() : v])),
+      updatedAt: serverTimestamp(),
+      updatedBy: by,
+    });
+    return id;
+  }
+  const ref = await addDoc(collection(db, COLLECTIONS[kind]), {
+    ...Object.fromEntries(fields.filter(([, v]) => v !== undefined)),
+    updatedAt: serverTimestamp(),
+    updatedBy: by,
+  });
+  return ref.id;
+}
+
+/** Site printers and toners that point at a deleted entry keep their own fields. */
+export async function deleteCatalogEntry(kind: CatalogKind, id: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTIONS[kind], id));
+}
@@ -0,0 +1,345 @@
+// utils/outbox.ts
+// Offline outbox. Stock movements, PM checks and disposals are attempted
+// against Firestore first; if the device is offline (or the write does not
+// come back within OFFLINE_TIMEOUT_MS) the write is stored in AsyncStorage
+// and replayed later by useOutboxSync (hooks/useOutbox.ts).
+//
+// Replays are idempotent: stock movements carry a pre-generated movement id,
+// disposals a pre-generated doc id and PM records are keyed by recordId, so a
+// write that did land before the timeout is never applied twice. Removals are
+// replayed in strict mode — if the server no longer has the stock the change
+// was recorded against, the entry is parked as a conflict for review.
+// A disposal whose data has an `assetId` also closes that asset's lifecycle
+// in the same batch (utils/assets.ts).
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import {
+  applyStockMovement,
+  newMovementId,
+  StockConflictError,
+  StockMovementParams,
+  StockMovementResult,
+} from "./stockMovements";
+
+const STORAGE_OUTBOX_KEY = "nexus_outbox_v1";
+export const OFFLINE_TIMEOUT_MS = 8000;
+export const QUEUED_MESSAGE = "Saved offline. Will sync when back online.";
+
+export type OutboxStatus = "pending" | "conflict";
+
+type OutboxBase = {
+  id: string;
+  siteId: string;
+  // Human-readable summary shown in the outbox screen
+  label: string;
+  createdAt: number;
+  attempts: number;
+  status: OutboxStatus;
+  lastError: string | null;
+};
+
+export type OutboxEntry =
+  | (OutboxBase & { kind: "stockMovement"; payload: StockMovementParams })
+  | (OutboxBase & { kind: "pmRecord"; payload: { recordId: string; data: Record<string, any> } })
+  | (OutboxBase & { kind: "disposal"; payload: { disposalId: string; data: Record<string, any> } });
+
+export type OutboxKind = OutboxEntry["kind"];
+
+type NewOutboxEntry = DistributiveOmit<OutboxEntry, "id" | "createdAt" | "attempts" | "status" | "lastError">;
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type OutboxState = {
+  entries: OutboxEntry[];
+  syncing: boolean;
+  lastSyncAt: number | null;
+};
+
+export class OfflineError extends Error {
+  constructor(message = "You appear to be offline.") {
+    super(message);
+    this.name = "OfflineError";
+  }
+}
+
+// ─── Connectivity helpers ────────────────────────────────────────────────────
+
+export function isOfflineError(err: any): boolean {
+  if (err instanceof OfflineError) return true;
+  const code = String(err?.code ?? "");
+  if (code === "unavailable" || code === "deadline-exceeded" || code.endsWith("/network-request-failed")) {
+    return true;
+  }
+  return /offline|network/i.test(String(err?.message ?? ""));
+}
+
+// Firestore keeps un-acknowledged writes pending instead of failing while the
+// device is offline, so an await can hang indefinitely. Race it against a timer.
+export function withTimeout<T>(promise: Promise<T>, ms = OFFLINE_TIMEOUT_MS): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new OfflineError()), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (err) => { clearTimeout(timer); reject(err); }
+    );
+  });
+}
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+let state: OutboxState = { entries: [], syncing: false, lastSyncAt: null };
+let loaded: Promise<void> | null = null;
+let chain: Promise<unknown> = Promise.resolve();
+let replaying: Promise<number> | null = null;
+const listeners = new Set<(s: OutboxState) => void>();
+
+function setState(patch: Partial<OutboxState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l(state));
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(STORAGE_OUTBOX_KEY)
+      .then((raw) => {
+        if (raw) setState({ entries: JSON.parse(raw) as OutboxEntry[] });
+      })
+      .catch((e) => {
+        if (__DEV__) console.error("Error loading outbox:", e);
+      });
+  }
+  return loaded;
+}
+
+// Serializes read-modify-write of the persisted list.
+function mutate(fn: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+  const next = chain.then(async () => {
+    await ensureLoaded();
+    const entries = fn(state.entries);
+    setState({ entries });
+    await AsyncStorage.setItem(STORAGE_OUTBOX_KEY, JSON.stringify(entries));
+  });
+  chain = next.catch(() => {});
+  return next;
+}
+
+export function getOutboxState(): OutboxState {
+  return state;
+}
+
+export function subscribeOutbox(listener: (s: OutboxState) => void): () => void {
+  listeners.add(listener);
+  ensureLoaded().then(() => listener(state));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function newEntryId(): string {
+  return `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function enqueue(entry: NewOutboxEntry, dedupeKey?: string): Promise<void> {
+  const full = {
+    ...entry,
+    id: dedupeKey ?? newEntryId(),
+    createdAt: Date.now(),
+    attempts: 0,
+    status: "pending",
+    lastError: null,
+  } as OutboxEntry;
+  // A newer snapshot for the same key (e.g. the same PM record) replaces the older one
+  await mutate((entries) => [...entries.filter((e) => e.id !== full.id), full]);
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await mutate((entries) => entries.filter((e) => e.id !== id));
+}
+
+// ─── Runners ─────────────────────────────────────────────────────────────────
+
+async function runEntry(entry: OutboxEntry, opts: { replay: boolean; strict: boolean }) {
+  switch (entry.kind) {
+    case "stockMovement":
+      return applyStockMovement({ ...entry.payload, strict: opts.strict });
+
+    case "pmRecord": {
+      const ref = doc(db, "pmRecords", entry.payload.recordId);
+      const data = entry.payload.data;
+      const existing = await getDoc(ref);
+      const fields = [...Object.keys(data), "updatedAt"];
+      if (!existing.exists()) fields.push("createdAt");
+      await setDoc(
+        ref,
+        { ...data, updatedAt: serverTimestamp(), createdAt: serverTimestamp() },
+        { mergeFields: fields }
+      );
+      return null;
+    }
+
+    case "disposal": {
+      const { disposalId, data } = entry.payload;
+      const ref = doc(db, "disposals", disposalId);
+      // Disposals can't be updated, so re-setting one that landed before the
+      // timeout would be rejected; it's already written, so just drop the entry.
+      if (opts.replay && (await getDoc(ref)).exists()) return null;
+      const disposedAt = opts.replay ? Timestamp.fromMillis(entry.createdAt) : serverTimestamp();
+      const batch = writeBatch(db);
+      batch.set(ref, { ...data, disposedAt });
+      const assetRef = data.assetId ? doc(db, "assets", data.assetId) : null;
+      let closed = false;
+      if (assetRef && opts.replay) {
+        // A disposed asset is locked by the rules, so leave one this disposal already closed
+        const asset = (await getDoc(assetRef)).data();
+        closed = asset?.status === "disposed" && asset.disposalId === disposalId;
+      }
+      if (assetRef && !closed) {
+        // Same status change on a replay, so arrayUnion keeps history idempotent
+        batch.update(assetRef, {
+          status: "disposed",
+          disposalId,
+          disposedAt,
+          history: arrayUnion({
+            status: "disposed",
+            at: new Date(entry.createdAt).toISOString(),
+            by: data.disposedBy,
+            ...(data.reason ? { note: data.reason } : {}),
+          }),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      await batch.commit();
+      return null;
+    }
+  }
+}
+
+/**
+ * Tries the write now; if the device is offline, queues it and resolves with
+ * `queued: true`. Any other error (permissions, validation) is rethrown so the
+ * caller can surface it as before.
+ */
+async function submit(entry: NewOutboxEntry): Promise<{ queued: boolean; value: any }> {
+  const probe = { ...entry, id: "", createdAt: Date.now(), attempts: 0, status: "pending", lastError: null } as OutboxEntry;
+  try {
+    const value = await withTimeout(runEntry(probe, { replay: false, strict: false }));
+    return { queued: false, value };
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+    await enqueue(entry);
+    return { queued: true, value: null };
+  }
+}
+
+/** Stock movement with offline fallback. Resolves to null when queued. */
+export async function submitStockMovement(
+  params: StockMovementParams,
+  meta: { label: string; siteId: string }
+): Promise<StockMovementResult | null> {
+  const payload: StockMovementParams = {
+    ...params,
+    movementId: params.movementId ?? newMovementId(params.itemType, params.itemId),
+  };
+  const { queued, value } = await submit({ kind: "stockMovement", payload, ...meta });
+  return queued ? null : (value as StockMovementResult);
+}
+
+/** Disposal record with offline fallback. Resolves to true when queued. */
+export async function submitDisposal(
+  data: Record<string, any>,
+  meta: { label: string; siteId: string }
+): Promise<boolean> {
+  const disposalId = doc(collection(db, "disposals")).id;
+  const { queued } = await submit({ kind: "disposal", payload: { disposalId, data }, ...meta });
+  return queued;
+}
+
+/**
+ * Queues the latest local snapshot of a PM record. Used after a direct write
+ * from the PM screen fails offline; repeated calls for the same record keep
+ * only the newest snapshot.
+ */
+export async function queuePmRecord(
+  recordId: string,
+  data: Record<string, any>,
+  meta: { label: string; siteId: string }
+): Promise<void> {
+  await enqueue({ kind: "pmRecord", payload: { recordId, data }, ...meta }, `pm_${recordId}`);
+}
+
+/**
+ * Drops a queued PM snapshot once a later direct write has gone through.
+ * Firestore acknowledges writes in order, so the earlier offline writes
+ * have landed by then and replaying the older snapshot would only clobber
+ * newer checks.
+ */
+export async function clearQueuedPmRecord(recordId: string): Promise<void> {
+  await discardOutboxEntry(`pm_${recordId}`);
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+/**
+ * Replays pending entries oldest-first. Stops at the first offline failure;
+ * conflicts and hard failures are parked with status "conflict" and skipped.
+ * Resolves with the number of entries synced.
+ */
+export function replayOutbox(): Promise<number> {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    await ensureLoaded();
+    const pending = state.entries.filter((e) => e.status === "pending");
+    if (pending.length === 0) return 0;
+
+    setState({ syncing: true });
+    let synced = 0;
+    try {
+      for (const entry of pending) {
+        try {
+          await withTimeout(runEntry(entry, { replay: true, strict: true }));
+          await discardOutboxEntry(entry.id);
+          synced++;
+        } catch (err: any) {
+          if (isOfflineError(err)) break;
+          if (__DEV__ && !(err instanceof StockConflictError)) console.error("Outbox replay failed:", err);
+          await mutate((entries) =>
+            entries.map((e) =>
+              e.id === entry.id
+                ? { ...e, status: "conflict", attempts: e.attempts + 1, lastError: err?.message || "Failed to sync." }
+                : e
+            )
+          );
+        }
+      }
+    } finally {
+      setState({ syncing: false, lastSyncAt: Date.now() });
+      replaying = null;
+    }
+    return synced;
+  })();
+
+  return replaying;
+}
+
+/**
+ * Resolves a conflict by applying the entry anyway. Stock removals are
+ * clamped at 0 instead of rejected.
+ */
+export async function forceApplyOutboxEntry(id: string): Promise<void> {
+  await ensureLoaded();
+  const entry = state.entries.find((e) => e.id === id);
+  if (!entry) return;
+  await withTimeout(runEntry(entry, { replay: true, strict: false }));
+  await discardOutboxEntry(id);
+}
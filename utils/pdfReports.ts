@@ -0,0 +1,287 @@
+// utils/pdfReports.ts
+// Printable PDF reports for audits: the site stock report, the disposal
+// certificate and the per-device PM checklist sheet. Each one is an HTML page
+// rendered by expo-print and handed to the same expo-sharing flow as the
+// CSV/XLSX exports. Every report ends with signature lines.
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { PM_SECTIONS } from "../constants/pmSections";
+import { db } from "../firebaseConfig";
+import { StockStatus } from "../types/inventory";
+import { getStockStatus } from "./activity";
+import { toDate } from "./spreadsheet";
+
+const STATUS_COLORS: Record<StockStatus, string> = { OUT: "#dc2626", LOW: "#d97706", OK: "#16a34a" };
+const CHECK_COLORS: Record<string, string> = { OK: "#16a34a", "Repair Needed": "#dc2626", "N/A": "#6b7280" };
+
+const esc = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDay = (d: Date | null) =>
+  d ? d.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }) : "";
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function page(title: string, meta: string[], body: string, signers: string[]): string {
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8" /><title>${esc(title)}</title>
+<style>
+  @page { margin: 18mm 14mm; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; font-size: 11px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 13px; margin: 18px 0 6px; padding: 4px 8px; color: #fff; border-radius: 4px; }
+  .meta { color: #4b5563; margin: 0 0 2px; }
+  .summary { display: flex; gap: 10px; margin: 14px 0 4px; }
+  .summary div { flex: 1; border: 1px solid #d1d5db; border-radius: 6px; padding: 8px; text-align: center; }
+  .summary b { display: block; font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; background: #f3f4f6; font-size: 10px; text-transform: uppercase; letter-spacing: .3px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 5px 6px; vertical-align: top; }
+  td.num, th.num { text-align: right; }
+  .pill { font-weight: 700; }
+  .note { color: #4b5563; margin-top: 10px; }
+  .signatures { display: flex; gap: 28px; margin-top: 40px; page-break-inside: avoid; }
+  .signatures div { flex: 1; }
+  .line { border-bottom: 1px solid #111827; height: 28px; }
+  .label { color: #4b5563; font-size: 10px; margin-top: 4px; }
+</style></head>
+<body>
+  <h1>${esc(title)}</h1>
+  ${meta.map((m) => `<p class="meta">${esc(m)}</p>`).join("")}
+  ${body}
+  <div class="signatures">
+    ${signers
+      .map((s) => `<div><div class="line"></div><div class="label">${esc(s)} — signature</div><div class="line"></div><div class="label">Printed name / date</div></div>`)
+      .join("")}
+  </div>
+</body></html>`;
+}
+
+/**
+ * Renders the HTML to a PDF named `fileName`.pdf and opens the share sheet.
+ * `pageSize` is in points (Letter is 612 × 792) for layouts that must match the paper.
+ */
+export async function sharePdf(
+  html: string,
+  fileName: string,
+  dialogTitle: string,
+  pageSize?: { width: number; height: number }
+): Promise<void> {
+  const { uri } = await Print.printToFileAsync(
+    pageSize ? { html, ...pageSize, margins: { left: 0, top: 0, right: 0, bottom: 0 } } : { html }
+  );
+  const target = `${FileSystem.cacheDirectory}${fileName.replace(/[^\w.-]+/g, "_")}.pdf`;
+  await FileSystem.deleteAsync(target, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: target });
+  await Sharing.shareAsync(target, { mimeType: "application/pdf", dialogTitle, UTI: "com.adobe.pdf" });
+}
+
+// ─── Stock report ─────────────────────────────────────────────────────────
+
+type StockRow = { type: string; name: string; location: string; qty: number; min: number; status: StockStatus };
+
+// Inventory items, toners, radio parts and card printer supplies, grouped OUT → LOW → OK.
+export async function shareStockReportPdf(siteId: string, preparedBy: string): Promise<void> {
+  const sources = [
+    { name: "items", type: "Inventory", row: (d: any) => ({ name: d.name, location: d.location, qty: d.currentQuantity, min: d.minQuantity }) },
+    { name: "toners", type: "Toner", row: (d: any) => ({ name: [d.model, d.color].filter(Boolean).join(" — "), location: d.printer, qty: d.quantity, min: d.minQuantity }) },
+    { name: "radioParts", type: "Radio part", row: (d: any) => ({ name: d.name, location: d.location, qty: d.quantity, min: d.minQuantity }) },
+    { name: "cardSupplies", type: "Card supply", row: (d: any) => ({ name: d.name, location: d.location, qty: d.quantity, min: d.minQuantity }) },
+  ];
+
+  const rows: StockRow[] = [];
+  for (const source of sources) {
+    const snap = await getDocs(query(collection(db, source.name), where("siteId", "==", siteId)));
+    snap.docs.forEach((docSnap) => {
+      const r = source.row(docSnap.data());
+      const qty = Number(r.qty ?? 0);
+      const min = Number(r.min ?? 0);
+      rows.push({ type: source.type, name: r.name || "Unnamed", location: r.location || "", qty, min, status: getStockStatus(qty, min) });
+    });
+  }
+  if (rows.length === 0) throw new Error("No stock records found for this site.");
+  rows.sort((a, b) => a.name.localeCompare(b.name));
+
+  const groups: StockStatus[] = ["OUT", "LOW", "OK"];
+  const count = (status: StockStatus) => rows.filter((r) => r.status === status).length;
+
+  const body = `
+    <div class="summary">
+      <div><b>${rows.length}</b>Records</div>
+      ${groups.map((g) => `<div><b style="color:${STATUS_COLORS[g]}">${count(g)}</b>${g}</div>`).join("")}
+    </div>
+    ${groups
+      .filter((g) => count(g) > 0)
+      .map(
+        (g) => `
+      <h2 style="background:${STATUS_COLORS[g]}">${g} (${count(g)})</h2>
+      <table>
+        <tr><th>Type</th><th>Name</th><th>Location / printer</th><th class="num">Qty</th><th class="num">Min</th><th class="num">Counted</th></tr>
+        ${rows
+          .filter((r) => r.status === g)
+          .map((r) => `<tr><td>${esc(r.type)}</td><td>${esc(r.name)}</td><td>${esc(r.location)}</td><td class="num">${r.qty}</td><td class="num">${r.min}</td><td class="num"></td></tr>`)
+          .join("")}
+      </table>`
+      )
+      .join("")}
+    <p class="note">The Counted column is left blank for a physical count during the audit.</p>`;
+
+  const date = new Date();
+  const html = page(
+    "Site Stock Report",
+    [`Site: ${siteId}`, `Generated ${date.toLocaleString()} by ${preparedBy}`],
+    body,
+    ["Prepared by", "Auditor"]
+  );
+  await sharePdf(html, `Stock_Report_${siteId}_${date.toISOString().split("T")[0]}`, `Stock Report - ${siteId}`);
+}
+
+// ─── Disposal certificate ─────────────────────────────────────────────────
+
+export type DisposalCertificateRow = {
+  itemName: string;
+  model?: string;
+  quantity: number;
+  vendor?: string;
+  approxValue?: string | number;
+  totalValue?: string | number;
+  reason: string;
+  notes?: string;
+  disposedBy: string;
+  disposedAt: any;
+};
+
+/** "$1,250.00" / "150" → 1250 / 150; null when there is no usable number. */
+export function parseMoney(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value).replace(/[$,\s]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+// Line value: the recorded total, else unit value × quantity.
+export function disposalLineValue(row: DisposalCertificateRow): number | null {
+  const total = parseMoney(row.totalValue);
+  if (total != null) return total;
+  const unit = parseMoney(row.approxValue);
+  return unit != null ? unit * (row.quantity || 1) : null;
+}
+
+export async function shareDisposalCertificatePdf(params: {
+  siteId: string;
+  rows: DisposalCertificateRow[];
+  from: Date;
+  to: Date;
+  preparedBy: string;
+}): Promise<void> {
+  const { siteId, rows, from, to, preparedBy } = params;
+  if (rows.length === 0) throw new Error("No disposal records in this date range.");
+
+  const sorted = [...rows].sort((a, b) => (toDate(a.disposedAt)?.getTime() ?? 0) - (toDate(b.disposedAt)?.getTime() ?? 0));
+  const units = sorted.reduce((sum, r) => sum + (r.quantity || 0), 0);
+  const total = sorted.reduce((sum, r) => sum + (disposalLineValue(r) ?? 0), 0);
+  const unvalued = sorted.filter((r) => disposalLineValue(r) == null).length;
+
+  const body = `
+    <div class="summary">
+      <div><b>${sorted.length}</b>Records</div>
+      <div><b>${units}</b>Units</div>
+      <div><b>${money(total)}</b>Total value</div>
+    </div>
+    <table>
+      <tr><th>Date</th><th>Item</th><th>Model</th><th class="num">Qty</th><th class="num">Unit value</th><th class="num">Total value</th><th>Vendor</th><th>Reason</th><th>Disposed By</th></tr>
+      ${sorted
+        .map((r) => {
+          const unit = parseMoney(r.approxValue);
+          const line = disposalLineValue(r);
+          return `<tr>
+            <td>${esc(formatDay(toDate(r.disposedAt)))}</td>
+            <td>${esc(r.itemName)}${r.notes ? `<br/><span class="meta">${esc(r.notes)}</span>` : ""}</td>
+            <td>${esc(r.model)}</td>
+            <td class="num">${r.quantity}</td>
+            <td class="num">${unit != null ? money(unit) : ""}</td>
+            <td class="num">${line != null ? money(line) : ""}</td>
+            <td>${esc(r.vendor)}</td>
+            <td>${esc(r.reason)}</td>
+            <td>${esc(r.disposedBy)}</td>
+          </tr>`;
+        })
+        .join("")}
+      <tr><td colspan="5"><b>Total</b></td><td class="num"><b>${money(total)}</b></td><td colspan="3"></td></tr>
+    </table>
+    ${unvalued ? `<p class="note">${unvalued} record${unvalued !== 1 ? "s have" : " has"} no recorded value and ${unvalued !== 1 ? "are" : "is"} not included in the total.</p>` : ""}
+    <p class="note">I certify that the assets listed above were removed from service and disposed of on the dates shown.</p>`;
+
+  const fromDay = formatDay(from);
+  const toDay = formatDay(to);
+  const html = page(
+    "Certificate of Asset Disposal",
+    [`Site: ${siteId}`, `Period: ${fromDay} – ${toDay}`, `Generated ${new Date().toLocaleString()} by ${preparedBy}`],
+    body,
+    ["Disposed by", "Approved by"]
+  );
+  const stamp = (d: Date) => d.toISOString().split("T")[0];
+  await sharePdf(html, `Disposal_Certificate_${siteId}_${stamp(from)}_${stamp(to)}`, `Disposal Certificate - ${siteId}`);
+}
+
+// ─── PM checklist sheet ───────────────────────────────────────────────────
+
+export async function sharePmChecklistPdf(params: {
+  device: { name: string; fqdn?: string; ip?: string; os?: string; osVer?: string; type?: string; user?: string };
+  record: {
+    pmDate: string;
+    nextDue?: string;
+    tech: string;
+    dept: string;
+    assetNo: string;
+    checks: Record<string, string>;
+    bootErrors: string;
+    notes: string;
+  };
+  siteId: string;
+}): Promise<void> {
+  const { device, record, siteId } = params;
+  const info: [string, string | undefined][] = [
+    ["Device", device.name], ["FQDN", device.fqdn], ["IP", device.ip], ["OS", [device.os, device.osVer].filter(Boolean).join(" ")],
+    ["Type", device.type], ["User", device.user], ["PM date", record.pmDate], ["Tech", record.tech],
+    ["Dept", record.dept], ["Asset no", record.assetNo], ["Next PM due", record.nextDue],
+  ];
+
+  const body = `
+    <table>
+      ${Array.from({ length: Math.ceil(info.length / 2) }, (_, i) => info.slice(i * 2, i * 2 + 2))
+        .map((pair) => `<tr>${pair.map(([k, v]) => `<th style="width:15%">${esc(k)}</th><td style="width:35%">${esc(v)}</td>`).join("")}</tr>`)
+        .join("")}
+    </table>
+    ${PM_SECTIONS.map(
+      (section) => `
+      <h2 style="background:${section.color}">${esc(section.title)}</h2>
+      <table>
+        ${section.checks
+          .map((check) => {
+            const value = record.checks[check];
+            return `<tr><td>${esc(check)}</td><td class="num pill" style="width:25%;color:${CHECK_COLORS[value] ?? "#9ca3af"}">${esc(value || "—")}</td></tr>`;
+          })
+          .join("")}
+      </table>`
+    ).join("")}
+    <h2 style="background:#374151">Boot errors</h2>
+    <p>${esc(record.bootErrors) || "None recorded."}</p>
+    <h2 style="background:#374151">Notes</h2>
+    <p>${esc(record.notes) || "None."}</p>`;
+
+  const html = page(
+    "Preventive Maintenance Checklist",
+    [`Site: ${siteId}`, `Generated ${new Date().toLocaleString()}`],
+    body,
+    ["Technician", "Supervisor"]
+  );
+  await sharePdf(html, `PM_${device.name}_${record.pmDate || "undated"}`, `PM Checklist - ${device.name}`);
+}
@@ -0,0 +1,137 @@
+// utils/printerCompatibility.ts
+// Printer model → consumables (printerCompatibility, one doc per site and
+// model). A printer finds its consumables through its `model`; printers
+// linked before the table existed keep their single `tonerId` until someone
+// links consumables for their model, which moves that toner into the table.
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteField,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import {
+  CompatibleConsumable,
+  CONSUMABLE_SLOTS,
+  ConsumableSlot,
+  Printer,
+  PrinterCompatibility,
+  Toner,
+} from "../types/inventory";
+
+/** Case- and spacing-insensitive key, so "HP  M404dn" and "hp m404dn" match. */
+export function modelKey(model: string): string {
+  return model.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function compatibilityDocId(siteId: string, model: string): string {
+  return `${siteId}_${modelKey(model).replace(/[^a-z0-9]+/g, "-")}`;
+}
+
+export function slotLabel(slot: ConsumableSlot): string {
+  return CONSUMABLE_SLOTS.find((s) => s.value === slot)?.label ?? "Other";
+}
+
+/** Slot a toner most likely fills, from its color ("Black", "Cyan", …). */
+export function slotForToner(toner: { color?: string } | undefined): ConsumableSlot {
+  const color = (toner?.color || "").toLowerCase();
+  return (CONSUMABLE_SLOTS.find((s) => s.value === color)?.value ?? "other") as ConsumableSlot;
+}
+
+/**
+ * A printer's consumables, in slot order: its model's compatibility entry,
+ * or the legacy single toner link when the model has none.
+ */
+export function printerConsumables(
+  printer: Pick<Printer, "model" | "tonerId">,
+  byModel: Record<string, PrinterCompatibility>,
+  tonersById: Record<string, Pick<Toner, "color">> = {}
+): CompatibleConsumable[] {
+  const entry = printer.model ? byModel[modelKey(printer.model)] : undefined;
+  if (entry?.consumables?.length) {
+    const order = CONSUMABLE_SLOTS.map((s) => s.value);
+    return [...entry.consumables].sort((a, b) => order.indexOf(a.slot) - order.indexOf(b.slot));
+  }
+  return printer.tonerId ? [{ slot: slotForToner(tonersById[printer.tonerId]), tonerId: printer.tonerId }] : [];
+}
+
+/** Compatibility entries for a site, keyed by modelKey. */
+export function subscribeSiteCompatibility(
+  siteId: string,
+  onChange: (byModel: Record<string, PrinterCompatibility>) => void
+): () => void {
+  return onSnapshot(
+    query(collection(db, "printerCompatibility"), where("siteId", "==", siteId)),
+    (snap) => {
+      const byModel: Record<string, PrinterCompatibility> = {};
+      snap.docs.forEach((d) => {
+        const entry = { id: d.id, ...d.data() } as PrinterCompatibility;
+        byModel[entry.modelKey] = entry;
+      });
+      onChange(byModel);
+    },
+    (err) => { if (__DEV__) console.error("printerCompatibility onSnapshot error:", err); }
+  );
+}
+
+/**
+ * Adds a consumable to the printer's model. Sets the printer's model if it
+ * changed, and folds a legacy `tonerId` link into the model's list.
+ */
+export async function linkConsumable(params: {
+  printer: Pick<Printer, "id" | "siteId" | "model" | "tonerId">;
+  model: string;
+  consumable: CompatibleConsumable;
+  legacySlot?: ConsumableSlot;
+  by: string;
+}): Promise<void> {
+  const { printer, consumable, legacySlot, by } = params;
+  const model = params.model.trim();
+  if (!model) throw new Error("Enter the printer model first.");
+
+  const added: CompatibleConsumable[] = [consumable];
+  if (printer.tonerId && printer.tonerId !== consumable.tonerId) {
+    added.push({ slot: legacySlot ?? "other", tonerId: printer.tonerId });
+  }
+
+  const batch = writeBatch(db);
+  batch.set(
+    doc(db, "printerCompatibility", compatibilityDocId(printer.siteId, model)),
+    {
+      siteId: printer.siteId,
+      model,
+      modelKey: modelKey(model),
+      consumables: arrayUnion(...added),
+      updatedAt: serverTimestamp(),
+      updatedBy: by,
+    },
+    { merge: true }
+  );
+  const printerUpdate: Record<string, any> = {};
+  if (printer.model !== model) printerUpdate.model = model;
+  if (printer.tonerId) printerUpdate.tonerId = deleteField();
+  if (Object.keys(printerUpdate).length) batch.update(doc(db, "printers", printer.id), printerUpdate);
+  await batch.commit();
+}
+
+export async function unlinkConsumable(params: {
+  siteId: string;
+  model: string;
+  consumable: CompatibleConsumable;
+  by: string;
+}): Promise<void> {
+  const { siteId, model, consumable, by } = params;
+  await updateDoc(doc(db, "printerCompatibility", compatibilityDocId(siteId, model)), {
+    consumables: arrayRemove(consumable),
+    updatedAt: serverTimestamp(),
+    updatedBy: by,
+  });
+}
@@ -0,0 +1,224 @@
+// utils/printerCosts.ts
+// Per-printer toner consumption and cost per page. Toner deducted "via" a
+// printer carries a printer reference on its movement and alertsLog entry;
+// older deductions only have the "Via printer: <name>" note, which is matched
+// by name. Pages come from printerPageCounts readings (typed in, or recorded
+// daily by the printer agent). Cost uses each toner's current unitCost.
+
+import {
+  addDoc,
+  collection,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { Printer, PrinterPageCount, Toner } from "../types/inventory";
+import { MovementReference } from "./stockMovements";
+
+// How far back the printer screen looks
+export const PRINTER_COST_WINDOW_DAYS = 365;
+
+const VIA_PRINTER_PREFIX = "Via printer: ";
+
+export function printerReference(printer: Pick<Printer, "id" | "name">): MovementReference {
+  return { type: "printer", id: printer.id, label: printer.name || "Printer" };
+}
+
+/** Parses a typed price ("$89.99", "89,99"); null when blank or not a number. */
+export function parseUnitCost(text: string): number | null {
+  const cleaned = text.replace(/[$\s]/g, "").replace(",", ".");
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 100) / 100 : null;
+}
+
+export function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/** Cents per page reads better than "$0.03" for typical laser costs. */
+export function formatCostPerPage(value: number | null): string {
+  if (value == null) return "—";
+  return value < 1 ? `${(value * 100).toFixed(2)}¢/page` : `${formatCost(value)}/page`;
+}
+
+export async function recordPageCount(params: {
+  printer: Pick<Printer, "id" | "siteId">;
+  pageCount: number;
+  by: string;
+}): Promise<void> {
+  const { printer, pageCount, by } = params;
+  if (!Number.isInteger(pageCount) || pageCount < 0) throw new Error("Enter the page count as a whole number.");
+  await addDoc(collection(db, "printerPageCounts"), {
+    siteId: printer.siteId,
+    printerId: printer.id,
+    pageCount,
+    source: "manual",
+    by,
+    recordedAt: serverTimestamp(),
+  });
+}
+
+/** Toner alertsLog entries for a site, newest first. */
+export async function loadTonerLog(siteId: string, since: Date | null): Promise<any[]> {
+  const constraints: any[] = [where("siteId", "==", siteId), where("itemType", "==", "toner")];
+  if (since) constraints.push(where("createdAt", ">=", Timestamp.fromDate(since)));
+  constraints.push(orderBy("createdAt", "desc"));
+  const snap = await getDocs(query(collection(db, "alertsLog"), ...constraints));
+  return snap.docs.map((d) => ({ id: d.id, ...d.data() }));
+}
+
+/** Page count readings for a site (or one printer), oldest first. */
+export async function loadPageCounts(siteId: string, since: Date | null, printerId?: string): Promise<PrinterPageCount[]> {
+  const constraints: any[] = [where("siteId", "==", siteId)];
+  if (printerId) constraints.push(where("printerId", "==", printerId));
+  if (since) constraints.push(where("recordedAt", ">=", Timestamp.fromDate(since)));
+  constraints.push(orderBy("recordedAt", "asc"));
+  const snap = await getDocs(query(collection(db, "printerPageCounts"), ...constraints));
+  return snap.docs.map((d) => ({ id: d.id, ...d.data() } as PrinterPageCount));
+}
+
+export type PrinterTonerUse = {
+  id: string;
+  printerId: string;
+  tonerId: string;
+  tonerName: string;
+  qty: number;
+  by: string;
+  at: Date | null;
+};
+
+/**
+ * Toner taken out against a printer, newest first. Entries without a printer
+ * reference fall back to the "Via printer:" note; a name shared by two
+ * printers cannot be told apart and is skipped. The older printer-screen
+ * deductions wrote no `delta` and always took one toner.
+ */
+export function tonerUsesByPrinter(log: any[], printers: Pick<Printer, "id" | "name">[]): PrinterTonerUse[] {
+  const byName = new Map<string, string | null>();
+  for (const p of printers) byName.set(p.name, byName.has(p.name) ? null : p.id);
+
+  const uses: PrinterTonerUse[] = [];
+  for (const e of log) {
+    const delta = e.delta != null ? Number(e.delta) : e.action === "deducted" ? -1 : 0;
+    if (e.source !== "movement" || delta >= 0) continue;
+    let printerId: string | null = null;
+    if (e.reference?.type === "printer") printerId = e.reference.id;
+    else if (typeof e.note === "string" && e.note.startsWith(VIA_PRINTER_PREFIX)) {
+      printerId = byName.get(e.note.slice(VIA_PRINTER_PREFIX.length)) ?? null;
+    }
+    if (!printerId) continue;
+    uses.push({
+      id: e.id,
+      printerId,
+      tonerId: e.itemId ?? "",
+      tonerName: e.itemName ?? "Toner",
+      qty: -delta,
+      by: e.by ?? "",
+      at: e.createdAt?.toDate?.() ?? null,
+    });
+  }
+  return uses;
+}
+
+/**
+ * Pages printed across a printer's readings (oldest first). A counter that
+ * goes backwards (board swap, reset) starts a new run instead of counting
+ * negative pages. Null with fewer than two readings.
+ */
+export function pagesPrinted(readings: Pick<PrinterPageCount, "pageCount">[]): number | null {
+  if (readings.length < 2) return null;
+  let pages = 0;
+  for (let i = 1; i < readings.length; i++) {
+    const diff = readings[i].pageCount - readings[i - 1].pageCount;
+    if (diff > 0) pages += diff;
+  }
+  return pages;
+}
+
+export type PrinterCostSummary = {
+  printerId: string;
+  printerName: string;
+  tonersUsed: number;
+  tonerCost: number;
+  // Toners used whose unitCost is not set, so tonerCost is a lower bound
+  unpricedToners: number;
+  pagesPrinted: number | null;
+  costPerPage: number | null;
+};
+
+/** Toner spend per printer, most expensive first. Printers with no usage or pages are left out. */
+export function summarizePrinterCosts(
+  printers: Pick<Printer, "id" | "name">[],
+  uses: PrinterTonerUse[],
+  readings: PrinterPageCount[],
+  toners: Pick<Toner, "id" | "unitCost">[]
+): PrinterCostSummary[] {
+  const unitCost = new Map(toners.map((t) => [t.id, t.unitCost]));
+  const readingsByPrinter = new Map<string, PrinterPageCount[]>();
+  for (const r of readings) {
+    const list = readingsByPrinter.get(r.printerId) ?? [];
+    list.push(r);
+    readingsByPrinter.set(r.printerId, list);
+  }
+
+  const rows: PrinterCostSummary[] = [];
+  for (const printer of printers) {
+    const mine = uses.filter((u) => u.printerId === printer.id);
+    const pages = pagesPrinted(readingsByPrinter.get(printer.id) ?? []);
+    if (!mine.length && !pages) continue;
+    let tonerCost = 0;
+    let unpricedToners = 0;
+    for (const u of mine) {
+      const cost = unitCost.get(u.tonerId);
+      if (typeof cost === "number") tonerCost += cost * u.qty;
+      else unpricedToners += u.qty;
+    }
+    rows.push({
+      printerId: printer.id,
+      printerName: printer.name || "Printer",
+      tonersUsed: mine.reduce((sum, u) => sum + u.qty, 0),
+      tonerCost,
+      unpricedToners,
+      pagesPrinted: pages,
+      costPerPage: pages && tonerCost > 0 ? tonerCost / pages : null,
+    });
+  }
+  return rows.sort((a, b) => b.tonerCost - a.tonerCost || b.tonersUsed - a.tonersUsed);
+}
+
+/** Per-printer toner spend for a site since `since` (null = all time). */
+export async function loadSitePrinterCosts(siteId: string, since: Date | null): Promise<PrinterCostSummary[]> {
+  const [printerSnap, tonerSnap, log, readings] = await Promise.all([
+    getDocs(query(collection(db, "printers"), where("siteId", "==", siteId))),
+    getDocs(query(collection(db, "toners"), where("siteId", "==", siteId))),
+    loadTonerLog(siteId, since),
+    loadPageCounts(siteId, since),
+  ]);
+  const printers = printerSnap.docs.map((d) => ({ id: d.id, name: d.data().name || "" }));
+  const toners = tonerSnap.docs.map((d) => ({ id: d.id, unitCost: d.data().unitCost }));
+  return summarizePrinterCosts(printers, tonerUsesByPrinter(log, printers), readings, toners);
+}
+
+/** One printer's summary, its toner uses (newest first) and page readings. */
+export async function loadPrinterCosts(
+  printer: Pick<Printer, "id" | "name" | "siteId">,
+  since: Date | null
+): Promise<{ summary: PrinterCostSummary | null; uses: PrinterTonerUse[]; readings: PrinterPageCount[] }> {
+  const [printerSnap, tonerSnap, log, readings] = await Promise.all([
+    getDocs(query(collection(db, "printers"), where("siteId", "==", printer.siteId))),
+    getDocs(query(collection(db, "toners"), where("siteId", "==", printer.siteId))),
+    loadTonerLog(printer.siteId, since),
+    loadPageCounts(printer.siteId, since, printer.id),
+  ]);
+  // All of the site's printers, so a legacy note naming two printers is not pinned on this one
+  const printers = printerSnap.docs.map((d) => ({ id: d.id, name: d.data().name || "" }));
+  const toners = tonerSnap.docs.map((d) => ({ id: d.id, unitCost: d.data().unitCost }));
+  const uses = tonerUsesByPrinter(log, printers).filter((u) => u.printerId === printer.id);
+  const [summary] = summarizePrinterCosts([printer], uses, readings, toners);
+  return { summary: summary ?? null, uses, readings };
+}
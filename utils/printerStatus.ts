@@ -0,0 +1,79 @@
+// utils/printerStatus.ts
+// Live printer readings from the on-prem SNMP agent (printer-agent/), one
+// printerStatus doc per printer. The agent only writes; everything here
+// reads those docs for the badges, the printer screen and the Alerts tab.
+
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { PrinterStatus, PrinterSupplyLevel } from "../types/inventory";
+
+// Keep in step with NEARLY_EMPTY_PERCENT in functions/index.js
+export const NEARLY_EMPTY_PERCENT = 10;
+// Readings older than this are shown as stale (agent polls every ~10 min)
+export const STATUS_STALE_MS = 45 * 60 * 1000;
+
+const TONER_TYPES = ["toner", "tonerCartridge", "ink", "inkCartridge"];
+
+export const ERROR_STATE_LABELS: Record<string, string> = {
+  lowPaper: "Low paper",
+  noPaper: "Out of paper",
+  lowToner: "Low toner",
+  noToner: "Out of toner",
+  doorOpen: "Door open",
+  jammed: "Paper jam",
+  offline: "Offline",
+  serviceRequested: "Service requested",
+  inputTrayMissing: "Input tray missing",
+  outputTrayMissing: "Output tray missing",
+  markerSupplyMissing: "Supply missing",
+  outputNearFull: "Output bin nearly full",
+  outputFull: "Output bin full",
+  inputTrayEmpty: "Input tray empty",
+  overduePreventMaint: "Maintenance overdue",
+};
+
+const COLOR_CODES: Record<string, string> = { black: "K", cyan: "C", magenta: "M", yellow: "Y" };
+
+/** Toner/ink supplies that report a percentage. */
+export function tonerLevels(status: PrinterStatus | null | undefined): PrinterSupplyLevel[] {
+  return (status?.supplies ?? []).filter((s) => TONER_TYPES.includes(s.type) && s.percent != null);
+}
+
+export function nearlyEmptySupplies(status: PrinterStatus | null | undefined): PrinterSupplyLevel[] {
+  return tonerLevels(status).filter((s) => (s.percent ?? 100) <= NEARLY_EMPTY_PERCENT);
+}
+
+/** "K", "C", … for the usual colorants, else the description. */
+export function supplyShortLabel(s: PrinterSupplyLevel): string {
+  return (s.color && COLOR_CODES[s.color]) || s.color || s.description;
+}
+
+export function levelColor(percent: number | null): string {
+  if (percent == null) return "#9ca3af";
+  if (percent <= NEARLY_EMPTY_PERCENT) return "#ef4444";
+  if (percent <= 25) return "#f97316";
+  return "#22c55e";
+}
+
+/** True when the agent has not heard from the printer recently. */
+export function isStatusStale(status: PrinterStatus, now = Date.now()): boolean {
+  if (!status.reachable) return true;
+  const seen = status.lastSeenAt?.toMillis?.();
+  return seen == null || now - seen > STATUS_STALE_MS;
+}
+
+/** Live printerStatus docs for a site, keyed by printer id. */
+export function subscribeSitePrinterStatus(
+  siteId: string,
+  onChange: (byPrinter: Record<string, PrinterStatus>) => void
+): () => void {
+  return onSnapshot(
+    query(collection(db, "printerStatus"), where("siteId", "==", siteId)),
+    (snap) => {
+      const byPrinter: Record<string, PrinterStatus> = {};
+      snap.docs.forEach((d) => { byPrinter[d.id] = { id: d.id, ...d.data() } as PrinterStatus; });
+      onChange(byPrinter);
+    },
+    (err) => { if (__DEV__) console.error("printerStatus onSnapshot error:", err); }
+  );
+}
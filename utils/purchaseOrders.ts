@@ -0,0 +1,162 @@
+// utils/purchaseOrders.ts
+// Purchase orders: drafted from LOW/OUT alerts, sent to a vendor from the
+// Directory, then received line by line. Receiving runs in one transaction
+// with the stock changes so every unit received lands as an "in" movement
+// that references the PO.
+
+import {
+  addDoc,
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from "../types/inventory";
+import { stageStockMovement, stockDocRef } from "./stockMovements";
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  ordered: "Ordered",
+  partial: "Partially received",
+  received: "Received",
+};
+
+export const PO_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: "#6b7280",
+  ordered: "#3b82f6",
+  partial: "#f97316",
+  received: "#22c55e",
+};
+
+// Suggested order quantity for a LOW/OUT line: enough to get back to twice
+// the minimum, so the item does not re-alert as soon as it is restocked.
+export function suggestedOrderQty(currentQuantity: number, minQuantity: number): number {
+  return Math.max(1, minQuantity * 2 - currentQuantity);
+}
+
+function makePoNumber(): string {
+  const d = new Date();
+  const ymd = d.toISOString().split("T")[0].replace(/-/g, "");
+  const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `PO-${ymd}-${suffix}`;
+}
+
+function statusForLines(lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+  const received = lines.reduce((sum, l) => sum + l.qtyReceived, 0);
+  if (received === 0) return "ordered";
+  return lines.every((l) => l.qtyReceived >= l.qtyOrdered) ? "received" : "partial";
+}
+
+export async function createDraftPurchaseOrder(params: {
+  siteId: string;
+  vendorId: string;
+  vendorName: string;
+  lines: PurchaseOrderLine[];
+  createdBy: string;
+}): Promise<string> {
+  const ref = await addDoc(collection(db, "purchaseOrders"), {
+    poNumber: makePoNumber(),
+    siteId: params.siteId,
+    vendorId: params.vendorId,
+    vendorName: params.vendorName,
+    status: "draft" as PurchaseOrderStatus,
+    lines: params.lines,
+    notes: "",
+    createdBy: params.createdBy,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function updateDraftLines(poId: string, lines: PurchaseOrderLine[]): Promise<void> {
+  await updateDoc(doc(db, "purchaseOrders", poId), { lines, updatedAt: serverTimestamp() });
+}
+
+export async function markPurchaseOrderOrdered(poId: string): Promise<void> {
+  await updateDoc(doc(db, "purchaseOrders", poId), {
+    status: "ordered" as PurchaseOrderStatus,
+    orderedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Receives quantities against PO lines (keyed by line index). Each receipt is
+ * capped at what is still outstanding on the line, applied to stock as an
+ * "in" movement referencing the PO, and the PO status is recomputed — all in
+ * one transaction. Returns the number of units received.
+ */
+export async function receivePurchaseOrder(
+  poId: string,
+  receipts: Record<number, number>,
+  by: string
+): Promise<number> {
+  const poRef = doc(db, "purchaseOrders", poId);
+
+  return runTransaction(db, async (tx) => {
+    const poSnap = await tx.get(poRef);
+    if (!poSnap.exists()) throw new Error("This purchase order no longer exists.");
+    const po = { id: poSnap.id, ...poSnap.data() } as PurchaseOrder;
+    if (po.status === "draft") throw new Error("Mark the order as ordered before receiving.");
+    if (po.status === "received") throw new Error("This order has already been fully received.");
+
+    const lines = po.lines.map((l) => ({ ...l }));
+    const toReceive: { index: number; qty: number }[] = [];
+    for (const [key, raw] of Object.entries(receipts)) {
+      const index = Number(key);
+      const line = lines[index];
+      if (!line) continue;
+      const qty = Math.min(Math.floor(raw), line.qtyOrdered - line.qtyReceived);
+      if (qty > 0) toReceive.push({ index, qty });
+    }
+    if (toReceive.length === 0) throw new Error("Nothing left to receive on the selected lines.");
+
+    // Lines for the same item become one movement: each stock doc is read
+    // once, so separate lines would all start from the same quantity.
+    const byItem = new Map<string, { itemType: PurchaseOrderLine["itemType"]; itemId: string; qty: number }>();
+    let units = 0;
+    for (const { index, qty } of toReceive) {
+      const line = lines[index];
+      const key = `${line.itemType}/${line.itemId}`;
+      const entry = byItem.get(key) ?? { itemType: line.itemType, itemId: line.itemId, qty: 0 };
+      entry.qty += qty;
+      byItem.set(key, entry);
+      line.qtyReceived += qty;
+      units += qty;
+    }
+    const items = [...byItem.values()];
+
+    // All reads before any write
+    const snaps = await Promise.all(items.map((item) => tx.get(stockDocRef(item.itemType, item.itemId))));
+
+    items.forEach((item, i) => {
+      stageStockMovement(tx, snaps[i], {
+        itemType: item.itemType,
+        itemId: item.itemId,
+        delta: item.qty,
+        by,
+        note: `Received on ${po.poNumber} (${po.vendorName})`,
+        type: "in",
+        action: "received",
+        reference: { type: "purchaseOrder", id: po.id, label: po.poNumber },
+      });
+    });
+
+    const status = statusForLines(lines);
+    tx.update(poRef, {
+      lines,
+      status,
+      ...(status === "received" ? { receivedAt: serverTimestamp() } : {}),
+      updatedAt: serverTimestamp(),
+    });
+
+    return units;
+  });
+}
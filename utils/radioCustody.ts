@@ -0,0 +1,139 @@
+// utils/radioCustody.ts
+// Radio checkout and check-in. Each checkout is a radioCheckouts doc that
+// stays open until the radio comes back, so the collection is the custody
+// history: who had which radio, from when, until when. The radio itself
+// points at its open checkout (checkoutId) and mirrors the holder in
+// assignedTo so lists, search and exports show who has it.
+
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { Radio, RadioCheckout, RadioShift } from "../types/inventory";
+
+export type ShiftPreset = { value: RadioShift; label: string; endHour: number | null };
+
+// Shift ends in local time; a checkout is due back at the next one
+export const SHIFT_PRESETS: ShiftPreset[] = [
+  { value: "day", label: "Day (7–3)", endHour: 15 },
+  { value: "swing", label: "Swing (3–11)", endHour: 23 },
+  { value: "night", label: "Night (11–7)", endHour: 7 },
+  { value: "custom", label: "Custom", endHour: null },
+];
+
+export const SHIFT_LABELS: Record<RadioShift, string> = {
+  day: "Day",
+  swing: "Swing",
+  night: "Night",
+  custom: "Custom",
+};
+
+export function radioLabel(radio: Pick<Radio, "model" | "serialNumber">): string {
+  return [radio.model, radio.serialNumber].filter(Boolean).join(" · ") || "Radio";
+}
+
+/** Expected return for a shift checkout made at `from`; custom shifts use `hours`. */
+export function expectedReturnFor(shift: RadioShift, from = new Date(), hours = 8): Date {
+  const preset = SHIFT_PRESETS.find((p) => p.value === shift);
+  if (!preset || preset.endHour === null) return new Date(from.getTime() + hours * 60 * 60 * 1000);
+  const due = new Date(from);
+  due.setHours(preset.endHour, 0, 0, 0);
+  if (due.getTime() <= from.getTime()) due.setDate(due.getDate() + 1);
+  return due;
+}
+
+export function isOverdue(checkout: Pick<RadioCheckout, "expectedReturnAt" | "returnedAt">, now = Date.now()): boolean {
+  if (checkout.returnedAt) return false;
+  const due = checkout.expectedReturnAt?.toMillis?.();
+  return due != null && due < now;
+}
+
+export function formatCustodyTime(ts: any): string {
+  const d: Date | null = ts?.toDate?.() ?? null;
+  if (!d) return "—";
+  return d.toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+/** Opens a checkout. Fails if the radio is already out or under repair. */
+export async function checkoutRadio(params: {
+  radioId: string;
+  holder: string;
+  shift: RadioShift;
+  expectedReturnAt: Date;
+  by: string;
+  note?: string;
+}): Promise<RadioCheckout> {
+  const holder = params.holder.trim();
+  if (!holder) throw new Error("Enter who is taking the radio.");
+  const radioRef = doc(db, "radios", params.radioId);
+  const checkoutRef = doc(collection(db, "radioCheckouts"));
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(radioRef);
+    if (!snap.exists()) throw new Error("This radio no longer exists.");
+    const radio = { id: snap.id, ...snap.data() } as Radio;
+    if (radio.checkoutId) throw new Error(`${radioLabel(radio)} is already checked out to ${radio.assignedTo || "someone"}.`);
+    if (radio.repairId) throw new Error(`${radioLabel(radio)} is out for repair.`);
+
+    const checkout: Omit<RadioCheckout, "id"> = {
+      siteId: radio.siteId,
+      radioId: radio.id,
+      radioLabel: radioLabel(radio),
+      holder,
+      shift: params.shift,
+      checkedOutBy: params.by,
+      checkedOutAt: serverTimestamp(),
+      expectedReturnAt: Timestamp.fromDate(params.expectedReturnAt),
+      note: params.note?.trim() ?? "",
+      returnedAt: null,
+      returnedBy: null,
+    };
+    tx.set(checkoutRef, checkout);
+    tx.update(radioRef, { checkoutId: checkoutRef.id, assignedTo: holder });
+    return { id: checkoutRef.id, ...checkout };
+  });
+}
+
+/** Closes the radio's open checkout. */
+export async function checkinRadio(params: { radioId: string; by: string }): Promise<{ holder: string; radioLabel: string }> {
+  const radioRef = doc(db, "radios", params.radioId);
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(radioRef);
+    if (!snap.exists()) throw new Error("This radio no longer exists.");
+    const radio = { id: snap.id, ...snap.data() } as Radio;
+    if (!radio.checkoutId) throw new Error(`${radioLabel(radio)} is not checked out.`);
+
+    const checkoutRef = doc(db, "radioCheckouts", radio.checkoutId);
+    const checkoutSnap = await tx.get(checkoutRef);
+    if (checkoutSnap.exists()) {
+      tx.update(checkoutRef, {
+        returnedAt: serverTimestamp(),
+        returnedBy: params.by,
+      });
+    }
+    tx.update(radioRef, { checkoutId: null, assignedTo: "" });
+    return { holder: checkoutSnap.data()?.holder ?? radio.assignedTo ?? "", radioLabel: radioLabel(radio) };
+  });
+}
+
+/** Custody history for one radio, newest first. */
+export async function loadRadioCustody(siteId: string, radioId: string): Promise<RadioCheckout[]> {
+  const snap = await getDocs(
+    query(
+      collection(db, "radioCheckouts"),
+      where("siteId", "==", siteId),
+      where("radioId", "==", radioId),
+      orderBy("checkedOutAt", "desc")
+    )
+  );
+  return snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioCheckout));
+}
@@ -0,0 +1,229 @@
+// utils/radioRepairs.ts
+// Radio repair tickets. A ticket (radioRepairs doc) is opened when a radio
+// is reported broken: the radio points at it (repairId) and is marked Out of
+// Service until the ticket is closed as repaired or unrepairable. Parts used
+// on a ticket are taken out of radioParts through stageStockMovement in the
+// same transaction that lists them on the ticket, so stock, the movement
+// (referencing the ticket) and the ticket never disagree.
+
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { Radio, RadioCondition, RadioRepair, RadioRepairStatus } from "../types/inventory";
+import { radioLabel } from "./radioCustody";
+import { stageStockMovement, stockDocRef } from "./stockMovements";
+
+export const REPAIR_STATUS_LABELS: Record<RadioRepairStatus, string> = {
+  open: "Reported",
+  in_progress: "In progress",
+  waiting_parts: "Waiting on parts",
+  repaired: "Repaired",
+  unrepairable: "Unrepairable",
+};
+
+// Statuses a ticket can be moved between while it is open
+export const OPEN_REPAIR_STATUSES: RadioRepairStatus[] = ["open", "in_progress", "waiting_parts"];
+
+export function isRepairOpen(repair: Pick<RadioRepair, "status">): boolean {
+  return OPEN_REPAIR_STATUSES.includes(repair.status);
+}
+
+/** Time from report to close, or to `now` while the ticket is open. */
+export function repairTurnaroundMs(repair: Pick<RadioRepair, "reportedAt" | "closedAt">, now = Date.now()): number | null {
+  const start = repair.reportedAt?.toMillis?.();
+  if (start == null) return null;
+  const end = repair.closedAt?.toMillis?.() ?? now;
+  return Math.max(0, end - start);
+}
+
+export function formatTurnaround(ms: number | null): string {
+  if (ms == null) return "—";
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/** Opens a ticket and takes the radio out of service. Fails if it already has one. */
+export async function reportRadioRepair(params: {
+  radioId: string;
+  issue: string;
+  tech: string;
+  by: string;
+}): Promise<RadioRepair> {
+  const issue = params.issue.trim();
+  if (!issue) throw new Error("Describe what is wrong with the radio.");
+  const radioRef = doc(db, "radios", params.radioId);
+  const repairRef = doc(collection(db, "radioRepairs"));
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(radioRef);
+    if (!snap.exists()) throw new Error("This radio no longer exists.");
+    const radio = { id: snap.id, ...snap.data() } as Radio;
+    if (radio.repairId) throw new Error(`${radioLabel(radio)} already has an open repair ticket.`);
+
+    const repair: Omit<RadioRepair, "id"> = {
+      siteId: radio.siteId,
+      radioId: radio.id,
+      radioLabel: radioLabel(radio),
+      model: radio.model || "Unknown model",
+      issue,
+      status: "open",
+      tech: params.tech.trim(),
+      parts: [],
+      conditionBefore: radio.condition ?? null,
+      reportedBy: params.by,
+      reportedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      closedAt: null,
+      closedBy: null,
+    };
+    tx.set(repairRef, repair);
+    tx.update(radioRef, { repairId: repairRef.id, condition: "Out of Service" });
+    return { id: repairRef.id, ...repair };
+  });
+}
+
+/** Moves an open ticket between open statuses and/or reassigns the tech. */
+export async function updateRadioRepair(
+  repairId: string,
+  changes: { status?: RadioRepairStatus; tech?: string }
+): Promise<void> {
+  if (changes.status && !OPEN_REPAIR_STATUSES.includes(changes.status)) {
+    throw new Error("Close the ticket to mark it repaired or unrepairable.");
+  }
+  await updateDoc(doc(db, "radioRepairs", repairId), {
+    ...(changes.status ? { status: changes.status } : {}),
+    ...(changes.tech !== undefined ? { tech: changes.tech.trim() } : {}),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Takes `qty` of a radio part out of stock for a ticket and lists it on the
+ * ticket. Strict: fails rather than recording more than is on hand.
+ */
+export async function consumeRepairPart(params: {
+  repairId: string;
+  partId: string;
+  qty: number;
+  by: string;
+}): Promise<{ name: string; newQuantity: number }> {
+  const qty = Math.floor(params.qty);
+  if (!(qty > 0)) throw new Error("Enter how many were used.");
+  const repairRef = doc(db, "radioRepairs", params.repairId);
+
+  return runTransaction(db, async (tx) => {
+    const repairSnap = await tx.get(repairRef);
+    const partSnap = await tx.get(stockDocRef("radioPart", params.partId));
+    if (!repairSnap.exists()) throw new Error("This repair ticket no longer exists.");
+    const repair = { id: repairSnap.id, ...repairSnap.data() } as RadioRepair;
+    if (!isRepairOpen(repair)) throw new Error("This repair ticket is closed.");
+
+    const result = stageStockMovement(tx, partSnap, {
+      itemType: "radioPart",
+      itemId: params.partId,
+      delta: -qty,
+      by: params.by,
+      type: "out",
+      strict: true,
+      note: `Repair: ${repair.radioLabel}`,
+      reference: { type: "radioRepair", id: repair.id, label: `Repair · ${repair.radioLabel}` },
+    });
+    tx.update(repairRef, {
+      parts: [
+        ...(repair.parts ?? []),
+        { partId: params.partId, name: result.itemName, qty: -result.delta, movementId: result.movementId, by: params.by },
+      ],
+      updatedAt: serverTimestamp(),
+    });
+    return { name: result.itemName, newQuantity: result.newQuantity };
+  });
+}
+
+/**
+ * Closes a ticket and returns the radio to service with `condition`. An
+ * unrepairable radio stays Out of Service.
+ */
+export async function closeRadioRepair(params: {
+  repairId: string;
+  outcome: "repaired" | "unrepairable";
+  condition: RadioCondition;
+  resolution: string;
+  by: string;
+}): Promise<void> {
+  const repairRef = doc(db, "radioRepairs", params.repairId);
+
+  await runTransaction(db, async (tx) => {
+    const repairSnap = await tx.get(repairRef);
+    if (!repairSnap.exists()) throw new Error("This repair ticket no longer exists.");
+    const repair = { id: repairSnap.id, ...repairSnap.data() } as RadioRepair;
+    if (!isRepairOpen(repair)) throw new Error("This repair ticket is already closed.");
+    const radioRef = doc(db, "radios", repair.radioId);
+    const radioSnap = await tx.get(radioRef);
+
+    const condition: RadioCondition = params.outcome === "unrepairable" ? "Out of Service" : params.condition;
+    tx.update(repairRef, {
+      status: params.outcome,
+      resolution: params.resolution.trim(),
+      closedAt: serverTimestamp(),
+      closedBy: params.by,
+      updatedAt: serverTimestamp(),
+    });
+    if (radioSnap.exists() && radioSnap.data()?.repairId === repair.id) {
+      tx.update(radioRef, { repairId: null, condition });
+    }
+  });
+}
+
+/** Tickets for a site reported since `since` (all of them without one), newest first. */
+export async function loadSiteRepairs(siteId: string, since: Date | null): Promise<RadioRepair[]> {
+  const constraints: any[] = [where("siteId", "==", siteId)];
+  if (since) constraints.push(where("reportedAt", ">=", Timestamp.fromDate(since)));
+  constraints.push(orderBy("reportedAt", "desc"));
+  const snap = await getDocs(query(collection(db, "radioRepairs"), ...constraints));
+  return snap.docs.map((d) => ({ id: d.id, ...d.data() } as RadioRepair));
+}
+
+export type RepairModelTotals = {
+  model: string;
+  tickets: number;
+  open: number;
+  repaired: number;
+  unrepairable: number;
+  partsUsed: number;
+  // Mean report-to-close time of closed tickets, null if none are closed
+  avgTurnaroundMs: number | null;
+};
+
+/** Ticket totals per radio model, most tickets first. */
+export function summarizeRepairsByModel(repairs: RadioRepair[]): RepairModelTotals[] {
+  const byModel = new Map<string, RepairModelTotals & { closedMs: number; closed: number }>();
+  for (const r of repairs) {
+    const model = r.model || "Unknown model";
+    const row = byModel.get(model) ?? {
+      model, tickets: 0, open: 0, repaired: 0, unrepairable: 0, partsUsed: 0, avgTurnaroundMs: null, closedMs: 0, closed: 0,
+    };
+    row.tickets += 1;
+    if (isRepairOpen(r)) row.open += 1;
+    if (r.status === "repaired") row.repaired += 1;
+    if (r.status === "unrepairable") row.unrepairable += 1;
+    row.partsUsed += (r.parts ?? []).reduce((sum, p) => sum + (p.qty || 0), 0);
+    const turnaround = r.closedAt ? repairTurnaroundMs(r) : null;
+    if (turnaround != null) { row.closedMs += turnaround; row.closed += 1; }
+    byModel.set(model, row);
+  }
+  return [...byModel.values()]
+    .map(({ closedMs, closed, ...row }) => ({ ...row, avgTurnaroundMs: closed ? closedMs / closed : null }))
+    .sort((a, b) => b.tickets - a.tickets || a.model.localeCompare(b.model));
+}
@@ -0,0 +1,357 @@
+// utils/siteBackup.ts
+// Full-site archive: every site-scoped collection (with the stock movement
+// subcollections) as a versioned bundle, shared as one JSON file or a ZIP
+// with a manifest and one JSON file per collection. Restore is admin-only and
+// writes into a site that has no data yet — the same siteId to recover it,
+// or a new one to clone it (document ids are remapped so the copy never
+// collides with the original). An interrupted restore can be re-run.
+
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import {
+  collection,
+  doc,
+  GeoPoint,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import * as XLSX from "xlsx";
+import { db } from "../firebaseConfig";
+
+export const BACKUP_FORMAT = "nexus-site-backup";
+export const BACKUP_VERSION = 1;
+
+// `movements` marks collections whose per-record movement trail is included;
+// `siteFields` names the fields that tie a doc to a site (default siteId).
+export const BACKUP_COLLECTIONS: { name: string; label: string; movements?: boolean; siteFields?: string[] }[] = [
+  { name: "items", label: "Inventory items", movements: true },
+  { name: "toners", label: "Toners", movements: true },
+  { name: "printers", label: "Printers" },
+  { name: "printerPageCounts", label: "Printer page counts" },
+  { name: "printerCompatibility", label: "Printer compatibility" },
+  { name: "datacardPrinters", label: "Data card printers" },
+  { name: "cardSupplies", label: "Card printer supplies", movements: true },
+  { name: "radios", label: "Radios" },
+  { name: "radioCheckouts", label: "Radio checkouts" },
+  { name: "radioRepairs", label: "Radio repairs" },
+  { name: "radioParts", label: "Radio parts", movements: true },
+  { name: "pmDevices", label: "PM devices" },
+  { name: "pmRecords", label: "PM records" },
+  { name: "assets", label: "Assets" },
+  { name: "contracts", label: "Contracts & warranties" },
+  { name: "disposals", label: "Disposals" },
+  { name: "contacts", label: "Contacts" },
+  { name: "vendors", label: "Vendors" },
+  { name: "purchaseOrders", label: "Purchase orders" },
+  { name: "siteTransfers", label: "Site transfers", siteFields: ["fromSiteId", "toSiteId"] },
+  { name: "cycleCounts", label: "Cycle counts" },
+  { name: "importMappings", label: "Import mappings" },
+  { name: "lincolnTechs", label: "Lincoln techs" },
+  { name: "alertsLog", label: "Activity log" },
+];
+
+const BATCH_SIZE = 400;
+
+// Every doc of one backed-up collection that belongs to `siteId`
+async function loadSiteDocs(name: string, siteFields: string[], siteId: string) {
+  const snaps = await Promise.all(
+    siteFields.map((field) => getDocs(query(collection(db, name), where(field, "==", siteId))))
+  );
+  const docs = new Map(snaps.flatMap((snap) => snap.docs).map((d) => [d.id, d]));
+  return [...docs.values()];
+}
+const MANIFEST_FILE = "manifest.json";
+
+export type BackupFormat = "json" | "zip";
+
+export type BackupDoc = {
+  id: string;
+  data: Record<string, any>;
+  movements?: BackupDoc[];
+};
+
+export type SiteBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  siteId: string;
+  site: Record<string, any> | null; // sites/{siteId} doc, if any
+  exportedAt: string;
+  exportedBy: string;
+  counts: Record<string, number>; // collection → docs (+ "<name>.movements")
+  collections: Record<string, BackupDoc[]>;
+};
+
+// ─── Encoding ─────────────────────────────────────────────────────────────
+
+// Firestore values that JSON can't hold are tagged so restore can rebuild them.
+function encodeValue(value: any): any {
+  if (value instanceof Timestamp) return { __type: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds };
+  if (value instanceof GeoPoint) return { __type: "geopoint", latitude: value.latitude, longitude: value.longitude };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = encodeValue(v);
+    return out;
+  }
+  return value;
+}
+
+// Decodes tagged values and rewrites ids / the siteId for the target site.
+function decodeValue(value: any, remap: (s: string) => string): any {
+  if (typeof value === "string") return remap(value);
+  if (Array.isArray(value)) return value.map((v) => decodeValue(v, remap));
+  if (value && typeof value === "object") {
+    if (value.__type === "timestamp") return new Timestamp(value.seconds, value.nanoseconds);
+    if (value.__type === "geopoint") return new GeoPoint(value.latitude, value.longitude);
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = decodeValue(v, remap);
+    return out;
+  }
+  return value;
+}
+
+// JSON text ↔ bytes for the ZIP entries (no TextEncoder/TextDecoder on every RN runtime).
+function utf8Bytes(text: string): Uint8Array {
+  const bin = unescape(encodeURIComponent(text));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+function utf8Text(bytes: ArrayLike<number>): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...Array.prototype.slice.call(bytes, i, i + 0x8000));
+  }
+  return decodeURIComponent(escape(bin));
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────
+
+export async function buildSiteBackup(siteId: string, exportedBy: string): Promise<SiteBackup> {
+  const siteSnap = await getDoc(doc(db, "sites", siteId));
+  const collections: Record<string, BackupDoc[]> = {};
+  const counts: Record<string, number> = {};
+
+  for (const { name, movements, siteFields = ["siteId"] } of BACKUP_COLLECTIONS) {
+    const siteDocs = await loadSiteDocs(name, siteFields, siteId);
+    const docs: BackupDoc[] = siteDocs.map((d) => ({ id: d.id, data: encodeValue(d.data()) }));
+
+    if (movements) {
+      let movementCount = 0;
+      for (const entry of docs) {
+        const mSnap = await getDocs(collection(db, name, entry.id, "movements"));
+        if (mSnap.empty) continue;
+        entry.movements = mSnap.docs.map((m) => ({ id: m.id, data: encodeValue(m.data()) }));
+        movementCount += mSnap.size;
+      }
+      counts[`${name}.movements`] = movementCount;
+    }
+
+    collections[name] = docs;
+    counts[name] = docs.length;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    siteId,
+    site: siteSnap.exists() ? encodeValue(siteSnap.data()) : null,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    counts,
+    collections,
+  };
+}
+
+function backupToZip(backup: SiteBackup): string {
+  const { collections, ...manifest } = backup;
+  const zip = XLSX.CFB.utils.cfb_new({ fileType: "zip" });
+  XLSX.CFB.utils.cfb_add(zip, MANIFEST_FILE, utf8Bytes(JSON.stringify(manifest, null, 2)));
+  for (const [name, docs] of Object.entries(collections)) {
+    XLSX.CFB.utils.cfb_add(zip, `${name}.json`, utf8Bytes(JSON.stringify(docs)));
+  }
+  return XLSX.CFB.write(zip, { fileType: "zip", type: "base64", compression: true });
+}
+
+/** Builds the site archive, writes it and opens the share sheet. Returns the counts. */
+export async function shareSiteBackup(siteId: string, exportedBy: string, format: BackupFormat): Promise<Record<string, number>> {
+  if (!FileSystem.documentDirectory) throw new Error("Unable to access device storage.");
+  const backup = await buildSiteBackup(siteId, exportedBy);
+  const date = backup.exportedAt.split("T")[0];
+  const uri = `${FileSystem.documentDirectory}SiteBackup_${siteId}_${date}.${format}`;
+
+  if (format === "zip") {
+    await FileSystem.writeAsStringAsync(uri, backupToZip(backup), { encoding: FileSystem.EncodingType.Base64 });
+    await Sharing.shareAsync(uri, { mimeType: "application/zip", dialogTitle: `Site Backup - ${siteId}`, UTI: "public.zip-archive" });
+  } else {
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(backup), { encoding: FileSystem.EncodingType.UTF8 });
+    await Sharing.shareAsync(uri, { mimeType: "application/json", dialogTitle: `Site Backup - ${siteId}`, UTI: "public.json" });
+  }
+  return backup.counts;
+}
+
+// ─── Restore ──────────────────────────────────────────────────────────────
+
+function checkBackup(parsed: any): SiteBackup {
+  if (parsed?.format !== BACKUP_FORMAT || !parsed.siteId || !parsed.collections) {
+    throw new Error("This file is not a site backup.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Update the app and try again.");
+  }
+  return parsed as SiteBackup;
+}
+
+function readZip(base64: string): SiteBackup {
+  const zip = XLSX.CFB.read(base64, { type: "base64" });
+  const files = new Map<string, ArrayLike<number>>();
+  zip.FileIndex.forEach((entry: any) => {
+    if (entry.type === 2 && entry.content) files.set(entry.name, entry.content);
+  });
+  const manifest = files.get(MANIFEST_FILE);
+  if (!manifest) throw new Error("This ZIP has no backup manifest.");
+  const backup = checkBackup({ ...JSON.parse(utf8Text(manifest)), collections: {} });
+  for (const { name } of BACKUP_COLLECTIONS) {
+    const content = files.get(`${name}.json`);
+    backup.collections[name] = content ? JSON.parse(utf8Text(content)) : [];
+  }
+  return backup;
+}
+
+/** Opens the document picker for a .json or .zip site backup. Null if cancelled. */
+export async function pickSiteBackup(): Promise<SiteBackup | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "application/zip", "application/x-zip-compressed", "application/octet-stream"],
+  });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  if (/\.zip$/i.test(asset.name) || /zip/.test(asset.mimeType ?? "")) {
+    const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+    return readZip(base64);
+  }
+  const content = await FileSystem.readAsStringAsync(asset.uri);
+  try {
+    return checkBackup(JSON.parse(content));
+  } catch (err) {
+    if (err instanceof SyntaxError) throw new Error("This file is not a site backup.");
+    throw err;
+  }
+}
+
+/** Paths ("name/id", "name/id/movements/id") of every backed-up doc `siteId` already holds. */
+async function findSiteDocs(siteId: string): Promise<Set<string>> {
+  const found = new Set<string>();
+  for (const { name, movements, siteFields = ["siteId"] } of BACKUP_COLLECTIONS) {
+    for (const d of await loadSiteDocs(name, siteFields, siteId)) {
+      found.add(`${name}/${d.id}`);
+      if (!movements) continue;
+      const mSnap = await getDocs(collection(db, name, d.id, "movements"));
+      mSnap.docs.forEach((m) => found.add(`${name}/${d.id}/movements/${m.id}`));
+    }
+  }
+  return found;
+}
+
+export function isValidSiteId(siteId: string): boolean {
+  return /^[a-z0-9_-]{3,64}$/i.test(siteId);
+}
+
+/**
+ * Writes the backup into `targetSiteId`, which must hold no data. Restoring
+ * into the original siteId keeps every document id; restoring into another
+ * one rewrites "<siteId>…" ids onto the new site and prefixes every other
+ * id with it, then updates any field that pointed at an old id.
+ *
+ * Ids are derived, never random, so a restore that stopped partway can be
+ * run again with the same backup: docs it already wrote are skipped (movement
+ * and activity log entries can't be overwritten), and only data that isn't
+ * part of this backup blocks the target.
+ */
+export async function restoreSiteBackup(
+  backup: SiteBackup,
+  targetSiteId: string,
+  onProgress?: (written: number, total: number) => void
+): Promise<Record<string, number>> {
+  if (!isValidSiteId(targetSiteId)) throw new Error("Site IDs use letters, numbers, _ or - (3–64 characters).");
+
+  const source = backup.siteId;
+  const cloning = source !== targetSiteId;
+  const idMap = new Map<string, string>();
+  const mapId = (name: string, id: string) => {
+    if (!cloning) return id;
+    let next: string;
+    if (name === "pmRecords" && id.startsWith(`${source}_`)) {
+      // Keyed "<siteId>_<deviceId>": follow the device onto its new id too
+      // (pmDevices are planned first, so the map already holds it).
+      const deviceId = id.slice(source.length + 1);
+      next = `${targetSiteId}_${idMap.get(deviceId) ?? deviceId}`;
+    } else {
+      next = id.startsWith(source) ? targetSiteId + id.slice(source.length) : `${targetSiteId}_${id}`;
+    }
+    idMap.set(id, next);
+    return next;
+  };
+
+  // Plan every write first so references can be remapped in one pass.
+  const plan: { path: string[]; data: Record<string, any> }[] = [];
+  const counts: Record<string, number> = {};
+  for (const { name } of BACKUP_COLLECTIONS) {
+    let movementCount = 0;
+    for (const entry of backup.collections[name] ?? []) {
+      const id = mapId(name, entry.id);
+      plan.push({ path: [name, id], data: entry.data });
+      for (const m of entry.movements ?? []) {
+        plan.push({ path: [name, id, "movements", mapId(`${name}/${id}/movements`, m.id)], data: m.data });
+        movementCount++;
+      }
+    }
+    counts[name] = backup.collections[name]?.length ?? 0;
+    if (movementCount) counts[`${name}.movements`] = movementCount;
+  }
+
+  const existing = await findSiteDocs(targetSiteId);
+  const planned = new Set(plan.map(({ path }) => path.join("/")));
+  const foreign = new Set([...existing].filter((p) => !planned.has(p)).map((p) => p.split("/")[0]));
+  if (foreign.size) {
+    const labels = BACKUP_COLLECTIONS.filter(({ name }) => foreign.has(name)).map(({ label }) => label);
+    throw new Error(`Site "${targetSiteId}" already has data (${labels.join(", ")}). Restore only into an empty site.`);
+  }
+  const pending = plan.filter(({ path }) => !existing.has(path.join("/")));
+
+  const remap = (s: string) => (s === source ? targetSiteId : idMap.get(s) ?? s);
+
+  const siteRef = doc(db, "sites", targetSiteId);
+  if (backup.site && !(await getDoc(siteRef)).exists()) {
+    await setDoc(siteRef, decodeValue(backup.site, remap));
+  }
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const { path, data } of pending.slice(i, i + BATCH_SIZE)) {
+      const [first, ...rest] = path;
+      batch.set(doc(db, first, ...rest), decodeValue(data, remap));
+    }
+    await batch.commit();
+    onProgress?.(Math.min(i + BATCH_SIZE, pending.length), pending.length);
+  }
+
+  return counts;
+}
+
+/** "123 items, 4 toners, …" for confirmations. */
+export function describeCounts(counts: Record<string, number>): string {
+  return BACKUP_COLLECTIONS
+    .filter(({ name }) => (counts[name] ?? 0) > 0)
+    .map(({ name, label }) => {
+      const movements = counts[`${name}.movements`];
+      return `${label}: ${counts[name]}${movements ? ` (+${movements} movements)` : ""}`;
+    })
+    .join("\n");
+}
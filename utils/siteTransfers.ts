@@ -0,0 +1,244 @@
+// utils/siteTransfers.ts
+// Inter-site stock transfers. Each side only ever writes its own site's
+// stock: the source site ships (decrementing its record), the destination
+// site receives (incrementing its record, matched by barcode or part number,
+// or created if it has none). Both movements reference the siteTransfers doc,
+// which both sites can read, so the trail is linked on both sides.
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { SITES } from "../hooks/useSiteContext";
+import { SiteTransfer, SiteTransferItem, SiteTransferStatus } from "../types/inventory";
+import { MovementReference, stageStockMovement, STOCK_SOURCES, StockItemType, stockDocRef } from "./stockMovements";
+
+export const TRANSFER_STATUS_LABELS: Record<SiteTransferStatus, string> = {
+  requested: "Requested",
+  shipped: "Shipped",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const TRANSFER_STATUS_COLORS: Record<SiteTransferStatus, string> = {
+  requested: "#3b82f6",
+  shipped: "#f97316",
+  received: "#22c55e",
+  cancelled: "#6b7280",
+};
+
+export function siteLabel(siteId: string): string {
+  return SITES.find((s) => s.id === siteId)?.label ?? siteId;
+}
+
+function transferReference(t: Pick<SiteTransfer, "id" | "fromSiteId" | "toSiteId">): MovementReference {
+  return { type: "siteTransfer", id: t.id, label: `${siteLabel(t.fromSiteId)} → ${siteLabel(t.toSiteId)}` };
+}
+
+function describeStock(itemType: StockItemType, data: any): SiteTransferItem {
+  const item: SiteTransferItem = { name: STOCK_SOURCES[itemType].getName(data) };
+  if (data.barcode) item.barcode = String(data.barcode).trim();
+  if (data.partNumber) item.partNumber = String(data.partNumber).trim();
+  if (itemType === "toner" && data.color) item.color = data.color;
+  if (itemType === "radioPart" && data.compatibleModel) item.compatibleModel = data.compatibleModel;
+  if (itemType === "cardSupply") {
+    item.kind = data.kind || "other";
+    if (data.ribbonType) item.ribbonType = data.ribbonType;
+  }
+  return item;
+}
+
+/** Finds the stock record at `siteId` for a transferred item: barcode first, then part number. */
+export async function findMatchingStock(
+  itemType: StockItemType,
+  siteId: string,
+  item: SiteTransferItem
+): Promise<string | null> {
+  const ref = collection(db, STOCK_SOURCES[itemType].collection);
+  for (const field of ["barcode", "partNumber"] as const) {
+    const value = item[field];
+    if (!value) continue;
+    const snap = await getDocs(query(ref, where("siteId", "==", siteId), where(field, "==", value), limit(1)));
+    if (!snap.empty) return snap.docs[0].id;
+  }
+  return null;
+}
+
+// New, empty record at the destination shaped like the add forms write it
+function destinationStockData(t: SiteTransfer): Record<string, any> {
+  const { item } = t;
+  const common = {
+    barcode: item.barcode ?? "",
+    notes: `Received from ${siteLabel(t.fromSiteId)}`,
+    minQuantity: 0,
+    siteId: t.toSiteId,
+    createdAt: serverTimestamp(),
+  };
+  switch (t.itemType) {
+    case "toner":
+      return { ...common, model: item.name, color: item.color ?? "Black", quantity: 0, partNumber: item.partNumber ?? "" };
+    case "radioPart":
+      return { ...common, name: item.name, compatibleModel: item.compatibleModel ?? "", quantity: 0, location: "" };
+    case "cardSupply":
+      return {
+        ...common,
+        name: item.name,
+        kind: item.kind ?? "other",
+        ribbonType: item.ribbonType ?? "",
+        partNumber: item.partNumber ?? "",
+        quantity: 0,
+        location: "",
+      };
+    case "inventory":
+      return { ...common, name: item.name, currentQuantity: 0, location: "" };
+  }
+}
+
+/**
+ * Opens a transfer for one of my site's records: "send" offers it to another
+ * site, "request" asks another site for more of it.
+ */
+export async function createSiteTransfer(params: {
+  direction: "send" | "request";
+  itemType: StockItemType;
+  itemId: string;
+  mySiteId: string;
+  otherSiteId: string;
+  qty: number;
+  note?: string;
+  by: string;
+}): Promise<string> {
+  const { direction, itemType, itemId, mySiteId, otherSiteId, by } = params;
+  const qty = Math.floor(params.qty);
+  if (!(qty > 0)) throw new Error("Enter a quantity.");
+  if (otherSiteId === mySiteId) throw new Error("Pick a different site.");
+
+  const snap = await getDoc(stockDocRef(itemType, itemId));
+  if (!snap.exists()) throw new Error("This item no longer exists.");
+
+  const ref = await addDoc(collection(db, "siteTransfers"), {
+    fromSiteId: direction === "send" ? mySiteId : otherSiteId,
+    toSiteId: direction === "send" ? otherSiteId : mySiteId,
+    itemType,
+    item: describeStock(itemType, snap.data()),
+    qty,
+    status: "requested" as SiteTransferStatus,
+    note: params.note?.trim() || "",
+    sourceItemId: direction === "send" ? itemId : null,
+    destItemId: direction === "request" ? itemId : null,
+    requestedBy: by,
+    requestedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+async function loadTransfer(transferId: string): Promise<SiteTransfer> {
+  const snap = await getDoc(doc(db, "siteTransfers", transferId));
+  if (!snap.exists()) throw new Error("This transfer no longer exists.");
+  return { id: snap.id, ...snap.data() } as SiteTransfer;
+}
+
+/**
+ * Source site: takes the quantity out of stock (strict — fails rather than
+ * shipping more than is on hand) and marks the transfer shipped.
+ */
+export async function shipSiteTransfer(transferId: string, by: string): Promise<void> {
+  const t = await loadTransfer(transferId);
+  if (t.status !== "requested") throw new Error("Only requested transfers can be shipped.");
+
+  const sourceItemId = t.sourceItemId || (await findMatchingStock(t.itemType, t.fromSiteId, t.item));
+  if (!sourceItemId) {
+    throw new Error(`No matching record at ${siteLabel(t.fromSiteId)} (by barcode or part number).`);
+  }
+
+  const transferRef = doc(db, "siteTransfers", transferId);
+  await runTransaction(db, async (tx) => {
+    const current = await tx.get(transferRef);
+    if (current.data()?.status !== "requested") throw new Error("This transfer was already updated.");
+    const stockSnap = await tx.get(stockDocRef(t.itemType, sourceItemId));
+
+    const result = stageStockMovement(tx, stockSnap, {
+      itemType: t.itemType,
+      itemId: sourceItemId,
+      delta: -t.qty,
+      by,
+      note: `Shipped to ${siteLabel(t.toSiteId)}`,
+      type: "out",
+      action: "shipped",
+      strict: true,
+      reference: transferReference(t),
+    });
+
+    tx.update(transferRef, {
+      status: "shipped" as SiteTransferStatus,
+      sourceItemId,
+      item: { ...t.item, ...describeStock(t.itemType, stockSnap.data()) },
+      shipMovementId: result.movementId,
+      shippedBy: by,
+      shippedAt: serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Destination site: adds the quantity to the matching record (creating one
+ * if needed) and marks the transfer received.
+ */
+export async function receiveSiteTransfer(transferId: string, by: string): Promise<void> {
+  const t = await loadTransfer(transferId);
+  if (t.status !== "shipped") throw new Error("Only shipped transfers can be received.");
+
+  const transferRef = doc(db, "siteTransfers", transferId);
+  const matchedId = t.destItemId || (await findMatchingStock(t.itemType, t.toSiteId, t.item));
+  // With no match the record is added inside the transaction, so a failed
+  // receive never leaves an empty one behind
+  const destId = matchedId ?? doc(collection(db, STOCK_SOURCES[t.itemType].collection)).id;
+
+  await runTransaction(db, async (tx) => {
+    const current = await tx.get(transferRef);
+    if (current.data()?.status !== "shipped") throw new Error("This transfer was already updated.");
+    const stockSnap = await tx.get(stockDocRef(t.itemType, destId));
+
+    const result = stageStockMovement(tx, stockSnap, {
+      itemType: t.itemType,
+      itemId: destId,
+      delta: t.qty,
+      by,
+      note: `Received from ${siteLabel(t.fromSiteId)}`,
+      type: "in",
+      action: "received",
+      reference: transferReference(t),
+    }, matchedId ? undefined : destinationStockData(t));
+
+    tx.update(transferRef, {
+      status: "received" as SiteTransferStatus,
+      destItemId: destId,
+      receiveMovementId: result.movementId,
+      receivedBy: by,
+      receivedAt: serverTimestamp(),
+    });
+  });
+}
+
+export async function cancelSiteTransfer(transferId: string, by: string): Promise<void> {
+  const transferRef = doc(db, "siteTransfers", transferId);
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(transferRef);
+    if (!snap.exists()) throw new Error("This transfer no longer exists.");
+    if (snap.data().status !== "requested") throw new Error("Only requested transfers can be cancelled.");
+    tx.update(transferRef, {
+      status: "cancelled" as SiteTransferStatus,
+      cancelledBy: by,
+      cancelledAt: serverTimestamp(),
+    });
+  });
+}
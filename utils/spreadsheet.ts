@@ -0,0 +1,190 @@
+// utils/spreadsheet.ts
+// Shared spreadsheet I/O. Imports read CSV or Excel workbooks into plain
+// string rows (one entry per sheet) for the import pipeline; exports take a
+// typed table and share it as CSV or as .xlsx with real number/date cells.
+
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import { Alert } from "react-native";
+import * as XLSX from "xlsx";
+import { parseCSV } from "./csvHelpers";
+
+export type ExportFormat = "csv" | "xlsx";
+export type SheetCell = string | number | Date | null | undefined;
+
+export type SheetRows = { name: string; rows: string[][] };
+
+export type ExportTable = {
+  headers: string[];
+  rows: SheetCell[][];
+  sheetName?: string; // defaults to "Sheet1"; Excel caps names at 31 chars
+};
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const SPREADSHEET_TYPES = [
+  "text/csv",
+  "text/comma-separated-values",
+  "text/plain",
+  XLSX_MIME,
+  "application/vnd.ms-excel",
+];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Firestore Timestamp, Date, date string or millis → Date (null if unusable). */
+export function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value.toDate === "function") return value.toDate();
+  // Date-only strings ("2026-03-16") are calendar days, not UTC midnight
+  const day = typeof value === "string" && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (day) return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function formatDateCell(d: Date): string {
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  if (d.getHours() === 0 && d.getMinutes() === 0 && d.getSeconds() === 0) return date;
+  return `${date} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// Excel keeps dates as serial numbers; decode those by their number format
+// and trim float noise (0.1 + 0.2) so the pipeline sees what the user typed.
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v == null) return "";
+  switch (cell.t) {
+    case "n": {
+      const v = cell.v as number;
+      if (cell.z && XLSX.SSF.is_date(cell.z)) {
+        const p = XLSX.SSF.parse_date_code(v);
+        const date = `${p.y}-${pad(p.m)}-${pad(p.d)}`;
+        return p.H || p.M ? `${date} ${pad(p.H)}:${pad(p.M)}` : date;
+      }
+      return String(Number(v.toPrecision(15)));
+    }
+    case "d":
+      return formatDateCell(cell.v as Date);
+    case "b":
+      return cell.v ? "TRUE" : "FALSE";
+    case "e":
+      return "";
+    default:
+      return String(cell.v).trim();
+  }
+}
+
+function sheetRows(ws: XLSX.WorkSheet): string[][] {
+  if (!ws["!ref"]) return [];
+  const range = XLSX.utils.decode_range(ws["!ref"]);
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(ws[XLSX.utils.encode_cell({ r, c })]));
+    }
+    while (row.length && row[row.length - 1] === "") row.pop();
+    if (row.length) rows.push(row);
+  }
+  return rows;
+}
+
+/** Every sheet in a workbook (base64), as string rows. Empty sheets are kept so names line up. */
+export function readWorkbook(base64: string): SheetRows[] {
+  const wb = XLSX.read(base64, { type: "base64", cellNF: true });
+  return wb.SheetNames.map((name) => ({ name, rows: sheetRows(wb.Sheets[name]) }));
+}
+
+const isWorkbook = (asset: { name?: string; mimeType?: string | null }) =>
+  /\.(xlsx|xlsm|xls)$/i.test(asset.name ?? "") || /spreadsheetml|ms-excel/.test(asset.mimeType ?? "");
+
+/**
+ * Opens the document picker for a CSV or Excel file. CSVs come back as a
+ * single sheet named after the file. Null if cancelled.
+ */
+export async function pickSpreadsheet(): Promise<{ fileName: string; sheets: SheetRows[] } | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: SPREADSHEET_TYPES });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  if (isWorkbook(asset)) {
+    const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+    return { fileName: asset.name, sheets: readWorkbook(base64) };
+  }
+  const content = await FileSystem.readAsStringAsync(asset.uri);
+  return { fileName: asset.name, sheets: [{ name: asset.name.replace(/\.[^.]+$/, ""), rows: parseCSV(content) }] };
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────
+
+/** Asks CSV or Excel. Resolves null when cancelled. */
+export function chooseExportFormat(title = "Export"): Promise<ExportFormat | null> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      title,
+      "Choose a file format.",
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(null) },
+        { text: "CSV", onPress: () => resolve("csv") },
+        { text: "Excel (.xlsx)", onPress: () => resolve("xlsx") },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
+
+function csvCell(value: SheetCell): string {
+  if (value == null) return "";
+  const text = value instanceof Date ? formatDateCell(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function tableToCSV(table: ExportTable): string {
+  return [table.headers, ...table.rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+function tableToXLSX(table: ExportTable): string {
+  const aoa = [table.headers, ...table.rows.map((row) => row.map((v) => (v == null ? "" : v)))];
+  const ws = XLSX.utils.aoa_to_sheet(aoa, { cellDates: true, dateNF: "yyyy-mm-dd hh:mm" });
+  // Calendar days (no time part) get a date-only format
+  table.rows.forEach((row, r) =>
+    row.forEach((v, c) => {
+      if (v instanceof Date && !v.getHours() && !v.getMinutes() && !v.getSeconds()) {
+        const cell = ws[XLSX.utils.encode_cell({ r: r + 1, c })];
+        if (cell) cell.z = "yyyy-mm-dd";
+      }
+    })
+  );
+  ws["!cols"] = table.headers.map((h, c) => {
+    const longest = table.rows.reduce((max, row) => {
+      const v = row[c];
+      const len = v instanceof Date ? 16 : String(v ?? "").length;
+      return Math.max(max, len);
+    }, h.length);
+    return { wch: Math.min(Math.max(longest + 2, 8), 60) };
+  });
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, (table.sheetName || "Sheet1").slice(0, 31));
+  return XLSX.write(wb, { type: "base64", bookType: "xlsx" });
+}
+
+/**
+ * Writes the table as CSV or .xlsx and opens the share sheet.
+ * `fileName` has no extension; one is added for the format.
+ */
+export async function shareTable(
+  table: ExportTable,
+  { fileName, format, dialogTitle, directory = FileSystem.cacheDirectory }:
+    { fileName: string; format: ExportFormat; dialogTitle: string; directory?: string | null }
+): Promise<void> {
+  if (!directory) throw new Error("Unable to access device storage.");
+  const uri = `${directory}${fileName}.${format}`;
+  if (format === "xlsx") {
+    await FileSystem.writeAsStringAsync(uri, tableToXLSX(table), { encoding: FileSystem.EncodingType.Base64 });
+    await Sharing.shareAsync(uri, { mimeType: XLSX_MIME, dialogTitle, UTI: "org.openxmlformats.spreadsheetml.sheet" });
+  } else {
+    await FileSystem.writeAsStringAsync(uri, tableToCSV(table), { encoding: FileSystem.EncodingType.UTF8 });
+    await Sharing.shareAsync(uri, { mimeType: "text/csv", dialogTitle, UTI: "public.comma-separated-values-text" });
+  }
+}
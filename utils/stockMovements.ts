@@ -0,0 +1,406 @@
+// utils/stockMovements.ts
+// Shared stock-movement service. Every quantity change on a stocked thing
+// (inventory item, toner, radio part, data card supply) goes through
+// applyStockMovement (or stageStockMovement inside a larger transaction) so
+// the read-modify-write, the movement record and the alertsLog entry land in
+// a single Firestore transaction. Two techs pulling the same item at once are
+// serialized by Firestore instead of silently overwriting each other.
+
+import {
+  collection,
+  doc,
+  DocumentSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Transaction,
+} from "firebase/firestore";
+import { db } from "../firebaseConfig";
+import { StockStatus } from "../types/inventory";
+import { getStockStatus } from "./activity";
+
+export type StockItemType = "inventory" | "toner" | "radioPart" | "cardSupply";
+export type MovementType = "in" | "out" | "disposal" | "transfer" | "count";
+
+// What caused a movement, for the audit trail (e.g. the PO a receipt belongs
+// to, the inter-site transfer that shipped / received the stock, the
+// cycle count session whose alertsLog summary it belongs to, the radio
+// repair ticket a part was used on, or the printer a toner went into)
+export type MovementReference = {
+  type: "purchaseOrder" | "siteTransfer" | "cycleCount" | "radioRepair" | "printer";
+  id: string;
+  label: string;
+};
+
+type StockSource = {
+  collection: string;
+  qtyField: string;
+  getName: (data: any) => string;
+};
+
+// Where each stocked thing lives and which field holds its on-hand count.
+// Every source carries an append-only `movements` subcollection.
+export const STOCK_SOURCES: Record<StockItemType, StockSource> = {
+  inventory: { collection: "items", qtyField: "currentQuantity", getName: (d) => d.name || "Unnamed item" },
+  toner: { collection: "toners", qtyField: "quantity", getName: (d) => d.model || "Unknown toner" },
+  radioPart: { collection: "radioParts", qtyField: "quantity", getName: (d) => d.name || "Unnamed part" },
+  cardSupply: { collection: "cardSupplies", qtyField: "quantity", getName: (d) => d.name || "Unnamed supply" },
+};
+
+// Bucket for stock that was never assigned a location (e.g. toners, which
+// have no location field, or items with a blank location)
+export const UNASSIGNED_LOCATION = "Unassigned";
+
+export type LocationStock = Record<string, number>;
+
+export function defaultLocation(data: any): string {
+  return (typeof data?.location === "string" && data.location.trim()) || UNASSIGNED_LOCATION;
+}
+
+/**
+ * Adds (positive delta) to `location`, or removes from it first and then from
+ * the other locations, largest first. Empty locations are dropped.
+ */
+export function shiftLocationStock(buckets: LocationStock, delta: number, location: string): LocationStock {
+  const next: LocationStock = { ...buckets };
+  if (delta >= 0) {
+    next[location] = (next[location] ?? 0) + delta;
+  } else {
+    let remaining = -delta;
+    const order = [location, ...Object.keys(next).filter((k) => k !== location).sort((a, b) => next[b] - next[a])];
+    for (const key of order) {
+      if (remaining <= 0) break;
+      const take = Math.min(remaining, next[key] ?? 0);
+      next[key] = (next[key] ?? 0) - take;
+      remaining -= take;
+    }
+  }
+  for (const key of Object.keys(next)) {
+    if (next[key] <= 0) delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Per-location quantities for a stock doc. The stored total (currentQuantity
+ * / quantity) stays the source of truth: docs that predate locations, or
+ * whose total was changed by a writer that does not know about them (CSV
+ * import, the add-item forms), are reconciled by putting the difference on
+ * the default location.
+ */
+export function getLocationStock(data: any, itemType: StockItemType): LocationStock {
+  const total = Math.max(0, Number(data?.[STOCK_SOURCES[itemType].qtyField] ?? 0));
+  const buckets: LocationStock = {};
+  if (data?.locations && typeof data.locations === "object") {
+    for (const [key, value] of Object.entries(data.locations)) {
+      const qty = Number(value);
+      if (key.trim() && qty > 0) buckets[key] = qty;
+    }
+  }
+  const sum = Object.values(buckets).reduce((a, b) => a + b, 0);
+  return sum === total ? buckets : shiftLocationStock(buckets, total - sum, defaultLocation(data));
+}
+
+export type StockMovementResult = {
+  itemId: string;
+  itemName: string;
+  siteId: string;
+  previousQuantity: number;
+  newQuantity: number;
+  delta: number;
+  prevState: StockStatus;
+  nextState: StockStatus;
+  movementId: string;
+  // true when movementId was already on the server (outbox replay after a
+  // write that actually landed) and nothing was changed this time
+  alreadyApplied?: boolean;
+};
+
+// Thrown in strict mode when the server no longer has the stock the change
+// was recorded against. The outbox keeps these for a human to resolve.
+export class StockConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockConflictError";
+  }
+}
+
+export type StockMovementParams = {
+  itemType: StockItemType;
+  itemId: string;
+  delta: number;
+  by: string;
+  note?: string | null;
+  type?: MovementType;
+  // alertsLog action — defaults to "deducted" / "added" from the sign of delta
+  action?: string;
+  // Pre-generated movement doc id; makes the write idempotent so a queued
+  // movement can be replayed safely (see utils/outbox.ts)
+  movementId?: string;
+  // Reject (instead of clamping) removals larger than the current stock
+  strict?: boolean;
+  // Disposal record fields written atomically with the movement.
+  // itemId, siteId, quantity and disposedAt are filled in here.
+  disposal?: Record<string, any>;
+  reference?: MovementReference;
+  // Leave out the per-movement alertsLog entry because the caller logs one
+  // summary for the whole batch (cycle counts)
+  skipActivityLog?: boolean;
+  // Location the stock is taken from / put into. Without one, additions go to
+  // the default location and removals drain it first, then the others.
+  location?: string | null;
+};
+
+export function newMovementId(itemType: StockItemType, itemId: string): string {
+  return doc(collection(db, STOCK_SOURCES[itemType].collection, itemId, "movements")).id;
+}
+
+export function stockDocRef(itemType: StockItemType, itemId: string) {
+  return doc(db, STOCK_SOURCES[itemType].collection, itemId);
+}
+
+/**
+ * Stages the writes for one movement inside a caller-owned transaction.
+ *
+ * `snap` must be the stock doc read through the same transaction (Firestore
+ * requires every read before the first write), so callers that move several
+ * things at once read them all first and then stage each one. Clamps the
+ * result at 0; in strict mode a removal larger than the stock throws
+ * StockConflictError instead.
+ *
+ * `create` is the data for a record this same transaction adds (its `snap`
+ * reads as missing): the record is written with the movement applied.
+ */
+export function stageStockMovement(
+  tx: Transaction,
+  snap: DocumentSnapshot,
+  params: StockMovementParams,
+  create?: Record<string, any>
+): StockMovementResult {
+  const { itemType, itemId, delta, by, note, strict, disposal, reference, skipActivityLog } = params;
+  const location = params.location?.trim() || null;
+  const source = STOCK_SOURCES[itemType];
+  if (!snap.exists() && !create) {
+    if (strict) throw new StockConflictError("This item no longer exists.");
+    throw new Error("This item no longer exists.");
+  }
+
+  const data = (create ?? snap.data()) as any;
+  const siteId: string = data.siteId || "";
+  const itemName = source.getName(data);
+  const previousQuantity = Number(data[source.qtyField] ?? 0);
+  const minQuantity = Number(data.minQuantity ?? 0);
+  const buckets = getLocationStock(data, itemType);
+  const available = location ? buckets[location] ?? 0 : previousQuantity;
+  if (strict && delta < 0 && available + delta < 0) {
+    throw new StockConflictError(
+      location
+        ? `Only ${available} left at ${location}, cannot remove ${-delta}.`
+        : `Only ${previousQuantity} left on hand, cannot remove ${-delta}.`
+    );
+  }
+  if (delta < 0 && available <= 0) {
+    throw new Error(location ? `No stock left at ${location}.` : "Stock is already 0.");
+  }
+
+  const applied = delta < 0 ? -Math.min(-delta, available) : delta;
+  const newQuantity = previousQuantity + applied;
+  const prevState = getStockStatus(previousQuantity, minQuantity);
+  const nextState = getStockStatus(newQuantity, minQuantity);
+  const isLowStock = newQuantity <= minQuantity;
+  const type: MovementType = params.type ?? (applied < 0 ? "out" : "in");
+  const action = params.action ?? (applied < 0 ? "deducted" : "added");
+  const movementRef = doc(
+    collection(db, source.collection, itemId, "movements"),
+    params.movementId ?? newMovementId(itemType, itemId)
+  );
+
+  const update: Record<string, any> = {
+    [source.qtyField]: newQuantity,
+    locations: shiftLocationStock(buckets, applied, location ?? defaultLocation(data)),
+    updatedAt: serverTimestamp(),
+  };
+  if (itemType === "inventory") {
+    update.isLowStock = isLowStock;
+    update.lowStockAt = isLowStock ? serverTimestamp() : null;
+  }
+  if (type === "count") update.lastCountedAt = serverTimestamp();
+  if (create) tx.set(snap.ref, { ...create, ...update });
+  else tx.update(snap.ref, update);
+
+  tx.set(movementRef, {
+    type,
+    delta: applied,
+    previousQuantity,
+    newQuantity,
+    by,
+    note: note || null,
+    isLowStock,
+    siteId,
+    ...(location ? { location } : {}),
+    ...(reference ? { reference } : {}),
+    createdAt: serverTimestamp(),
+  });
+
+  if (!skipActivityLog) {
+    tx.set(doc(collection(db, "alertsLog")), {
+      createdAt: serverTimestamp(),
+      siteId,
+      itemId,
+      itemName,
+      action,
+      qty: newQuantity,
+      delta: applied,
+      min: minQuantity,
+      prevState,
+      nextState,
+      status: nextState,
+      itemType,
+      by,
+      note: note || null,
+      ...(reference ? { reference } : {}),
+      source: "movement",
+    });
+  }
+
+  if (disposal) {
+    tx.set(doc(db, "disposals", movementRef.id), {
+      ...disposal,
+      itemId,
+      siteId,
+      quantity: -applied,
+      disposedAt: serverTimestamp(),
+    });
+  }
+
+  return {
+    itemId,
+    itemName,
+    siteId,
+    previousQuantity,
+    newQuantity,
+    delta: applied,
+    prevState,
+    nextState,
+    movementId: movementRef.id,
+  };
+}
+
+/**
+ * Applies a quantity change inside a Firestore transaction.
+ *
+ * Reads the current quantity from the server (not local state), then stages
+ * the stock update, movement and alertsLog entry via stageStockMovement.
+ * With a pre-generated movementId the call is idempotent: if that movement
+ * already exists nothing is written and the stored result is returned.
+ */
+export async function applyStockMovement(params: StockMovementParams): Promise<StockMovementResult> {
+  const { itemType, itemId } = params;
+  const source = STOCK_SOURCES[itemType];
+  const ref = stockDocRef(itemType, itemId);
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+
+    if (params.movementId && snap.exists()) {
+      const existing = await tx.get(doc(db, source.collection, itemId, "movements", params.movementId));
+      if (existing.exists()) {
+        const data = snap.data() as any;
+        const m = existing.data() as any;
+        const min = Number(data.minQuantity ?? 0);
+        return {
+          itemId,
+          itemName: source.getName(data),
+          siteId: data.siteId || "",
+          previousQuantity: m.previousQuantity ?? 0,
+          newQuantity: m.newQuantity ?? 0,
+          delta: m.delta ?? 0,
+          prevState: getStockStatus(m.previousQuantity ?? 0, min),
+          nextState: getStockStatus(m.newQuantity ?? 0, min),
+          movementId: params.movementId,
+          alreadyApplied: true,
+        };
+      }
+    }
+
+    return stageStockMovement(tx, snap, params);
+  });
+}
+
+/**
+ * Moves stock between two locations of the same item. The total does not
+ * change; the move is recorded as a "transfer" movement (delta 0) and an
+ * alertsLog entry with action "transferred".
+ */
+export async function applyLocationTransfer(params: {
+  itemType: StockItemType;
+  itemId: string;
+  fromLocation: string;
+  toLocation: string;
+  qty: number;
+  by: string;
+  note?: string | null;
+}): Promise<void> {
+  const { itemType, itemId, by } = params;
+  const fromLocation = params.fromLocation.trim();
+  const toLocation = params.toLocation.trim();
+  const qty = Math.floor(params.qty);
+  if (!fromLocation || !toLocation) throw new Error("Choose both locations.");
+  if (fromLocation === toLocation) throw new Error("Pick two different locations.");
+  if (!(qty > 0)) throw new Error("Enter a quantity to move.");
+
+  const source = STOCK_SOURCES[itemType];
+  const ref = stockDocRef(itemType, itemId);
+
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) throw new Error("This item no longer exists.");
+
+    const data = snap.data() as any;
+    const siteId: string = data.siteId || "";
+    const total = Number(data[source.qtyField] ?? 0);
+    const minQuantity = Number(data.minQuantity ?? 0);
+    const state = getStockStatus(total, minQuantity);
+    const buckets = getLocationStock(data, itemType);
+    const available = buckets[fromLocation] ?? 0;
+    if (qty > available) throw new Error(`Only ${available} at ${fromLocation}.`);
+
+    const locations = shiftLocationStock(shiftLocationStock(buckets, -qty, fromLocation), qty, toLocation);
+    const note = params.note?.trim() || null;
+    const summary = `${qty} moved ${fromLocation} → ${toLocation}`;
+
+    tx.update(ref, { locations, updatedAt: serverTimestamp() });
+
+    tx.set(doc(collection(db, source.collection, itemId, "movements")), {
+      type: "transfer" as MovementType,
+      delta: 0,
+      quantity: qty,
+      fromLocation,
+      toLocation,
+      previousQuantity: total,
+      newQuantity: total,
+      by,
+      note,
+      isLowStock: total <= minQuantity,
+      siteId,
+      createdAt: serverTimestamp(),
+    });
+
+    tx.set(doc(collection(db, "alertsLog")), {
+      createdAt: serverTimestamp(),
+      siteId,
+      itemId,
+      itemName: source.getName(data),
+      action: "transferred",
+      qty: total,
+      delta: 0,
+      min: minQuantity,
+      prevState: state,
+      nextState: state,
+      status: state,
+      itemType,
+      by,
+      note: note ? `${summary} (${note})` : summary,
+      source: "movement",
+    });
+  });
+}